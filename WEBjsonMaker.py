@@ -2,6 +2,7 @@ import tkinter as tk
 from tkinter import filedialog, messagebox
 import tomllib
 import json
+from datetime import date
 
 class PluginConfigGenerator:
     def __init__(self, root):
@@ -180,6 +181,7 @@ class PluginConfigGenerator:
                 "downloads": 0,
                 "keywords": [k.strip() for k in gui_data["keywords"].split(",") if k.strip()],
                 "repository": gui_data["repository"],
+                "registeredAt": date.today().isoformat(),
                 "versions": [{
                     "version": gui_data["latestVersion"],
                     "pluginApi": gui_data["pluginApi"],
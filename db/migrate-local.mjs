@@ -0,0 +1,45 @@
+/**
+ * db/migrate-local.mjs
+ *
+ * Applies db/migrations to local D1 state with the same runner the deployed
+ * workers use (db/migrate.ts). wrangler bundles db/migrate-worker.ts and runs
+ * it in workerd against the database bound in db/wrangler.migrate.toml.
+ *
+ * Usage:
+ *   node db/migrate-local.mjs [--persist-to .wrangler/state]
+ */
+
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { unstable_dev } from "wrangler";
+
+const { values } = parseArgs({
+  options: {
+    "persist-to": { type: "string", default: ".wrangler/state" },
+  },
+});
+
+const worker = await unstable_dev(fileURLToPath(new URL("./migrate-worker.ts", import.meta.url)), {
+  config: fileURLToPath(new URL("./wrangler.migrate.toml", import.meta.url)),
+  persistTo: values["persist-to"],
+  logLevel: "error",
+  experimental: { disableExperimentalWarning: true },
+});
+
+try {
+  const response = await worker.fetch("/");
+  const result = await response.json();
+
+  if (!response.ok) {
+    console.error(`Migration failed: ${result.error}`);
+    process.exitCode = 1;
+  } else if (result.applied.length === 0) {
+    console.log(`Schema is up to date (version ${result.version})`);
+  } else {
+    for (const migration of result.applied) {
+      console.log(`Applied migration ${migration.version} (${migration.name})`);
+    }
+  }
+} finally {
+  await worker.stop();
+}
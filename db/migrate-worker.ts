@@ -0,0 +1,18 @@
+/**
+ * db/migrate-worker.ts
+ *
+ * Minimal Worker used by db/migrate-local.mjs to run the shared migration
+ * runner against local D1 state inside workerd.
+ */
+
+import { applyMigrations } from "./migrate";
+
+export default {
+  async fetch(_request: Request, env: { STATS_DB: D1Database }): Promise<Response> {
+    try {
+      return Response.json(await applyMigrations(env.STATS_DB));
+    } catch (error) {
+      return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+  },
+};
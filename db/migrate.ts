@@ -0,0 +1,156 @@
+/**
+ * db/migrate.ts
+ *
+ * Versioned schema migrations for the D1 stats database, shared by the stats
+ * API, the stats collector and the local `db:init` script.
+ *
+ * Applied versions are recorded in `schema_migrations`. Each pending migration
+ * runs in a single D1 batch together with its bookkeeping row, so a failing
+ * migration leaves neither partial schema changes nor a recorded version.
+ */
+
+import { MIGRATIONS } from "./migrations";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Migration {
+  /** Ordering key, matching the NNNN prefix of the file name */
+  version: number;
+  name: string;
+  /** Up script; statements are separated by semicolons */
+  sql: string;
+}
+
+export interface MigrationResult {
+  /** Migrations applied by this call, in order */
+  applied: Array<{ version: number; name: string }>;
+  /** Highest applied version after this call */
+  version: number;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** SQLite has no ADD COLUMN IF NOT EXISTS, so these statements are checked first. */
+const ADD_COLUMN_PATTERN = /^ALTER\s+TABLE\s+(\w+)\s+ADD\s+(?:COLUMN\s+)?(\w+)/i;
+
+/**
+ * Splits an up script into statements, dropping comment-only fragments.
+ * Comments must therefore not contain semicolons.
+ */
+export function splitStatements(sql: string): string[] {
+  return sql
+    .split(";")
+    .map((statement) => statement.trim())
+    .filter((statement) =>
+      statement.split("\n").some((line) => {
+        const trimmed = line.trim();
+
+        return trimmed.length > 0 && !trimmed.startsWith("--");
+      }),
+    );
+}
+
+/** Removes leading comment lines so statements can be matched by keyword. */
+function stripLeadingComments(statement: string): string {
+  return statement.replace(/^(\s*--[^\n]*\n)+/, "").trim();
+}
+
+/**
+ * Drops ADD COLUMN statements for columns that already exist.
+ * Databases upgraded by the collector's old ad hoc schema code already have
+ * some of these columns, and would otherwise fail on adoption.
+ */
+async function pendingStatements(db: D1Database, migration: Migration): Promise<string[]> {
+  const columnsByTable = new Map<string, Set<string>>();
+  const statements: string[] = [];
+
+  for (const statement of splitStatements(migration.sql)) {
+    const match = ADD_COLUMN_PATTERN.exec(stripLeadingComments(statement));
+
+    if (match) {
+      const [, table, column] = match;
+      let columns = columnsByTable.get(table);
+
+      if (!columns) {
+        const info = await db.prepare(`PRAGMA table_info(${table})`).all<{ name: string }>();
+
+        columns = new Set(info.results.map((row) => row.name));
+        columnsByTable.set(table, columns);
+      }
+
+      if (columns.has(column)) {
+        continue;
+      }
+    }
+
+    statements.push(statement);
+  }
+
+  return statements;
+}
+
+async function appliedVersions(db: D1Database): Promise<Set<number>> {
+  const rows = await db.prepare("SELECT version FROM schema_migrations").all<{ version: number }>();
+
+  return new Set(rows.results.map((row) => row.version));
+}
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+/**
+ * Applies every migration not yet recorded in schema_migrations, in version order.
+ *
+ * Safe to call on every run: when the schema is current it costs one query
+ * after the bookkeeping table exists. If another worker applies the same
+ * migration concurrently, the losing batch rolls back and is skipped.
+ */
+export async function applyMigrations(db: D1Database, migrations: Migration[] = MIGRATIONS): Promise<MigrationResult> {
+  await db
+    .prepare(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at INTEGER NOT NULL
+      )`,
+    )
+    .run();
+
+  const applied = await appliedVersions(db);
+  const result: MigrationResult = { applied: [], version: Math.max(0, ...applied) };
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((migration) => !applied.has(migration.version));
+
+  for (const migration of pending) {
+    const statements = await pendingStatements(db, migration);
+
+    try {
+      await db.batch([
+        ...statements.map((statement) => db.prepare(statement)),
+        db
+          .prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)")
+          .bind(migration.version, migration.name, Date.now()),
+      ]);
+    } catch (error) {
+      if ((await appliedVersions(db)).has(migration.version)) {
+        result.version = Math.max(result.version, migration.version);
+        continue;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+    }
+
+    result.applied.push({ version: migration.version, name: migration.name });
+    result.version = Math.max(result.version, migration.version);
+  }
+
+  return result;
+}
@@ -0,0 +1,22 @@
+/**
+ * db/migrations/0002_release_assets.ts
+ *
+ * Per-asset state for rolling releases.
+ *
+ * Lets the collector compute true deltas for releases like nightly even when
+ * old assets are deleted. Older collectors created this table on demand.
+ */
+
+export default `
+CREATE TABLE IF NOT EXISTS release_assets (
+    asset_id INTEGER PRIMARY KEY,      -- GitHub asset ID
+    release_id INTEGER NOT NULL,       -- FK to releases.id
+    name TEXT NOT NULL,
+    last_download_count INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER,                -- GitHub asset creation timestamp
+    first_seen INTEGER NOT NULL,       -- Unix timestamp when the asset was first tracked
+    last_seen INTEGER NOT NULL         -- Unix timestamp of last observation
+);
+
+CREATE INDEX IF NOT EXISTS idx_release_assets_release_id ON release_assets(release_id);
+`;
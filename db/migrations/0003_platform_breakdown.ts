@@ -0,0 +1,43 @@
+/**
+ * db/migrations/0003_platform_breakdown.ts
+ *
+ * Per-platform download breakdown.
+ */
+
+export default `
+-- Asset classification
+ALTER TABLE release_assets ADD COLUMN platform TEXT;      -- Grouping key, e.g. "windows-x64-cuda12.8-portable"
+ALTER TABLE release_assets ADD COLUMN os TEXT;            -- windows | linux | macos | source | unknown
+ALTER TABLE release_assets ADD COLUMN arch TEXT;          -- x64 | arm64 | unknown
+ALTER TABLE release_assets ADD COLUMN cuda_version TEXT;  -- e.g. "12.8", NULL for CPU/source builds
+ALTER TABLE release_assets ADD COLUMN variant TEXT;       -- portable | installer
+
+-- Per-platform daily snapshots (cumulative count per release and platform)
+CREATE TABLE IF NOT EXISTS platform_downloads_daily (
+    date INTEGER NOT NULL,             -- Unix timestamp (start of day UTC)
+    release_id INTEGER NOT NULL,       -- FK to releases.id
+    platform TEXT NOT NULL,            -- release_assets.platform key
+    count INTEGER NOT NULL,
+    PRIMARY KEY (date, release_id, platform)
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_daily_release_platform ON platform_downloads_daily(release_id, platform, date);
+
+-- Per-platform weekly aggregates (delta)
+CREATE TABLE IF NOT EXISTS platform_downloads_weekly (
+    week INTEGER NOT NULL,             -- Unix timestamp (Monday 00:00 UTC)
+    release_id INTEGER NOT NULL,       -- FK to releases.id
+    platform TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (week, release_id, platform)
+);
+
+-- Per-platform monthly aggregates (delta)
+CREATE TABLE IF NOT EXISTS platform_downloads_monthly (
+    month INTEGER NOT NULL,            -- Unix timestamp (1st 00:00 UTC)
+    release_id INTEGER NOT NULL,       -- FK to releases.id
+    platform TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (month, release_id, platform)
+);
+`;
@@ -0,0 +1,29 @@
+/**
+ * db/migrations/0004_admin_tables.ts
+ *
+ * Collection run log and admin rate limiting.
+ */
+
+export default `
+-- Collection run log (one row per manual or scheduled collection)
+CREATE TABLE IF NOT EXISTS collection_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trigger TEXT NOT NULL,              -- 'scheduled' or 'manual'
+    status TEXT NOT NULL,               -- 'running', 'success' or 'error'
+    started_at INTEGER NOT NULL,
+    finished_at INTEGER,
+    releases_found INTEGER,
+    releases_processed INTEGER,
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_runs_started ON collection_runs(started_at);
+
+-- Fixed-window request counters for the admin API rate limiter
+CREATE TABLE IF NOT EXISTS rate_limits (
+    key TEXT NOT NULL,                  -- e.g. 'admin:<client ip>'
+    window_start INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (key, window_start)
+);
+`;
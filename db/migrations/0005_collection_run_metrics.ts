@@ -0,0 +1,13 @@
+/**
+ * db/migrations/0005_collection_run_metrics.ts
+ *
+ * Collection run timing and GitHub rate-limit headers.
+ */
+
+export default `
+ALTER TABLE collection_runs ADD COLUMN duration_ms INTEGER;
+ALTER TABLE collection_runs ADD COLUMN rate_limit_limit INTEGER;      -- GitHub X-RateLimit-* headers of the last API response
+ALTER TABLE collection_runs ADD COLUMN rate_limit_remaining INTEGER;
+ALTER TABLE collection_runs ADD COLUMN rate_limit_used INTEGER;
+ALTER TABLE collection_runs ADD COLUMN rate_limit_reset INTEGER;      -- Unix timestamp (ms) when the rate-limit window resets
+`;
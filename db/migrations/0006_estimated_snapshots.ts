@@ -0,0 +1,9 @@
+/**
+ * db/migrations/0006_estimated_snapshots.ts
+ *
+ * Flag daily snapshots interpolated by the backfill.
+ */
+
+export default `
+ALTER TABLE downloads_daily ADD COLUMN estimated INTEGER NOT NULL DEFAULT 0; -- 1 when interpolated, not collected
+`;
@@ -0,0 +1,49 @@
+/**
+ * db/migrations/0007_repositories.ts
+ *
+ * Track releases of more than one GitHub repository.
+ *
+ * Repository 1 is the LichtFeld Studio repository itself. The others are
+ * plugin repositories synced from the plugin registry by the collector.
+ * Release tags are only unique within a repository, so the releases table is
+ * rebuilt with a composite key. Release IDs are kept, leaving the download
+ * tables untouched.
+ */
+
+export default `
+-- Repositories whose release downloads are collected
+CREATE TABLE IF NOT EXISTS repositories (
+    id INTEGER PRIMARY KEY,
+    owner TEXT NOT NULL COLLATE NOCASE, -- GitHub owner, e.g. "MrNeRF"
+    name TEXT NOT NULL COLLATE NOCASE,  -- GitHub repository name
+    plugin_id TEXT,                     -- Registry id ("namespace:name"), NULL for the main repository
+    enabled INTEGER NOT NULL DEFAULT 1, -- 0 once the repository leaves the registry
+    first_seen INTEGER NOT NULL,        -- Unix timestamp when the repository was first tracked
+    last_collected_at INTEGER,          -- Unix timestamp of the last successful collection
+    last_error TEXT,                    -- Error of the last failed collection, NULL on success
+    UNIQUE (owner, name)
+);
+
+INSERT OR IGNORE INTO repositories (id, owner, name, plugin_id, enabled, first_seen)
+VALUES (1, 'MrNeRF', 'LichtFeld-Studio', NULL, 1, CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+
+-- Releases keyed by repository and tag
+CREATE TABLE releases_new (
+    id INTEGER PRIMARY KEY,
+    repository_id INTEGER NOT NULL DEFAULT 1, -- FK to repositories.id
+    tag TEXT NOT NULL,
+    name TEXT,
+    total_downloads INTEGER DEFAULT 0,
+    published_at INTEGER,
+    first_seen INTEGER,
+    last_updated INTEGER,
+    UNIQUE (repository_id, tag)
+);
+
+INSERT INTO releases_new (id, repository_id, tag, name, total_downloads, published_at, first_seen, last_updated)
+SELECT id, 1, tag, name, total_downloads, published_at, first_seen, last_updated FROM releases;
+
+DROP TABLE releases;
+
+ALTER TABLE releases_new RENAME TO releases;
+`;
@@ -0,0 +1,19 @@
+/**
+ * db/migrations/0008_github_etags.ts
+ *
+ * ETags of GitHub release list pages for conditional requests, and request
+ * counters in the collection run log.
+ */
+
+export default `
+-- Last seen version of each GitHub releases page (one row per page URL)
+CREATE TABLE IF NOT EXISTS github_etags (
+    url TEXT PRIMARY KEY,               -- Full request URL including the page number
+    etag TEXT NOT NULL,                 -- ETag header, sent back as If-None-Match
+    body TEXT NOT NULL,                 -- JSON of the page's releases, reused on 304 Not Modified
+    updated_at INTEGER NOT NULL
+);
+
+ALTER TABLE collection_runs ADD COLUMN github_requests INTEGER;      -- GitHub API requests made by the run
+ALTER TABLE collection_runs ADD COLUMN github_not_modified INTEGER;  -- Of those, answered 304 from a stored ETag
+`;
@@ -0,0 +1,26 @@
+/**
+ * db/migrations/0009_anomalies.ts
+ *
+ * Download anomalies found by the collector's anomaly pass.
+ */
+
+export default `
+-- Suspicious download count changes, shown as chart annotations
+CREATE TABLE IF NOT EXISTS anomalies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    release_id INTEGER NOT NULL,       -- FK to releases.id
+    date INTEGER NOT NULL,             -- Unix timestamp (start of day UTC) of the collection that found it
+    kind TEXT NOT NULL,                -- 'negative_delta', 'asset_reupload' or 'spike'
+    asset_id INTEGER NOT NULL DEFAULT 0, -- GitHub asset ID, 0 for release-level anomalies
+    delta INTEGER NOT NULL,            -- Observed change in downloads (negative for counter resets)
+    expected REAL,                     -- Trailing mean daily increase (spikes only)
+    score REAL,                        -- Standard score versus the trailing window (spikes only)
+    detail TEXT NOT NULL,              -- Human-readable description
+    detected_at INTEGER NOT NULL
+);
+
+-- Asset anomalies are recorded once per asset, release anomalies once per day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_anomalies_asset ON anomalies(kind, asset_id) WHERE asset_id <> 0;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_anomalies_release_day ON anomalies(release_id, date, kind) WHERE asset_id = 0;
+CREATE INDEX IF NOT EXISTS idx_anomalies_date ON anomalies(date);
+`;
@@ -0,0 +1,24 @@
+/**
+ * db/migrations/0010_webhook_deliveries.ts
+ *
+ * Outbound webhook deliveries queued by the collector.
+ */
+
+export default `
+-- One row per event and webhook URL, retried by later runs until delivered
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url TEXT NOT NULL,                 -- Webhook URL the event is sent to
+    event TEXT NOT NULL,               -- 'release.published', 'milestone.reached' or 'collection.failed'
+    body TEXT NOT NULL,                -- JSON request body, identical on every attempt
+    status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'delivered' or 'failed' (attempts exhausted)
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_status INTEGER,               -- HTTP status of the last attempt, NULL when the request failed
+    last_error TEXT,                   -- Error of the last failed attempt
+    created_at INTEGER NOT NULL,
+    last_attempt_at INTEGER,
+    delivered_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status, id);
+`;
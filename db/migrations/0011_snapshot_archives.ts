@@ -0,0 +1,23 @@
+/**
+ * db/migrations/0011_snapshot_archives.ts
+ *
+ * Archives of daily snapshots removed by the collector's compaction.
+ */
+
+export default `
+-- One row per compaction: the removed downloads_daily and platform_downloads_daily
+-- rows as gzipped NDJSON. Weekly and monthly aggregates of periods starting before
+-- the newest cutoff no longer have their daily snapshots and are final
+CREATE TABLE IF NOT EXISTS snapshot_archives (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at INTEGER NOT NULL,
+    first_date INTEGER NOT NULL,       -- Oldest archived snapshot (start of day UTC)
+    cutoff INTEGER NOT NULL,           -- Snapshots dated before this (1st of a month, UTC) were compacted
+    release_rows INTEGER NOT NULL,     -- Rows removed from downloads_daily
+    platform_rows INTEGER NOT NULL,    -- Rows removed from platform_downloads_daily
+    bytes INTEGER NOT NULL,            -- Size of data
+    data BLOB NOT NULL
+);
+
+ALTER TABLE collection_runs ADD COLUMN compacted_rows INTEGER; -- Daily rows archived and removed by the run
+`;
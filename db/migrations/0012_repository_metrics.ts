@@ -0,0 +1,36 @@
+/**
+ * db/migrations/0012_repository_metrics.ts
+ *
+ * Daily repository metrics (stars, forks, watchers, open issues) and GitHub
+ * traffic (clones and page views) for every tracked repository.
+ */
+
+export default `
+-- One snapshot per repository per day from GET /repos/{owner}/{repo}
+CREATE TABLE IF NOT EXISTS repository_metrics_daily (
+    date INTEGER NOT NULL,              -- Unix timestamp (start of day UTC)
+    repository_id INTEGER NOT NULL,     -- FK to repositories.id
+    stars INTEGER NOT NULL,
+    forks INTEGER NOT NULL,
+    watchers INTEGER NOT NULL,          -- Subscribers (GitHub's watchers_count mirrors stars)
+    open_issues INTEGER NOT NULL,       -- Open issues and pull requests
+    collected_at INTEGER NOT NULL,      -- Unix timestamp of the collection that wrote the row
+    PRIMARY KEY (date, repository_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_repository_metrics_repository_date ON repository_metrics_daily(repository_id, date);
+
+-- Clones and views per day from the traffic API, which needs push access to the
+-- repository. GitHub reports the last 14 days, so each collection rewrites them
+CREATE TABLE IF NOT EXISTS repository_traffic_daily (
+    date INTEGER NOT NULL,              -- Unix timestamp (start of day UTC)
+    repository_id INTEGER NOT NULL,     -- FK to repositories.id
+    clones INTEGER NOT NULL DEFAULT 0,
+    unique_clones INTEGER NOT NULL DEFAULT 0,
+    views INTEGER NOT NULL DEFAULT 0,
+    unique_views INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (date, repository_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_repository_traffic_repository_date ON repository_traffic_daily(repository_id, date);
+`;
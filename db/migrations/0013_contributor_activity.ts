@@ -0,0 +1,35 @@
+/**
+ * db/migrations/0013_contributor_activity.ts
+ *
+ * Monthly commit, pull request and issue counts per contributor, and the
+ * first contribution of every contributor, for each tracked repository.
+ */
+
+export default `
+-- Activity per contributor per month. Commits by commit date, pull requests and
+-- issues by creation date. The collector rewrites the latest months every day
+CREATE TABLE IF NOT EXISTS contributor_activity_monthly (
+    month INTEGER NOT NULL,             -- Unix timestamp (1st 00:00 UTC)
+    repository_id INTEGER NOT NULL,     -- FK to repositories.id
+    login TEXT NOT NULL COLLATE NOCASE, -- GitHub login
+    commits INTEGER NOT NULL DEFAULT 0,
+    pull_requests INTEGER NOT NULL DEFAULT 0,
+    issues INTEGER NOT NULL DEFAULT 0,
+    collected_at INTEGER NOT NULL,      -- Unix timestamp of the collection that wrote the row
+    PRIMARY KEY (month, repository_id, login)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contributor_activity_repository_month ON contributor_activity_monthly(repository_id, month);
+
+-- Everyone who contributed to a repository. first_contribution comes from the
+-- all-time commit statistics when GitHub has them, else the first stored month
+CREATE TABLE IF NOT EXISTS contributors (
+    repository_id INTEGER NOT NULL,     -- FK to repositories.id
+    login TEXT NOT NULL COLLATE NOCASE,
+    avatar_url TEXT,
+    first_contribution INTEGER NOT NULL, -- Unix timestamp (1st of the month, UTC)
+    PRIMARY KEY (repository_id, login)
+);
+
+ALTER TABLE repositories ADD COLUMN contributors_refreshed_at INTEGER; -- Unix timestamp of the last contributor activity refresh
+`;
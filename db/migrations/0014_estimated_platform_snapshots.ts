@@ -0,0 +1,9 @@
+/**
+ * db/migrations/0014_estimated_platform_snapshots.ts
+ *
+ * Flag per-platform daily snapshots interpolated by the backfill.
+ */
+
+export default `
+ALTER TABLE platform_downloads_daily ADD COLUMN estimated INTEGER NOT NULL DEFAULT 0; -- 1 when interpolated, not collected
+`;
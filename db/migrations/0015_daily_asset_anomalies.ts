@@ -0,0 +1,12 @@
+/**
+ * db/migrations/0015_daily_asset_anomalies.ts
+ *
+ * Record asset anomalies once per asset per day, like release anomalies, so
+ * an asset whose counter goes backwards again or is re-uploaded again isn't
+ * dropped.
+ */
+
+export default `
+DROP INDEX IF EXISTS idx_anomalies_asset;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_anomalies_asset_day ON anomalies(kind, asset_id, date) WHERE asset_id <> 0;
+`;
@@ -0,0 +1,10 @@
+/**
+ * db/migrations/0016_traffic_forbidden.ts
+ *
+ * Remember repositories whose traffic the GitHub token may not read, so the
+ * collector doesn't request it again on every run.
+ */
+
+export default `
+ALTER TABLE repositories ADD COLUMN traffic_forbidden_at INTEGER; -- Unix timestamp of the last traffic request answered with 403
+`;
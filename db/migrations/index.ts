@@ -0,0 +1,48 @@
+/**
+ * db/migrations/index.ts
+ *
+ * Ordered list of schema migrations for the D1 stats database.
+ *
+ * Each migration is a module exporting its up script as a SQL string, which
+ * keeps them bundleable by wrangler and vitest without extra loaders. To
+ * change the schema, add a new `NNNN_description.ts` module with the next
+ * version number and register it below. Never edit a migration that has
+ * already been applied anywhere; write a new one instead.
+ */
+
+import type { Migration } from "../migrate";
+import initialSchema from "./0001_initial_schema";
+import releaseAssets from "./0002_release_assets";
+import platformBreakdown from "./0003_platform_breakdown";
+import adminTables from "./0004_admin_tables";
+import collectionRunMetrics from "./0005_collection_run_metrics";
+import estimatedSnapshots from "./0006_estimated_snapshots";
+import repositories from "./0007_repositories";
+import githubEtags from "./0008_github_etags";
+import anomalies from "./0009_anomalies";
+import webhookDeliveries from "./0010_webhook_deliveries";
+import snapshotArchives from "./0011_snapshot_archives";
+import repositoryMetrics from "./0012_repository_metrics";
+import contributorActivity from "./0013_contributor_activity";
+import estimatedPlatformSnapshots from "./0014_estimated_platform_snapshots";
+import dailyAssetAnomalies from "./0015_daily_asset_anomalies";
+import trafficForbidden from "./0016_traffic_forbidden";
+
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: "initial_schema", sql: initialSchema },
+  { version: 2, name: "release_assets", sql: releaseAssets },
+  { version: 3, name: "platform_breakdown", sql: platformBreakdown },
+  { version: 4, name: "admin_tables", sql: adminTables },
+  { version: 5, name: "collection_run_metrics", sql: collectionRunMetrics },
+  { version: 6, name: "estimated_snapshots", sql: estimatedSnapshots },
+  { version: 7, name: "repositories", sql: repositories },
+  { version: 8, name: "github_etags", sql: githubEtags },
+  { version: 9, name: "anomalies", sql: anomalies },
+  { version: 10, name: "webhook_deliveries", sql: webhookDeliveries },
+  { version: 11, name: "snapshot_archives", sql: snapshotArchives },
+  { version: 12, name: "repository_metrics", sql: repositoryMetrics },
+  { version: 13, name: "contributor_activity", sql: contributorActivity },
+  { version: 14, name: "estimated_platform_snapshots", sql: estimatedPlatformSnapshots },
+  { version: 15, name: "daily_asset_anomalies", sql: dailyAssetAnomalies },
+  { version: 16, name: "traffic_forbidden", sql: trafficForbidden },
+];
@@ -13,6 +13,9 @@
 --   - Daily snapshots for the last 90 days
 --   - Weekly aggregates for the last 6 months
 --   - Monthly aggregates for the last 2 years
+--   - Per-platform series split from the release series
+--   - Repository metrics and traffic for the last 90 days
+--   - Contributor activity for the last 12 months
 --
 -- The data simulates realistic adoption patterns:
 --   - New versions spike on release then settle
@@ -21,6 +24,13 @@
 -- =============================================================================
 
 -- Clear existing data
+DELETE FROM contributor_activity_monthly;
+DELETE FROM contributors;
+DELETE FROM repository_traffic_daily;
+DELETE FROM repository_metrics_daily;
+DELETE FROM platform_downloads_monthly;
+DELETE FROM platform_downloads_weekly;
+DELETE FROM platform_downloads_daily;
 DELETE FROM downloads_monthly;
 DELETE FROM downloads_weekly;
 DELETE FROM downloads_daily;
@@ -207,6 +217,136 @@ SELECT
     END as count
 FROM monthly_data;
 
+-- =============================================================================
+-- Generate Platform Data
+-- Splits every release series into Windows CUDA (70%), Linux AppImage (25%)
+-- and source (5%) so the platform breakdown has something to chart.
+-- =============================================================================
+
+INSERT INTO release_assets (asset_id, release_id, name, last_download_count, first_seen, last_seen, platform, os, arch, cuda_version, variant)
+SELECT
+    r.id * 10 + p.idx,
+    r.id,
+    r.tag || p.suffix,
+    CAST(r.total_downloads * p.share AS INTEGER),
+    r.first_seen,
+    r.last_updated,
+    p.platform,
+    p.os,
+    p.arch,
+    p.cuda_version,
+    'portable'
+FROM releases r
+CROSS JOIN (
+    SELECT 1 as idx, '-windows-x64-cuda12.8.zip' as suffix, 'windows-x64-cuda12.8-portable' as platform, 'windows' as os, 'x64' as arch, '12.8' as cuda_version, 0.70 as share
+    UNION ALL SELECT 2, '-linux-x86_64.AppImage', 'linux-x64-portable', 'linux', 'x64', NULL, 0.25
+    UNION ALL SELECT 3, '-source.tar.gz', 'source-unknown-portable', 'source', 'unknown', NULL, 0.05
+) p;
+
+INSERT INTO platform_downloads_daily (date, release_id, platform, count)
+SELECT d.date, d.release_id, a.platform, CAST(d.count * a.last_download_count / MAX(r.total_downloads, 1) AS INTEGER)
+FROM downloads_daily d
+INNER JOIN release_assets a ON a.release_id = d.release_id
+INNER JOIN releases r ON r.id = d.release_id;
+
+INSERT INTO platform_downloads_weekly (week, release_id, platform, count)
+SELECT w.week, w.release_id, a.platform, CAST(w.count * a.last_download_count / MAX(r.total_downloads, 1) AS INTEGER)
+FROM downloads_weekly w
+INNER JOIN release_assets a ON a.release_id = w.release_id
+INNER JOIN releases r ON r.id = w.release_id;
+
+INSERT INTO platform_downloads_monthly (month, release_id, platform, count)
+SELECT m.month, m.release_id, a.platform, CAST(m.count * a.last_download_count / MAX(r.total_downloads, 1) AS INTEGER)
+FROM downloads_monthly m
+INNER JOIN release_assets a ON a.release_id = m.release_id
+INNER JOIN releases r ON r.id = m.release_id;
+
+-- =============================================================================
+-- Generate Repository Metrics (last 90 days)
+-- Stars and forks grow steadily; traffic only covers the last 14 days like GitHub's API
+-- =============================================================================
+
+WITH RECURSIVE dates(day_offset) AS (
+    SELECT 89
+    UNION ALL
+    SELECT day_offset - 1 FROM dates WHERE day_offset > 0
+)
+INSERT INTO repository_metrics_daily (date, repository_id, stars, forks, watchers, open_issues, collected_at)
+SELECT
+    strftime('%s', 'now', 'start of day', '-' || day_offset || ' days') * 1000,
+    1,
+    2400 - day_offset * 6,
+    180 - day_offset / 2,
+    45 - day_offset / 10,
+    60 + ABS(RANDOM() % 15),
+    strftime('%s', 'now') * 1000
+FROM dates;
+
+WITH RECURSIVE dates(day_offset) AS (
+    SELECT 13
+    UNION ALL
+    SELECT day_offset - 1 FROM dates WHERE day_offset > 0
+)
+INSERT INTO repository_traffic_daily (date, repository_id, clones, unique_clones, views, unique_views)
+SELECT
+    strftime('%s', 'now', 'start of day', '-' || day_offset || ' days') * 1000,
+    1,
+    40 + ABS(RANDOM() % 40),
+    15 + ABS(RANDOM() % 15),
+    600 + ABS(RANDOM() % 400),
+    200 + ABS(RANDOM() % 100)
+FROM dates;
+
+-- =============================================================================
+-- Generate Contributor Activity (last 12 months)
+-- The maintainer is active throughout, others join along the way and stay
+-- =============================================================================
+
+WITH RECURSIVE people(login, joined_offset, weight) AS (
+    VALUES
+        ('MrNeRF', 30, 12),
+        ('splat-dev', 18, 5),
+        ('cuda-wrangler', 9, 4),
+        ('gaussian-user', 6, 1),
+        ('viewer-fixer', 3, 2),
+        ('first-timer', 0, 1)
+),
+months(month_offset) AS (
+    SELECT 11
+    UNION ALL
+    SELECT month_offset - 1 FROM months WHERE month_offset > 0
+)
+INSERT INTO contributor_activity_monthly (month, repository_id, login, commits, pull_requests, issues, collected_at)
+SELECT
+    strftime('%s', 'now', 'start of month', '-' || month_offset || ' months') * 1000,
+    1,
+    login,
+    weight * 3 + ABS(RANDOM() % (weight * 2 + 1)),
+    CASE WHEN login = 'MrNeRF' THEN 2 ELSE ABS(RANDOM() % (weight + 1)) END,
+    ABS(RANDOM() % 3),
+    strftime('%s', 'now') * 1000
+FROM people, months
+WHERE month_offset <= joined_offset;
+
+WITH people(login, joined_offset) AS (
+    VALUES
+        ('MrNeRF', 30),
+        ('splat-dev', 18),
+        ('cuda-wrangler', 9),
+        ('gaussian-user', 6),
+        ('viewer-fixer', 3),
+        ('first-timer', 0)
+)
+INSERT INTO contributors (repository_id, login, avatar_url, first_contribution)
+SELECT
+    1,
+    login,
+    'https://github.com/' || login || '.png',
+    strftime('%s', 'now', 'start of month', '-' || joined_offset || ' months') * 1000
+FROM people;
+
+UPDATE repositories SET contributors_refreshed_at = strftime('%s', 'now') * 1000 WHERE id = 1;
+
 -- =============================================================================
 -- Verify the data
 -- =============================================================================
@@ -217,4 +357,11 @@ SELECT 'Daily records:', COUNT(*) FROM downloads_daily
 UNION ALL
 SELECT 'Weekly records:', COUNT(*) FROM downloads_weekly
 UNION ALL
-SELECT 'Monthly records:', COUNT(*) FROM downloads_monthly;
+SELECT 'Monthly records:', COUNT(*) FROM downloads_monthly
+UNION ALL
+SELECT 'Platform daily records:', COUNT(*) FROM platform_downloads_daily;
+
+-- D1 allows at most five terms in a compound SELECT
+SELECT 'Repository metrics records:' as info, COUNT(*) as count FROM repository_metrics_daily
+UNION ALL
+SELECT 'Contributor activity records:', COUNT(*) FROM contributor_activity_monthly;
@@ -0,0 +1,134 @@
+/**
+ * scripts/validate-plugins.mjs
+ *
+ * Validates the plugin registry entries in src/content/plugins/ with the
+ * rules in src/utils/plugin-validation.ts: id/namespace/name consistency,
+ * kebab-case names and file names, versions and their order, the keyword vocabulary, reachable
+ * repositories and duplicate names. Exits with 1 when a file has errors.
+ *
+ * The whole registry is always read so duplicates are found; pass file names
+ * to only report on those (e.g. the files a pull request changes).
+ *
+ * Usage:
+ *   node scripts/validate-plugins.mjs [--format text|json|github] [--offline]
+ *                                     [--repositories fixtures.json] [--warn-unreachable]
+ *                                     [file.json ...]
+ *
+ * --repositories reads a JSON object mapping repository URLs to whether they
+ * are reachable, used instead of the network; --offline skips the check for
+ * repositories it doesn't list. --warn-unreachable reports missing
+ * repositories as warnings rather than errors.
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { createViteServer } from "vitest/node";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+const pluginsDir = path.join(root, "src/content/plugins");
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    format: { type: "string", default: "text" },
+    offline: { type: "boolean", default: false },
+    repositories: { type: "string" },
+    "warn-unreachable": { type: "boolean", default: false },
+  },
+});
+
+if (!["text", "json", "github"].includes(values.format)) {
+  console.error(`Unknown format '${values.format}', expected text, json or github`);
+  process.exit(2);
+}
+
+const fixtures = values.repositories ? JSON.parse(await readFile(values.repositories, "utf8")) : {};
+
+/**
+ * Returns whether a repository exists, from the fixtures when listed. Only a
+ * 404 or 410 counts as missing; network errors, rate limits and server errors
+ * leave it unchecked (null).
+ */
+async function checkRepository(url) {
+  if (url in fixtures) {
+    return fixtures[url];
+  }
+
+  if (values.offline) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(url, { method: "HEAD", redirect: "follow", signal: AbortSignal.timeout(10_000) });
+
+    if (response.ok) {
+      return true;
+    }
+
+    return response.status === 404 || response.status === 410 ? false : null;
+  } catch {
+    return null;
+  }
+}
+
+const names = (await readdir(pluginsDir)).filter((name) => name.endsWith(".json")).sort();
+const files = await Promise.all(
+  names.map(async (file) => ({ file, content: await readFile(path.join(pluginsDir, file), "utf8") })),
+);
+
+// vitest's Vite server loads the TypeScript rules the site build uses
+const server = await createViteServer({
+  configFile: false,
+  root,
+  logLevel: "error",
+  appType: "custom",
+  server: { middlewareMode: true, hmr: false, watch: null },
+  resolve: { alias: { "@": path.join(root, "src") } },
+  optimizeDeps: { noDiscovery: true },
+});
+
+let report;
+
+try {
+  const { validatePluginSubmissions } = await server.ssrLoadModule("/src/utils/plugin-validation.ts");
+  const { PLUGIN_KEYWORDS } = await server.ssrLoadModule("/src/config/plugin-keywords.ts");
+  const { LEGACY_PLUGIN_FILES } = await server.ssrLoadModule("/src/config/plugin-legacy-names.ts");
+
+  report = await validatePluginSubmissions(files, {
+    keywords: PLUGIN_KEYWORDS,
+    checkRepository,
+    legacyFiles: LEGACY_PLUGIN_FILES,
+    unreachableRepository: values["warn-unreachable"] ? "warning" : "error",
+  });
+} finally {
+  await server.close();
+}
+
+if (positionals.length > 0) {
+  const selected = new Set(positionals.map((file) => path.basename(file)));
+  const issues = report.issues.filter((issue) => selected.has(issue.file));
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+
+  report = { valid: errors === 0, files: selected.size, errors, warnings: issues.length - errors, issues };
+}
+
+if (values.format === "json") {
+  console.log(JSON.stringify(report, null, 2));
+} else if (values.format === "github") {
+  // Workflow commands, shown as annotations on the pull request diff
+  for (const issue of report.issues) {
+    const file = path.posix.join("src/content/plugins", issue.file);
+
+    console.log(`::${issue.severity} file=${file},title=${issue.rule}::${issue.message}`);
+  }
+} else {
+  for (const issue of report.issues) {
+    console.log(`${issue.file}: ${issue.severity} [${issue.rule}] ${issue.message}`);
+  }
+
+  console.log(`\n${report.files} files, ${report.errors} errors, ${report.warnings} warnings`);
+}
+
+process.exitCode = report.valid ? 0 : 1;
@@ -0,0 +1,13 @@
+/**
+ * shared/stats-schema/index.ts
+ *
+ * The stats API contract: response types and their runtime validators, shared
+ * by workers/stats-api, which produces the responses, and the website
+ * (src/types/stats.ts re-exports this module), which consumes them.
+ *
+ * Like db/, this directory is imported by relative path and has no
+ * dependencies, so it bundles into the workers and the site alike.
+ */
+
+export * from "./types";
+export * from "./validate";
@@ -0,0 +1,283 @@
+/**
+ * shared/stats-schema/types.ts
+ *
+ * Response types of the stats API (workers/stats-api). Timestamps are Unix
+ * milliseconds at the start of the UTC day, week (Monday) or month unless
+ * noted otherwise.
+ */
+
+// =============================================================================
+// Version
+// =============================================================================
+
+/**
+ * Version of the response shapes below, sent as `apiVersion` in every JSON
+ * response. Bump it for changes that break existing clients: removing or
+ * renaming a field, or changing its type. Adding a field does not need a bump.
+ */
+export const STATS_API_VERSION = 1;
+
+// =============================================================================
+// Time Series
+// =============================================================================
+
+/** Cumulative download count at one daily snapshot. */
+export interface DailySnapshot {
+  date: number;
+  downloads: number;
+  /** Set on snapshots interpolated by the collector backfill */
+  estimated?: true;
+}
+
+/** Downloads during one week, starting on Monday. */
+export interface WeeklyDelta {
+  week: number;
+  downloads: number;
+}
+
+/** Downloads during one calendar month. */
+export interface MonthlyDelta {
+  month: number;
+  downloads: number;
+}
+
+// =============================================================================
+// GET /api/stats
+// =============================================================================
+
+export interface ReleaseStats {
+  tag: string;
+  name: string;
+  /** Lifetime download count for this release */
+  downloads: number;
+  /** Unix timestamp when release was published on GitHub */
+  publishedAt: number | null;
+  /** Daily download snapshots (cumulative count) for last 90 days */
+  daily: DailySnapshot[];
+  /** Weekly download deltas for last ~6 months (182 days) */
+  weekly: WeeklyDelta[];
+  /** Monthly download deltas for last ~2 years (730 days) */
+  monthly: MonthlyDelta[];
+}
+
+/** Downloads summed across releases for one build, classified from asset names. */
+export interface PlatformStats {
+  /** Grouping key, e.g. "windows-x64-cuda12.8-portable" */
+  platform: string;
+  os: string;
+  arch: string;
+  /** CUDA toolkit version, or null for CPU/source builds */
+  cuda: string | null;
+  variant: string;
+  /** Lifetime download count for this platform */
+  downloads: number;
+  daily: Array<Omit<DailySnapshot, "estimated">>;
+  weekly: WeeklyDelta[];
+  monthly: MonthlyDelta[];
+}
+
+export type AnomalyKind = "negative_delta" | "asset_reupload" | "spike";
+
+/** Download anomaly found by the collector. */
+export interface Annotation {
+  /** Start of the day of the collection that found it */
+  date: number;
+  tag: string;
+  kind: AnomalyKind;
+  /** Observed change in downloads (negative for counter resets) */
+  delta: number;
+  message: string;
+}
+
+/** A projected value with its approximate 95% band. */
+export interface ForecastBand {
+  downloads: number;
+  lower: number;
+  upper: number;
+}
+
+export interface Forecast {
+  model: "holt-winters" | "holt";
+  /** Complete weeks of history the model was fitted on */
+  fittedWeeks: number;
+  /** Projected downloads per week, starting with the current week */
+  weekly: Array<{ week: number } & ForecastBand>;
+  /** Projected all-time total at the end of each forecast week, starting at the latest snapshot */
+  cumulative: Array<{ date: number; total: number; lower: number; upper: number }>;
+  /** Projected downloads in the days after the latest snapshot */
+  next30Days: ForecastBand;
+  next90Days: ForecastBand;
+  /** Next round all-time total, and the day it is expected (null beyond two years) */
+  milestone: { downloads: number; expectedDate: number | null };
+}
+
+export interface StatsResponse {
+  apiVersion: typeof STATS_API_VERSION;
+  /** Date of the latest stored daily snapshot in YYYY-MM-DD format */
+  asOf: string;
+  totals: {
+    /** Sum of lifetime downloads across all releases */
+    allTime: number;
+  };
+  /** Per-release statistics; series outside the requested granularity are empty */
+  releases: ReleaseStats[];
+  platforms: PlatformStats[];
+  /** Download anomalies, oldest first */
+  annotations: Annotation[];
+  /**
+   * Projected downloads for the releases in scope, or null when `to` is given
+   * or there are fewer than 8 complete weeks of history.
+   */
+  forecast: Forecast | null;
+}
+
+// =============================================================================
+// GET /api/stats/compare
+// =============================================================================
+
+export interface ComparedRelease {
+  tag: string;
+  name: string;
+  publishedAt: number | null;
+  downloads: number;
+  /**
+   * One point per stored daily snapshot within the first `days` days.
+   * `downloads` is the increase over the previous day's snapshot, or null
+   * when that snapshot is missing; on day 0 it counts from zero.
+   * Empty when the publish date is unknown.
+   */
+  series: Array<{
+    day: number;
+    date: number;
+    cumulative: number;
+    downloads: number | null;
+    estimated?: true;
+  }>;
+}
+
+export interface CompareResponse {
+  apiVersion: typeof STATS_API_VERSION;
+  /** Date of the latest stored daily snapshot in YYYY-MM-DD format */
+  asOf: string;
+  /** Days since publish covered by each series */
+  days: number;
+  /** Requested releases, oldest publish date first */
+  releases: ComparedRelease[];
+}
+
+// =============================================================================
+// GET /api/stats/repo
+// =============================================================================
+
+/** Repository counts at one daily snapshot. */
+export interface RepoMetricsSnapshot {
+  date: number;
+  stars: number;
+  forks: number;
+  /** Users watching the repository (subscribers) */
+  watchers: number;
+  /** Open issues and pull requests */
+  openIssues: number;
+}
+
+/** Clones and page views during one day, from GitHub's traffic API. */
+export interface RepoTrafficDay {
+  date: number;
+  clones: number;
+  uniqueClones: number;
+  views: number;
+  uniqueViews: number;
+}
+
+export interface RepoStatsResponse {
+  apiVersion: typeof STATS_API_VERSION;
+  /** Date of the latest stored metrics snapshot in YYYY-MM-DD format */
+  asOf: string;
+  /** GitHub repository as "owner/name" */
+  repository: string;
+  /** Latest stored snapshot, regardless of the requested window */
+  latest: RepoMetricsSnapshot | null;
+  /** Daily snapshots, oldest first, for the year up to `asOf` unless from/to are given */
+  daily: RepoMetricsSnapshot[];
+  /** Daily traffic over the same window; empty when the collector can't read traffic */
+  traffic: RepoTrafficDay[];
+}
+
+// =============================================================================
+// GET /api/stats/contributors
+// =============================================================================
+
+/** Activity of all contributors during one month. */
+export interface ContributorMonth {
+  /** First day of the month (Unix ms) */
+  month: number;
+  /** Contributors with at least one commit, pull request or issue */
+  contributors: number;
+  /** Contributors whose first known contribution falls in this month */
+  newContributors: number;
+  commits: number;
+  pullRequests: number;
+  issues: number;
+}
+
+/** One contributor's activity over the requested window. */
+export interface ContributorSummary {
+  /** GitHub login */
+  login: string;
+  avatarUrl: string | null;
+  commits: number;
+  pullRequests: number;
+  issues: number;
+  /** Month of the first known contribution (Unix ms) */
+  firstContribution: number;
+}
+
+export interface ContributorsResponse {
+  apiVersion: typeof STATS_API_VERSION;
+  /** Date of the latest activity refresh in YYYY-MM-DD format */
+  asOf: string;
+  /** GitHub repository as "owner/name" */
+  repository: string;
+  /** Every month of the window, oldest first, for the year up to `asOf` unless from/to are given */
+  months: ContributorMonth[];
+  /** Most active contributors over the window by commits, pull requests and issues together */
+  topContributors: ContributorSummary[];
+  /** Contributors whose first contribution falls in the window, newest first */
+  firstTimeContributors: ContributorSummary[];
+}
+
+// =============================================================================
+// GET /api/stats/health
+// =============================================================================
+
+/** Collector health derived from the collection_runs log. */
+export interface HealthResponse {
+  apiVersion: typeof STATS_API_VERSION;
+  /** "ok", or why the endpoint reports unhealthy */
+  status: "ok" | "stale" | "failing";
+  /** Date of the latest stored daily snapshot in YYYY-MM-DD format */
+  asOf: string;
+  /** Unix timestamp (ms) when the last successful collection finished */
+  lastSuccessAt: number | null;
+  /** Milliseconds since the last successful collection, or null if there was none */
+  stalenessMs: number | null;
+  /** Failed runs since the last successful one */
+  consecutiveFailures: number;
+  lastRun: {
+    status: string;
+    startedAt: number;
+    finishedAt: number | null;
+    durationMs: number | null;
+    error: string | null;
+    rateLimitRemaining: number | null;
+  } | null;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Body of every 4xx/5xx JSON response. */
+export interface ErrorResponse {
+  error: string;
+}
@@ -0,0 +1,360 @@
+/**
+ * shared/stats-schema/validate.ts
+ *
+ * Runtime validators for the stats API responses in ./types.
+ *
+ * Each object validator is declared against its interface, so adding,
+ * removing or renaming a field in ./types fails to compile until the
+ * validator matches. The worker's contract tests then validate real responses
+ * in strict mode, which also rejects fields the schema does not know about.
+ */
+
+import { STATS_API_VERSION } from "./types";
+import type {
+  Annotation,
+  CompareResponse,
+  ComparedRelease,
+  ContributorMonth,
+  ContributorSummary,
+  ContributorsResponse,
+  DailySnapshot,
+  Forecast,
+  ForecastBand,
+  HealthResponse,
+  MonthlyDelta,
+  PlatformStats,
+  ReleaseStats,
+  RepoMetricsSnapshot,
+  RepoStatsResponse,
+  RepoTrafficDay,
+  StatsResponse,
+  WeeklyDelta,
+} from "./types";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export interface ValidateOptions {
+  /** Also report fields the schema doesn't declare (default false) */
+  strict?: boolean;
+}
+
+interface Issues {
+  errors: string[];
+  strict: boolean;
+}
+
+/** Checks one value and records problems under `path`. */
+type Check = ((value: unknown, path: string, issues: Issues) => void) & { optional?: true };
+
+/** One check per field of T, required and optional alike. */
+type Fields<T> = { [K in keyof Required<T>]: Check };
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Problems reported per response; the rest are dropped to keep messages readable */
+const MAX_ERRORS = 20;
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+function fail(issues: Issues, path: string, message: string): void {
+  if (issues.errors.length < MAX_ERRORS) {
+    issues.errors.push(`${path || "response"}: ${message}`);
+  }
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+
+  return typeof value;
+}
+
+const number: Check = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(issues, path, `expected a number, got ${typeName(value)}`);
+  }
+};
+
+const string: Check = (value, path, issues) => {
+  if (typeof value !== "string") {
+    fail(issues, path, `expected a string, got ${typeName(value)}`);
+  }
+};
+
+const date: Check = (value, path, issues) => {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    fail(issues, path, "expected a YYYY-MM-DD date");
+  }
+};
+
+function literal(...allowed: Array<string | number | boolean>): Check {
+  return (value, path, issues) => {
+    if (!allowed.includes(value as string | number | boolean)) {
+      fail(issues, path, `expected ${allowed.map((v) => JSON.stringify(v)).join(" | ")}, got ${JSON.stringify(value)}`);
+    }
+  };
+}
+
+function nullable(check: Check): Check {
+  return (value, path, issues) => {
+    if (value !== null) check(value, path, issues);
+  };
+}
+
+function optional(check: Check): Check {
+  return Object.assign(
+    (value: unknown, path: string, issues: Issues) => {
+      if (value !== undefined) check(value, path, issues);
+    },
+    { optional: true as const },
+  );
+}
+
+function array(check: Check): Check {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      fail(issues, path, `expected an array, got ${typeName(value)}`);
+
+      return;
+    }
+
+    value.forEach((item, index) => check(item, `${path}[${index}]`, issues));
+  };
+}
+
+function object<T>(fields: Fields<T>): Check {
+  return (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      fail(issues, path, `expected an object, got ${typeName(value)}`);
+
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    const prefix = path ? `${path}.` : "";
+
+    for (const [key, check] of Object.entries(fields) as Array<[string, Check]>) {
+      if (!(key in record) && !check.optional) {
+        fail(issues, `${prefix}${key}`, "missing");
+      } else {
+        check(record[key], `${prefix}${key}`, issues);
+      }
+    }
+
+    if (issues.strict) {
+      for (const key of Object.keys(record)) {
+        if (!(key in fields)) fail(issues, `${prefix}${key}`, "not in the schema");
+      }
+    }
+  };
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const apiVersion = literal(STATS_API_VERSION);
+
+const dailySnapshot = object<DailySnapshot>({ date: number, downloads: number, estimated: optional(literal(true)) });
+const platformSnapshot = object<Omit<DailySnapshot, "estimated">>({ date: number, downloads: number });
+const weeklyDelta = object<WeeklyDelta>({ week: number, downloads: number });
+const monthlyDelta = object<MonthlyDelta>({ month: number, downloads: number });
+
+const releaseStats = object<ReleaseStats>({
+  tag: string,
+  name: string,
+  downloads: number,
+  publishedAt: nullable(number),
+  daily: array(dailySnapshot),
+  weekly: array(weeklyDelta),
+  monthly: array(monthlyDelta),
+});
+
+const platformStats = object<PlatformStats>({
+  platform: string,
+  os: string,
+  arch: string,
+  cuda: nullable(string),
+  variant: string,
+  downloads: number,
+  daily: array(platformSnapshot),
+  weekly: array(weeklyDelta),
+  monthly: array(monthlyDelta),
+});
+
+const annotation = object<Annotation>({
+  date: number,
+  tag: string,
+  kind: literal("negative_delta", "asset_reupload", "spike"),
+  delta: number,
+  message: string,
+});
+
+const forecastBand = object<ForecastBand>({ downloads: number, lower: number, upper: number });
+
+const forecast = object<Forecast>({
+  model: literal("holt-winters", "holt"),
+  fittedWeeks: number,
+  weekly: array(object<Forecast["weekly"][number]>({ week: number, downloads: number, lower: number, upper: number })),
+  cumulative: array(
+    object<Forecast["cumulative"][number]>({ date: number, total: number, lower: number, upper: number }),
+  ),
+  next30Days: forecastBand,
+  next90Days: forecastBand,
+  milestone: object<Forecast["milestone"]>({ downloads: number, expectedDate: nullable(number) }),
+});
+
+const statsResponse = object<StatsResponse>({
+  apiVersion,
+  asOf: date,
+  totals: object<StatsResponse["totals"]>({ allTime: number }),
+  releases: array(releaseStats),
+  platforms: array(platformStats),
+  annotations: array(annotation),
+  forecast: nullable(forecast),
+});
+
+const comparedRelease = object<ComparedRelease>({
+  tag: string,
+  name: string,
+  publishedAt: nullable(number),
+  downloads: number,
+  series: array(
+    object<ComparedRelease["series"][number]>({
+      day: number,
+      date: number,
+      cumulative: number,
+      downloads: nullable(number),
+      estimated: optional(literal(true)),
+    }),
+  ),
+});
+
+const compareResponse = object<CompareResponse>({
+  apiVersion,
+  asOf: date,
+  days: number,
+  releases: array(comparedRelease),
+});
+
+const repoMetricsSnapshot = object<RepoMetricsSnapshot>({
+  date: number,
+  stars: number,
+  forks: number,
+  watchers: number,
+  openIssues: number,
+});
+
+const repoStatsResponse = object<RepoStatsResponse>({
+  apiVersion,
+  asOf: date,
+  repository: string,
+  latest: nullable(repoMetricsSnapshot),
+  daily: array(repoMetricsSnapshot),
+  traffic: array(
+    object<RepoTrafficDay>({ date: number, clones: number, uniqueClones: number, views: number, uniqueViews: number }),
+  ),
+});
+
+const contributorSummary = object<ContributorSummary>({
+  login: string,
+  avatarUrl: nullable(string),
+  commits: number,
+  pullRequests: number,
+  issues: number,
+  firstContribution: number,
+});
+
+const contributorsResponse = object<ContributorsResponse>({
+  apiVersion,
+  asOf: date,
+  repository: string,
+  months: array(
+    object<ContributorMonth>({
+      month: number,
+      contributors: number,
+      newContributors: number,
+      commits: number,
+      pullRequests: number,
+      issues: number,
+    }),
+  ),
+  topContributors: array(contributorSummary),
+  firstTimeContributors: array(contributorSummary),
+});
+
+const healthResponse = object<HealthResponse>({
+  apiVersion,
+  status: literal("ok", "stale", "failing"),
+  asOf: date,
+  lastSuccessAt: nullable(number),
+  stalenessMs: nullable(number),
+  consecutiveFailures: number,
+  lastRun: nullable(
+    object<NonNullable<HealthResponse["lastRun"]>>({
+      status: string,
+      startedAt: number,
+      finishedAt: nullable(number),
+      durationMs: nullable(number),
+      error: nullable(string),
+      rateLimitRemaining: nullable(number),
+    }),
+  ),
+});
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+function validate<T>(check: Check, value: unknown, options: ValidateOptions): ValidationResult<T> {
+  const issues: Issues = { errors: [], strict: options.strict ?? false };
+
+  check(value, "", issues);
+
+  return issues.errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors: issues.errors };
+}
+
+/** Validates a GET /api/stats response body. */
+export function validateStatsResponse(value: unknown, options: ValidateOptions = {}): ValidationResult<StatsResponse> {
+  return validate(statsResponse, value, options);
+}
+
+/** Validates a GET /api/stats/compare response body. */
+export function validateCompareResponse(
+  value: unknown,
+  options: ValidateOptions = {},
+): ValidationResult<CompareResponse> {
+  return validate(compareResponse, value, options);
+}
+
+/** Validates a GET /api/stats/repo response body. */
+export function validateRepoStatsResponse(
+  value: unknown,
+  options: ValidateOptions = {},
+): ValidationResult<RepoStatsResponse> {
+  return validate(repoStatsResponse, value, options);
+}
+
+/** Validates a GET /api/stats/contributors response body. */
+export function validateContributorsResponse(
+  value: unknown,
+  options: ValidateOptions = {},
+): ValidationResult<ContributorsResponse> {
+  return validate(contributorsResponse, value, options);
+}
+
+/** Validates a GET /api/stats/health response body (sent with 200 and 503). */
+export function validateHealthResponse(
+  value: unknown,
+  options: ValidateOptions = {},
+): ValidationResult<HealthResponse> {
+  return validate(healthResponse, value, options);
+}
@@ -10,6 +10,23 @@
  *
  * Endpoints:
  *   GET /api/stats - Download statistics from D1 database
+ *   GET /api/stats/export.{csv,ndjson} - Time series exports
+ *   GET /api/stats/health - Collector health (503 when failing or stale)
+ *   GET /api/stats/compare - Release adoption curves aligned on days since publish
+ *   GET /api/stats/repo - Daily stars, forks, watchers, open issues and traffic
+ *   GET /api/stats/contributors - Monthly contributor activity, top and first-time contributors
+ *   GET /api/badge/{downloads,latest}.svg - Shields-style SVG badges
+ *   GET /plugin-registry/resolve.json - Newest compatible plugin versions (./plugin-registry)
+ *
+ * Admin (Bearer ADMIN_TOKEN, rate limited per IP):
+ *   POST /api/collect                - Run a collection now
+ *   POST /api/admin/collect/dry-run  - Report what a collection would change
+ *   POST /api/admin/recompute        - Rebuild weekly/monthly aggregates
+ *   POST /api/admin/backfill         - Fill missing daily snapshots (?dryRun=true to only report gaps)
+ *   GET  /api/admin/collections      - Recent collection runs
+ *   POST /api/admin/compact          - Compact old daily snapshots (?dryRun=true to only count them)
+ *   GET  /api/admin/archives         - Archives of compacted snapshots
+ *   GET  /api/admin/archives/download?id=N - One archive as gzipped NDJSON
  *
  * Scheduled:
  *   Cron (daily at 02:00 UTC) - Collect GitHub release download stats
@@ -17,8 +34,10 @@
 
 import statsApi from "../../workers/stats-api/src/index";
 import type { StatsApiEnv } from "../../workers/stats-api/src/index";
+import { handleAdminRequest } from "../../workers/stats-collector/src/admin";
 import { collectWithStats } from "../../workers/stats-collector/src/index";
 import type { CollectorEnv } from "../../workers/stats-collector/src/index";
+import { handlePluginResolve, RESOLVE_PATH } from "./plugin-registry";
 
 // =============================================================================
 // Types
@@ -36,21 +55,17 @@ export interface Env extends StatsApiEnv, CollectorEnv {}
 
 export default {
   /**
-   * Fetch handler - stats API routes + admin endpoints.
+   * Fetch handler - stats API routes, admin endpoints and the plugin resolver.
    */
   async fetch(request: Request, env: Env): Promise<Response> {
-    const url = new URL(request.url);
+    if (new URL(request.url).pathname === RESOLVE_PATH && request.method === "GET") {
+      return handlePluginResolve(request, env);
+    }
+
+    const adminResponse = await handleAdminRequest(request, env, "/api");
 
-    if (url.pathname === "/api/collect" && request.method === "POST") {
-      try {
-        const result = await collectWithStats(env);
-        return Response.json({ status: "collected", ...result });
-      } catch (error) {
-        return Response.json(
-          { status: "error", message: error instanceof Error ? error.message : String(error) },
-          { status: 500 },
-        );
-      }
+    if (adminResponse) {
+      return adminResponse;
     }
 
     return statsApi.fetch(request, env);
@@ -61,6 +76,6 @@ export default {
    * Runs daily at 02:00 UTC per wrangler.toml [triggers].
    */
   async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
-    ctx.waitUntil(collectWithStats(env));
+    ctx.waitUntil(collectWithStats(env, "scheduled"));
   },
 };
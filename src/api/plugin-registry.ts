@@ -0,0 +1,87 @@
+/**
+ * src/api/plugin-registry.ts
+ *
+ * Plugin compatibility resolver:
+ *
+ *   GET /plugin-registry/resolve.json?lichtfeld=0.5.3&api=1
+ *
+ * Answers with the newest version of every plugin whose `lichtfeldVersion`
+ * range admits `lichtfeld` and whose `pluginApi` range admits `api` (optional).
+ * The ranges come from the static /plugin-registry/compatibility.json built
+ * with the site, so the answer changes with each deployment and is cached
+ * like the other registry documents.
+ */
+
+import { resolveCompatiblePlugins } from "../utils/plugin-compatibility";
+import type { CompatibilityDocument } from "../utils/plugin-compatibility";
+import { parseVersion } from "../utils/semver-range";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const RESOLVE_PATH = "/plugin-registry/resolve.json";
+
+const COMPATIBILITY_PATH = "/plugin-registry/compatibility.json";
+
+const CACHE_MAX_AGE_SECONDS = 300;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": status === 200 ? `public, max-age=${CACHE_MAX_AGE_SECONDS}` : "no-store",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+// =============================================================================
+// Handler
+// =============================================================================
+
+/**
+ * Handles GET /plugin-registry/resolve.json. Invalid versions are rejected
+ * with 400 before the compatibility document is read.
+ */
+export async function handlePluginResolve(request: Request, env: { ASSETS: Fetcher }): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const lichtfeldParam = params.get("lichtfeld");
+  const apiParam = params.get("api");
+
+  if (lichtfeldParam === null) {
+    return jsonResponse({ error: "Missing 'lichtfeld', expected a version such as 0.5.3" }, 400);
+  }
+
+  const lichtfeld = parseVersion(lichtfeldParam);
+  const pluginApi = apiParam === null ? null : parseVersion(apiParam);
+
+  if (!lichtfeld) {
+    return jsonResponse({ error: `Invalid 'lichtfeld' version '${lichtfeldParam}'` }, 400);
+  }
+
+  if (apiParam !== null && !pluginApi) {
+    return jsonResponse({ error: `Invalid 'api' version '${apiParam}'` }, 400);
+  }
+
+  try {
+    const response = await env.ASSETS.fetch(new URL(COMPATIBILITY_PATH, request.url));
+
+    if (!response.ok) {
+      throw new Error(`${COMPATIBILITY_PATH} answered ${response.status}`);
+    }
+
+    const document = await response.json<CompatibilityDocument>();
+
+    return jsonResponse(resolveCompatiblePlugins(document, { lichtfeld, pluginApi }));
+  } catch (error) {
+    console.error("Error resolving plugin compatibility:", error);
+
+    return jsonResponse({ error: "Plugin registry unavailable" }, 503);
+  }
+}
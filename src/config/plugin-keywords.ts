@@ -0,0 +1,119 @@
+/**
+ * plugin-keywords.ts
+ *
+ * Keywords registry plugins may list in `keywords`. The plugin validator
+ * (scripts/validate-plugins.mjs) warns about keywords outside this list and
+ * suggests the closest one, so near-duplicates like "gaussian-splat" and
+ * "gaussian-splatting" don't split the catalog.
+ *
+ * Keywords are lowercase kebab-case. Add new ones here in the same PR that
+ * first uses them.
+ */
+
+export const PLUGIN_KEYWORDS: readonly string[] = [
+  // Capture and datasets
+  "360",
+  "camera",
+  "camera-poses",
+  "capture",
+  "dataset",
+  "drone",
+  "equirectangular",
+  "erp",
+  "exif",
+  "fisheye",
+  "gps",
+  "image",
+  "images",
+  "insta360",
+  "panorama",
+  "pinhole",
+  "reframe",
+  "single-image",
+  "video",
+
+  // Reconstruction and training
+  "3d-reconstruction",
+  "colmap",
+  "densification",
+  "depth",
+  "feed-forward",
+  "gaussian-splatting",
+  "geo",
+  "geometry",
+  "image-to-3d",
+  "metashape",
+  "photogrammetry",
+  "point-cloud",
+  "quality",
+  "realityscan",
+  "reconstruction",
+  "sfm",
+  "sparse",
+  "training",
+
+  // Editing and analysis
+  "analysis",
+  "cropbox",
+  "cropping",
+  "enhancement",
+  "floaters",
+  "masking",
+  "masks",
+  "measurement",
+  "point-editing",
+  "postprocess",
+  "qa",
+  "scene-tools",
+  "segmentation",
+  "selection",
+  "text-prompt",
+
+  // Viewing and navigation
+  "coordinates",
+  "keyframe-recording",
+  "navigation",
+  "rendering",
+  "saved-view",
+  "viewer",
+  "viewport",
+  "vr",
+
+  // Export, sync and delivery
+  "delivery",
+  "export",
+  "jpg",
+  "overwrite",
+  "ply",
+  "screenshot",
+  "sog",
+  "sync",
+  "upload",
+
+  // Workflow and infrastructure
+  "bf16",
+  "monitoring",
+  "non-commercial",
+  "notifications",
+  "pipeline",
+  "utility",
+  "workflow",
+
+  // Models, services and tools
+  "blender",
+  "grounding-dino",
+  "hugging-face",
+  "hunyuan",
+  "omega",
+  "playcanvas",
+  "sam2",
+  "sam3",
+  "supersplat",
+  "telegram",
+  "tencent",
+  "triposplat",
+  "unisharp",
+  "vast-ai",
+  "vggt",
+  "worldmirror",
+];
@@ -0,0 +1,18 @@
+/**
+ * plugin-legacy-names.ts
+ *
+ * Registry files whose plugin names predate the naming rules of the plugin
+ * validator (scripts/validate-plugins.mjs): lowercase kebab-case names, in a
+ * file named after the name. Their ids are what installed copies of the
+ * plugins are known by, so they can't be renamed, and the validator only
+ * warns about them.
+ *
+ * Don't add new entries; new plugins must follow the rules.
+ */
+
+export const LEGACY_PLUGIN_FILES: readonly string[] = [
+  "360-camera.json",
+  "FP_Navigation.json",
+  "geo_register_pluggin.json",
+  "pointnuker-sor.json",
+];
@@ -0,0 +1,31 @@
+/**
+ * plugin-signing-keys.ts
+ *
+ * Minisign keys trusted to sign plugin release archives. A registry version
+ * with a `signatureUrl` must be signed by one of these keys, and the set is
+ * published as /plugin-registry/keys.json for the desktop app to verify
+ * installs with.
+ *
+ * To add a key, paste the base64 line of the author's `minisign.pub`:
+ *
+ *   { publicKey: "RWQ...", owner: "Jane Doe", namespaces: ["community"] }
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PluginSigningKey {
+  /** Base64 line of a minisign public key */
+  publicKey: string;
+  /** Who holds the secret key */
+  owner: string;
+  /** Plugin namespaces the key may sign for */
+  namespaces: string[];
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+export const PLUGIN_SIGNING_KEYS: PluginSigningKey[] = [];
@@ -31,3 +31,9 @@ export const CHART_AXIS_LABEL_COLOR = "#667085";
 
 /** Grid border color — mirrors --color-border-subtle (rgba(15, 23, 42, 0.09)). */
 export const CHART_GRID_BORDER_COLOR = "rgba(15, 23, 42, 0.09)";
+
+/** Shading for estimated (interpolated) date ranges — mirrors --color-muted (#667085). */
+export const CHART_ESTIMATE_FILL_COLOR = "#667085";
+
+/** Marker lines for download anomalies — the red from CHART_PALETTE (no theme.css token). */
+export const CHART_ANOMALY_COLOR = "#dc3545";
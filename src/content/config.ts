@@ -29,6 +29,7 @@ const pluginCollection = defineCollection({
     keywords: z.array(z.string()).default([]),
     repository: z.string().url(),
     featured: z.boolean().optional(),
+    registeredAt: z.coerce.date().optional(),
     versions: z
       .array(
         z.object({
@@ -40,6 +41,7 @@ const pluginCollection = defineCollection({
           gitRef: z.string().optional(),
           downloadUrl: z.string().url().optional(),
           checksum: z.string().optional(),
+          signatureUrl: z.string().url().optional(),
         }),
       )
       .default([]),
@@ -10,6 +10,17 @@ interface ImportMetaEnv {
    * Required for fetching data like repository issues and contributors at build time.
    */
   readonly GITHUB_TOKEN: string;
+
+  /**
+   * Directory plugin release archives are cached in while the registry build
+   * verifies their checksums and signatures. Defaults to node_modules/.cache.
+   */
+  readonly PLUGIN_ARTIFACT_CACHE?: string;
+
+  /**
+   * Set to "1" to verify plugin archives from the cache only, without network access.
+   */
+  readonly PLUGIN_REGISTRY_OFFLINE?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,10 @@
+/**
+ * atom.xml.ts
+ *
+ * Site-wide Atom feed: blog posts, releases and new plugins (see src/services/feed.ts).
+ */
+
+import type { APIRoute } from "astro";
+import { renderFeed } from "@/services/feed";
+
+export const GET: APIRoute = () => renderFeed("atom");
@@ -0,0 +1,10 @@
+/**
+ * feed.json.ts
+ *
+ * Site-wide JSON Feed: blog posts, releases and new plugins (see src/services/feed.ts).
+ */
+
+import type { APIRoute } from "astro";
+import { renderFeed } from "@/services/feed";
+
+export const GET: APIRoute = () => renderFeed("json");
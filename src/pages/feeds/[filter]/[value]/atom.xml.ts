@@ -0,0 +1,14 @@
+/**
+ * atom.xml.ts
+ *
+ * Atom feed narrowed to one category or tag, e.g. /feeds/category/release-notes/atom.xml.
+ */
+
+import type { APIRoute, InferGetStaticPropsType } from "astro";
+import { getFeedFilterPaths, renderFeed } from "@/services/feed";
+
+export const getStaticPaths = getFeedFilterPaths;
+
+type Props = InferGetStaticPropsType<typeof getStaticPaths>;
+
+export const GET: APIRoute<Props> = ({ props }) => renderFeed("atom", props.filter);
@@ -0,0 +1,14 @@
+/**
+ * feed.json.ts
+ *
+ * JSON Feed narrowed to one category or tag, e.g. /feeds/category/release-notes/feed.json.
+ */
+
+import type { APIRoute, InferGetStaticPropsType } from "astro";
+import { getFeedFilterPaths, renderFeed } from "@/services/feed";
+
+export const getStaticPaths = getFeedFilterPaths;
+
+type Props = InferGetStaticPropsType<typeof getStaticPaths>;
+
+export const GET: APIRoute<Props> = ({ props }) => renderFeed("json", props.filter);
@@ -0,0 +1,14 @@
+/**
+ * rss.xml.ts
+ *
+ * RSS 2.0 feed narrowed to one category or tag, e.g. /feeds/category/release-notes/rss.xml.
+ */
+
+import type { APIRoute, InferGetStaticPropsType } from "astro";
+import { getFeedFilterPaths, renderFeed } from "@/services/feed";
+
+export const getStaticPaths = getFeedFilterPaths;
+
+type Props = InferGetStaticPropsType<typeof getStaticPaths>;
+
+export const GET: APIRoute<Props> = ({ props }) => renderFeed("rss", props.filter);
@@ -0,0 +1,11 @@
+import { getCompatibilityDocument } from "@/services/plugin-registry-data";
+
+export async function GET() {
+  const document = await getCompatibilityDocument();
+  return new Response(JSON.stringify(document, null, 2), {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "public, max-age=300",
+    },
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * rss.xml.ts
+ *
+ * Site-wide RSS 2.0 feed: blog posts, releases and new plugins (see src/services/feed.ts).
+ */
+
+import type { APIRoute } from "astro";
+import { renderFeed } from "@/services/feed";
+
+export const GET: APIRoute = () => renderFeed("rss");
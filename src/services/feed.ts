@@ -0,0 +1,164 @@
+/**
+ * feed.ts
+ *
+ * Assembles the items behind /rss.xml, /atom.xml and /feed.json: published
+ * blog posts, stable GitHub releases with their notes, and plugins with a
+ * registration date. The category/tag variants under /feeds/ reuse the same items.
+ *
+ * Feeds are rendered at build time, so releases and plugins appear after the
+ * next deploy.
+ */
+
+import { getCollection } from "astro:content";
+
+import { SITE } from "@/config/site.config";
+import { getRecentReleases } from "@/services/github";
+import { getWebsitePluginEntries } from "@/services/plugin-registry-data";
+import { resolveBlogImage } from "@/utils/blog";
+import {
+  collectFeedFilters,
+  FEED_CONTENT_TYPES,
+  renderAtom,
+  renderJsonFeed,
+  renderRss,
+  selectFeedItems,
+  type FeedFilter,
+  type FeedItem,
+  type FeedMeta,
+} from "@/utils/feed";
+
+export type FeedFormat = keyof typeof FEED_CONTENT_TYPES;
+
+/** Feed file name per format, shared by the root feeds and the filtered variants. */
+export const FEED_FILES: Record<FeedFormat, string> = {
+  rss: "rss.xml",
+  atom: "atom.xml",
+  json: "feed.json",
+};
+
+const RENDERERS: Record<FeedFormat, (meta: FeedMeta, items: FeedItem[]) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
+
+/** Shared by all endpoints rendered in one build. */
+let _itemsPromise: Promise<FeedItem[]> | null = null;
+
+/** Site URL including the deploy base, so fork deployments under a subpath link correctly. */
+function siteRoot(): URL {
+  return new URL(import.meta.env.BASE_URL, import.meta.env.SITE ?? SITE.url);
+}
+
+/** Collects every feed item, unsorted. */
+async function loadFeedItems(): Promise<FeedItem[]> {
+  const base = import.meta.env.BASE_URL;
+  const site = siteRoot();
+  const absolute = (path: string) => new URL(path.replace(/^\//, ""), site).toString();
+
+  const [posts, releases, plugins] = await Promise.all([
+    getCollection("blog"),
+    getRecentReleases(),
+    getWebsitePluginEntries(),
+  ]);
+
+  const blogItems: FeedItem[] = posts
+    .filter((post) => !post.data.draft)
+    .map((post) => {
+      const url = absolute(`blog/${post.slug}/`);
+
+      return {
+        id: url,
+        kind: "blog",
+        title: post.data.title,
+        url,
+        published: post.data.date,
+        updated: post.data.updatedDate,
+        summary: post.data.summary,
+        author: post.data.author,
+        category: post.data.category,
+        tags: post.data.tags,
+        image: new URL(resolveBlogImage(base, post.data.image), site).toString(),
+      };
+    });
+
+  const releaseItems: FeedItem[] = releases
+    .filter((release) => release.publishedAt)
+    .map((release) => ({
+      id: release.htmlUrl,
+      kind: "release",
+      title: `${SITE.name} ${release.name}`,
+      url: release.htmlUrl,
+      published: new Date(release.publishedAt),
+      summary: `${SITE.name} ${release.tagName} is available on GitHub.`,
+      contentHtml: release.bodyHtml || undefined,
+      author: SITE.name,
+      category: "Releases",
+      tags: [],
+    }));
+
+  const pluginItems: FeedItem[] = plugins
+    .filter((plugin) => plugin.registeredAt)
+    .map((plugin) => ({
+      id: absolute(`plugin-registry/plugins/${plugin.namespace}/${plugin.name}.json`),
+      kind: "plugin",
+      title: `New plugin: ${plugin.displayName}`,
+      url: plugin.repository,
+      published: plugin.registeredAt!,
+      summary: plugin.summary,
+      contentHtml: `<p>${escapeHtml(plugin.description)}</p><p>By ${escapeHtml(plugin.author)}, version ${escapeHtml(plugin.latestVersion)}.</p>`,
+      author: plugin.author,
+      category: "Plugins",
+      tags: plugin.keywords,
+    }));
+
+  return [...blogItems, ...releaseItems, ...pluginItems];
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function getFeedItems(): Promise<FeedItem[]> {
+  _itemsPromise ??= loadFeedItems();
+
+  return _itemsPromise;
+}
+
+/**
+ * Static paths for the filtered feeds under /feeds/{category|tag}/{slug}/,
+ * one per category and tag in use.
+ */
+export async function getFeedFilterPaths() {
+  const filters = collectFeedFilters(await getFeedItems());
+
+  return filters.map((filter) => ({
+    params: { filter: filter.type, value: filter.slug },
+    props: { filter },
+  }));
+}
+
+/**
+ * Renders one feed as a response, optionally narrowed to a category or tag.
+ * The filter's label is the display form used in the feed title.
+ */
+export async function renderFeed(format: FeedFormat, filter?: FeedFilter & { label: string }): Promise<Response> {
+  const root = siteRoot();
+  const directory = filter ? `feeds/${filter.type}/${filter.slug}/` : "";
+  const feedUrl = (file: string) => new URL(`${directory}${file}`, root).toString();
+
+  const meta: FeedMeta = {
+    title: filter ? `${SITE.name}: ${filter.label}` : SITE.name,
+    description: filter
+      ? `${SITE.name} posts, releases and plugins filed under ${filter.label}.`
+      : "Blog posts, releases and new plugins from the LichtFeld Studio project.",
+    siteUrl: root.toString(),
+    feedUrls: { rss: feedUrl(FEED_FILES.rss), atom: feedUrl(FEED_FILES.atom), json: feedUrl(FEED_FILES.json) },
+  };
+
+  const items = selectFeedItems(await getFeedItems(), filter);
+
+  return new Response(RENDERERS[format](meta, items), {
+    headers: { "Content-Type": FEED_CONTENT_TYPES[format] },
+  });
+}
@@ -72,6 +72,14 @@ export interface ReleaseInfo {
   body: string;
 }
 
+/**
+ * A published release with its notes rendered to HTML, used by the syndication feeds.
+ */
+export interface ReleaseNote extends ReleaseInfo {
+  /** Pre-parsed HTML from the release notes markdown */
+  bodyHtml: string;
+}
+
 /**
  * Minimal metadata for a downloadable release asset.
  */
@@ -127,6 +135,9 @@ const BOT_ACCOUNTS = ["dependabot[bot]", "github-actions[bot]", "dependabot"];
 /** Default/fallback version when no release is available or API fails. */
 const DEFAULT_VERSION = "0.0.0";
 
+/** Releases fetched for the syndication feeds (one API page). */
+const RECENT_RELEASES_LIMIT = 20;
+
 // =================================================================================================
 // MODULE-LEVEL CACHE
 // =================================================================================================
@@ -139,6 +150,9 @@ const DEFAULT_VERSION = "0.0.0";
 let _cachedRelease: ReleaseInfo | null = null;
 let _releasePromise: Promise<ReleaseInfo | null> | null = null;
 
+/** Recent release notes, shared by every feed endpoint rendered during the build. */
+let _releaseNotesPromise: Promise<ReleaseNote[]> | null = null;
+
 type GitHubReleaseAssetLike = {
   name?: string | null;
   browser_download_url?: string | null;
@@ -650,6 +664,52 @@ export async function getLatestRelease(): Promise<ReleaseInfo | null> {
   return _releasePromise;
 }
 
+/**
+ * Fetches the most recent stable releases with their notes rendered via marked.
+ *
+ * Drafts and prereleases (including the rolling nightly build) are skipped. The
+ * result is cached for the build, so the RSS, Atom and JSON feeds and their
+ * filtered variants share one API call.
+ *
+ * @returns A promise that resolves to the releases, newest first, or an empty array on failure.
+ */
+export async function getRecentReleases(): Promise<ReleaseNote[]> {
+  _releaseNotesPromise ??= (async (): Promise<ReleaseNote[]> => {
+    try {
+      const { data: releases } = await octokit.repos.listReleases({
+        owner: REPO_OWNER,
+        repo: REPO_NAME,
+        per_page: RECENT_RELEASES_LIMIT,
+      });
+
+      return await Promise.all(
+        releases
+          .filter((release) => !release.draft && !release.prerelease)
+          .map(async (release) => ({
+            version: release.tag_name.replace(/^v/, ""),
+            tagName: release.tag_name,
+            name: release.name || release.tag_name,
+            htmlUrl: release.html_url,
+            tarballUrl: release.tarball_url || "",
+            zipballUrl: release.zipball_url || "",
+            publishedAt: release.published_at || release.created_at,
+            body: release.body || "",
+            bodyHtml: await marked.parse(release.body || ""),
+          })),
+      );
+    } catch (error) {
+      console.error("Failed to fetch recent releases from GitHub:", error);
+
+      // Let a later caller try again
+      _releaseNotesPromise = null;
+
+      return [];
+    }
+  })();
+
+  return _releaseNotesPromise;
+}
+
 /**
  * Fetches the most recent Windows asset attached to the rolling nightly release.
  *
@@ -763,7 +823,20 @@ export async function getReleaseDownloadStats(): Promise<DownloadStatsTotal> {
 // Re-export the StatsResponse type from the shared types module
 export type { StatsResponse } from "@/types/stats";
 
-import type { StatsResponse } from "@/types/stats";
+import { validateStatsResponse, type StatsResponse } from "@/types/stats";
+
+/**
+ * Query options accepted by the /api/stats endpoint.
+ * Dates are YYYY-MM-DD; omitted options fall back to the API defaults.
+ */
+export interface StatsQueryOptions {
+  from?: string;
+  to?: string;
+  granularity?: "daily" | "weekly" | "monthly";
+  tags?: string[];
+  /** Maximum number of releases (1-100), ordered by downloads */
+  limit?: number;
+}
 
 /**
  * Fetches download statistics from the /api/stats endpoint.
@@ -771,13 +844,18 @@ import type { StatsResponse } from "@/types/stats";
  * For client-side use. Returns historical and time-series data from D1.
  * For build-time use with fresh GitHub data, use `getReleaseDownloadStats()` instead.
  *
- * @param days - Number of days of history (default: 90, max: 365)
+ * @param options - Optional time range, granularity and release filters
  * @returns Stats response from the API
+ * @throws When the request fails or the response doesn't match the shared stats schema
  */
-export async function fetchStats(days = 90): Promise<StatsResponse> {
+export async function fetchStats(options: StatsQueryOptions = {}): Promise<StatsResponse> {
   const url = new URL("/api/stats", window.location.origin);
 
-  url.searchParams.set("days", String(Math.min(days, 365)));
+  if (options.from) url.searchParams.set("from", options.from);
+  if (options.to) url.searchParams.set("to", options.to);
+  if (options.granularity) url.searchParams.set("granularity", options.granularity);
+  if (options.tags?.length) url.searchParams.set("tags", options.tags.join(","));
+  if (options.limit !== undefined) url.searchParams.set("limit", String(options.limit));
 
   const response = await fetch(url.toString());
 
@@ -785,5 +863,11 @@ export async function fetchStats(days = 90): Promise<StatsResponse> {
     throw new Error(`Failed to fetch stats: ${response.status}`);
   }
 
-  return response.json();
+  const result = validateStatsResponse(await response.json());
+
+  if (!result.ok) {
+    throw new Error(`Unexpected stats response: ${result.errors.join("; ")}`);
+  }
+
+  return result.value;
 }
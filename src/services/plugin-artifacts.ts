@@ -0,0 +1,160 @@
+/**
+ * Verifies the release archives registry versions point to with `downloadUrl`.
+ *
+ * Each archive is hashed with SHA-256, compared with the declared `checksum`
+ * and, when the version has a `signatureUrl`, checked against its detached
+ * minisign signature and the keys in src/config/plugin-signing-keys.ts.
+ *
+ * Downloads are cached by URL so rebuilds don't fetch them again. An archive
+ * whose cached copy doesn't match the declared checksum is downloaded again,
+ * in case it was re-uploaded under the same URL. With
+ * PLUGIN_REGISTRY_OFFLINE=1 the build only reads the cache, which is how
+ * builds without network access (and tests) provide the archives.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { PluginSigningKey } from "@/config/plugin-signing-keys";
+import type { WebsitePluginVersionEntry } from "@/services/plugin-registry-data";
+import { parsePublicKey, parseSignature, verifySignature } from "@/utils/minisign";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ArtifactSource {
+  /** Directory of downloaded files, each named by the SHA-256 of its URL */
+  cacheDir: string;
+  /** Only read the cache; a file that isn't cached fails instead of downloading */
+  offline: boolean;
+}
+
+export interface VerifiedArtifact {
+  /** SHA-256 of the archive, as sha256:<hex> */
+  checksum: string;
+  /** Id of the key that signed the archive, when it is signed */
+  signatureKeyId?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_ARTIFACT_SOURCE: ArtifactSource = {
+  cacheDir: import.meta.env.PLUGIN_ARTIFACT_CACHE ?? "node_modules/.cache/plugin-artifacts",
+  offline: import.meta.env.PLUGIN_REGISTRY_OFFLINE === "1",
+};
+
+// Several pages render the detail documents; download each file once per build
+const downloads = new Map<string, Promise<Uint8Array>>();
+
+// ============================================================================
+// Downloads
+// ============================================================================
+
+function sha256(data: Uint8Array | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** Returns the name a URL's file is cached under. */
+export function artifactCacheName(url: string): string {
+  return sha256(url);
+}
+
+async function download(url: string, source: ArtifactSource, refresh: boolean): Promise<Uint8Array> {
+  const file = path.join(source.cacheDir, artifactCacheName(url));
+
+  if (!refresh) {
+    try {
+      return new Uint8Array(await readFile(file));
+    } catch {
+      if (source.offline) {
+        throw new Error(`${url} is not cached in ${source.cacheDir} and PLUGIN_REGISTRY_OFFLINE is set`);
+      }
+    }
+  }
+
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  const data = new Uint8Array(await response.arrayBuffer());
+
+  await mkdir(source.cacheDir, { recursive: true });
+  await writeFile(file, data);
+
+  return data;
+}
+
+/**
+ * Reads a file from the cache, downloading it first unless the source is
+ * offline. With `refresh` the file is downloaded again and the cache updated.
+ */
+export function loadArtifact(
+  url: string,
+  source: ArtifactSource = DEFAULT_ARTIFACT_SOURCE,
+  options: { refresh?: boolean } = {},
+): Promise<Uint8Array> {
+  const key = `${source.cacheDir}\n${url}`;
+  const refresh = (options.refresh ?? false) && !source.offline;
+  const pending = (!refresh && downloads.get(key)) || download(url, source, refresh);
+
+  downloads.set(key, pending);
+
+  return pending;
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Hashes a version's archive and checks its declared checksum and signature.
+ * Throws an Error describing the first problem found.
+ */
+export async function verifyPluginArtifact(
+  namespace: string,
+  version: Pick<WebsitePluginVersionEntry, "downloadUrl" | "checksum" | "signatureUrl">,
+  keys: PluginSigningKey[],
+  source: ArtifactSource = DEFAULT_ARTIFACT_SOURCE,
+): Promise<VerifiedArtifact> {
+  let data = await loadArtifact(version.downloadUrl!, source);
+  let checksum = `sha256:${sha256(data)}`;
+  const stale = version.checksum !== undefined && version.checksum !== checksum && !source.offline;
+
+  // The cached copy may predate a re-upload under the same URL
+  if (stale) {
+    data = await loadArtifact(version.downloadUrl!, source, { refresh: true });
+    checksum = `sha256:${sha256(data)}`;
+  }
+
+  if (version.checksum && version.checksum !== checksum) {
+    throw new Error(`checksum ${version.checksum} doesn't match the download (${checksum})`);
+  }
+
+  if (!version.signatureUrl) {
+    return { checksum };
+  }
+
+  // A re-uploaded archive comes with a new signature
+  const signature = parseSignature(
+    new TextDecoder().decode(await loadArtifact(version.signatureUrl, source, { refresh: stale })),
+  );
+  const trusted = keys.find(
+    (key) => parsePublicKey(key.publicKey).keyId === signature.keyId && key.namespaces.includes(namespace),
+  );
+
+  if (!trusted) {
+    throw new Error(`signed with key ${signature.keyId}, which isn't trusted for the '${namespace}' namespace`);
+  }
+
+  if (!verifySignature(data, signature, parsePublicKey(trusted.publicKey))) {
+    throw new Error(`the signature doesn't match the download (key ${signature.keyId})`);
+  }
+
+  return { checksum, signatureKeyId: signature.keyId };
+}
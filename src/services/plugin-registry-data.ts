@@ -1,4 +1,13 @@
 import { getCollection } from "astro:content";
+import { PLUGIN_SIGNING_KEYS } from "@/config/plugin-signing-keys";
+import { verifyPluginArtifact } from "@/services/plugin-artifacts";
+import type { VerifiedArtifact } from "@/services/plugin-artifacts";
+import { parsePublicKey } from "@/utils/minisign";
+import type { CompatibilityDocument, CompatibilityVersionEntry } from "@/utils/plugin-compatibility";
+import { analyzeDependencies } from "@/utils/plugin-dependencies";
+import type { DependencyGraphDocument } from "@/utils/plugin-dependencies";
+import { findPluginVersionErrors } from "@/utils/plugin-validation";
+import { compareVersions, parseVersion } from "@/utils/semver-range";
 
 export interface WebsitePluginVersionEntry {
   version: string;
@@ -8,7 +17,10 @@ export interface WebsitePluginVersionEntry {
   dependencies: string[];
   gitRef?: string;
   downloadUrl?: string;
+  /** SHA-256 of the download, as sha256:<hex> */
   checksum?: string;
+  /** Detached minisign signature of the download */
+  signatureUrl?: string;
 }
 
 export interface WebsitePluginEntry {
@@ -27,6 +39,8 @@ export interface WebsitePluginEntry {
   keywords: string[];
   repository: string;
   featured?: boolean;
+  /** Day the plugin was added to the registry, announced in the site feeds */
+  registeredAt?: Date;
   versions: WebsitePluginVersionEntry[];
 }
 
@@ -63,15 +77,38 @@ export interface RegistryDetailDocument {
     git_ref?: string;
     download_url?: string;
     checksum?: string;
+    signature_url?: string;
+    signature_key_id?: string;
   }>;
 }
 
+export interface RegistryKeysDocument {
+  version: number;
+  keys: Array<{
+    key_id: string;
+    algorithm: "minisign-ed25519";
+    public_key: string;
+    owner: string;
+    namespaces: string[];
+  }>;
+}
+
+/**
+ * Loads the registered plugins, sorted by display name. Fails the build when
+ * a plugin declares a malformed version, version range or requirement.
+ */
 export async function getWebsitePluginEntries(): Promise<WebsitePluginEntry[]> {
   const entries = await getCollection("plugins");
-
-  return entries
+  const plugins = entries
     .map((entry) => entry.data)
     .sort((left, right) => left.displayName.localeCompare(right.displayName));
+  const errors = plugins.flatMap(findPluginVersionErrors);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid plugin registry entries:\n  ${errors.join("\n  ")}`);
+  }
+
+  return plugins;
 }
 
 export async function getRegistryIndexDocument(): Promise<RegistryIndexDocument> {
@@ -93,30 +130,132 @@ export async function getRegistryIndexDocument(): Promise<RegistryIndexDocument>
   };
 }
 
+/**
+ * Builds the detail document of every plugin. Versions with a `downloadUrl`
+ * are published with the verified SHA-256 of their download and the key that
+ * signed it; the build fails when a download doesn't match its checksum or
+ * signature.
+ */
 export async function getRegistryDetailDocuments(): Promise<RegistryDetailDocument[]> {
   const plugins = await getWebsitePluginEntries();
+  const errors: string[] = [];
+  const verify = async (
+    plugin: WebsitePluginEntry,
+    version: WebsitePluginVersionEntry,
+  ): Promise<Partial<VerifiedArtifact>> => {
+    if (!version.downloadUrl) {
+      return {};
+    }
+
+    try {
+      return await verifyPluginArtifact(plugin.namespace, version, PLUGIN_SIGNING_KEYS);
+    } catch (error) {
+      errors.push(`${plugin.id}@${version.version}: ${(error as Error).message}`);
+      return {};
+    }
+  };
+
+  const documents = await Promise.all(
+    plugins.map(async (plugin) => ({
+      name: plugin.name,
+      namespace: plugin.namespace,
+      display_name: plugin.displayName,
+      description: plugin.description,
+      author: plugin.author,
+      repository: plugin.repository,
+      versions: Object.fromEntries(
+        await Promise.all(
+          plugin.versions.map(async (version) => {
+            const verified = await verify(plugin, version);
+
+            return [
+              version.version,
+              {
+                version: version.version,
+                plugin_api: version.pluginApi,
+                lichtfeld_version: version.lichtfeldVersion,
+                required_features: version.requiredFeatures,
+                dependencies: version.dependencies,
+                git_ref: version.gitRef,
+                download_url: version.downloadUrl,
+                checksum: verified.checksum ?? version.checksum,
+                signature_url: version.signatureUrl,
+                signature_key_id: verified.signatureKeyId,
+              },
+            ] as const;
+          }),
+        ),
+      ),
+    })),
+  );
+
+  if (errors.length > 0) {
+    throw new Error(`Plugin downloads failed verification:\n  ${errors.join("\n  ")}`);
+  }
+
+  return documents;
+}
+
+/** Lists the keys trusted to sign plugin downloads, for clients verifying installs. */
+export function getRegistryKeysDocument(): RegistryKeysDocument {
+  return {
+    version: 1,
+    keys: PLUGIN_SIGNING_KEYS.map((key) => ({
+      key_id: parsePublicKey(key.publicKey).keyId,
+      algorithm: "minisign-ed25519",
+      public_key: key.publicKey,
+      owner: key.owner,
+      namespaces: key.namespaces,
+    })),
+  };
+}
+
+/**
+ * Lists every plugin version with its ranges, newest first, for resolving
+ * compatible versions. A plugin without version entries is listed with its
+ * latest version and top-level ranges.
+ */
+export async function getCompatibilityDocument(): Promise<CompatibilityDocument> {
+  const plugins = await getWebsitePluginEntries();
+  const byPrecedence = (left: CompatibilityVersionEntry, right: CompatibilityVersionEntry): number =>
+    compareVersions(parseVersion(right.version)!, parseVersion(left.version)!);
 
-  return plugins.map((plugin) => ({
-    name: plugin.name,
-    namespace: plugin.namespace,
-    display_name: plugin.displayName,
-    description: plugin.description,
-    author: plugin.author,
-    repository: plugin.repository,
-    versions: Object.fromEntries(
-      plugin.versions.map((version) => [
-        version.version,
-        {
+  return {
+    version: 1,
+    plugins: plugins.map((plugin) => ({
+      namespace: plugin.namespace,
+      name: plugin.name,
+      versions: (plugin.versions.length > 0 ? plugin.versions : [{ ...plugin, version: plugin.latestVersion }])
+        .map((version) => ({
           version: version.version,
-          plugin_api: version.pluginApi,
           lichtfeld_version: version.lichtfeldVersion,
-          required_features: version.requiredFeatures,
-          dependencies: version.dependencies,
-          git_ref: version.gitRef,
-          download_url: version.downloadUrl,
-          checksum: version.checksum,
-        },
-      ]),
-    ),
-  }));
+          plugin_api: version.pluginApi,
+        }))
+        .sort(byPrecedence),
+    })),
+  };
+}
+
+/**
+ * Analyzes the Python dependencies of each plugin's latest version (or its
+ * newest listed version) for packages plugins require in conflicting versions.
+ */
+export async function getDependencyGraphDocument(): Promise<DependencyGraphDocument> {
+  const plugins = await getWebsitePluginEntries();
+
+  return analyzeDependencies(
+    plugins.map((plugin) => {
+      const newest =
+        plugin.versions.find((version) => version.version === plugin.latestVersion) ??
+        [...plugin.versions].sort((left, right) =>
+          compareVersions(parseVersion(right.version)!, parseVersion(left.version)!),
+        )[0];
+
+      return {
+        id: plugin.id,
+        version: newest?.version ?? plugin.latestVersion,
+        dependencies: newest?.dependencies ?? [],
+      };
+    }),
+  );
 }
@@ -17,13 +17,17 @@ export interface PluginRegistryEntry {
   keywords: string[];
   repository: string;
   featured?: boolean;
+  /** Last push to the repository, or the day the plugin was registered when GitHub doesn't say */
+  updatedAt?: Date;
 }
 
-async function getRegisteredPluginEntries(): Promise<Omit<PluginRegistryEntry, "stars">[]> {
+async function getRegisteredPluginEntries(): Promise<
+  Array<Omit<PluginRegistryEntry, "stars" | "updatedAt"> & { registeredAt?: Date }>
+> {
   return await getWebsitePluginEntries();
 }
 
-function parseGitHubRepo(repositoryUrl: string): { owner: string; repo: string } | null {
+export function parseGitHubRepo(repositoryUrl: string): { owner: string; repo: string } | null {
   try {
     const url = new URL(repositoryUrl);
     if (url.hostname !== "github.com") return null;
@@ -35,9 +39,9 @@ function parseGitHubRepo(repositoryUrl: string): { owner: string; repo: string }
   }
 }
 
-async function fetchGitHubStars(repositoryUrl: string): Promise<number> {
+async function fetchGitHubRepository(repositoryUrl: string): Promise<{ stars: number; pushedAt?: Date }> {
   const parsed = parseGitHubRepo(repositoryUrl);
-  if (!parsed) return 0;
+  if (!parsed) return { stars: 0 };
 
   // Authenticate with the same token the rest of the build uses. Without it,
   // the unauthenticated GitHub API limit (60/hr) is exhausted during the build
@@ -57,23 +61,26 @@ async function fetchGitHubStars(repositoryUrl: string): Promise<number> {
         `[plugin-registry] Failed to fetch stars for ${parsed.owner}/${parsed.repo}: ${response.status} ${response.statusText}` +
           (response.status === 403 && !token ? " (set GITHUB_TOKEN to avoid rate limiting)" : ""),
       );
-      return 0;
+      return { stars: 0 };
     }
-    const data = (await response.json()) as { stargazers_count?: number };
-    return typeof data.stargazers_count === "number" ? data.stargazers_count : 0;
+    const data = (await response.json()) as { stargazers_count?: number; pushed_at?: string };
+    return {
+      stars: typeof data.stargazers_count === "number" ? data.stargazers_count : 0,
+      pushedAt: data.pushed_at ? new Date(data.pushed_at) : undefined,
+    };
   } catch (error) {
     console.warn(`[plugin-registry] Error fetching stars for ${parsed.owner}/${parsed.repo}:`, error);
-    return 0;
+    return { stars: 0 };
   }
 }
 
 export async function getPluginRegistry(): Promise<PluginRegistryEntry[]> {
   const registeredPlugins = await getRegisteredPluginEntries();
   const plugins = await Promise.all(
-    registeredPlugins.map(async (plugin) => ({
-      ...plugin,
-      stars: await fetchGitHubStars(plugin.repository),
-    })),
+    registeredPlugins.map(async (plugin) => {
+      const { stars, pushedAt } = await fetchGitHubRepository(plugin.repository);
+      return { ...plugin, stars, updatedAt: pushedAt ?? plugin.registeredAt };
+    }),
   );
 
   return plugins;
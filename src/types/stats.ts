@@ -1,31 +1,10 @@
 /**
  * stats.ts
  *
- * Types for download statistics API.
+ * Types and runtime validators for the download statistics API.
+ *
+ * The contract lives in shared/stats-schema so the stats-api worker and the
+ * site are built against the same definitions; import it from here.
  */
 
-// =============================================================================
-// API Response Types
-// =============================================================================
-
-/**
- * Response from GET /api/stats.
- */
-export interface StatsResponse {
-    totals: {
-        allTime: number;
-        last7Days: number;
-        last30Days: number;
-        last90Days: number;
-    };
-    releases: Array<{
-        tag: string;
-        name: string;
-        downloads: number;
-    }>;
-    timeSeries: {
-        daily: Array<{ date: number; downloads: number }>;
-        weekly: Array<{ week: number; downloads: number }>;
-        monthly: Array<{ month: number; downloads: number }>;
-    };
-}
+export * from "../../shared/stats-schema";
@@ -0,0 +1,223 @@
+/**
+ * Renderers for the site's syndication feeds: RSS 2.0, Atom 1.0 and JSON Feed 1.1.
+ *
+ * Items are assembled by src/services/feed.ts; everything here is pure so the
+ * three formats stay in step and can be unit tested.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FeedItemKind = "blog" | "release" | "plugin";
+
+export interface FeedItem {
+  /** Stable, unique URL identifying the item across feed formats */
+  id: string;
+  kind: FeedItemKind;
+  title: string;
+  /** Absolute URL of the item's page */
+  url: string;
+  published: Date;
+  updated?: Date;
+  summary: string;
+  /** Full HTML content, when there is more to show than the summary */
+  contentHtml?: string;
+  author: string;
+  /** Broad grouping: the blog category, "Releases" or "Plugins" */
+  category: string;
+  tags: string[];
+  /** Absolute image URL */
+  image?: string;
+}
+
+export interface FeedMeta {
+  title: string;
+  description: string;
+  /** Absolute URL of the site root */
+  siteUrl: string;
+  /** Absolute URLs of this feed in each format */
+  feedUrls: { rss: string; atom: string; json: string };
+}
+
+/** Restricts a feed to one category or tag, matched by slug. */
+export interface FeedFilter {
+  type: "category" | "tag";
+  slug: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Newest items kept in each feed */
+export const FEED_ITEM_LIMIT = 50;
+
+export const FEED_CONTENT_TYPES = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+} as const;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** URL-safe form of a category or tag, e.g. "Release Notes" -> "release-notes". */
+export function slugifyFeedTerm(term: string): string {
+  return term
+    .toLowerCase()
+    .replace(/\+/g, "plus")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/** Newest first, limited to FEED_ITEM_LIMIT, optionally narrowed to one category or tag. */
+export function selectFeedItems(items: FeedItem[], filter?: FeedFilter): FeedItem[] {
+  return items
+    .filter((item) => {
+      if (!filter) return true;
+      if (filter.type === "category") return slugifyFeedTerm(item.category) === filter.slug;
+
+      return item.tags.some((tag) => slugifyFeedTerm(tag) === filter.slug);
+    })
+    .sort((a, b) => b.published.getTime() - a.published.getTime())
+    .slice(0, FEED_ITEM_LIMIT);
+}
+
+/** Every category and tag used by the items, by slug, with its display form. */
+export function collectFeedFilters(items: FeedItem[]): Array<FeedFilter & { label: string }> {
+  const filters = new Map<string, FeedFilter & { label: string }>();
+
+  for (const item of items) {
+    const category = slugifyFeedTerm(item.category);
+
+    filters.set(`category/${category}`, { type: "category", slug: category, label: item.category });
+
+    for (const tag of item.tags) {
+      const slug = slugifyFeedTerm(tag);
+
+      if (slug) filters.set(`tag/${slug}`, { type: "tag", slug, label: tag });
+    }
+  }
+
+  return [...filters.values()];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Date of the newest change, so rebuilding unchanged content yields identical feeds. */
+function lastUpdated(items: FeedItem[]): Date {
+  const times = items.map((item) => (item.updated ?? item.published).getTime());
+
+  return times.length > 0 ? new Date(Math.max(...times)) : new Date(0);
+}
+
+// ============================================================================
+// Renderers
+// ============================================================================
+
+export function renderRss(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map((item) =>
+    [
+      "    <item>",
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="${item.id === item.url}">${escapeXml(item.id)}</guid>`,
+      `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+      `      <dc:creator>${escapeXml(item.author)}</dc:creator>`,
+      `      <description>${escapeXml(item.summary)}</description>`,
+      item.contentHtml ? `      <content:encoded>${escapeXml(item.contentHtml)}</content:encoded>` : null,
+      `      <category>${escapeXml(item.category)}</category>`,
+      ...item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      "    </item>",
+    ]
+      .filter((line) => line !== null)
+      .join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "  <channel>",
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.siteUrl)}</link>`,
+    `    <description>${escapeXml(meta.description)}</description>`,
+    "    <language>en</language>",
+    `    <lastBuildDate>${lastUpdated(items).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(meta.feedUrls.rss)}" rel="self" type="application/rss+xml" />`,
+    ...entries,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+export function renderAtom(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map((item) =>
+    [
+      "  <entry>",
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+      `    <published>${item.published.toISOString()}</published>`,
+      `    <updated>${(item.updated ?? item.published).toISOString()}</updated>`,
+      `    <author><name>${escapeXml(item.author)}</name></author>`,
+      `    <summary>${escapeXml(item.summary)}</summary>`,
+      item.contentHtml ? `    <content type="html">${escapeXml(item.contentHtml)}</content>` : null,
+      ...[item.category, ...item.tags].map(
+        (term) => `    <category term="${escapeXml(slugifyFeedTerm(term))}" label="${escapeXml(term)}" />`,
+      ),
+      "  </entry>",
+    ]
+      .filter((line) => line !== null)
+      .join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+    `  <id>${escapeXml(meta.feedUrls.atom)}</id>`,
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `  <updated>${lastUpdated(items).toISOString()}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(meta.feedUrls.atom)}" />`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(meta.siteUrl)}" />`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+export function renderJsonFeed(meta: FeedMeta, items: FeedItem[]): string {
+  const feed = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: meta.title,
+    home_page_url: meta.siteUrl,
+    feed_url: meta.feedUrls.json,
+    description: meta.description,
+    language: "en",
+    items: items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      // JSON Feed requires content; fall back to the summary as plain text
+      ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary }),
+      image: item.image,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated?.toISOString(),
+      authors: [{ name: item.author }],
+      tags: [item.category, ...item.tags],
+    })),
+  };
+
+  return `${JSON.stringify(feed, null, 2)}\n`;
+}
@@ -0,0 +1,121 @@
+/**
+ * Detached minisign signatures (https://jedisct1.github.io/minisign/), as
+ * plugin authors publish them next to their release archives.
+ *
+ * A public key is the base64 line of `minisign.pub`; a signature is the whole
+ * `.minisig` file:
+ *
+ *   untrusted comment: signature from minisign secret key
+ *   RUQ...   (algorithm, key id and Ed25519 signature of the file)
+ *   trusted comment: timestamp:1760000000  file:plugin.zip
+ *   9kX...   (Ed25519 signature of the signature and the trusted comment)
+ *
+ * `ED` signatures sign the BLAKE2b-512 hash of the file, legacy `Ed` ones the
+ * file itself. Both are verified with Node's crypto at build time.
+ */
+
+import { createHash, createPublicKey, verify } from "node:crypto";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MinisignPublicKey {
+  /** Key id as minisign prints it, 16 uppercase hex digits */
+  keyId: string;
+  /** Raw 32-byte Ed25519 public key */
+  key: Uint8Array;
+}
+
+export interface MinisignSignature {
+  /** "ED" for a signature of the BLAKE2b-512 hash, "Ed" for one of the file */
+  algorithm: "ED" | "Ed";
+  keyId: string;
+  signature: Uint8Array;
+  trustedComment: string;
+  globalSignature: Uint8Array;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function decodeBase64(text: string, length: number, what: string): Uint8Array {
+  const bytes = /^[A-Za-z0-9+/]+={0,2}$/.test(text) ? new Uint8Array(Buffer.from(text, "base64")) : null;
+
+  if (!bytes || bytes.length !== length) {
+    throw new Error(`${what} is not ${length} bytes of base64`);
+  }
+
+  return bytes;
+}
+
+/** minisign stores key ids little-endian and prints them as a 64-bit number. */
+function formatKeyId(bytes: Uint8Array): string {
+  return Buffer.from(bytes).reverse().toString("hex").toUpperCase();
+}
+
+/**
+ * Parses a minisign public key, either the base64 line alone or the whole
+ * `minisign.pub` file. Throws when it isn't an Ed25519 key.
+ */
+export function parsePublicKey(text: string): MinisignPublicKey {
+  const lines = text.trim().split(/\r?\n/);
+  const bytes = decodeBase64(lines[lines.length - 1].trim(), 42, "The public key");
+
+  if (Buffer.from(bytes.subarray(0, 2)).toString("latin1") !== "Ed") {
+    throw new Error("The public key is not an Ed25519 minisign key");
+  }
+
+  return { keyId: formatKeyId(bytes.subarray(2, 10)), key: bytes.subarray(10) };
+}
+
+/** Parses a `.minisig` file. Throws when it is malformed. */
+export function parseSignature(text: string): MinisignSignature {
+  const lines = text.trim().split(/\r?\n/);
+
+  if (lines.length !== 4 || !lines[0].startsWith("untrusted comment: ") || !lines[2].startsWith("trusted comment: ")) {
+    throw new Error("The signature is not a minisign signature file");
+  }
+
+  const bytes = decodeBase64(lines[1].trim(), 74, "The signature");
+  const algorithm = Buffer.from(bytes.subarray(0, 2)).toString("latin1");
+
+  if (algorithm !== "ED" && algorithm !== "Ed") {
+    throw new Error(`The signature uses the unknown algorithm '${algorithm}'`);
+  }
+
+  return {
+    algorithm,
+    keyId: formatKeyId(bytes.subarray(2, 10)),
+    signature: bytes.subarray(10),
+    trustedComment: lines[2].slice("trusted comment: ".length),
+    globalSignature: decodeBase64(lines[3].trim(), 64, "The trusted comment signature"),
+  };
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Returns whether the signature was made over the data with the key, trusted
+ * comment included. A signature by another key never verifies.
+ */
+export function verifySignature(data: Uint8Array, signature: MinisignSignature, publicKey: MinisignPublicKey): boolean {
+  if (signature.keyId !== publicKey.keyId) {
+    return false;
+  }
+
+  const key = createPublicKey({
+    key: { kty: "OKP", crv: "Ed25519", x: Buffer.from(publicKey.key).toString("base64url") },
+    format: "jwk",
+  });
+  const message = signature.algorithm === "ED" ? createHash("blake2b512").update(data).digest() : data;
+  const trusted = new Uint8Array([...signature.signature, ...new TextEncoder().encode(signature.trustedComment)]);
+
+  return (
+    verify(null, new Uint8Array(message), key, new Uint8Array(signature.signature)) &&
+    verify(null, trusted, key, new Uint8Array(signature.globalSignature))
+  );
+}
@@ -0,0 +1,352 @@
+/**
+ * Python dependency requirements as plugins declare them in `dependencies`.
+ *
+ * A requirement follows PEP 508 and its version specifiers PEP 440:
+ *
+ *   numpy            torch==2.11.0       torch>=2.5,<2.8       imageio[pyav]
+ *   numpy (>=1.24)   gsplat==1.5.*       einops~=0.8           sam2 @ https://...
+ *   triton-windows>=3.5 ; platform_system == 'Windows'
+ *
+ * Package names are compared in their normalized form (PEP 503), so `Pillow`
+ * and `pillow` are the same package. Environment markers are kept as written;
+ * they are not evaluated.
+ *
+ * Everything here is pure: src/services/plugin-registry-data.ts validates the
+ * registry's requirements at build time and src/utils/plugin-dependencies.ts
+ * looks for plugins whose requirements can't be installed together.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Pep440Version {
+  epoch: number;
+  release: number[];
+  /** Pre-release phase and number, e.g. ["rc", 1] */
+  pre: ["a" | "b" | "rc", number] | null;
+  post: number | null;
+  dev: number | null;
+}
+
+export type SpecifierOperator = "===" | "~=" | "==" | "!=" | "<=" | ">=" | "<" | ">";
+
+export interface Specifier {
+  operator: SpecifierOperator;
+  /** Version as written, without a trailing `.*` */
+  version: string;
+  /** Whether the version ended in `.*` (prefix matching) */
+  wildcard: boolean;
+}
+
+export interface Requirement {
+  /** Normalized package name */
+  name: string;
+  extras: string[];
+  /** Specifiers that must all hold; empty for any version */
+  specifiers: Specifier[];
+  /** Direct reference given with `@`, or null */
+  url: string | null;
+  /** Environment marker after `;`, or null */
+  marker: string | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const VERSION_PATTERN =
+  /^v?(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(alpha|beta|preview|pre|rc|a|b|c)[-_.]?(\d+)?)?(?:-(\d+)|[-_.]?(post|rev|r)[-_.]?(\d+)?)?(?:[-_.]?(dev)[-_.]?(\d+)?)?(?:\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?$/i;
+
+const NAME_PATTERN = /^([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)\s*(?:\[([^\]]*)\])?\s*(.*)$/;
+
+const SPECIFIER_PATTERN = /^(===|~=|==|!=|<=|>=|<|>)\s*(\S+)$/;
+
+const PRE_PHASES: Record<string, "a" | "b" | "rc"> = {
+  a: "a",
+  alpha: "a",
+  b: "b",
+  beta: "b",
+  c: "rc",
+  rc: "rc",
+  pre: "rc",
+  preview: "rc",
+};
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+/**
+ * Parses a PEP 440 version such as "2.11.0", "1.0rc1" or "1!2.0.post1".
+ * The local part (`+cu121`) is accepted and ignored. Returns null when the
+ * text isn't a version.
+ */
+export function parsePep440Version(text: string): Pep440Version | null {
+  const match = VERSION_PATTERN.exec(text.trim());
+
+  if (!match) {
+    return null;
+  }
+
+  const [, epoch, release, prePhase, preNumber, implicitPost, postLabel, postNumber, devLabel, devNumber] = match;
+
+  return {
+    epoch: epoch ? Number(epoch) : 0,
+    release: release.split(".").map(Number),
+    pre: prePhase ? [PRE_PHASES[prePhase.toLowerCase()], Number(preNumber ?? 0)] : null,
+    post: implicitPost !== undefined ? Number(implicitPost) : postLabel ? Number(postNumber ?? 0) : null,
+    dev: devLabel ? Number(devNumber ?? 0) : null,
+  };
+}
+
+/** Orders versions as pip does: negative when a < b, 0 when equal, positive when a > b. */
+export function comparePep440Versions(a: Pep440Version, b: Pep440Version): number {
+  if (a.epoch !== b.epoch) {
+    return a.epoch - b.epoch;
+  }
+
+  // Trailing zeros don't count: 1.26 == 1.26.0
+  for (let i = 0; i < Math.max(a.release.length, b.release.length); i++) {
+    const order = (a.release[i] ?? 0) - (b.release[i] ?? 0);
+
+    if (order !== 0) {
+      return order;
+    }
+  }
+
+  const keys = (version: Pep440Version): number[] => [
+    // A development release of a final release comes before its pre-releases
+    version.pre ? ["a", "b", "rc"].indexOf(version.pre[0]) : version.post === null && version.dev !== null ? -1 : 3,
+    version.pre ? version.pre[1] : 0,
+    version.post ?? -1,
+    version.dev ?? Infinity,
+  ];
+  const left = keys(a);
+  const right = keys(b);
+
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+// ============================================================================
+// Requirements
+// ============================================================================
+
+/** Normalizes a package name as PEP 503 does: "Pillow_Heif" -> "pillow-heif". */
+export function normalizePackageName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+function parseSpecifier(text: string): Specifier {
+  const match = SPECIFIER_PATTERN.exec(text);
+
+  if (!match) {
+    throw new Error(`'${text}' is not a version specifier`);
+  }
+
+  const [, operator, written] = match as unknown as [string, SpecifierOperator, string];
+  const wildcard = written.endsWith(".*");
+  const version = wildcard ? written.slice(0, -2) : written;
+
+  if (operator === "===") {
+    return { operator, version, wildcard: false };
+  }
+
+  if (wildcard && operator !== "==" && operator !== "!=") {
+    throw new Error(`'${text}' can't use a wildcard`);
+  }
+
+  const parsed = parsePep440Version(version);
+
+  if (!parsed) {
+    throw new Error(`'${version}' is not a version`);
+  }
+
+  if (version.includes("+") && (wildcard || (operator !== "==" && operator !== "!="))) {
+    throw new Error(`'${text}' can't compare a local version`);
+  }
+
+  if (operator === "~=" && parsed.release.length < 2) {
+    throw new Error(`'${text}' needs at least two release segments`);
+  }
+
+  return { operator, version, wildcard };
+}
+
+/**
+ * Parses a requirement such as "torch>=2.5,<2.8" or
+ * "triton>=3.4.0 ; platform_system != 'Windows'".
+ * Throws an Error naming the offending part when the requirement is malformed.
+ */
+export function parseRequirement(text: string): Requirement {
+  try {
+    const match = NAME_PATTERN.exec(text.trim());
+
+    if (!match) {
+      throw new Error("it doesn't start with a package name");
+    }
+
+    const [, name, extras, rest] = match;
+    const requirement: Requirement = {
+      name: normalizePackageName(name),
+      extras: extras === undefined || extras.trim() === "" ? [] : extras.split(",").map((extra) => extra.trim()),
+      specifiers: [],
+      url: null,
+      marker: null,
+    };
+
+    if (requirement.extras.some((extra) => !/^[A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?$/.test(extra))) {
+      throw new Error(`'[${extras}]' is not a list of extras`);
+    }
+
+    // A URL may contain ';', so its marker must be separated by whitespace
+    const markerAt = rest.startsWith("@") ? rest.search(/\s;/) : rest.indexOf(";");
+    const versionPart = (markerAt < 0 ? rest : rest.slice(0, markerAt)).trim();
+
+    if (markerAt >= 0) {
+      requirement.marker = rest
+        .slice(rest.indexOf(";", markerAt) + 1)
+        .trim()
+        .replace(/\s+/g, " ");
+
+      if (requirement.marker === "") {
+        throw new Error("the marker after ';' is empty");
+      }
+    }
+
+    if (versionPart.startsWith("@")) {
+      requirement.url = versionPart.slice(1).trim();
+
+      if (requirement.url === "" || /\s/.test(requirement.url)) {
+        throw new Error("'@' is not followed by a URL");
+      }
+
+      return requirement;
+    }
+
+    const specifiers =
+      versionPart.startsWith("(") && versionPart.endsWith(")") ? versionPart.slice(1, -1) : versionPart;
+
+    if (specifiers.trim() !== "") {
+      requirement.specifiers = specifiers.split(",").map((specifier) => parseSpecifier(specifier.trim()));
+    }
+
+    return requirement;
+  } catch (error) {
+    throw new Error(`Invalid requirement '${text}': ${(error as Error).message}`);
+  }
+}
+
+// ============================================================================
+// Intersection
+// ============================================================================
+
+interface Bound {
+  version: Pep440Version;
+  inclusive: boolean;
+}
+
+/** The lowest version after every version starting with the release prefix (2.0.dev0 for 1.*). */
+function afterPrefix(version: Pep440Version): Pep440Version {
+  const release = version.release.slice(0, -1).concat(version.release[version.release.length - 1] + 1);
+
+  return { epoch: version.epoch, release, pre: null, post: null, dev: 0 };
+}
+
+function startOfPrefix(version: Pep440Version): Pep440Version {
+  return { epoch: version.epoch, release: version.release, pre: null, post: null, dev: 0 };
+}
+
+/** The tighter of two lower bounds; an exclusive bound is tighter than an inclusive one at the same version. */
+function higher(current: Bound | null, bound: Bound): Bound {
+  const order = current ? comparePep440Versions(bound.version, current.version) : 1;
+
+  return order > 0 || (order === 0 && !bound.inclusive) ? bound : current!;
+}
+
+/** The tighter of two upper bounds. */
+function lowerOf(current: Bound | null, bound: Bound): Bound {
+  const order = current ? comparePep440Versions(bound.version, current.version) : -1;
+
+  return order < 0 || (order === 0 && !bound.inclusive) ? bound : current!;
+}
+
+function matchesPrefix(version: Pep440Version, prefix: Pep440Version): boolean {
+  return version.epoch === prefix.epoch && prefix.release.every((part, i) => (version.release[i] ?? 0) === part);
+}
+
+/**
+ * Returns whether at least one version satisfies every specifier. Exclusions
+ * (`!=`) only matter when the other specifiers pin a single version, which is
+ * how conflicting requirements meet in practice; `===` compares as `==`.
+ */
+export function specifiersIntersect(specifiers: Specifier[]): boolean {
+  let lower: Bound | null = null;
+  let upper: Bound | null = null;
+  const excluded: Specifier[] = [];
+
+  for (const specifier of specifiers) {
+    const version = parsePep440Version(specifier.version);
+
+    // Arbitrary equality with something that isn't a version can't be compared
+    if (!version) {
+      continue;
+    }
+
+    switch (specifier.operator) {
+      case "==":
+      case "===":
+        lower = higher(lower, { version: specifier.wildcard ? startOfPrefix(version) : version, inclusive: true });
+        upper = specifier.wildcard
+          ? lowerOf(upper, { version: afterPrefix(version), inclusive: false })
+          : lowerOf(upper, { version, inclusive: true });
+        break;
+      case "~=":
+        lower = higher(lower, { version, inclusive: true });
+        upper = lowerOf(upper, {
+          version: afterPrefix({ ...version, release: version.release.slice(0, -1) }),
+          inclusive: false,
+        });
+        break;
+      case ">=":
+      case ">":
+        lower = higher(lower, { version, inclusive: specifier.operator === ">=" });
+        break;
+      case "<=":
+      case "<":
+        upper = lowerOf(upper, { version, inclusive: specifier.operator === "<=" });
+        break;
+      case "!=":
+        excluded.push(specifier);
+        break;
+    }
+  }
+
+  if (!lower || !upper) {
+    return true;
+  }
+
+  const order = comparePep440Versions(lower.version, upper.version);
+
+  if (order !== 0) {
+    return order < 0;
+  }
+
+  if (!lower.inclusive || !upper.inclusive) {
+    return false;
+  }
+
+  const pinned = lower.version;
+
+  return !excluded.some((specifier) => {
+    const version = parsePep440Version(specifier.version)!;
+
+    return specifier.wildcard ? matchesPrefix(pinned, version) : comparePep440Versions(pinned, version) === 0;
+  });
+}
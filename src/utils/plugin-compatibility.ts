@@ -0,0 +1,96 @@
+/**
+ * Picks the newest version of every registry plugin that works with a given
+ * LichtFeld Studio version and plugin API.
+ *
+ * The build publishes every plugin version with its ranges as
+ * /plugin-registry/compatibility.json (src/services/plugin-registry-data.ts);
+ * the worker answers /plugin-registry/resolve.json from it (src/api/plugin-registry.ts).
+ */
+
+import { compareVersions, formatVersion, parseRange, parseVersion, satisfies } from "./semver-range";
+import type { Version } from "./semver-range";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CompatibilityVersionEntry {
+  version: string;
+  /** Range of LichtFeld Studio versions, e.g. ">=0.5.0" */
+  lichtfeld_version: string;
+  /** Range of plugin API versions, e.g. ">=1,<2" */
+  plugin_api: string;
+}
+
+export interface CompatibilityDocument {
+  version: number;
+  plugins: Array<{
+    namespace: string;
+    name: string;
+    /** Newest first */
+    versions: CompatibilityVersionEntry[];
+  }>;
+}
+
+export interface ResolveQuery {
+  lichtfeld: Version;
+  /** Plugin API version of the host, or null to only check the LichtFeld version */
+  pluginApi: Version | null;
+}
+
+export interface ResolvedPlugin extends CompatibilityVersionEntry {
+  namespace: string;
+  name: string;
+}
+
+export interface ResolveDocument {
+  version: number;
+  lichtfeld: string;
+  plugin_api: string | null;
+  /** Newest compatible version of each plugin that has one */
+  plugins: ResolvedPlugin[];
+  /** Plugins without any compatible version, as namespace:name */
+  incompatible: string[];
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/** Returns whether a plugin version's ranges admit the queried versions. */
+export function isCompatible(entry: CompatibilityVersionEntry, query: ResolveQuery): boolean {
+  return (
+    satisfies(query.lichtfeld, parseRange(entry.lichtfeld_version)) &&
+    (query.pluginApi === null || satisfies(query.pluginApi, parseRange(entry.plugin_api)))
+  );
+}
+
+/**
+ * Resolves the newest compatible version of every plugin. Versions are
+ * compared by SemVer precedence, whatever order the document lists them in.
+ */
+export function resolveCompatiblePlugins(document: CompatibilityDocument, query: ResolveQuery): ResolveDocument {
+  const plugins: ResolvedPlugin[] = [];
+  const incompatible: string[] = [];
+
+  for (const plugin of document.plugins) {
+    const newest = plugin.versions
+      .filter((entry) => isCompatible(entry, query))
+      .map((entry) => ({ entry, version: parseVersion(entry.version)! }))
+      .sort((left, right) => compareVersions(right.version, left.version))[0];
+
+    if (newest) {
+      plugins.push({ namespace: plugin.namespace, name: plugin.name, ...newest.entry });
+    } else {
+      incompatible.push(`${plugin.namespace}:${plugin.name}`);
+    }
+  }
+
+  return {
+    version: 1,
+    lichtfeld: formatVersion(query.lichtfeld),
+    plugin_api: query.pluginApi && formatVersion(query.pluginApi),
+    plugins,
+    incompatible,
+  };
+}
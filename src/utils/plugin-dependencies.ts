@@ -0,0 +1,137 @@
+/**
+ * Finds registry plugins whose Python dependencies can't be installed side by
+ * side, e.g. one plugin pinning torch==2.11.0 and another torch==2.8.0.
+ *
+ * The build publishes the result as /plugin-registry/dependency-graph.json
+ * (src/services/plugin-registry-data.ts), and the plugin catalog warns about
+ * the conflicts on each PluginCard.
+ */
+
+import { parseRequirement, specifiersIntersect } from "./pep508";
+import type { Requirement } from "./pep508";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PluginDependencies {
+  /** Plugin id, namespace:name */
+  id: string;
+  /** Version whose dependencies are analyzed */
+  version: string;
+  /** PEP 508 requirements */
+  dependencies: string[];
+}
+
+export interface DependencyRequirement {
+  /** Plugin id, namespace:name */
+  plugin: string;
+  /** Requirement as the plugin declares it */
+  requirement: string;
+}
+
+export interface DependencyConflict {
+  /** Normalized package name */
+  package: string;
+  /** The two requirements no version satisfies together */
+  requirements: [DependencyRequirement, DependencyRequirement];
+}
+
+export interface DependencyGraphDocument {
+  version: number;
+  plugins: Array<{
+    id: string;
+    version: string;
+    /** Normalized names of the packages the plugin requires */
+    packages: string[];
+  }>;
+  /** Every required package, with the plugins requiring it */
+  packages: Array<{
+    name: string;
+    required_by: DependencyRequirement[];
+  }>;
+  conflicts: DependencyConflict[];
+}
+
+/** The plugins one plugin conflicts with, and over which packages. */
+export interface PluginConflictSummary {
+  plugin: string;
+  packages: string[];
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Builds the dependency graph of the given plugin versions. Two requirements
+ * of the same package conflict when no version satisfies both; requirements
+ * with different environment markers may never meet and are not compared.
+ */
+export function analyzeDependencies(plugins: PluginDependencies[]): DependencyGraphDocument {
+  const packages = new Map<string, Array<DependencyRequirement & Pick<Requirement, "specifiers" | "marker">>>();
+  const document: DependencyGraphDocument = { version: 1, plugins: [], packages: [], conflicts: [] };
+
+  for (const plugin of plugins) {
+    const names = new Set<string>();
+
+    for (const text of plugin.dependencies) {
+      const requirement = parseRequirement(text);
+      const requirers = packages.get(requirement.name) ?? [];
+
+      names.add(requirement.name);
+      requirers.push({
+        plugin: plugin.id,
+        requirement: text,
+        specifiers: requirement.specifiers,
+        marker: requirement.marker,
+      });
+      packages.set(requirement.name, requirers);
+    }
+
+    document.plugins.push({ id: plugin.id, version: plugin.version, packages: [...names].sort() });
+  }
+
+  for (const [name, requirers] of [...packages].sort(([left], [right]) => left.localeCompare(right))) {
+    document.packages.push({
+      name,
+      required_by: requirers.map(({ plugin, requirement }) => ({ plugin, requirement })),
+    });
+
+    requirers.forEach((left, i) => {
+      for (const right of requirers.slice(i + 1)) {
+        if (left.plugin === right.plugin || (left.marker && right.marker && left.marker !== right.marker)) {
+          continue;
+        }
+
+        if (!specifiersIntersect([...left.specifiers, ...right.specifiers])) {
+          document.conflicts.push({
+            package: name,
+            requirements: [
+              { plugin: left.plugin, requirement: left.requirement },
+              { plugin: right.plugin, requirement: right.requirement },
+            ],
+          });
+        }
+      }
+    });
+  }
+
+  return document;
+}
+
+/** Lists the plugins a plugin conflicts with, in the order the graph first names them. */
+export function summarizeConflicts(document: DependencyGraphDocument, pluginId: string): PluginConflictSummary[] {
+  const summaries = new Map<string, Set<string>>();
+
+  for (const conflict of document.conflicts) {
+    const [left, right] = conflict.requirements;
+    const other = left.plugin === pluginId ? right.plugin : right.plugin === pluginId ? left.plugin : null;
+
+    if (other !== null) {
+      summaries.set(other, (summaries.get(other) ?? new Set()).add(conflict.package));
+    }
+  }
+
+  return [...summaries].map(([plugin, packages]) => ({ plugin, packages: [...packages] }));
+}
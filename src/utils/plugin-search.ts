@@ -0,0 +1,235 @@
+/**
+ * Search over the plugin catalog, run in the browser on plugins/index.astro.
+ *
+ * The page builds the index at build time (buildPluginSearchIndex) from the
+ * registry, embeds it as JSON and answers every query client-side with
+ * searchPlugins, so the catalog stays a static page.
+ */
+
+import { parseRange, parseVersion, satisfies } from "./semver-range";
+import type { CompatibilityDocument } from "./plugin-compatibility";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SearchablePlugin {
+  id: string;
+  displayName: string;
+  summary: string;
+  description: string;
+  author: string;
+  keywords: string[];
+  stars: number;
+  downloads: number;
+  updatedAt?: Date;
+}
+
+export interface PluginSearchDocument {
+  id: string;
+  author: string;
+  keywords: string[];
+  stars: number;
+  downloads: number;
+  /** ISO date of the last update, or null when unknown */
+  updatedAt: string | null;
+  /** LichtFeld Studio version range of each plugin version */
+  lichtfeldVersions: string[];
+  /** Weighted terms of the display name, summary, description, keywords and author */
+  terms: Record<string, number>;
+}
+
+export interface PluginSearchIndex {
+  version: number;
+  documents: PluginSearchDocument[];
+}
+
+export type PluginSort = "relevance" | "stars" | "downloads" | "updated";
+
+export interface PluginSearchQuery {
+  text: string;
+  /** Plugins must have at least one of these keywords; empty for any */
+  keywords: string[];
+  /** Plugins must be by one of these authors; empty for any */
+  authors: string[];
+  /** LichtFeld Studio version some plugin version must support, or null for any */
+  lichtfeld: string | null;
+  sort: PluginSort;
+}
+
+export interface FacetCounts {
+  keywords: Record<string, number>;
+  authors: Record<string, number>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How much a term counts depending on the field it appears in. */
+const FIELD_WEIGHTS = {
+  displayName: 5,
+  keywords: 4,
+  author: 3,
+  summary: 2,
+  description: 1,
+} as const;
+
+const STOP_WORDS = new Set(["a", "an", "and", "for", "in", "of", "on", "or", "the", "to", "with"]);
+
+/** A query term matching only the start of an indexed term counts this much. */
+const PREFIX_MATCH_FACTOR = 0.5;
+
+// ============================================================================
+// Indexing
+// ============================================================================
+
+/** Splits text into lowercase terms without accents, leaving out stop words. */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term !== "" && !STOP_WORDS.has(term));
+}
+
+/** Builds the search index of the catalog, with the version ranges of the compatibility document. */
+export function buildPluginSearchIndex(
+  plugins: SearchablePlugin[],
+  compatibility: CompatibilityDocument,
+): PluginSearchIndex {
+  const ranges = new Map(
+    compatibility.plugins.map((plugin) => [
+      `${plugin.namespace}:${plugin.name}`,
+      plugin.versions.map((version) => version.lichtfeld_version),
+    ]),
+  );
+
+  return {
+    version: 1,
+    documents: plugins.map((plugin) => {
+      // No prototype, so terms like "constructor" don't find Object's members
+      const terms: Record<string, number> = Object.create(null);
+
+      for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+        const value = field === "keywords" ? plugin.keywords.join(" ") : plugin[field as keyof typeof FIELD_WEIGHTS];
+
+        for (const term of tokenize(value as string)) {
+          terms[term] = (terms[term] ?? 0) + weight;
+        }
+      }
+
+      return {
+        id: plugin.id,
+        author: plugin.author,
+        keywords: plugin.keywords,
+        stars: plugin.stars,
+        downloads: plugin.downloads,
+        updatedAt: plugin.updatedAt ? plugin.updatedAt.toISOString() : null,
+        lichtfeldVersions: ranges.get(plugin.id) ?? [],
+        terms,
+      };
+    }),
+  };
+}
+
+// ============================================================================
+// Searching
+// ============================================================================
+
+/** Scores a document against the query terms; 0 when a term doesn't match at all. */
+function score(document: PluginSearchDocument, queryTerms: string[]): number {
+  let total = 0;
+
+  for (const queryTerm of queryTerms) {
+    // The index may come from JSON, whose objects have a prototype again
+    let best = Object.hasOwn(document.terms, queryTerm) ? document.terms[queryTerm] : 0;
+
+    if (best === 0) {
+      for (const [term, weight] of Object.entries(document.terms)) {
+        if (term.startsWith(queryTerm)) {
+          best = Math.max(best, weight * PREFIX_MATCH_FACTOR);
+        }
+      }
+    }
+
+    if (best === 0) {
+      return 0;
+    }
+
+    total += best;
+  }
+
+  return total;
+}
+
+/** Returns whether some version of the plugin supports the LichtFeld Studio version. */
+function supports(document: PluginSearchDocument, lichtfeld: string): boolean {
+  const version = parseVersion(lichtfeld);
+
+  return version !== null && document.lichtfeldVersions.some((range) => satisfies(version, parseRange(range)));
+}
+
+/**
+ * Returns the ids of the plugins matching the query, best first. Every query
+ * term must match a term of the plugin, or the start of one ("dens" finds
+ * "densification"). Facets combine with AND, the values of one facet with OR.
+ */
+export function searchPlugins(index: PluginSearchIndex, query: PluginSearchQuery): string[] {
+  const queryTerms = tokenize(query.text);
+  const matches: Array<{ document: PluginSearchDocument; score: number; order: number }> = [];
+
+  index.documents.forEach((document, order) => {
+    if (query.keywords.length > 0 && !query.keywords.some((keyword) => document.keywords.includes(keyword))) {
+      return;
+    }
+
+    if (query.authors.length > 0 && !query.authors.includes(document.author)) {
+      return;
+    }
+
+    if (query.lichtfeld !== null && !supports(document, query.lichtfeld)) {
+      return;
+    }
+
+    const relevance = queryTerms.length > 0 ? score(document, queryTerms) : 1;
+
+    if (relevance > 0) {
+      matches.push({ document, score: relevance, order });
+    }
+  });
+
+  const time = (document: PluginSearchDocument): number => (document.updatedAt ? Date.parse(document.updatedAt) : 0);
+  const compare: Record<PluginSort, (left: (typeof matches)[number], right: (typeof matches)[number]) => number> = {
+    relevance: (left, right) => right.score - left.score,
+    stars: (left, right) => right.document.stars - left.document.stars,
+    downloads: (left, right) => right.document.downloads - left.document.downloads,
+    updated: (left, right) => time(right.document) - time(left.document),
+  };
+
+  // Ties keep the catalog order
+  return matches
+    .sort((left, right) => compare[query.sort](left, right) || left.order - right.order)
+    .map((match) => match.document.id);
+}
+
+/** Counts the keywords and authors among the given plugins, for the facet options. */
+export function countFacets(index: PluginSearchIndex, ids: string[]): FacetCounts {
+  const selected = new Set(ids);
+  const counts: FacetCounts = { keywords: {}, authors: {} };
+
+  for (const document of index.documents) {
+    if (!selected.has(document.id)) {
+      continue;
+    }
+
+    counts.authors[document.author] = (counts.authors[document.author] ?? 0) + 1;
+
+    for (const keyword of document.keywords) {
+      counts.keywords[keyword] = (counts.keywords[keyword] ?? 0) + 1;
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,410 @@
+/**
+ * Lints plugin registry entries, the hand-written JSON files in
+ * src/content/plugins/, beyond the shape the content schema checks.
+ *
+ * The build fails on findPluginVersionErrors; everything else is reported by
+ * the submission validator (scripts/validate-plugins.mjs) when a plugin is
+ * added or changed in a pull request.
+ */
+
+import type { WebsitePluginEntry, WebsitePluginVersionEntry } from "../services/plugin-registry-data";
+import { parseRequirement } from "./pep508";
+import { compareVersions, formatVersion, parseRange, parseVersion } from "./semver-range";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ValidationRule =
+  | "json"
+  | "schema"
+  | "id"
+  | "filename"
+  | "versions"
+  | "keywords"
+  | "repository"
+  | "duplicate";
+
+export interface ValidationIssue {
+  /** File name within src/content/plugins/ */
+  file: string;
+  rule: ValidationRule;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface ValidationReport {
+  /** Whether no file has errors; warnings don't fail a submission */
+  valid: boolean;
+  files: number;
+  errors: number;
+  warnings: number;
+  issues: ValidationIssue[];
+}
+
+export interface SubmissionFile {
+  /** File name within src/content/plugins/ */
+  file: string;
+  content: string;
+}
+
+export interface ValidationOptions {
+  /** Keyword vocabulary (src/config/plugin-keywords.ts) */
+  keywords: readonly string[];
+  /** Whether a repository URL exists; null when it wasn't checked or couldn't be */
+  checkRepository?: (url: string) => Promise<boolean | null>;
+  /** How a missing repository is reported; defaults to an error */
+  unreachableRepository?: ValidationIssue["severity"];
+  /** Files whose names predate the naming rules, only warned about (src/config/plugin-legacy-names.ts) */
+  legacyFiles?: readonly string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const KEBAB_CASE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const CHECKSUM_PATTERN = /^sha256:[0-9a-f]{64}$/;
+
+const REQUIRED_STRINGS = [
+  "id",
+  "namespace",
+  "name",
+  "displayName",
+  "summary",
+  "description",
+  "author",
+  "latestVersion",
+  "lichtfeldVersion",
+  "pluginApi",
+  "repository",
+] as const;
+
+// ============================================================================
+// Version checks
+// ============================================================================
+
+/**
+ * Checks the versions and version ranges a plugin declares, for itself and
+ * for each of its versions, and the PEP 508 requirements, checksum and
+ * signature of each version. Returns one message per problem.
+ */
+export function findPluginVersionErrors(plugin: WebsitePluginEntry): string[] {
+  const errors: string[] = [];
+  const check = (label: string, fields: Pick<WebsitePluginVersionEntry, "lichtfeldVersion" | "pluginApi">): void => {
+    for (const [field, range] of [
+      ["lichtfeldVersion", fields.lichtfeldVersion],
+      ["pluginApi", fields.pluginApi],
+    ]) {
+      try {
+        parseRange(range);
+      } catch (error) {
+        errors.push(`${label} ${field}: ${(error as Error).message}`);
+      }
+    }
+  };
+
+  if (!parseVersion(plugin.latestVersion)) {
+    errors.push(`${plugin.id} latestVersion: '${plugin.latestVersion}' is not a version`);
+  }
+
+  check(plugin.id, plugin);
+
+  for (const version of plugin.versions) {
+    if (!parseVersion(version.version)) {
+      errors.push(`${plugin.id} version: '${version.version}' is not a version`);
+    }
+
+    check(`${plugin.id}@${version.version}`, version);
+
+    for (const dependency of version.dependencies) {
+      try {
+        parseRequirement(dependency);
+      } catch (error) {
+        errors.push(`${plugin.id}@${version.version} dependencies: ${(error as Error).message}`);
+      }
+    }
+
+    if (version.checksum !== undefined && !CHECKSUM_PATTERN.test(version.checksum)) {
+      errors.push(`${plugin.id}@${version.version} checksum: '${version.checksum}' is not sha256:<64 hex digits>`);
+    }
+
+    if (version.signatureUrl !== undefined && version.downloadUrl === undefined) {
+      errors.push(`${plugin.id}@${version.version} signatureUrl: the version has no downloadUrl to sign`);
+    }
+  }
+
+  return errors;
+}
+
+/** Checks that `latestVersion` is listed and that versions are listed newest first, once each. */
+function findVersionOrderErrors(plugin: WebsitePluginEntry): string[] {
+  const versions = plugin.versions.map((entry) => parseVersion(entry.version));
+
+  // Unparseable versions are already reported by findPluginVersionErrors
+  if (versions.some((version) => version === null)) {
+    return [];
+  }
+
+  const errors: string[] = [];
+
+  if (!plugin.versions.some((entry) => entry.version === plugin.latestVersion)) {
+    errors.push(`latestVersion '${plugin.latestVersion}' is not listed in versions`);
+  }
+
+  for (let i = 1; i < versions.length; i++) {
+    const order = compareVersions(versions[i - 1]!, versions[i]!);
+
+    if (order === 0) {
+      errors.push(`version ${formatVersion(versions[i]!)} is listed twice`);
+    } else if (order < 0) {
+      errors.push(
+        `versions should be listed newest first, but ${plugin.versions[i].version} follows ${plugin.versions[i - 1].version}`,
+      );
+    }
+  }
+
+  const latest = parseVersion(plugin.latestVersion);
+  const newest = [...versions].sort((left, right) => compareVersions(right!, left!))[0];
+
+  if (latest && newest && compareVersions(latest, newest) < 0) {
+    errors.push(`latestVersion '${plugin.latestVersion}' is older than version ${formatVersion(newest)}`);
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Lowercase kebab-case form of a plugin name, which its file is named after. */
+export function normalizePluginName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Edit distance between two words, for suggesting the keyword someone meant. */
+function editDistance(left: string, right: string): number {
+  let previous = Array.from({ length: right.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= right.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1),
+      );
+    }
+
+    previous = current;
+  }
+
+  return previous[right.length];
+}
+
+function suggestKeyword(keyword: string, vocabulary: readonly string[]): string | undefined {
+  const normalized = keyword
+    .toLowerCase()
+    .trim()
+    .replace(/[\s_]+/g, "-");
+  const [closest] = vocabulary
+    .map((candidate) => ({ candidate, distance: editDistance(normalized, candidate) }))
+    .sort((left, right) => left.distance - right.distance);
+
+  if (
+    closest &&
+    (closest.distance <= 2 || closest.candidate.startsWith(normalized) || normalized.startsWith(closest.candidate))
+  ) {
+    return closest.candidate;
+  }
+
+  return undefined;
+}
+
+/** Lists missing or mistyped fields; the other checks need a well-formed entry. */
+function findSchemaErrors(data: unknown): string[] {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return ["the file must contain a JSON object"];
+  }
+
+  const entry = data as Record<string, unknown>;
+  const errors = REQUIRED_STRINGS.filter((field) => typeof entry[field] !== "string").map(
+    (field) => `'${field}' must be a string`,
+  );
+
+  if (
+    entry.keywords !== undefined &&
+    !(Array.isArray(entry.keywords) && entry.keywords.every((k) => typeof k === "string"))
+  ) {
+    errors.push("'keywords' must be a list of strings");
+  }
+
+  if (entry.versions !== undefined && !Array.isArray(entry.versions)) {
+    errors.push("'versions' must be a list");
+  }
+
+  (Array.isArray(entry.versions) ? entry.versions : []).forEach((version: Record<string, unknown>, index) => {
+    for (const field of ["version", "pluginApi", "lichtfeldVersion"]) {
+      if (typeof version?.[field] !== "string") {
+        errors.push(`'versions[${index}].${field}' must be a string`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/** Fills in the defaults the content schema applies. */
+function toPluginEntry(data: Record<string, unknown>): WebsitePluginEntry {
+  const entry = data as unknown as WebsitePluginEntry;
+
+  return {
+    ...entry,
+    requiredFeatures: entry.requiredFeatures ?? [],
+    keywords: entry.keywords ?? [],
+    versions: (entry.versions ?? []).map((version) => ({
+      ...version,
+      requiredFeatures: version.requiredFeatures ?? [],
+      dependencies: version.dependencies ?? [],
+    })),
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validates registry entries on their own and against each other. Pass every
+ * file of the registry so duplicates are found; callers reporting on a pull
+ * request can filter the issues to the files it changes.
+ */
+export async function validatePluginSubmissions(
+  files: SubmissionFile[],
+  options: ValidationOptions,
+): Promise<ValidationReport> {
+  const issues: ValidationIssue[] = [];
+  const plugins: Array<{ file: string; plugin: WebsitePluginEntry }> = [];
+  const report = (file: string, rule: ValidationRule, severity: ValidationIssue["severity"], message: string) => {
+    issues.push({ file, rule, severity, message });
+  };
+
+  for (const { file, content } of files) {
+    let data: unknown;
+
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      report(file, "json", "error", (error as Error).message);
+      continue;
+    }
+
+    const schemaErrors = findSchemaErrors(data);
+
+    if (schemaErrors.length > 0) {
+      schemaErrors.forEach((message) => report(file, "schema", "error", message));
+      continue;
+    }
+
+    const plugin = toPluginEntry(data as Record<string, unknown>);
+
+    plugins.push({ file, plugin });
+
+    if (plugin.id !== `${plugin.namespace}:${plugin.name}`) {
+      report(file, "id", "error", `id '${plugin.id}' should be '${plugin.namespace}:${plugin.name}'`);
+    }
+
+    // Legacy entries can't be renamed, so their naming is only warned about
+    const naming = options.legacyFiles?.includes(file) ? "warning" : "error";
+
+    for (const [field, value] of [
+      ["namespace", plugin.namespace],
+      ["name", plugin.name],
+    ]) {
+      if (!KEBAB_CASE.test(value)) {
+        report(file, "id", naming, `${field} '${value}' should be lowercase kebab-case`);
+      }
+    }
+
+    const expectedFile = `${normalizePluginName(plugin.name)}.json`;
+
+    if (file !== expectedFile) {
+      report(file, "filename", naming, `the file should be named '${expectedFile}' after the plugin name`);
+    }
+
+    for (const message of [...findPluginVersionErrors(plugin), ...findVersionOrderErrors(plugin)]) {
+      report(file, "versions", "error", message);
+    }
+
+    const seen = new Set<string>();
+
+    for (const keyword of plugin.keywords) {
+      if (seen.has(keyword)) {
+        report(file, "keywords", "warning", `keyword '${keyword}' is listed twice`);
+      } else if (!options.keywords.includes(keyword)) {
+        const suggestion = suggestKeyword(keyword, options.keywords);
+
+        report(
+          file,
+          "keywords",
+          "warning",
+          `keyword '${keyword}' is not in the vocabulary` + (suggestion ? `, did you mean '${suggestion}'?` : ""),
+        );
+      }
+
+      seen.add(keyword);
+    }
+  }
+
+  const reachable = await Promise.all(
+    plugins.map(({ plugin }) => options.checkRepository?.(plugin.repository) ?? Promise.resolve(null)),
+  );
+
+  plugins.forEach(({ file, plugin }, index) => {
+    if (reachable[index] === false) {
+      report(
+        file,
+        "repository",
+        options.unreachableRepository ?? "error",
+        `repository ${plugin.repository} is not reachable`,
+      );
+    }
+  });
+
+  // Names that differ only in case or separators would be confused when installing
+  const collisionKey = (plugin: WebsitePluginEntry): string =>
+    `${plugin.namespace}:${plugin.name}`.toLowerCase().replace(/[-_.]/g, "");
+
+  for (const { file, plugin } of plugins) {
+    for (const other of plugins) {
+      if (other.file === file) {
+        continue;
+      }
+
+      if (other.plugin.id === plugin.id) {
+        report(file, "duplicate", "error", `id '${plugin.id}' is also used by ${other.file}`);
+      } else if (collisionKey(other.plugin) === collisionKey(plugin)) {
+        report(
+          file,
+          "duplicate",
+          "error",
+          `name '${plugin.name}' is too close to '${other.plugin.name}' in ${other.file}`,
+        );
+      } else if (other.plugin.displayName.toLowerCase() === plugin.displayName.toLowerCase()) {
+        report(file, "duplicate", "warning", `displayName '${plugin.displayName}' is also used by ${other.file}`);
+      }
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+
+  issues.sort((left, right) => left.file.localeCompare(right.file));
+
+  return { valid: errors === 0, files: files.length, errors, warnings: issues.length - errors, issues };
+}
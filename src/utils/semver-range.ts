@@ -0,0 +1,280 @@
+/**
+ * Version ranges as plugins declare them for `lichtfeldVersion` and `pluginApi`.
+ *
+ * A range is one or more alternatives joined by `||`; each alternative is a
+ * list of comparators separated by commas or spaces, all of which must hold:
+ *
+ *   >=0.5.0          >=1,<2          >=1 <2          ^0.5.1 || ^1.0.0
+ *   ~0.5  ~=1.4.2    =0.5.3  0.5.x   !=0.5.2         *
+ *
+ * Missing minor and patch numbers are zero, except where they mean "any":
+ * a bare or `=` version (`1`, `0.5.x`) and the `^`/`~` shorthands cover every
+ * version they leave open. `~=` is Python's compatible release operator.
+ * Versions may carry a pre-release (`1.0.0-rc.1`), ordered as in SemVer 2.0;
+ * build metadata is ignored.
+ *
+ * Everything here is pure: src/services/plugin-registry-data.ts validates the
+ * registry's ranges at build time and the worker resolves compatible plugin
+ * versions with the same code (src/api/plugin-registry.ts).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Pre-release identifiers, empty for a release */
+  prerelease: Array<string | number>;
+}
+
+export type ComparatorOperator = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+export interface Comparator {
+  operator: ComparatorOperator;
+  version: Version;
+}
+
+/** Alternatives, each satisfied when all of its comparators are. */
+export type VersionRange = Comparator[][];
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const VERSION_PATTERN =
+  /^v?(0|[1-9]\d*)(?:\.(0|[1-9]\d*|[xX*]))?(?:\.(0|[1-9]\d*|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-.]+)?$/;
+
+const COMPARATOR_PATTERN = /^(~=|\^|~|==|=|!=|>=|<=|>|<)?\s*(.*)$/;
+
+const WILDCARDS = new Set(["", "*", "x", "X"]);
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+/** A version with its unspecified parts, so ranges can tell `1` from `1.0.0`. */
+interface PartialVersion {
+  version: Version;
+  /** Number of numeric parts given (1-3) */
+  parts: number;
+  /** Whether a part was written as a wildcard (1.x, 1.2.*) */
+  wildcard: boolean;
+}
+
+function parsePartial(text: string): PartialVersion | null {
+  const match = VERSION_PATTERN.exec(text);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, major, minor, patch, prerelease] = match;
+  const numeric = [major, minor, patch].filter((part) => part !== undefined && !WILDCARDS.has(part));
+
+  // A wildcard can't be followed by a number (1.x.3) or a pre-release (1.x-rc)
+  if (
+    (minor !== undefined && WILDCARDS.has(minor) && patch !== undefined && !WILDCARDS.has(patch)) ||
+    (prerelease !== undefined && numeric.length < 3)
+  ) {
+    return null;
+  }
+
+  return {
+    version: {
+      major: Number(major),
+      minor: numeric.length > 1 ? Number(minor) : 0,
+      patch: numeric.length > 2 ? Number(patch) : 0,
+      prerelease: prerelease
+        ? prerelease.split(".").map((identifier) => (/^\d+$/.test(identifier) ? Number(identifier) : identifier))
+        : [],
+    },
+    parts: numeric.length,
+    wildcard: [minor, patch].some((part) => part !== undefined && WILDCARDS.has(part)),
+  };
+}
+
+/**
+ * Parses a version such as "0.5.3", "v1.0.0-rc.1" or "1" (= 1.0.0).
+ * Returns null when the text isn't a version.
+ */
+export function parseVersion(text: string): Version | null {
+  const partial = parsePartial(text.trim());
+
+  // Wildcards describe ranges, not versions
+  return partial && !partial.wildcard ? partial.version : null;
+}
+
+/** Formats a version as MAJOR.MINOR.PATCH[-PRERELEASE]. */
+export function formatVersion(version: Version): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+
+  return version.prerelease.length > 0 ? `${core}-${version.prerelease.join(".")}` : core;
+}
+
+/** Orders versions by SemVer precedence: negative when a < b, 0 when equal, positive when a > b. */
+export function compareVersions(a: Version, b: Version): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+
+  if (core !== 0) {
+    return core;
+  }
+
+  // A pre-release comes before its release
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+
+    if (left === right) {
+      continue;
+    }
+
+    if (typeof left === "number" && typeof right === "number") {
+      return left - right;
+    }
+
+    // Numeric identifiers come before alphanumeric ones
+    if (typeof left === "number" || typeof right === "number") {
+      return typeof left === "number" ? -1 : 1;
+    }
+
+    return left < right ? -1 : 1;
+  }
+
+  return a.prerelease.length - b.prerelease.length;
+}
+
+// ============================================================================
+// Ranges
+// ============================================================================
+
+/** The lowest version after every version sharing the part, pre-releases included (2.0.0-0 for 1.x). */
+function bump(version: Version, part: "major" | "minor" | "patch"): Version {
+  return {
+    major: version.major + (part === "major" ? 1 : 0),
+    minor: part === "major" ? 0 : version.minor + (part === "minor" ? 1 : 0),
+    patch: part === "patch" ? version.patch + 1 : 0,
+    prerelease: [0],
+  };
+}
+
+/** Expands one comparator token into the comparators it stands for. */
+function parseComparator(token: string): Comparator[] {
+  const [, operator = "", rest] = COMPARATOR_PATTERN.exec(token)!;
+
+  if (rest === "" && operator !== "") {
+    throw new Error(`'${token}' is missing a version`);
+  }
+
+  if (WILDCARDS.has(rest)) {
+    if (operator !== "" && operator !== "=" && operator !== "==") {
+      throw new Error(`'${token}' compares against a wildcard`);
+    }
+
+    return [];
+  }
+
+  const partial = parsePartial(rest);
+
+  if (!partial) {
+    throw new Error(`'${rest}' is not a version`);
+  }
+
+  const { version, parts } = partial;
+  const between = (upper: Version): Comparator[] => [
+    { operator: ">=", version },
+    { operator: "<", version: upper },
+  ];
+
+  switch (operator) {
+    case "":
+    case "=":
+    case "==":
+      return parts === 3 ? [{ operator: "=", version }] : between(bump(version, parts === 1 ? "major" : "minor"));
+    case "!=":
+      if (parts < 3) {
+        throw new Error(`'${token}' needs a full version`);
+      }
+
+      return [{ operator: "!=", version }];
+    case "^":
+      // Up to the next change of the first non-zero part given
+      if (version.major > 0 || parts === 1) {
+        return between(bump(version, "major"));
+      }
+
+      return between(bump(version, version.minor > 0 || parts === 2 ? "minor" : "patch"));
+    case "~":
+      return between(bump(version, parts === 1 ? "major" : "minor"));
+    case "~=":
+      if (parts < 2) {
+        throw new Error(`'${token}' needs at least MAJOR.MINOR`);
+      }
+
+      return between(bump(version, parts === 2 ? "major" : "minor"));
+    default:
+      if (partial.wildcard) {
+        throw new Error(`'${token}' compares against a wildcard`);
+      }
+
+      return [{ operator: operator as ComparatorOperator, version }];
+  }
+}
+
+/**
+ * Parses a range such as ">=0.5.0" or ">=1,<2".
+ * Throws an Error naming the offending part when the range is malformed.
+ */
+export function parseRange(text: string): VersionRange {
+  try {
+    if (text.trim() === "") {
+      throw new Error("the range is empty");
+    }
+
+    return text.split("||").map((alternative) => {
+      // Operators may be separated from their version by spaces (">= 1.0")
+      const tokens = alternative
+        .replace(/(~=|==|!=|>=|<=|[\^~=><])\s+/g, "$1")
+        .split(/[\s,]+/)
+        .filter((token) => token !== "");
+
+      if (tokens.length === 0) {
+        throw new Error("an alternative is empty");
+      }
+
+      return tokens.flatMap(parseComparator);
+    });
+  } catch (error) {
+    throw new Error(`Invalid version range '${text}': ${(error as Error).message}`);
+  }
+}
+
+function holds(comparator: Comparator, version: Version): boolean {
+  const order = compareVersions(version, comparator.version);
+
+  switch (comparator.operator) {
+    case "=":
+      return order === 0;
+    case "!=":
+      return order !== 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+  }
+}
+
+/** Returns whether the version lies in the range. */
+export function satisfies(version: Version, range: VersionRange): boolean {
+  return range.some((alternative) => alternative.every((comparator) => holds(comparator, version)));
+}
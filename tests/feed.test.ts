@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  collectFeedFilters,
+  FEED_ITEM_LIMIT,
+  renderAtom,
+  renderJsonFeed,
+  renderRss,
+  selectFeedItems,
+  slugifyFeedTerm,
+  type FeedItem,
+  type FeedMeta,
+} from "@/utils/feed";
+
+const meta: FeedMeta = {
+  title: "LichtFeld Studio",
+  description: "Blog posts, releases and new plugins",
+  siteUrl: "https://example.com/",
+  feedUrls: {
+    rss: "https://example.com/rss.xml",
+    atom: "https://example.com/atom.xml",
+    json: "https://example.com/feed.json",
+  },
+};
+
+function item(overrides: Partial<FeedItem> = {}): FeedItem {
+  return {
+    id: "https://example.com/blog/hello/",
+    kind: "blog",
+    title: "Hello",
+    url: "https://example.com/blog/hello/",
+    published: new Date("2024-03-01T12:00:00Z"),
+    summary: "First post",
+    author: "LichtFeld Team",
+    category: "Release Notes",
+    tags: ["Gaussian Splatting"],
+    ...overrides,
+  };
+}
+
+describe("slugifyFeedTerm", () => {
+  it("lowercases and hyphenates categories and tags", () => {
+    expect(slugifyFeedTerm("Release Notes")).toBe("release-notes");
+    expect(slugifyFeedTerm("  CUDA / C++ ")).toBe("cuda-cplusplus");
+  });
+});
+
+describe("selectFeedItems", () => {
+  const items = [
+    item({ id: "old", published: new Date("2024-01-01T00:00:00Z") }),
+    item({ id: "new", published: new Date("2024-05-01T00:00:00Z"), category: "Releases", tags: [] }),
+    item({ id: "mid", published: new Date("2024-03-01T00:00:00Z"), tags: ["Plugins", "Python"] }),
+  ];
+
+  it("sorts newest first", () => {
+    expect(selectFeedItems(items).map((i) => i.id)).toEqual(["new", "mid", "old"]);
+  });
+
+  it("narrows to a category or tag by slug", () => {
+    expect(selectFeedItems(items, { type: "category", slug: "releases" }).map((i) => i.id)).toEqual(["new"]);
+    expect(selectFeedItems(items, { type: "tag", slug: "python" }).map((i) => i.id)).toEqual(["mid"]);
+  });
+
+  it("keeps at most FEED_ITEM_LIMIT items", () => {
+    const many = Array.from({ length: FEED_ITEM_LIMIT + 5 }, (_, i) => item({ id: String(i) }));
+
+    expect(selectFeedItems(many)).toHaveLength(FEED_ITEM_LIMIT);
+  });
+});
+
+describe("collectFeedFilters", () => {
+  it("lists every category and tag once", () => {
+    const filters = collectFeedFilters([item(), item({ category: "Releases", tags: ["gaussian splatting"] })]);
+
+    expect(filters).toEqual([
+      { type: "category", slug: "release-notes", label: "Release Notes" },
+      { type: "tag", slug: "gaussian-splatting", label: "gaussian splatting" },
+      { type: "category", slug: "releases", label: "Releases" },
+    ]);
+  });
+});
+
+describe("renderRss", () => {
+  it("renders channel metadata and escaped items", () => {
+    const xml = renderRss(meta, [item({ title: "Splats & <meshes>", contentHtml: "<p>Body</p>" })]);
+
+    expect(xml).toContain('<atom:link href="https://example.com/rss.xml" rel="self" type="application/rss+xml" />');
+    expect(xml).toContain("<title>Splats &amp; &lt;meshes&gt;</title>");
+    expect(xml).toContain('<guid isPermaLink="true">https://example.com/blog/hello/</guid>');
+    expect(xml).toContain("<pubDate>Fri, 01 Mar 2024 12:00:00 GMT</pubDate>");
+    expect(xml).toContain("<content:encoded>&lt;p&gt;Body&lt;/p&gt;</content:encoded>");
+    expect(xml).toContain("<category>Release Notes</category>");
+    expect(xml).toContain("<category>Gaussian Splatting</category>");
+  });
+
+  it("marks non-URL ids as not permalinks", () => {
+    const xml = renderRss(meta, [item({ id: "https://example.com/plugin.json", url: "https://github.com/a/b" })]);
+
+    expect(xml).toContain('<guid isPermaLink="false">https://example.com/plugin.json</guid>');
+  });
+});
+
+describe("renderAtom", () => {
+  it("uses the newest change as the feed's updated date", () => {
+    const xml = renderAtom(meta, [
+      item(),
+      item({ id: "b", published: new Date("2024-02-01T00:00:00Z"), updated: new Date("2024-04-01T00:00:00Z") }),
+    ]);
+
+    expect(xml).toContain("<id>https://example.com/atom.xml</id>");
+    expect(xml).toContain("  <updated>2024-04-01T00:00:00.000Z</updated>");
+    expect(xml).toContain('<category term="release-notes" label="Release Notes" />');
+  });
+
+  it("renders an empty feed with a stable date", () => {
+    expect(renderAtom(meta, [])).toContain("<updated>1970-01-01T00:00:00.000Z</updated>");
+  });
+});
+
+describe("renderJsonFeed", () => {
+  it("renders JSON Feed 1.1 with the summary as text content when there is no HTML", () => {
+    const feed = JSON.parse(renderJsonFeed(meta, [item(), item({ id: "b", contentHtml: "<p>Notes</p>" })]));
+
+    expect(feed.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(feed.feed_url).toBe("https://example.com/feed.json");
+    expect(feed.items[0]).toMatchObject({
+      id: "https://example.com/blog/hello/",
+      content_text: "First post",
+      date_published: "2024-03-01T12:00:00.000Z",
+      authors: [{ name: "LichtFeld Team" }],
+      tags: ["Release Notes", "Gaussian Splatting"],
+    });
+    expect(feed.items[1].content_html).toBe("<p>Notes</p>");
+    expect(feed.items[1].content_text).toBeUndefined();
+  });
+});
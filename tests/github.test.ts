@@ -651,4 +651,75 @@ describe("GitHub Service", () => {
       expect(stats.releases[0].name).toBe("v3.0.0");
     });
   });
+
+  // -----------------------------------------------------------------------
+  // getRecentReleases Tests
+  // -----------------------------------------------------------------------
+
+  describe("getRecentReleases", () => {
+    const release = (tag: string, overrides: Record<string, unknown> = {}) => ({
+      tag_name: tag,
+      name: `Release ${tag}`,
+      html_url: `https://github.com/test/repo/releases/tag/${tag}`,
+      tarball_url: null,
+      zipball_url: null,
+      published_at: "2024-01-15T10:00:00Z",
+      created_at: "2024-01-14T10:00:00Z",
+      body: `Notes for ${tag}`,
+      draft: false,
+      prerelease: false,
+      ...overrides,
+    });
+
+    it("should return stable releases with notes rendered to HTML", async () => {
+      // Arrange
+      mocks.mockListReleases.mockResolvedValue({
+        data: [
+          release("v1.1.0"),
+          release("nightly", { prerelease: true }),
+          release("v1.2.0-draft", { draft: true }),
+          release("v1.0.0"),
+        ],
+      });
+
+      // Act
+      const { getRecentReleases } = await import("@/services/github");
+      const releases = await getRecentReleases();
+
+      // Assert
+      expect(releases.map((r) => r.tagName)).toEqual(["v1.1.0", "v1.0.0"]);
+      expect(releases[0].version).toBe("1.1.0");
+      expect(releases[0].body).toBe("Notes for v1.1.0");
+      expect(releases[0].bodyHtml).toBe("<p>Notes for v1.1.0</p>");
+    });
+
+    it("should fetch once and share the result between callers", async () => {
+      // Arrange
+      mocks.mockListReleases.mockResolvedValue({ data: [release("v1.0.0")] });
+
+      // Act
+      const { getRecentReleases } = await import("@/services/github");
+      await getRecentReleases();
+      await getRecentReleases();
+
+      // Assert
+      expect(mocks.mockListReleases).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return an empty list and retry later when the API call fails", async () => {
+      // Arrange
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mocks.mockListReleases.mockRejectedValueOnce(new Error("API Error"));
+      mocks.mockListReleases.mockResolvedValueOnce({ data: [release("v1.0.0")] });
+
+      // Act
+      const { getRecentReleases } = await import("@/services/github");
+      const failed = await getRecentReleases();
+      const retried = await getRecentReleases();
+
+      // Assert
+      expect(failed).toEqual([]);
+      expect(retried).toHaveLength(1);
+    });
+  });
 });
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import { comparePep440Versions, parsePep440Version, parseRequirement, specifiersIntersect } from "@/utils/pep508";
+
+function compatible(...requirements: string[]): boolean {
+  return specifiersIntersect(requirements.flatMap((requirement) => parseRequirement(requirement).specifiers));
+}
+
+describe("parsePep440Version", () => {
+  it("orders versions as pip does", () => {
+    const versions = ["1.0.post1", "1.0", "1.0rc1", "1.0.dev0", "1.0a2", "1.0b1", "0.9", "1!0.1", "1.0.0.1"];
+
+    expect(
+      [...versions].sort((left, right) => comparePep440Versions(parsePep440Version(left)!, parsePep440Version(right)!)),
+    ).toEqual(["0.9", "1.0.dev0", "1.0a2", "1.0b1", "1.0rc1", "1.0", "1.0.post1", "1.0.0.1", "1!0.1"]);
+  });
+
+  it("treats trailing zeros and spellings as equal", () => {
+    expect(comparePep440Versions(parsePep440Version("1.26")!, parsePep440Version("1.26.0")!)).toBe(0);
+    expect(comparePep440Versions(parsePep440Version("2.0-RC.1")!, parsePep440Version("2.0rc1")!)).toBe(0);
+    expect(parsePep440Version("2.11.0+cu121")).toEqual(parsePep440Version("2.11.0"));
+    expect(parsePep440Version("latest")).toBeNull();
+  });
+});
+
+describe("parseRequirement", () => {
+  it("reads names, extras, specifiers and markers", () => {
+    expect(parseRequirement("Pillow_Heif")).toEqual({
+      name: "pillow-heif",
+      extras: [],
+      specifiers: [],
+      url: null,
+      marker: null,
+    });
+    expect(parseRequirement("imageio[pyav, ffmpeg] (>=2.30,<3)")).toMatchObject({
+      name: "imageio",
+      extras: ["pyav", "ffmpeg"],
+      specifiers: [
+        { operator: ">=", version: "2.30", wildcard: false },
+        { operator: "<", version: "3", wildcard: false },
+      ],
+    });
+    expect(parseRequirement("triton>=3.4.0 ; platform_system != 'Windows'")).toMatchObject({
+      name: "triton",
+      marker: "platform_system != 'Windows'",
+    });
+    expect(parseRequirement("sam2 @ https://example.com/sam2.zip ; python_version >= '3.10'")).toMatchObject({
+      url: "https://example.com/sam2.zip",
+      marker: "python_version >= '3.10'",
+    });
+  });
+
+  it.each([
+    ["-torch", "it doesn't start with a package name"],
+    ["torch=>2.0", "'=>2.0' is not a version specifier"],
+    ["torch>=two", "'two' is not a version"],
+    ["torch>=2.*", "'>=2.*' can't use a wildcard"],
+    ["torch~=2", "'~=2' needs at least two release segments"],
+    ["torch>2.0+cu121", "'>2.0+cu121' can't compare a local version"],
+    ["torch ;", "the marker after ';' is empty"],
+  ])("rejects %j", (requirement, message) => {
+    expect(() => parseRequirement(requirement)).toThrow(`Invalid requirement '${requirement}': ${message}`);
+  });
+});
+
+describe("specifiersIntersect", () => {
+  it("finds the conflicts between pins and ranges", () => {
+    expect(compatible("torch==2.11.0", "torch==2.8.0")).toBe(false);
+    expect(compatible("torch==2.11.0", "torch>=2.5,<2.8")).toBe(false);
+    expect(compatible("numpy==2.4.1", "numpy<2")).toBe(false);
+    expect(compatible("numpy>=2.0.0", "numpy>=1.24,<2.0")).toBe(false);
+    expect(compatible("numpy<2", "numpy>=2")).toBe(false);
+    expect(compatible("numpy<=2", "numpy>=2")).toBe(true);
+    expect(compatible("torch>=2.2", "torch==2.11.0", "torch")).toBe(true);
+  });
+
+  it("handles compatible releases, prefixes and exclusions", () => {
+    expect(compatible("einops~=0.8", "einops>=0.9")).toBe(true);
+    expect(compatible("einops~=0.8.1", "einops>=0.9")).toBe(false);
+    expect(compatible("gsplat==1.5.*", "gsplat==1.5.3")).toBe(true);
+    expect(compatible("gsplat==1.5.*", "gsplat>=1.6")).toBe(false);
+    expect(compatible("numpy==1.26.4", "numpy!=1.26.*")).toBe(false);
+    expect(compatible("numpy>=1.26", "numpy!=1.26.4")).toBe(true);
+  });
+});
@@ -0,0 +1,191 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+
+import type { PluginSigningKey } from "@/config/plugin-signing-keys";
+import { artifactCacheName, verifyPluginArtifact } from "@/services/plugin-artifacts";
+import type { ArtifactSource } from "@/services/plugin-artifacts";
+import { parsePublicKey, parseSignature, verifySignature } from "@/utils/minisign";
+import { findPluginVersionErrors } from "@/utils/plugin-validation";
+
+const ARCHIVE_URL = "https://github.com/example/plugin/releases/download/v1.0.0/plugin.zip";
+const SIGNATURE_URL = `${ARCHIVE_URL}.minisig`;
+const ARCHIVE = new TextEncoder().encode("plugin archive contents");
+const ARCHIVE_STALE = new TextEncoder().encode("archive before the re-upload");
+const CHECKSUM = `sha256:${createHash("sha256").update(ARCHIVE).digest("hex")}`;
+
+/** Joins bytes and text into a fresh Uint8Array, the view type node:crypto declares. */
+function concatBytes(...parts: Array<ArrayLike<number> | string>): Uint8Array<ArrayBuffer> {
+  const chunks = parts.map((part) => (typeof part === "string" ? new TextEncoder().encode(part) : part));
+  const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return bytes;
+}
+
+const toBase64 = (bytes: Uint8Array): string => Buffer.from(bytes).toString("base64");
+
+/** Creates a minisign key pair the way `minisign -G` would. */
+function createKey() {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const keyId = concatBytes(randomBytes(8));
+  const raw = concatBytes(Buffer.from(publicKey.export({ format: "jwk" }).x!, "base64url"));
+
+  return { privateKey, publicKey: toBase64(concatBytes("Ed", keyId, raw)) };
+}
+
+/** Signs data the way `minisign -S` would, with a BLAKE2b-512 prehash. */
+function signArchive(
+  data: Uint8Array,
+  key: ReturnType<typeof createKey>,
+  trustedComment = "timestamp:1760000000",
+): string {
+  const keyId = concatBytes(Buffer.from(key.publicKey, "base64")).subarray(2, 10);
+  const prehash = concatBytes(createHash("blake2b512").update(data).digest());
+  const signature = concatBytes(sign(null, prehash, key.privateKey));
+  const global = concatBytes(sign(null, concatBytes(signature, trustedComment), key.privateKey));
+
+  return [
+    "untrusted comment: signature from minisign secret key",
+    toBase64(concatBytes("ED", keyId, signature)),
+    `trusted comment: ${trustedComment}`,
+    toBase64(global),
+  ].join("\n");
+}
+
+const KEY = createKey();
+const CACHE_DIR = mkdtempSync(path.join(tmpdir(), "plugin-artifacts-"));
+const SOURCE: ArtifactSource = { cacheDir: CACHE_DIR, offline: true };
+const TRUSTED: PluginSigningKey[] = [{ publicKey: KEY.publicKey, owner: "Example", namespaces: ["community"] }];
+
+writeFileSync(path.join(CACHE_DIR, artifactCacheName(ARCHIVE_URL)), ARCHIVE);
+writeFileSync(path.join(CACHE_DIR, artifactCacheName(SIGNATURE_URL)), signArchive(ARCHIVE, KEY));
+
+afterAll(() => {
+  rmSync(CACHE_DIR, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("minisign", () => {
+  it("verifies signatures by the matching key only", () => {
+    const signature = parseSignature(signArchive(ARCHIVE, KEY));
+
+    expect(signature.keyId).toBe(parsePublicKey(KEY.publicKey).keyId);
+    expect(verifySignature(ARCHIVE, signature, parsePublicKey(KEY.publicKey))).toBe(true);
+    expect(verifySignature(new TextEncoder().encode("tampered"), signature, parsePublicKey(KEY.publicKey))).toBe(false);
+    expect(verifySignature(ARCHIVE, signature, parsePublicKey(createKey().publicKey))).toBe(false);
+  });
+
+  it("rejects a tampered trusted comment", () => {
+    const lines = signArchive(ARCHIVE, KEY).split("\n");
+
+    lines[2] = "trusted comment: timestamp:1770000000";
+
+    expect(verifySignature(ARCHIVE, parseSignature(lines.join("\n")), parsePublicKey(KEY.publicKey))).toBe(false);
+  });
+
+  it("rejects malformed keys and signatures", () => {
+    expect(() => parsePublicKey("RWQ")).toThrow("The public key is not 42 bytes of base64");
+    expect(() => parseSignature("RUQ...")).toThrow("The signature is not a minisign signature file");
+  });
+});
+
+describe("verifyPluginArtifact", () => {
+  it("hashes the cached download and checks its signature", async () => {
+    await expect(
+      verifyPluginArtifact(
+        "community",
+        { downloadUrl: ARCHIVE_URL, checksum: CHECKSUM, signatureUrl: SIGNATURE_URL },
+        TRUSTED,
+        SOURCE,
+      ),
+    ).resolves.toEqual({ checksum: CHECKSUM, signatureKeyId: parsePublicKey(KEY.publicKey).keyId });
+    await expect(verifyPluginArtifact("community", { downloadUrl: ARCHIVE_URL }, [], SOURCE)).resolves.toEqual({
+      checksum: CHECKSUM,
+    });
+  });
+
+  it("fails on a checksum mismatch", async () => {
+    const checksum = `sha256:${"0".repeat(64)}`;
+
+    await expect(verifyPluginArtifact("community", { downloadUrl: ARCHIVE_URL, checksum }, [], SOURCE)).rejects.toThrow(
+      `checksum ${checksum} doesn't match the download (${CHECKSUM})`,
+    );
+  });
+
+  it("fails on keys that aren't trusted for the namespace", async () => {
+    const version = { downloadUrl: ARCHIVE_URL, signatureUrl: SIGNATURE_URL };
+    const keyId = parsePublicKey(KEY.publicKey).keyId;
+
+    await expect(verifyPluginArtifact("community", version, [], SOURCE)).rejects.toThrow(
+      `signed with key ${keyId}, which isn't trusted for the 'community' namespace`,
+    );
+    await expect(verifyPluginArtifact("official", version, TRUSTED, SOURCE)).rejects.toThrow(
+      "which isn't trusted for the 'official' namespace",
+    );
+  });
+
+  it("downloads an archive again when the cached copy doesn't match the checksum", async () => {
+    const cacheDir = mkdtempSync(path.join(tmpdir(), "plugin-artifacts-"));
+    const url = "https://github.com/example/plugin/releases/download/v1.0.0/reuploaded.zip";
+    const fetchMock = vi.fn(async (input: string) =>
+      input === url ? new Response(ARCHIVE) : new Response(signArchive(ARCHIVE, KEY)),
+    );
+
+    vi.stubGlobal("fetch", fetchMock);
+    writeFileSync(path.join(cacheDir, artifactCacheName(url)), ARCHIVE_STALE);
+    writeFileSync(path.join(cacheDir, artifactCacheName(`${url}.minisig`)), signArchive(ARCHIVE_STALE, KEY));
+
+    try {
+      await expect(
+        verifyPluginArtifact(
+          "community",
+          { downloadUrl: url, checksum: CHECKSUM, signatureUrl: `${url}.minisig` },
+          TRUSTED,
+          { cacheDir, offline: false },
+        ),
+      ).resolves.toEqual({ checksum: CHECKSUM, signatureKeyId: parsePublicKey(KEY.publicKey).keyId });
+      expect(fetchMock.mock.calls.map(([input]) => input)).toEqual([url, `${url}.minisig`]);
+      expect(readFileSync(path.join(cacheDir, artifactCacheName(url)))).toEqual(Buffer.from(ARCHIVE));
+    } finally {
+      rmSync(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it("doesn't download while offline", async () => {
+    const url = "https://example.com/missing.zip";
+
+    await expect(verifyPluginArtifact("community", { downloadUrl: url }, [], SOURCE)).rejects.toThrow(
+      `${url} is not cached in ${CACHE_DIR} and PLUGIN_REGISTRY_OFFLINE is set`,
+    );
+  });
+});
+
+describe("findPluginVersionErrors", () => {
+  it("requires sha256 checksums and a download for signatures", () => {
+    const version = { version: "1.0.0", pluginApi: ">=1", lichtfeldVersion: ">=0.5.0", requiredFeatures: [] };
+
+    expect(
+      findPluginVersionErrors({
+        id: "community:example",
+        latestVersion: "1.0.0",
+        lichtfeldVersion: ">=0.5.0",
+        pluginApi: ">=1",
+        versions: [{ ...version, dependencies: [], checksum: "md5:abc", signatureUrl: SIGNATURE_URL }],
+      } as never),
+    ).toEqual([
+      "community:example@1.0.0 checksum: 'md5:abc' is not sha256:<64 hex digits>",
+      "community:example@1.0.0 signatureUrl: the version has no downloadUrl to sign",
+    ]);
+  });
+});
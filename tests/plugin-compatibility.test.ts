@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { handlePluginResolve } from "@/api/plugin-registry";
+import type { WebsitePluginEntry } from "@/services/plugin-registry-data";
+import { resolveCompatiblePlugins, type CompatibilityDocument } from "@/utils/plugin-compatibility";
+import { findPluginVersionErrors } from "@/utils/plugin-validation";
+import { parseVersion } from "@/utils/semver-range";
+
+const DOCUMENT: CompatibilityDocument = {
+  version: 1,
+  plugins: [
+    {
+      namespace: "community",
+      name: "densification",
+      versions: [
+        { version: "0.7.0", lichtfeld_version: ">=0.5.0", plugin_api: ">=1,<2" },
+        { version: "0.10.0", lichtfeld_version: ">=0.5.3", plugin_api: ">=2,<3" },
+        { version: "0.6.0", lichtfeld_version: ">=0.4.2", plugin_api: ">=1,<2" },
+      ],
+    },
+    {
+      namespace: "community",
+      name: "depthmap",
+      versions: [{ version: "1.0.0", lichtfeld_version: ">=0.6.0", plugin_api: ">=1,<2" }],
+    },
+  ],
+};
+
+function plugin(overrides: Partial<WebsitePluginEntry> = {}): WebsitePluginEntry {
+  return {
+    id: "community:example",
+    namespace: "community",
+    name: "example",
+    displayName: "Example",
+    summary: "",
+    description: "",
+    author: "",
+    latestVersion: "1.0.0",
+    lichtfeldVersion: ">=0.5.0",
+    pluginApi: ">=1,<2",
+    requiredFeatures: [],
+    downloads: 0,
+    keywords: [],
+    repository: "https://github.com/example/example",
+    versions: [],
+    ...overrides,
+  };
+}
+
+describe("resolveCompatiblePlugins", () => {
+  it("picks the newest compatible version by SemVer precedence", () => {
+    const resolved = resolveCompatiblePlugins(DOCUMENT, {
+      lichtfeld: parseVersion("0.5.3")!,
+      pluginApi: parseVersion("1")!,
+    });
+
+    expect(resolved).toEqual({
+      version: 1,
+      lichtfeld: "0.5.3",
+      plugin_api: "1.0.0",
+      plugins: [
+        {
+          namespace: "community",
+          name: "densification",
+          version: "0.7.0",
+          lichtfeld_version: ">=0.5.0",
+          plugin_api: ">=1,<2",
+        },
+      ],
+      incompatible: ["community:depthmap"],
+    });
+  });
+
+  it("only checks the LichtFeld version without a plugin API", () => {
+    const resolved = resolveCompatiblePlugins(DOCUMENT, { lichtfeld: parseVersion("0.5.3")!, pluginApi: null });
+
+    expect(resolved.plugins.map((entry) => entry.version)).toEqual(["0.10.0"]);
+    expect(resolved.plugin_api).toBeNull();
+  });
+});
+
+describe("findPluginVersionErrors", () => {
+  it("names the plugin, version and field of each malformed entry", () => {
+    expect(findPluginVersionErrors(plugin())).toEqual([]);
+    expect(
+      findPluginVersionErrors(
+        plugin({
+          latestVersion: "1.0",
+          pluginApi: ">=1;<2",
+          versions: [
+            {
+              version: "one",
+              pluginApi: ">=1,<2",
+              lichtfeldVersion: "=>0.5.0",
+              requiredFeatures: [],
+              dependencies: [],
+            },
+          ],
+        }),
+      ),
+    ).toEqual([
+      "community:example pluginApi: Invalid version range '>=1;<2': '1;<2' is not a version",
+      "community:example version: 'one' is not a version",
+      "community:example@one lichtfeldVersion: Invalid version range '=>0.5.0': '>0.5.0' is not a version",
+    ]);
+  });
+});
+
+describe("handlePluginResolve", () => {
+  const env = {
+    ASSETS: {
+      fetch: vi.fn(async (url: URL) =>
+        url.pathname === "/plugin-registry/compatibility.json"
+          ? Response.json(DOCUMENT)
+          : new Response("Not Found", { status: 404 }),
+      ),
+    } as unknown as Fetcher,
+  };
+
+  async function resolve(search: string): Promise<{ status: number; body: Record<string, unknown> }> {
+    const response = await handlePluginResolve(
+      new Request(`https://lichtfeld.io/plugin-registry/resolve.json${search}`),
+      env,
+    );
+
+    return { status: response.status, body: await response.json() };
+  }
+
+  it("resolves against the compatibility document of the deployment", async () => {
+    const { status, body } = await resolve("?lichtfeld=0.6.1&api=1");
+
+    expect(status).toBe(200);
+    expect(body.plugins).toEqual([
+      expect.objectContaining({ name: "densification", version: "0.7.0" }),
+      expect.objectContaining({ name: "depthmap", version: "1.0.0" }),
+    ]);
+  });
+
+  it.each([
+    ["", "Missing 'lichtfeld'"],
+    ["?lichtfeld=latest", "Invalid 'lichtfeld' version 'latest'"],
+    ["?lichtfeld=0.5.3&api=1.x", "Invalid 'api' version '1.x'"],
+  ])("rejects %j", async (search, message) => {
+    const { status, body } = await resolve(search);
+
+    expect(status).toBe(400);
+    expect(body.error).toContain(message);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import type { WebsitePluginEntry } from "@/services/plugin-registry-data";
+import { analyzeDependencies, summarizeConflicts } from "@/utils/plugin-dependencies";
+import { findPluginVersionErrors } from "@/utils/plugin-validation";
+
+const GRAPH = analyzeDependencies([
+  { id: "community:hy-world-mirror-2", version: "0.1.0", dependencies: ["torch==2.11.0", "numpy", "Pillow"] },
+  {
+    id: "community:unisharp",
+    version: "0.1.0",
+    dependencies: [
+      "torch==2.8.0",
+      "triton>=3.4.0 ; platform_system != 'Windows'",
+      "triton-windows>=3.4 ; platform_system == 'Windows'",
+      "numpy>=2.0.0",
+    ],
+  },
+  {
+    id: "community:sam-segmentation",
+    version: "0.1.0",
+    dependencies: ["torch>=2.5,<2.9", "numpy>=1.24,<2.0", "pillow>=10.0"],
+  },
+  { id: "community:triposplat", version: "0.1.0", dependencies: ["triton==3.0.0 ; platform_system == 'Windows'"] },
+]);
+
+describe("analyzeDependencies", () => {
+  it("lists the normalized packages of every plugin", () => {
+    expect(GRAPH.plugins[0]).toEqual({
+      id: "community:hy-world-mirror-2",
+      version: "0.1.0",
+      packages: ["numpy", "pillow", "torch"],
+    });
+    expect(GRAPH.packages.find((entry) => entry.name === "pillow")?.required_by).toEqual([
+      { plugin: "community:hy-world-mirror-2", requirement: "Pillow" },
+      { plugin: "community:sam-segmentation", requirement: "pillow>=10.0" },
+    ]);
+  });
+
+  it("reports each pair of plugins requiring conflicting versions", () => {
+    expect(
+      GRAPH.conflicts.map(({ package: name, requirements }) => [name, ...requirements.map((r) => r.plugin)]),
+    ).toEqual([
+      ["numpy", "community:unisharp", "community:sam-segmentation"],
+      ["torch", "community:hy-world-mirror-2", "community:unisharp"],
+      ["torch", "community:hy-world-mirror-2", "community:sam-segmentation"],
+    ]);
+  });
+});
+
+describe("summarizeConflicts", () => {
+  it("groups the conflicting packages by plugin", () => {
+    expect(summarizeConflicts(GRAPH, "community:unisharp")).toEqual([
+      { plugin: "community:sam-segmentation", packages: ["numpy"] },
+      { plugin: "community:hy-world-mirror-2", packages: ["torch"] },
+    ]);
+    expect(summarizeConflicts(GRAPH, "community:triposplat")).toEqual([]);
+  });
+});
+
+describe("findPluginVersionErrors", () => {
+  it("names the version of each malformed requirement", () => {
+    const plugin = {
+      id: "community:example",
+      latestVersion: "1.0.0",
+      lichtfeldVersion: ">=0.5.0",
+      pluginApi: ">=1,<2",
+      versions: [
+        {
+          version: "1.0.0",
+          pluginApi: ">=1,<2",
+          lichtfeldVersion: ">=0.5.0",
+          requiredFeatures: [],
+          dependencies: ["numpy", "torch=>2.0"],
+        },
+      ],
+    } as unknown as WebsitePluginEntry;
+
+    expect(findPluginVersionErrors(plugin)).toEqual([
+      "community:example@1.0.0 dependencies: Invalid requirement 'torch=>2.0': '=>2.0' is not a version specifier",
+    ]);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+
+import type { CompatibilityDocument } from "@/utils/plugin-compatibility";
+import {
+  buildPluginSearchIndex,
+  countFacets,
+  searchPlugins,
+  tokenize,
+  type PluginSearchQuery,
+  type SearchablePlugin,
+} from "@/utils/plugin-search";
+
+const COMPATIBILITY: CompatibilityDocument = {
+  version: 1,
+  plugins: [
+    {
+      namespace: "community",
+      name: "densification",
+      versions: [
+        { version: "0.10.0", lichtfeld_version: ">=0.5.3", plugin_api: ">=2,<3" },
+        { version: "0.7.0", lichtfeld_version: ">=0.5.0,<0.5.3", plugin_api: ">=1,<2" },
+      ],
+    },
+    {
+      namespace: "community",
+      name: "colmap-import",
+      versions: [{ version: "1.0.0", lichtfeld_version: ">=0.6.0", plugin_api: ">=1,<2" }],
+    },
+    {
+      namespace: "tools",
+      name: "measurement",
+      versions: [{ version: "2.1.0", lichtfeld_version: ">=0.4.0,<0.6.0", plugin_api: ">=1,<2" }],
+    },
+  ],
+};
+
+const PLUGINS: SearchablePlugin[] = [
+  {
+    id: "community:densification",
+    displayName: "Densification Tools",
+    summary: "Tune the densification of a training run.",
+    description: "Adds panels for splitting and cloning Gaussians.",
+    author: "Ada Lovelace",
+    keywords: ["training", "gaussian-splatting"],
+    stars: 12,
+    downloads: 300,
+    updatedAt: new Date("2026-03-01T00:00:00Z"),
+  },
+  {
+    id: "community:colmap-import",
+    displayName: "COLMAP Import",
+    summary: "Import COLMAP reconstructions.",
+    description: "Reads cameras and points for training.",
+    author: "Grace Hopper",
+    keywords: ["colmap", "dataset"],
+    stars: 40,
+    downloads: 120,
+    updatedAt: new Date("2026-05-10T00:00:00Z"),
+  },
+  {
+    id: "tools:measurement",
+    displayName: "Measurement",
+    summary: "Measure distances in the scene.",
+    description: "Rulers for Gaussian splats, in metres or feet.",
+    author: "Ada Lovelace",
+    keywords: ["measurement", "gaussian-splatting"],
+    stars: 5,
+    downloads: 900,
+  },
+];
+
+const INDEX = buildPluginSearchIndex(PLUGINS, COMPATIBILITY);
+
+function search(query: Partial<PluginSearchQuery>): string[] {
+  return searchPlugins(INDEX, { text: "", keywords: [], authors: [], lichtfeld: null, sort: "relevance", ...query });
+}
+
+describe("tokenize", () => {
+  it("lowercases, strips accents and punctuation, and drops stop words", () => {
+    expect(tokenize("The Café-Tools for COLMAP_v2!")).toEqual(["cafe", "tools", "colmap", "v2"]);
+  });
+
+  it("returns nothing for blank text", () => {
+    expect(tokenize("  -- ")).toEqual([]);
+  });
+});
+
+describe("buildPluginSearchIndex", () => {
+  it("weights terms by the fields they appear in", () => {
+    const [densification] = INDEX.documents;
+
+    // displayName and summary
+    expect(densification.terms.densification).toBe(5 + 2);
+    // keywords and summary
+    expect(densification.terms.training).toBe(4 + 2);
+    expect(densification.terms.lovelace).toBe(3);
+    expect(densification.terms.cloning).toBe(1);
+  });
+
+  it("keeps the facets, sort keys and version ranges of each plugin", () => {
+    expect(INDEX.documents.map(({ terms: _terms, ...document }) => document)).toEqual([
+      {
+        id: "community:densification",
+        author: "Ada Lovelace",
+        keywords: ["training", "gaussian-splatting"],
+        stars: 12,
+        downloads: 300,
+        updatedAt: "2026-03-01T00:00:00.000Z",
+        lichtfeldVersions: [">=0.5.3", ">=0.5.0,<0.5.3"],
+      },
+      {
+        id: "community:colmap-import",
+        author: "Grace Hopper",
+        keywords: ["colmap", "dataset"],
+        stars: 40,
+        downloads: 120,
+        updatedAt: "2026-05-10T00:00:00.000Z",
+        lichtfeldVersions: [">=0.6.0"],
+      },
+      {
+        id: "tools:measurement",
+        author: "Ada Lovelace",
+        keywords: ["measurement", "gaussian-splatting"],
+        stars: 5,
+        downloads: 900,
+        updatedAt: null,
+        lichtfeldVersions: [">=0.4.0,<0.6.0"],
+      },
+    ]);
+  });
+
+  it("survives a JSON round trip, as embedded in the page", () => {
+    expect(JSON.parse(JSON.stringify(INDEX))).toEqual(INDEX);
+  });
+});
+
+describe("searchPlugins", () => {
+  it("returns the whole catalog in order without a query", () => {
+    expect(search({})).toEqual(["community:densification", "community:colmap-import", "tools:measurement"]);
+  });
+
+  it("treats Object members like any other term", () => {
+    const index = buildPluginSearchIndex(
+      [{ ...PLUGINS[0], description: "Uses the constructor of each splat." }, PLUGINS[1]],
+      COMPATIBILITY,
+    );
+    const query = { keywords: [], authors: [], lichtfeld: null, sort: "relevance" as const };
+
+    expect(index.documents[0].terms.constructor).toBe(1);
+    expect(index.documents[1].terms.constructor).toBeUndefined();
+    expect(searchPlugins(index, { ...query, text: "constructor" })).toEqual(["community:densification"]);
+    // Parsed JSON objects have a prototype again
+    expect(searchPlugins(JSON.parse(JSON.stringify(index)), { ...query, text: "constructor" })).toEqual([
+      "community:densification",
+    ]);
+  });
+
+  it("ranks plugins by where the terms appear", () => {
+    // In the display name of one, the description of the other
+    expect(search({ text: "training" })).toEqual(["community:densification", "community:colmap-import"]);
+    expect(search({ text: "Lovelace" })).toEqual(["community:densification", "tools:measurement"]);
+  });
+
+  it("requires every term and matches the start of terms", () => {
+    expect(search({ text: "dens" })).toEqual(["community:densification"]);
+    expect(search({ text: "gaussian rulers" })).toEqual(["tools:measurement"]);
+    expect(search({ text: "gaussian lidar" })).toEqual([]);
+  });
+
+  it("matches the start of indexed terms, not the other way round", () => {
+    expect(search({ text: "splat" })).toEqual(["community:densification", "tools:measurement"]);
+    expect(search({ text: "splats" })).toEqual(["tools:measurement"]);
+    expect(search({ text: "measurements" })).toEqual([]);
+  });
+
+  it("filters by keywords with OR and combines facets with AND", () => {
+    expect(search({ keywords: ["colmap", "measurement"] })).toEqual(["community:colmap-import", "tools:measurement"]);
+    expect(search({ keywords: ["gaussian-splatting"], authors: ["Ada Lovelace"] })).toEqual([
+      "community:densification",
+      "tools:measurement",
+    ]);
+    expect(search({ keywords: ["colmap"], authors: ["Ada Lovelace"] })).toEqual([]);
+  });
+
+  it("filters by the LichtFeld version some plugin version supports", () => {
+    expect(search({ lichtfeld: "0.5.1" })).toEqual(["community:densification", "tools:measurement"]);
+    expect(search({ lichtfeld: "0.6.0" })).toEqual(["community:densification", "community:colmap-import"]);
+    expect(search({ lichtfeld: "0.3.9" })).toEqual([]);
+    expect(search({ lichtfeld: "latest" })).toEqual([]);
+  });
+
+  it("sorts by stars, downloads or the last update", () => {
+    expect(search({ sort: "stars" })).toEqual([
+      "community:colmap-import",
+      "community:densification",
+      "tools:measurement",
+    ]);
+    expect(search({ sort: "downloads" })).toEqual([
+      "tools:measurement",
+      "community:densification",
+      "community:colmap-import",
+    ]);
+    // Plugins without a known update date come last
+    expect(search({ sort: "updated" })).toEqual([
+      "community:colmap-import",
+      "community:densification",
+      "tools:measurement",
+    ]);
+  });
+});
+
+describe("countFacets", () => {
+  it("counts keywords and authors among the results", () => {
+    expect(countFacets(INDEX, search({ text: "gaussian" }))).toEqual({
+      keywords: { training: 1, "gaussian-splatting": 2, measurement: 1 },
+      authors: { "Ada Lovelace": 2 },
+    });
+  });
+});
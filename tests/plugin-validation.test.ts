@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+
+import { validatePluginSubmissions } from "@/utils/plugin-validation";
+import type { SubmissionFile } from "@/utils/plugin-validation";
+
+const KEYWORDS = ["colmap", "gaussian-splatting", "measurement", "training"];
+
+function entry(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: "community:measurement",
+    namespace: "community",
+    name: "measurement",
+    displayName: "Measurement Plugin",
+    summary: "Measure distances in the scene.",
+    description: "Measure distances in the scene.",
+    author: "Example",
+    latestVersion: "1.1.0",
+    lichtfeldVersion: ">=0.5.0",
+    pluginApi: ">=1,<2",
+    keywords: ["measurement"],
+    repository: "https://github.com/example/measurement",
+    versions: [
+      { version: "1.1.0", pluginApi: ">=1,<2", lichtfeldVersion: ">=0.5.0", dependencies: ["numpy"] },
+      { version: "1.0.0", pluginApi: ">=1,<2", lichtfeldVersion: ">=0.5.0", dependencies: [] },
+    ],
+    ...overrides,
+  };
+}
+
+function file(name: string, data: Record<string, unknown>): SubmissionFile {
+  return { file: name, content: JSON.stringify(data, null, 2) };
+}
+
+async function issuesOf(
+  files: SubmissionFile[],
+  reachable?: Record<string, boolean>,
+  unreachableRepository?: "error" | "warning",
+) {
+  const report = await validatePluginSubmissions(files, {
+    keywords: KEYWORDS,
+    checkRepository: reachable && (async (url) => reachable[url] ?? null),
+    unreachableRepository,
+  });
+
+  return report.issues.map(({ file, rule, severity, message }) => `${file} ${severity} [${rule}] ${message}`);
+}
+
+describe("validatePluginSubmissions", () => {
+  it("accepts a well-formed entry", async () => {
+    const report = await validatePluginSubmissions([file("measurement.json", entry())], { keywords: KEYWORDS });
+
+    expect(report).toEqual({ valid: true, files: 1, errors: 0, warnings: 0, issues: [] });
+  });
+
+  it("checks the id, name and file name agree", async () => {
+    expect(
+      await issuesOf([
+        file("geo_register_pluggin.json", entry({ id: "community:geo-register", name: "Geo_Register" })),
+      ]),
+    ).toEqual([
+      "geo_register_pluggin.json error [id] id 'community:geo-register' should be 'community:Geo_Register'",
+      "geo_register_pluggin.json error [id] name 'Geo_Register' should be lowercase kebab-case",
+      "geo_register_pluggin.json error [filename] the file should be named 'geo-register.json' after the plugin name",
+    ]);
+  });
+
+  it("only warns about the naming of legacy files", async () => {
+    const report = await validatePluginSubmissions(
+      [
+        file("pointnuker-sor.json", entry({ id: "community:Pointnuker_SOR", name: "Pointnuker_SOR" })),
+        file(
+          "360-camera.json",
+          entry({ id: "community:lichtfeld-360", name: "lichtfeld-360", displayName: "LichtFeld 360" }),
+        ),
+      ],
+      { keywords: KEYWORDS, legacyFiles: ["pointnuker-sor.json", "360-camera.json"] },
+    );
+
+    expect(report.valid).toBe(true);
+    expect(report.issues.map(({ file, severity, message }) => `${file} ${severity} ${message}`)).toEqual([
+      "360-camera.json warning the file should be named 'lichtfeld-360.json' after the plugin name",
+      "pointnuker-sor.json warning name 'Pointnuker_SOR' should be lowercase kebab-case",
+    ]);
+  });
+
+  it("checks the latest version is listed and versions are newest first", async () => {
+    const versions = [
+      { version: "1.0.0", pluginApi: ">=1,<2", lichtfeldVersion: ">=0.5.0" },
+      { version: "1.2.0", pluginApi: ">=1,<2", lichtfeldVersion: "=>0.5.0" },
+    ];
+
+    expect(await issuesOf([file("measurement.json", entry({ versions }))])).toEqual([
+      "measurement.json error [versions] community:measurement@1.2.0 lichtfeldVersion: Invalid version range '=>0.5.0': '>0.5.0' is not a version",
+      "measurement.json error [versions] latestVersion '1.1.0' is not listed in versions",
+      "measurement.json error [versions] versions should be listed newest first, but 1.2.0 follows 1.0.0",
+      "measurement.json error [versions] latestVersion '1.1.0' is older than version 1.2.0",
+    ]);
+  });
+
+  it("warns about keywords outside the vocabulary", async () => {
+    const keywords = ["measurement", "COLMAP", "gaussian-splat", "photogrammetry", "measurement"];
+
+    expect(await issuesOf([file("measurement.json", entry({ keywords }))])).toEqual([
+      "measurement.json warning [keywords] keyword 'COLMAP' is not in the vocabulary, did you mean 'colmap'?",
+      "measurement.json warning [keywords] keyword 'gaussian-splat' is not in the vocabulary, did you mean 'gaussian-splatting'?",
+      "measurement.json warning [keywords] keyword 'photogrammetry' is not in the vocabulary",
+      "measurement.json warning [keywords] keyword 'measurement' is listed twice",
+    ]);
+  });
+
+  it("reports unreachable repositories and skips unchecked ones", async () => {
+    const other = entry({ id: "community:colmap", name: "colmap", displayName: "COLMAP", repository: "https://x.io" });
+
+    expect(
+      await issuesOf([file("measurement.json", entry()), file("colmap.json", other)], {
+        "https://github.com/example/measurement": false,
+      }),
+    ).toEqual([
+      "measurement.json error [repository] repository https://github.com/example/measurement is not reachable",
+    ]);
+  });
+
+  it("can report unreachable repositories as warnings", async () => {
+    expect(
+      await issuesOf(
+        [file("measurement.json", entry())],
+        { "https://github.com/example/measurement": false },
+        "warning",
+      ),
+    ).toEqual([
+      "measurement.json warning [repository] repository https://github.com/example/measurement is not reachable",
+    ]);
+  });
+
+  it("reports duplicate and confusable names across files", async () => {
+    const files = [
+      file("measurement.json", entry()),
+      file("copy.json", entry()),
+      file("Measurement.json", entry({ id: "community:Measurement", name: "Measurement", displayName: "Other" })),
+    ];
+
+    expect((await issuesOf(files)).filter((issue) => issue.includes("[duplicate]"))).toEqual([
+      "copy.json error [duplicate] id 'community:measurement' is also used by measurement.json",
+      "copy.json error [duplicate] name 'measurement' is too close to 'Measurement' in Measurement.json",
+      "measurement.json error [duplicate] id 'community:measurement' is also used by copy.json",
+      "measurement.json error [duplicate] name 'measurement' is too close to 'Measurement' in Measurement.json",
+      "Measurement.json error [duplicate] name 'Measurement' is too close to 'measurement' in measurement.json",
+      "Measurement.json error [duplicate] name 'Measurement' is too close to 'measurement' in copy.json",
+    ]);
+  });
+
+  it("stops at malformed JSON and missing fields", async () => {
+    const report = await validatePluginSubmissions(
+      [{ file: "broken.json", content: '{ "id": ' }, file("partial.json", { id: "community:partial", versions: [{}] })],
+      { keywords: KEYWORDS },
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map((issue) => `${issue.file} [${issue.rule}]`)).toEqual([
+      "broken.json [json]",
+      ...Array(13).fill("partial.json [schema]"),
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import { compareVersions, formatVersion, parseRange, parseVersion, satisfies } from "@/utils/semver-range";
+
+function inRange(version: string, range: string): boolean {
+  return satisfies(parseVersion(version)!, parseRange(range));
+}
+
+describe("parseVersion", () => {
+  it("fills in missing parts and reads pre-releases", () => {
+    expect(formatVersion(parseVersion("1")!)).toBe("1.0.0");
+    expect(formatVersion(parseVersion("v0.5")!)).toBe("0.5.0");
+    expect(parseVersion("1.0.0-rc.1+build.5")).toEqual({ major: 1, minor: 0, patch: 0, prerelease: ["rc", 1] });
+  });
+
+  it("rejects wildcards and malformed versions", () => {
+    for (const text of ["1.x", "*", "01.0.0", "1.0.0.0", "1.0-rc", "latest", ""]) {
+      expect(parseVersion(text), text).toBeNull();
+    }
+  });
+});
+
+describe("compareVersions", () => {
+  it("orders versions by SemVer precedence", () => {
+    const versions = ["1.0.0", "1.0.0-rc.1", "0.10.0", "1.0.0-alpha", "0.9.1", "1.0.0-alpha.1", "1.0.0-rc.10"];
+
+    expect(
+      versions
+        .map((version) => parseVersion(version)!)
+        .sort(compareVersions)
+        .map(formatVersion),
+    ).toEqual(["0.9.1", "0.10.0", "1.0.0-alpha", "1.0.0-alpha.1", "1.0.0-rc.1", "1.0.0-rc.10", "1.0.0"]);
+  });
+});
+
+describe("satisfies", () => {
+  it("handles the ranges plugins declare today", () => {
+    expect(inRange("0.5.3", ">=0.5.0")).toBe(true);
+    expect(inRange("0.4.9", ">=0.5.0")).toBe(false);
+    expect(inRange("1.4.0", ">=1,<2")).toBe(true);
+    expect(inRange("2.0.0", ">=1,<2")).toBe(false);
+  });
+
+  it("accepts npm and Python spellings", () => {
+    expect(inRange("1.9.0", ">= 1.0, < 2")).toBe(true);
+    expect(inRange("1.9.0", ">=1 <2")).toBe(true);
+    expect(inRange("0.5.9", "^0.5.1")).toBe(true);
+    expect(inRange("0.6.0", "^0.5.1")).toBe(false);
+    expect(inRange("0.5.9", "~0.5")).toBe(true);
+    expect(inRange("1.9.0", "~=1.4")).toBe(true);
+    expect(inRange("1.5.0", "~=1.4.2")).toBe(false);
+    expect(inRange("0.5.7", "0.5.x")).toBe(true);
+    expect(inRange("0.5.2", ">=0.5.0,!=0.5.2")).toBe(false);
+    expect(inRange("3.1.4", "*")).toBe(true);
+  });
+
+  it("matches any alternative", () => {
+    expect(inRange("1.2.0", "^0.5.1 || ^1.0.0")).toBe(true);
+    expect(inRange("0.4.0", "^0.5.1 || ^1.0.0")).toBe(false);
+  });
+
+  it("keeps pre-releases of the next major out of shorthand ranges", () => {
+    expect(inRange("2.0.0-rc.1", "^1.0.0")).toBe(false);
+    expect(inRange("1.0.0-rc.1", ">=1.0.0")).toBe(false);
+  });
+});
+
+describe("parseRange", () => {
+  it.each([
+    ["", "the range is empty"],
+    [">=0.5.0 ||", "an alternative is empty"],
+    [">=0.5.0,<", "'<' is missing a version"],
+    [">=latest", "'latest' is not a version"],
+    [">1.x", "'>1.x' compares against a wildcard"],
+    ["!=0.5", "'!=0.5' needs a full version"],
+    ["~=1", "'~=1' needs at least MAJOR.MINOR"],
+  ])("rejects %j", (range, message) => {
+    expect(() => parseRange(range)).toThrow(`Invalid version range '${range}': ${message}`);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * stats.test.ts
+ *
+ * Contract tests for the stats API on the website side: the validators from
+ * shared/stats-schema, and fetchStats, which relies on them. The worker's own
+ * contract tests validate its real responses against the same schema.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  STATS_API_VERSION,
+  validateCompareResponse,
+  validateContributorsResponse,
+  validateHealthResponse,
+  validateStatsResponse,
+  type CompareResponse,
+  type ContributorsResponse,
+  type HealthResponse,
+  type StatsResponse,
+} from "@/types/stats";
+
+// =================================================================================================
+// FIXTURES
+// =================================================================================================
+
+const DAY = 86400000;
+const TODAY = Date.UTC(2025, 0, 20);
+
+/** A response with every optional part present, typed against the shared schema. */
+const STATS_RESPONSE: StatsResponse = {
+  apiVersion: STATS_API_VERSION,
+  asOf: "2025-01-20",
+  totals: { allTime: 1700 },
+  releases: [
+    {
+      tag: "v1.0.0",
+      name: "Version 1.0.0",
+      downloads: 1500,
+      publishedAt: TODAY - 30 * DAY,
+      daily: [
+        { date: TODAY - DAY, downloads: 1400, estimated: true },
+        { date: TODAY, downloads: 1500 },
+      ],
+      weekly: [{ week: Date.UTC(2025, 0, 20), downloads: 100 }],
+      monthly: [{ month: Date.UTC(2025, 0, 1), downloads: 400 }],
+    },
+  ],
+  platforms: [
+    {
+      platform: "windows-x64-cuda12.8-portable",
+      os: "windows",
+      arch: "x64",
+      cuda: "12.8",
+      variant: "portable",
+      downloads: 1500,
+      daily: [{ date: TODAY, downloads: 1500 }],
+      weekly: [],
+      monthly: [],
+    },
+  ],
+  annotations: [{ date: TODAY, tag: "v1.0.0", kind: "spike", delta: 900, message: "900 downloads in a day" }],
+  forecast: {
+    model: "holt",
+    fittedWeeks: 10,
+    weekly: [{ week: Date.UTC(2025, 0, 20), downloads: 70, lower: 60, upper: 80 }],
+    cumulative: [{ date: TODAY, total: 1700, lower: 1700, upper: 1700 }],
+    next30Days: { downloads: 300, lower: 250, upper: 350 },
+    next90Days: { downloads: 900, lower: 700, upper: 1100 },
+    milestone: { downloads: 2500, expectedDate: null },
+  },
+};
+
+const COMPARE_RESPONSE: CompareResponse = {
+  apiVersion: STATS_API_VERSION,
+  asOf: "2025-01-20",
+  days: 90,
+  releases: [
+    {
+      tag: "v1.0.0",
+      name: "Version 1.0.0",
+      publishedAt: TODAY - 3 * DAY,
+      downloads: 1500,
+      series: [
+        { day: 0, date: TODAY - 3 * DAY, cumulative: 100, downloads: 100 },
+        { day: 1, date: TODAY - 2 * DAY, cumulative: 150, downloads: 50, estimated: true },
+        { day: 3, date: TODAY, cumulative: 300, downloads: null },
+      ],
+    },
+  ],
+};
+
+const HEALTH_RESPONSE: HealthResponse = {
+  apiVersion: STATS_API_VERSION,
+  status: "failing",
+  asOf: "2025-01-20",
+  lastSuccessAt: null,
+  stalenessMs: null,
+  consecutiveFailures: 3,
+  lastRun: {
+    status: "error",
+    startedAt: TODAY,
+    finishedAt: TODAY + 1000,
+    durationMs: 1000,
+    error: "GitHub API error",
+    rateLimitRemaining: null,
+  },
+};
+
+const CONTRIBUTORS_RESPONSE: ContributorsResponse = {
+  apiVersion: STATS_API_VERSION,
+  asOf: "2025-01-20",
+  repository: "MrNeRF/LichtFeld-Studio",
+  months: [
+    { month: Date.UTC(2024, 11, 1), contributors: 0, newContributors: 0, commits: 0, pullRequests: 0, issues: 0 },
+    { month: Date.UTC(2025, 0, 1), contributors: 2, newContributors: 1, commits: 12, pullRequests: 3, issues: 1 },
+  ],
+  topContributors: [
+    {
+      login: "MrNeRF",
+      avatarUrl: "https://avatars.githubusercontent.com/MrNeRF",
+      commits: 12,
+      pullRequests: 1,
+      issues: 0,
+      firstContribution: Date.UTC(2024, 1, 1),
+    },
+  ],
+  firstTimeContributors: [
+    {
+      login: "first-timer",
+      avatarUrl: null,
+      commits: 0,
+      pullRequests: 2,
+      issues: 1,
+      firstContribution: Date.UTC(2025, 0, 1),
+    },
+  ],
+};
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// =================================================================================================
+// VALIDATORS
+// =================================================================================================
+
+describe("validateStatsResponse", () => {
+  it("accepts a complete response, strictly", () => {
+    expect(validateStatsResponse(clone(STATS_RESPONSE), { strict: true })).toEqual({
+      ok: true,
+      value: STATS_RESPONSE,
+    });
+  });
+
+  it("accepts an empty response without a forecast", () => {
+    const response = { ...clone(STATS_RESPONSE), releases: [], platforms: [], annotations: [], forecast: null };
+
+    expect(validateStatsResponse(response, { strict: true }).ok).toBe(true);
+  });
+
+  it("reports missing and mistyped fields by path", () => {
+    const response = clone(STATS_RESPONSE) as unknown as Record<string, any>;
+
+    delete response.totals.allTime;
+    response.releases[0].daily[1].downloads = "1500";
+    response.annotations[0].kind = "drop";
+
+    expect(validateStatsResponse(response)).toEqual({
+      ok: false,
+      errors: [
+        "totals.allTime: missing",
+        "releases[0].daily[1].downloads: expected a number, got string",
+        'annotations[0].kind: expected "negative_delta" | "asset_reupload" | "spike", got "drop"',
+      ],
+    });
+  });
+
+  it("rejects other API versions and older responses without one", () => {
+    const { apiVersion: _, ...unversioned } = clone(STATS_RESPONSE);
+
+    expect(validateStatsResponse({ ...clone(STATS_RESPONSE), apiVersion: STATS_API_VERSION + 1 }).ok).toBe(false);
+    expect(validateStatsResponse(unversioned)).toEqual({ ok: false, errors: ["apiVersion: missing"] });
+  });
+
+  it("only reports unknown fields in strict mode", () => {
+    const response = { ...clone(STATS_RESPONSE), extra: true };
+
+    expect(validateStatsResponse(response).ok).toBe(true);
+    expect(validateStatsResponse(response, { strict: true })).toEqual({
+      ok: false,
+      errors: ["extra: not in the schema"],
+    });
+  });
+
+  it("rejects bodies that aren't objects", () => {
+    expect(validateStatsResponse(null)).toEqual({ ok: false, errors: ["response: expected an object, got null"] });
+  });
+});
+
+describe("validateCompareResponse", () => {
+  it("accepts release series with missing snapshots", () => {
+    expect(validateCompareResponse(clone(COMPARE_RESPONSE), { strict: true }).ok).toBe(true);
+  });
+
+  it("rejects an invalid asOf date", () => {
+    expect(validateCompareResponse({ ...clone(COMPARE_RESPONSE), asOf: "20 Jan" })).toEqual({
+      ok: false,
+      errors: ["asOf: expected a YYYY-MM-DD date"],
+    });
+  });
+});
+
+describe("validateContributorsResponse", () => {
+  it("accepts contributors without an avatar", () => {
+    expect(validateContributorsResponse(clone(CONTRIBUTORS_RESPONSE), { strict: true }).ok).toBe(true);
+  });
+
+  it("rejects a month without counts", () => {
+    const response = clone(CONTRIBUTORS_RESPONSE) as unknown as { months: Array<Record<string, unknown>> };
+
+    delete response.months[1].newContributors;
+
+    expect(validateContributorsResponse(response)).toEqual({
+      ok: false,
+      errors: ["months[1].newContributors: missing"],
+    });
+  });
+});
+
+describe("validateHealthResponse", () => {
+  it("accepts unhealthy responses and responses without runs", () => {
+    expect(validateHealthResponse(clone(HEALTH_RESPONSE), { strict: true }).ok).toBe(true);
+    expect(validateHealthResponse({ ...clone(HEALTH_RESPONSE), status: "stale", lastRun: null }).ok).toBe(true);
+  });
+});
+
+// =================================================================================================
+// CLIENT
+// =================================================================================================
+
+describe("fetchStats", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubFetch(body: unknown, status = 200) {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+
+    vi.stubGlobal("window", { location: { origin: "https://lichtfeld.io" } });
+    vi.stubGlobal("fetch", fetchMock);
+
+    return fetchMock;
+  }
+
+  it("returns responses that match the schema", async () => {
+    const fetchMock = stubFetch(STATS_RESPONSE);
+    const { fetchStats } = await import("@/services/github");
+
+    await expect(fetchStats({ granularity: "weekly", tags: ["v1.0.0"] })).resolves.toEqual(STATS_RESPONSE);
+    expect(fetchMock).toHaveBeenCalledWith("https://lichtfeld.io/api/stats?granularity=weekly&tags=v1.0.0");
+  });
+
+  it("throws when the response doesn't match the schema", async () => {
+    stubFetch({ ...STATS_RESPONSE, apiVersion: STATS_API_VERSION + 1 });
+    const { fetchStats } = await import("@/services/github");
+
+    await expect(fetchStats()).rejects.toThrow(/^Unexpected stats response: apiVersion: expected 1, got 2$/);
+  });
+
+  it("throws on HTTP errors", async () => {
+    stubFetch({ error: "Failed to fetch statistics" }, 500);
+    const { fetchStats } = await import("@/services/github");
+
+    await expect(fetchStats()).rejects.toThrow("Failed to fetch stats: 500");
+  });
+});
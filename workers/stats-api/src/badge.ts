@@ -0,0 +1,169 @@
+/**
+ * workers/stats-api/src/badge.ts
+ *
+ * Shields-style SVG badges for GET /api/badge/*.svg.
+ *
+ * Text is measured with an approximate Verdana width table instead of a font,
+ * which is close enough for short labels and keeps rendering pure.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BadgeStyle = "flat" | "flat-square" | "for-the-badge";
+
+export interface Badge {
+    label: string;
+    message: string;
+    /** Message background as #rgb or #rrggbb */
+    color: string;
+    style: BadgeStyle;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const BADGE_STYLES: readonly BadgeStyle[] = ["flat", "flat-square", "for-the-badge"];
+
+/** Shields' named colours, accepted by the `color` parameter */
+export const BADGE_COLORS: Record<string, string> = {
+    brightgreen: "#4c1",
+    green: "#97ca00",
+    yellowgreen: "#a4a61d",
+    yellow: "#dfb317",
+    orange: "#fe7d37",
+    red: "#e05d44",
+    blue: "#007ec6",
+    lightgrey: "#9f9f9f",
+    grey: "#555",
+};
+
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const LABEL_COLOR = "#555";
+const FONT_FAMILY = "Verdana,Geneva,DejaVu Sans,sans-serif";
+
+/** Approximate Verdana 11px advance widths; other characters use DEFAULT_CHAR_WIDTH */
+const CHAR_WIDTHS: Array<[RegExp, number]> = [
+    [/[ijl.,:;!|'`]/, 3.4],
+    [/[frt()[\]{}/\\ ]/, 4.6],
+    [/[0-9a-ehknopqsuvxyz$#?+=<>_~^*-]/, 6.9],
+    [/[gABCEFKPRSTVXYZ]/, 7.5],
+    [/[mwDGHNOQU%&@]/, 8.6],
+    [/[MW]/, 10.5],
+];
+const DEFAULT_CHAR_WIDTH = 7;
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/** Formats a download count compactly: 999, 1.2k, 45k, 3.4M. */
+export function formatCount(count: number): string {
+    for (const [size, suffix] of [[1e9, "B"], [1e6, "M"], [1e3, "k"]] as const) {
+        if (count >= size) {
+            const scaled = count / size;
+
+            // One decimal below 10 (1.2k), none above (45k); never round up to "1000k"
+            const digits = scaled < 10 ? 1 : 0;
+            const rounded = Math.floor(scaled * 10 ** digits) / 10 ** digits;
+
+            return `${rounded}${suffix}`;
+        }
+    }
+
+    return String(count);
+}
+
+/**
+ * Resolves a named colour or hex value (with or without #).
+ * Returns null for anything else.
+ */
+export function resolveBadgeColor(value: string): string | null {
+    const named = BADGE_COLORS[value.toLowerCase()];
+
+    if (named) {
+        return named;
+    }
+
+    const hex = HEX_COLOR_PATTERN.exec(value);
+
+    return hex ? `#${hex[1].toLowerCase()}` : null;
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/** Approximate rendered width of `text` at 11px Verdana. */
+function measureText(text: string): number {
+    let width = 0;
+
+    for (const char of text) {
+        width += CHAR_WIDTHS.find(([pattern]) => pattern.test(char))?.[1] ?? DEFAULT_CHAR_WIDTH;
+    }
+
+    return width;
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/** Renders one text run with the flat styles' drop shadow. */
+function shadowedText(x: number, text: string): string {
+    return `<text x="${x}" y="15" fill="#010101" fill-opacity=".3">${text}</text><text x="${x}" y="14">${text}</text>`;
+}
+
+/** Renders a badge as a standalone SVG document. */
+export function renderBadge(badge: Badge): string {
+    const tall = badge.style === "for-the-badge";
+    const label = tall ? badge.label.toUpperCase() : badge.label;
+    const message = tall ? badge.message.toUpperCase() : badge.message;
+    const title = escapeXml(`${badge.label}: ${badge.message}`);
+
+    // for-the-badge uses wider padding, letter spacing and a 10px bold font
+    const padding = tall ? 24 : 10;
+    const spacing = tall ? 1.25 : 0;
+    const widthOf = (text: string) =>
+        Math.round(measureText(text) * (tall ? 0.95 : 1) + spacing * text.length + padding);
+
+    const labelWidth = label ? widthOf(label) : 0;
+    const messageWidth = widthOf(message);
+    const width = labelWidth + messageWidth;
+    const height = tall ? 28 : 20;
+    const labelX = labelWidth / 2;
+    const messageX = labelWidth + messageWidth / 2;
+
+    const shapes = [
+        labelWidth > 0 ? `<rect width="${labelWidth}" height="${height}" fill="${LABEL_COLOR}"/>` : "",
+        `<rect x="${labelWidth}" width="${messageWidth}" height="${height}" fill="${badge.color}"/>`,
+    ];
+    let text: string;
+    let defs = "";
+
+    if (tall) {
+        text = `<g fill="#fff" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="10" font-weight="bold" letter-spacing="${spacing}">`
+            + (label ? `<text x="${labelX}" y="18">${escapeXml(label)}</text>` : "")
+            + `<text x="${messageX}" y="18">${escapeXml(message)}</text></g>`;
+    } else {
+        text = `<g fill="#fff" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="11">`
+            + (label ? shadowedText(labelX, escapeXml(label)) : "")
+            + shadowedText(messageX, escapeXml(message))
+            + "</g>";
+    }
+
+    // Only plain flat gets rounded corners and the subtle gloss
+    if (badge.style === "flat") {
+        defs = `<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>`
+            + `<clipPath id="r"><rect width="${width}" height="${height}" rx="3" fill="#fff"/></clipPath>`;
+        shapes.push(`<rect width="${width}" height="${height}" fill="url(#s)"/>`);
+    }
+
+    const group = badge.style === "flat" ? `<g clip-path="url(#r)">${shapes.join("")}</g>` : `<g>${shapes.join("")}</g>`;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="${title}">`
+        + `<title>${title}</title>${defs}${group}${text}</svg>`;
+}
@@ -0,0 +1,107 @@
+/**
+ * workers/stats-api/src/compare.ts
+ *
+ * Adoption curves for GET /api/stats/compare: daily snapshots of the requested
+ * releases aligned on days since publish, so a new release's first weeks can
+ * be compared with how earlier releases did over the same stretch.
+ */
+
+import type { ComparedRelease } from "../../../shared/stats-schema";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CompareQuery {
+    /** Repository whose releases are compared (repositories.id) */
+    repositoryId: number;
+    /** Release tags to compare */
+    tags: string[];
+    /** Days since publish to include, counting the publish day as day 0 */
+    days: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MS_PER_DAY = 86400000;
+
+// =============================================================================
+// Query
+// =============================================================================
+
+/**
+ * Loads the requested releases with their adoption curves, oldest release first.
+ * Tags that don't belong to the repository are left out.
+ */
+export async function getComparison(db: D1Database, query: CompareQuery): Promise<ComparedRelease[]> {
+    const placeholders = query.tags.map(() => "?").join(", ");
+
+    const [releasesResult, dailyResult] = await Promise.all([
+        db.prepare(`
+            SELECT id, tag, name, COALESCE(total_downloads, 0) as downloads, published_at
+            FROM releases
+            WHERE repository_id = ? AND tag IN (${placeholders})
+            ORDER BY published_at IS NULL, published_at ASC, tag ASC
+        `).bind(query.repositoryId, ...query.tags).all<{
+            id: number;
+            tag: string;
+            name: string;
+            downloads: number;
+            published_at: number | null;
+        }>(),
+
+        // Snapshots from the publish day (UTC) up to the requested number of days
+        db.prepare(`
+            SELECT d.release_id, d.date, d.count, d.estimated,
+                   (r.published_at / ${MS_PER_DAY}) * ${MS_PER_DAY} as publish_day
+            FROM downloads_daily d
+            JOIN releases r ON r.id = d.release_id
+            WHERE r.repository_id = ? AND r.tag IN (${placeholders})
+              AND r.published_at IS NOT NULL
+              AND d.date >= (r.published_at / ${MS_PER_DAY}) * ${MS_PER_DAY}
+              AND d.date < (r.published_at / ${MS_PER_DAY}) * ${MS_PER_DAY} + ? * ${MS_PER_DAY}
+            ORDER BY d.release_id ASC, d.date ASC
+        `).bind(query.repositoryId, ...query.tags, query.days).all<{
+            release_id: number;
+            date: number;
+            count: number;
+            estimated: number;
+            publish_day: number;
+        }>(),
+    ]);
+
+    const seriesByRelease = new Map<number, ComparedRelease["series"]>();
+
+    for (const row of dailyResult.results) {
+        if (!seriesByRelease.has(row.release_id)) {
+            seriesByRelease.set(row.release_id, []);
+        }
+
+        const series = seriesByRelease.get(row.release_id)!;
+        const day = Math.round((row.date - row.publish_day) / MS_PER_DAY);
+        const previous = series[series.length - 1];
+        let downloads: number | null = null;
+
+        if (day === 0) {
+            downloads = row.count;
+        } else if (previous && previous.day === day - 1) {
+            downloads = Math.max(0, row.count - previous.cumulative);
+        }
+
+        series.push(
+            row.estimated
+                ? { day, date: row.date, cumulative: row.count, downloads, estimated: true }
+                : { day, date: row.date, cumulative: row.count, downloads },
+        );
+    }
+
+    return releasesResult.results.map((release) => ({
+        tag: release.tag,
+        name: release.name,
+        publishedAt: release.published_at,
+        downloads: release.downloads,
+        series: seriesByRelease.get(release.id) ?? [],
+    }));
+}
@@ -0,0 +1,177 @@
+/**
+ * workers/stats-api/src/contributors.ts
+ *
+ * Contributor activity for GET /api/stats/contributors: the monthly commit,
+ * pull request and issue counts per contributor stored by the collector,
+ * summed per month, ranked over the window, and the contributors whose
+ * first contribution falls in it.
+ */
+
+import type { ContributorMonth, ContributorSummary, ContributorsResponse } from "../../../shared/stats-schema";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ContributorsQuery {
+    /** Tracked repository (repositories.id) */
+    repositoryId: number;
+    /** First and last month of the window (1st 00:00 UTC) */
+    start: number;
+    end: number;
+    /** Maximum number of top and first-time contributors */
+    limit: number;
+}
+
+interface SummaryRow {
+    login: string;
+    avatar_url: string | null;
+    commits: number;
+    pull_requests: number;
+    issues: number;
+    first_contribution: number;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Start of the month (UTC) containing the timestamp. */
+export function monthOf(ts: number): number {
+    const date = new Date(ts);
+
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/** Start of the month `count` months after the given one (before, when negative). */
+export function addMonths(month: number, count: number): number {
+    const date = new Date(month);
+
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + count, 1);
+}
+
+function toSummary(row: SummaryRow): ContributorSummary {
+    return {
+        login: row.login,
+        avatarUrl: row.avatar_url,
+        commits: row.commits,
+        pullRequests: row.pull_requests,
+        issues: row.issues,
+        firstContribution: row.first_contribution,
+    };
+}
+
+// =============================================================================
+// Query
+// =============================================================================
+
+/**
+ * Returns a repository's "owner/name" with the time of its latest activity
+ * refresh, which versions cached responses and is null before the first one.
+ */
+export async function getContributorsInfo(
+    db: D1Database,
+    repositoryId: number,
+): Promise<{ repository: string; refreshedAt: number | null }> {
+    const row = await db
+        .prepare("SELECT owner || '/' || name AS repository, contributors_refreshed_at FROM repositories WHERE id = ?")
+        .bind(repositoryId)
+        .first<{ repository: string; contributors_refreshed_at: number | null }>();
+
+    return {
+        repository: row?.repository ?? "",
+        refreshedAt: row?.contributors_refreshed_at ?? null,
+    };
+}
+
+/**
+ * Loads the monthly totals (every month of the window, zeros included), the
+ * most active contributors over the window and its first-time contributors.
+ */
+export async function getContributorActivity(
+    db: D1Database,
+    query: ContributorsQuery,
+): Promise<Pick<ContributorsResponse, "months" | "topContributors" | "firstTimeContributors">> {
+    const [activity, newcomers, top, firstTime] = await Promise.all([
+        db.prepare(`
+            SELECT
+                month,
+                COUNT(*) AS contributors,
+                SUM(commits) AS commits,
+                SUM(pull_requests) AS pull_requests,
+                SUM(issues) AS issues
+            FROM contributor_activity_monthly
+            WHERE repository_id = ? AND month >= ? AND month <= ?
+            GROUP BY month
+        `).bind(query.repositoryId, query.start, query.end).all<{
+            month: number;
+            contributors: number;
+            commits: number;
+            pull_requests: number;
+            issues: number;
+        }>(),
+
+        db.prepare(`
+            SELECT first_contribution AS month, COUNT(*) AS count
+            FROM contributors
+            WHERE repository_id = ? AND first_contribution >= ? AND first_contribution <= ?
+            GROUP BY first_contribution
+        `).bind(query.repositoryId, query.start, query.end).all<{ month: number; count: number }>(),
+
+        db.prepare(`
+            SELECT
+                c.login,
+                c.avatar_url,
+                SUM(a.commits) AS commits,
+                SUM(a.pull_requests) AS pull_requests,
+                SUM(a.issues) AS issues,
+                c.first_contribution
+            FROM contributor_activity_monthly a
+            JOIN contributors c ON c.repository_id = a.repository_id AND c.login = a.login
+            WHERE a.repository_id = ? AND a.month >= ? AND a.month <= ?
+            GROUP BY c.login
+            ORDER BY SUM(a.commits + a.pull_requests + a.issues) DESC, c.login ASC
+            LIMIT ?
+        `).bind(query.repositoryId, query.start, query.end, query.limit).all<SummaryRow>(),
+
+        db.prepare(`
+            SELECT
+                c.login,
+                c.avatar_url,
+                COALESCE(SUM(a.commits), 0) AS commits,
+                COALESCE(SUM(a.pull_requests), 0) AS pull_requests,
+                COALESCE(SUM(a.issues), 0) AS issues,
+                c.first_contribution
+            FROM contributors c
+            LEFT JOIN contributor_activity_monthly a
+                ON a.repository_id = c.repository_id AND a.login = c.login AND a.month >= ?2 AND a.month <= ?3
+            WHERE c.repository_id = ?1 AND c.first_contribution >= ?2 AND c.first_contribution <= ?3
+            GROUP BY c.login
+            ORDER BY c.first_contribution DESC, c.login ASC
+            LIMIT ?4
+        `).bind(query.repositoryId, query.start, query.end, query.limit).all<SummaryRow>(),
+    ]);
+
+    const byMonth = new Map(activity.results.map((row) => [row.month, row]));
+    const newByMonth = new Map(newcomers.results.map((row) => [row.month, row.count]));
+    const months: ContributorMonth[] = [];
+
+    for (let month = query.start; month <= query.end; month = addMonths(month, 1)) {
+        const row = byMonth.get(month);
+
+        months.push({
+            month,
+            contributors: row?.contributors ?? 0,
+            newContributors: newByMonth.get(month) ?? 0,
+            commits: row?.commits ?? 0,
+            pullRequests: row?.pull_requests ?? 0,
+            issues: row?.issues ?? 0,
+        });
+    }
+
+    return {
+        months,
+        topContributors: top.results.map(toSummary),
+        firstTimeContributors: firstTime.results.map(toSummary),
+    };
+}
@@ -0,0 +1,230 @@
+/**
+ * workers/stats-api/src/export.ts
+ *
+ * Streams the downloads_daily/weekly/monthly tables as CSV or NDJSON for
+ * spreadsheet and reporting use. Rows are read from D1 in pages so large
+ * exports never have to be held in memory at once.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ExportFormat = "csv" | "ndjson";
+
+/** "total" sums all selected releases per period, "release" emits one row per release */
+export type ExportBreakdown = "total" | "release";
+
+export interface ExportQuery {
+    granularity: "daily" | "weekly" | "monthly";
+    breakdown: ExportBreakdown;
+    /** Inclusive period range (Unix ms) */
+    start: number;
+    end: number;
+    /** Repository whose releases are exported (repositories.id) */
+    repositoryId: number;
+    /** Repository as "owner/name" when requested with `repo=`, null for LichtFeld Studio */
+    repository: string | null;
+    /** Release tags to include, or null for all releases */
+    tags: string[] | null;
+    /** Only include the N releases with the most lifetime downloads */
+    limit: number | null;
+}
+
+interface ExportRow {
+    period: number;
+    tag?: string;
+    downloads: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Rows fetched from D1 per query while streaming */
+const EXPORT_PAGE_SIZE = 1000;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: "text/csv; charset=utf-8",
+    ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+/** Source table and period column per granularity, matching the JSON API field names */
+const EXPORT_TABLES = {
+    daily: { table: "downloads_daily", column: "date" },
+    weekly: { table: "downloads_weekly", column: "week" },
+    monthly: { table: "downloads_monthly", column: "month" },
+} as const;
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+function formatDate(ts: number): string {
+    return new Date(ts).toISOString().split("T")[0];
+}
+
+/**
+ * Quotes a CSV field when it contains separators, quotes or line breaks.
+ */
+function csvField(value: string | number): string {
+    const text = String(value);
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRow(format: ExportFormat, query: ExportQuery, row: ExportRow): string {
+    const { column } = EXPORT_TABLES[query.granularity];
+    const period = formatDate(row.period);
+
+    if (format === "ndjson") {
+        const record =
+            query.breakdown === "release"
+                ? { [column]: period, release: row.tag, downloads: row.downloads }
+                : { [column]: period, downloads: row.downloads };
+
+        return `${JSON.stringify(record)}\n`;
+    }
+
+    const fields = query.breakdown === "release" ? [period, row.tag ?? "", row.downloads] : [period, row.downloads];
+
+    return `${fields.map(csvField).join(",")}\r\n`;
+}
+
+function formatHeader(format: ExportFormat, query: ExportQuery): string {
+    if (format === "ndjson") {
+        return "";
+    }
+
+    const { column } = EXPORT_TABLES[query.granularity];
+
+    return query.breakdown === "release" ? `${column},release,downloads\r\n` : `${column},downloads\r\n`;
+}
+
+/**
+ * Builds the download file name for an export, e.g. "lichtfeld-downloads-weekly-2024-01-25.csv".
+ * Exports of another repository start with its slug instead, e.g. "example-my-plugin-downloads-…".
+ */
+export function exportFilename(format: ExportFormat, query: ExportQuery, asOf: string): string {
+    const prefix = query.repository
+        ? query.repository
+              .toLowerCase()
+              .replace(/[^a-z0-9]+/g, "-")
+              .replace(/^-+|-+$/g, "")
+        : "lichtfeld";
+    const suffix = query.breakdown === "release" ? "-by-release" : "";
+
+    return `${prefix}-downloads-${query.granularity}${suffix}-${asOf}.${format}`;
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Builds the SQL condition selecting the requested releases.
+ */
+function releaseFilter(query: ExportQuery): { sql: string; binds: Array<string | number> } {
+    const binds: Array<string | number> = [query.repositoryId];
+    let subquery = "SELECT id FROM releases WHERE repository_id = ?";
+
+    if (query.tags !== null) {
+        subquery += ` AND tag IN (${query.tags.map(() => "?").join(", ")})`;
+        binds.push(...query.tags);
+    }
+
+    if (query.limit !== null) {
+        subquery += " ORDER BY COALESCE(total_downloads, 0) DESC LIMIT ?";
+        binds.push(query.limit);
+    }
+
+    return { sql: ` AND s.release_id IN (${subquery})`, binds };
+}
+
+function buildExportSql(query: ExportQuery, filterSql: string): string {
+    const { table, column } = EXPORT_TABLES[query.granularity];
+
+    if (query.breakdown === "release") {
+        return `
+            SELECT s.${column} AS period, r.tag AS tag, s.count AS downloads
+            FROM ${table} s
+            INNER JOIN releases r ON r.id = s.release_id
+            WHERE s.${column} >= ? AND s.${column} <= ?${filterSql}
+            ORDER BY s.${column} ASC, r.tag ASC
+            LIMIT ? OFFSET ?
+        `;
+    }
+
+    return `
+        SELECT s.${column} AS period, SUM(s.count) AS downloads
+        FROM ${table} s
+        WHERE s.${column} >= ? AND s.${column} <= ?${filterSql}
+        GROUP BY s.${column}
+        ORDER BY s.${column} ASC
+        LIMIT ? OFFSET ?
+    `;
+}
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+/**
+ * Creates a stream of formatted export rows.
+ *
+ * The first page is read before the stream is returned so query errors
+ * surface as a normal error response instead of a truncated download.
+ */
+export async function createExportStream(
+    db: D1Database,
+    format: ExportFormat,
+    query: ExportQuery,
+): Promise<ReadableStream<Uint8Array>> {
+    const encoder = new TextEncoder();
+    const filter = releaseFilter(query);
+    const statement = db.prepare(buildExportSql(query, filter.sql));
+
+    const fetchPage = async (offset: number): Promise<ExportRow[]> => {
+        const result = await statement
+            .bind(query.start, query.end, ...filter.binds, EXPORT_PAGE_SIZE, offset)
+            .all<ExportRow>();
+
+        return result.results;
+    };
+
+    let page = await fetchPage(0);
+    let offset = page.length;
+    let headerSent = false;
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                if (!headerSent) {
+                    headerSent = true;
+
+                    const header = formatHeader(format, query);
+
+                    if (header) {
+                        controller.enqueue(encoder.encode(header));
+                    }
+                }
+
+                if (page.length > 0) {
+                    controller.enqueue(encoder.encode(page.map((row) => formatRow(format, query, row)).join("")));
+                }
+
+                // A short page means the table is exhausted
+                if (page.length < EXPORT_PAGE_SIZE) {
+                    controller.close();
+
+                    return;
+                }
+
+                page = await fetchPage(offset);
+                offset += page.length;
+            } catch (error) {
+                controller.error(error);
+            }
+        },
+    });
+}
@@ -0,0 +1,291 @@
+/**
+ * workers/stats-api/src/forecast.ts
+ *
+ * Download projections for the `forecast` field of GET /api/stats.
+ *
+ * An additive Holt-Winters model (level, trend and a yearly season) is fitted
+ * to the weekly download totals. With less than two years of history there is
+ * no season to learn, so plain Holt (level and trend) is used instead.
+ * Smoothing parameters are picked by a small grid search on one-step-ahead
+ * errors, and the spread of those errors gives the forecast bands.
+ *
+ * Everything here is pure; index.ts loads the weekly totals.
+ */
+
+import type { Forecast, ForecastBand as Band } from "../../../shared/stats-schema";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WeeklyTotal {
+    /** Unix timestamp of the Monday starting the week (UTC) */
+    week: number;
+    downloads: number;
+}
+
+interface FittedModel {
+    level: number;
+    trend: number;
+    /** Seasonal offsets indexed by position in the season, empty for plain Holt */
+    seasonal: number[];
+    /** Number of values the model was fitted on */
+    length: number;
+    /** Standard deviation of the one-step-ahead errors */
+    residualSd: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MS_PER_DAY = 86400000;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+
+/** Yearly seasonality of a weekly series */
+const SEASON_LENGTH = 52;
+
+/** Fewer complete weeks than this make no useful trend */
+const MIN_HISTORY_WEEKS = 8;
+
+/** Weeks of history worth loading: the two seasons needed for seasonality, plus one */
+export const FORECAST_HISTORY_WEEKS = 3 * SEASON_LENGTH;
+
+/** Weeks in the `weekly` and `cumulative` projections (about 90 days) */
+const FORECAST_WEEKS = 13;
+
+/** How far ahead the next milestone is searched for */
+const MILESTONE_HORIZON_WEEKS = 104;
+
+/** Two-sided 95% normal quantile */
+const BAND_Z = 1.96;
+
+const ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.05, 0.1, 0.2, 0.3];
+const GAMMAS = [0.1, 0.3, 0.5];
+
+/** Round totals worth announcing: 1, 2.5 and 5 times a power of ten */
+const MILESTONE_STEPS = [1, 2.5, 5];
+
+// =============================================================================
+// Model
+// =============================================================================
+
+/**
+ * Runs the Holt-Winters recursions once with fixed parameters and returns the
+ * final state with the sum of squared one-step-ahead errors.
+ */
+function runModel(
+    values: number[],
+    seasonLength: number | null,
+    alpha: number,
+    beta: number,
+    gamma: number,
+): FittedModel & { sse: number } {
+    let level: number;
+    let trend: number;
+    let start: number;
+    const seasonal: number[] = [];
+
+    if (seasonLength === null) {
+        level = values[0];
+        trend = values[1] - values[0];
+        start = 1;
+    } else {
+        // Level and trend from the first two seasons, offsets from the first
+        const mean = (from: number) =>
+            values.slice(from, from + seasonLength).reduce((sum, value) => sum + value, 0) / seasonLength;
+        const first = mean(0);
+
+        level = first;
+        trend = (mean(seasonLength) - first) / seasonLength;
+        start = seasonLength;
+
+        for (let i = 0; i < seasonLength; i++) {
+            seasonal.push(values[i] - first);
+        }
+    }
+
+    let sse = 0;
+
+    for (let t = start; t < values.length; t++) {
+        const offset = seasonLength === null ? 0 : seasonal[t % seasonLength];
+        const error = values[t] - (level + trend + offset);
+        const previousLevel = level;
+
+        sse += error * error;
+        level = alpha * (values[t] - offset) + (1 - alpha) * (level + trend);
+        trend = beta * (level - previousLevel) + (1 - beta) * trend;
+
+        if (seasonLength !== null) {
+            seasonal[t % seasonLength] = gamma * (values[t] - level) + (1 - gamma) * offset;
+        }
+    }
+
+    const residualSd = Math.sqrt(sse / (values.length - start));
+
+    return { level, trend, seasonal, length: values.length, residualSd, sse };
+}
+
+/**
+ * Fits the model with the parameters that minimise the one-step-ahead error.
+ * Seasonality is only used with at least two full seasons of history.
+ */
+function fitModel(values: number[]): FittedModel {
+    const seasonLength = values.length >= 2 * SEASON_LENGTH ? SEASON_LENGTH : null;
+    let best: ReturnType<typeof runModel> | null = null;
+
+    for (const alpha of ALPHAS) {
+        for (const beta of BETAS) {
+            for (const gamma of seasonLength === null ? [0] : GAMMAS) {
+                const model = runModel(values, seasonLength, alpha, beta, gamma);
+
+                if (best === null || model.sse < best.sse) {
+                    best = model;
+                }
+            }
+        }
+    }
+
+    const { level, trend, seasonal, length, residualSd } = best!;
+
+    return { level, trend, seasonal, length, residualSd };
+}
+
+/**
+ * Projects `h` steps past the end of the fitted series (h >= 1).
+ * Downloads can't be negative, so projections are clamped at zero.
+ */
+function project(model: FittedModel, h: number): Band {
+    const offset = model.seasonal.length > 0 ? model.seasonal[(model.length - 1 + h) % model.seasonal.length] : 0;
+    const downloads = Math.max(0, model.level + h * model.trend + offset);
+    const spread = BAND_Z * model.residualSd * Math.sqrt(h);
+
+    return { downloads, lower: Math.max(0, downloads - spread), upper: downloads + spread };
+}
+
+// =============================================================================
+// Forecast
+// =============================================================================
+
+/** Rounds a band to whole downloads for the response. */
+function roundBand(band: Band): Band {
+    return { downloads: Math.round(band.downloads), lower: Math.round(band.lower), upper: Math.round(band.upper) };
+}
+
+/** Smallest round total above `total`. */
+export function nextMilestone(total: number): number {
+    for (let power = 1000; ; power *= 10) {
+        for (const step of MILESTONE_STEPS) {
+            if (step * power > total) {
+                return step * power;
+            }
+        }
+    }
+}
+
+/**
+ * Fills weeks without a row with zero downloads, from the first week with data
+ * up to (excluding) `endWeek`.
+ */
+function fillWeeks(history: WeeklyTotal[], endWeek: number): number[] {
+    const byWeek = new Map(history.map((row) => [row.week, row.downloads]));
+    const weeks = history.filter((row) => row.week < endWeek).map((row) => row.week);
+
+    if (weeks.length === 0) {
+        return [];
+    }
+
+    const values: number[] = [];
+
+    for (let week = Math.min(...weeks); week < endWeek; week += MS_PER_WEEK) {
+        values.push(byWeek.get(week) ?? 0);
+    }
+
+    return values;
+}
+
+/**
+ * Builds the forecast from weekly totals and the all-time total at `asOf`,
+ * the start of the day of the latest stored snapshot.
+ *
+ * The week containing `asOf` is still incomplete, so the model is fitted on
+ * the weeks before it, and only the days after `asOf` are projected on top of
+ * the current total. Cumulative bands add up the weekly bands, which treats
+ * errors as fully correlated and errs on the wide side.
+ *
+ * Returns null with fewer than MIN_HISTORY_WEEKS complete weeks.
+ */
+export function buildForecast(history: WeeklyTotal[], total: number, asOf: number): Forecast | null {
+    const currentWeek = asOf - ((new Date(asOf).getUTCDay() + 6) % 7) * MS_PER_DAY;
+    const values = fillWeeks(history, currentWeek);
+
+    if (values.length < MIN_HISTORY_WEEKS) {
+        return null;
+    }
+
+    const model = fitModel(values);
+    const weeks = Array.from({ length: MILESTONE_HORIZON_WEEKS }, (_, i) => ({
+        week: currentWeek + i * MS_PER_WEEK,
+        ...project(model, i + 1),
+    }));
+
+    // Days of the current week still to come after the latest snapshot
+    const remainingInFirstWeek = 6 - (asOf - currentWeek) / MS_PER_DAY;
+
+    /** Projected downloads in the first `days` days after asOf */
+    const projectDays = (days: number): Band => {
+        const band: Band = { downloads: 0, lower: 0, upper: 0 };
+        let left = days;
+
+        for (let i = 0; i < weeks.length && left > 0; i++) {
+            const take = Math.min(left, i === 0 ? remainingInFirstWeek : 7);
+
+            band.downloads += (weeks[i].downloads * take) / 7;
+            band.lower += (weeks[i].lower * take) / 7;
+            band.upper += (weeks[i].upper * take) / 7;
+            left -= take;
+        }
+
+        return band;
+    };
+
+    const cumulative: Forecast["cumulative"] = [{ date: asOf, total, lower: total, upper: total }];
+    const milestone = nextMilestone(total);
+    let expectedDate: number | null = null;
+    let running = total;
+
+    for (let i = 0; i < weeks.length; i++) {
+        const days = i === 0 ? remainingInFirstWeek : 7;
+        const added = (weeks[i].downloads * days) / 7;
+        const start = i === 0 ? asOf + MS_PER_DAY : weeks[i].week;
+
+        if (expectedDate === null && added > 0 && running + added >= milestone) {
+            expectedDate = start + Math.ceil(((milestone - running) / added) * days - 1) * MS_PER_DAY;
+        }
+
+        running += added;
+
+        // A snapshot taken on a Sunday already ends the current week
+        if (i < FORECAST_WEEKS && days > 0) {
+            const band = roundBand(projectDays(remainingInFirstWeek + 7 * i));
+
+            cumulative.push({
+                date: weeks[i].week + MS_PER_WEEK - MS_PER_DAY,
+                total: total + band.downloads,
+                lower: total + band.lower,
+                upper: total + band.upper,
+            });
+        }
+    }
+
+    return {
+        model: model.seasonal.length > 0 ? "holt-winters" : "holt",
+        fittedWeeks: values.length,
+        weekly: weeks.slice(0, FORECAST_WEEKS).map(({ week, ...band }) => ({ week, ...roundBand(band) })),
+        cumulative,
+        next30Days: roundBand(projectDays(30)),
+        next90Days: roundBand(projectDays(90)),
+        milestone: { downloads: milestone, expectedDate },
+    };
+}
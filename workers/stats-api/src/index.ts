@@ -7,12 +7,81 @@
  * the D1 database and returns aggregated download statistics with caching.
  *
  * Endpoints:
- *   GET /api/stats - Download statistics from D1 database
+ *   GET /api/stats              - Download statistics from D1 database
+ *   GET /api/stats/export.csv    - Time series table as CSV
+ *   GET /api/stats/export.ndjson - Time series table as newline-delimited JSON
+ *   GET /api/stats/health        - Collector health for uptime monitoring (never cached)
+ *   GET /api/stats/compare       - Release adoption curves aligned on days since publish
+ *   GET /api/stats/repo          - Daily stars, forks, watchers, open issues and traffic of a repository
+ *   GET /api/stats/contributors  - Monthly contributor activity, top and first-time contributors
+ *   GET /api/badge/downloads.svg - Download count badge (all time, or `period` = week | month)
+ *   GET /api/badge/latest.svg    - Latest release badge
  *
- * The response is cached for 24 hours and keyed by the latest known update so
- * clients see a stable view for each stored snapshot version.
+ * GET /api/stats also serves the exports when the Accept header prefers
+ * text/csv or application/x-ndjson over JSON.
+ *
+ * Query parameters (all optional, validated before any database work):
+ *   from, to     - Inclusive YYYY-MM-DD window applied to every time series
+ *   granularity  - Only return one series: daily | weekly | monthly
+ *   repo         - GitHub repository as owner/name (default: the LichtFeld Studio repository)
+ *   tags         - Comma-separated release tags to include
+ *   limit        - Maximum number of releases, ordered by lifetime downloads
+ *   breakdown    - Exports only: total (default) | release
+ *
+ * Exports contain the full stored history unless from/to are given, and use the
+ * daily table unless a granularity is requested.
+ *
+ * GET /api/stats/compare requires `tags` (at most 10), accepts `repo` and
+ * `days` (1-730, default 90) and ignores the other parameters.
+ *
+ * GET /api/stats/repo accepts `repo`, `from` and `to` and returns the last year
+ * of repository metrics up to the latest snapshot unless from/to are given.
+ * Traffic (clones and views) is only stored when the collector's token has
+ * push access to the repository.
+ *
+ * GET /api/stats/contributors accepts `repo`, `from`, `to` (whole months are
+ * covered) and `limit` (top and first-time contributors, default 10) and
+ * returns the twelve months up to the latest activity refresh unless from/to
+ * are given.
+ *
+ * Badges accept `repo` and `tags` (downloads only) plus `label`, `color` (a
+ * shields colour name or hex value) and `style` (flat | flat-square |
+ * for-the-badge). Errors are rendered as badges too, so a broken README image
+ * still says what went wrong.
+ *
+ * GET /api/stats also returns `annotations`: download anomalies recorded by the
+ * collector (counter resets, asset re-uploads, spikes) for the charts to mark.
+ * Without `to`, it includes a `forecast` fitted on the weekly totals (./forecast).
+ *
+ * Responses are cached for 24 hours and keyed by the latest known update and
+ * the normalized query so clients see a stable view for each stored snapshot version.
+ *
+ * Response shapes are defined in shared/stats-schema, which the website uses
+ * too. Every JSON response carries its `apiVersion`.
  */
 
+import { applyMigrations } from "../../../db/migrate";
+import { BADGE_COLORS, BADGE_STYLES, formatCount, renderBadge, resolveBadgeColor } from "./badge";
+import type { Badge, BadgeStyle } from "./badge";
+import { createExportStream, EXPORT_CONTENT_TYPES, exportFilename } from "./export";
+import type { ExportBreakdown, ExportFormat, ExportQuery } from "./export";
+import { getComparison } from "./compare";
+import { addMonths, getContributorActivity, getContributorsInfo, monthOf } from "./contributors";
+import type { ContributorsQuery } from "./contributors";
+import { buildForecast, FORECAST_HISTORY_WEEKS } from "./forecast";
+import type { WeeklyTotal } from "./forecast";
+import type { CompareQuery } from "./compare";
+import { getRepoInfo, getRepoMetrics } from "./repo";
+import type { RepoQuery } from "./repo";
+import { STATS_API_VERSION } from "../../../shared/stats-schema";
+import type {
+    CompareResponse,
+    ContributorsResponse,
+    HealthResponse,
+    RepoStatsResponse,
+    StatsResponse,
+} from "../../../shared/stats-schema";
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -41,35 +110,49 @@ export interface StatsApiEnv {
     DISABLE_CACHE?: string;
 }
 
+/** Time series granularity accepted by the `granularity` query parameter. */
+type Granularity = "daily" | "weekly" | "monthly";
+
 /**
- * Stats API response structure.
+ * Validated GET /api/stats query parameters.
+ * `null` means the parameter was not supplied and the default applies.
  */
-interface StatsResponse {
-    /** Date of the latest stored daily snapshot in YYYY-MM-DD format */
-    asOf: string;
+interface StatsQuery {
+    /** Start of the requested window (start of day UTC) */
+    from: number | null;
+    /** End of the requested window (start of day UTC, inclusive) */
+    to: number | null;
+    granularity: Granularity | null;
+    /** Tracked repository as "owner/name", lower-cased */
+    repo: string | null;
+    /** Sorted, de-duplicated release tags */
+    tags: string[] | null;
+    limit: number | null;
+}
 
-    totals: {
-        /** Sum of lifetime downloads across all releases */
-        allTime: number;
-    };
+type StatsQueryResult = { ok: true; query: StatsQuery } | { ok: false; error: string };
 
-    /** Per-release statistics including time series data */
-    releases: Array<{
-        tag: string;
-        name: string;
-        /** Lifetime download count for this release */
-        downloads: number;
-        /** Unix timestamp when release was published on GitHub */
-        publishedAt: number | null;
-        /** Daily download snapshots (cumulative count) for last 90 days */
-        daily: Array<{ date: number; downloads: number }>;
-        /** Weekly download deltas for last ~6 months (182 days) */
-        weekly: Array<{ week: number; downloads: number }>;
-        /** Monthly download deltas for last ~2 years (730 days) */
-        monthly: Array<{ month: number; downloads: number }>;
-    }>;
+/** Badges served at /api/badge/{kind}.svg */
+type BadgeKind = "downloads" | "latest";
+
+/** Download badge periods; all-time totals when not given */
+type BadgePeriod = "week" | "month";
+
+/** Validated badge query parameters, on top of the shared `repo` and `tags`. */
+interface BadgeOptions {
+    period: BadgePeriod | null;
+    style: BadgeStyle;
+    /** Label override; an empty label renders the message alone */
+    label: string | null;
+    /** Resolved colour override */
+    color: string | null;
 }
 
+type BadgeOptionsResult = { ok: true; options: BadgeOptions } | { ok: false; error: string };
+
+/** Inclusive timestamp range for one time series, or null when it was not requested. */
+type SeriesWindow = { start: number; end: number } | null;
+
 // =============================================================================
 // Constants
 // =============================================================================
@@ -88,6 +171,70 @@ const MONTHLY_HISTORY_DAYS = 730;
 /** Cache TTL in seconds (24 hours) */
 const CACHE_TTL_SECONDS = 86400;
 
+/** Health reports "stale" when no collection succeeded for this long (cron runs hourly) */
+const HEALTH_MAX_STALENESS_MS = 3 * 60 * 60 * 1000;
+
+/** Health reports "failing" after this many failed runs in a row */
+const HEALTH_MAX_CONSECUTIVE_FAILURES = 3;
+
+const GRANULARITIES: readonly Granularity[] = ["daily", "weekly", "monthly"];
+
+/** Keeps tag filters within D1's bound parameter limit */
+const MAX_TAGS = 50;
+
+/** Upper bound for the `limit` query parameter */
+const MAX_LIMIT = 100;
+
+/** Comparisons beyond a handful of releases are unreadable as a chart */
+const MAX_COMPARE_TAGS = 10;
+
+/** Default and maximum `days` for GET /api/stats/compare */
+const DEFAULT_COMPARE_DAYS = 90;
+const MAX_COMPARE_DAYS = MONTHLY_HISTORY_DAYS;
+
+/** Default window of GET /api/stats/repo, ending at the latest snapshot */
+const REPO_HISTORY_DAYS = 365;
+
+/** Default window of GET /api/stats/contributors, ending at the latest refresh's month */
+const CONTRIBUTOR_HISTORY_MONTHS = 12;
+
+/** Default number of top and first-time contributors */
+const DEFAULT_CONTRIBUTORS_LIMIT = 10;
+
+const TAG_PATTERN = /^[A-Za-z0-9._+-]{1,64}$/;
+
+/** GitHub owner/name, e.g. "MrNeRF/LichtFeld-Studio" */
+const REPO_PATTERN = /^[A-Za-z0-9-]{1,39}\/[A-Za-z0-9._-]{1,100}$/;
+
+/** The LichtFeld Studio repository, served when no `repo` is given */
+const PRIMARY_REPOSITORY_ID = 1;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const BADGE_PATH_PATTERN = /^\/api\/badge\/([a-z-]+)\.svg$/;
+
+const BADGE_KINDS: readonly BadgeKind[] = ["downloads", "latest"];
+
+const BADGE_PERIODS: readonly BadgePeriod[] = ["week", "month"];
+
+const MAX_BADGE_LABEL_LENGTH = 40;
+
+/**
+ * Browser/proxy lifetime of badges. Shorter than the API's so README images
+ * (served through GitHub's image proxy) catch up within an hour of a collection.
+ */
+const BADGE_MAX_AGE_SECONDS = 3600;
+
+const EXPORT_BREAKDOWNS: readonly ExportBreakdown[] = ["total", "release"];
+
+/** Media types accepted via content negotiation on GET /api/stats */
+const NEGOTIATED_FORMATS: Array<[string, ExportFormat | "json"]> = [
+    ["application/json", "json"],
+    ["text/csv", "csv"],
+    ["application/x-ndjson", "ndjson"],
+    ["application/ndjson", "ndjson"],
+];
+
 // =============================================================================
 // Date Utilities
 // =============================================================================
@@ -113,6 +260,46 @@ function formatDate(ts: number): string {
     return new Date(ts).toISOString().split("T")[0];
 }
 
+/**
+ * Returns Unix timestamp for Monday of the week containing the given timestamp.
+ */
+function weekTimestamp(ts: number): number {
+    const date = new Date(ts);
+    const day = date.getUTCDay();
+    const diff = day === 0 ? 6 : day - 1;
+
+    date.setUTCDate(date.getUTCDate() - diff);
+    date.setUTCHours(0, 0, 0, 0);
+
+    return date.getTime();
+}
+
+/**
+ * Returns Unix timestamp for 1st of the month containing the given timestamp.
+ */
+function monthTimestamp(ts: number): number {
+    const date = new Date(ts);
+
+    date.setUTCDate(1);
+    date.setUTCHours(0, 0, 0, 0);
+
+    return date.getTime();
+}
+
+/**
+ * Parses a strict YYYY-MM-DD date into a UTC timestamp.
+ * Returns null for malformed or impossible dates such as 2024-02-31.
+ */
+function parseDate(value: string): number | null {
+    if (!DATE_PATTERN.test(value)) {
+        return null;
+    }
+
+    const ts = Date.parse(`${value}T00:00:00Z`);
+
+    return Number.isNaN(ts) || formatDate(ts) !== value ? null : ts;
+}
+
 /**
  * Creates an error response with JSON body.
  */
@@ -120,26 +307,329 @@ function errorResponse(message: string, status = 500): Response {
     return Response.json({ error: message }, { status });
 }
 
+// =============================================================================
+// Query Parameters
+// =============================================================================
+
+/**
+ * Validates GET /api/stats query parameters.
+ * Unknown parameters are ignored so cache-busting suffixes don't fail requests.
+ */
+function parseStatsQuery(params: URLSearchParams): StatsQueryResult {
+    const query: StatsQuery = { from: null, to: null, granularity: null, repo: null, tags: null, limit: null };
+
+    for (const key of ["from", "to"] as const) {
+        const value = params.get(key);
+
+        if (value === null) {
+            continue;
+        }
+
+        const ts = parseDate(value);
+
+        if (ts === null) {
+            return { ok: false, error: `Invalid '${key}' date, expected YYYY-MM-DD` };
+        }
+
+        query[key] = ts;
+    }
+
+    if (query.from !== null && query.to !== null && query.from > query.to) {
+        return { ok: false, error: "'from' must not be after 'to'" };
+    }
+
+    const granularity = params.get("granularity");
+
+    if (granularity !== null) {
+        if (!GRANULARITIES.includes(granularity as Granularity)) {
+            return { ok: false, error: `Invalid 'granularity', expected one of: ${GRANULARITIES.join(", ")}` };
+        }
+
+        query.granularity = granularity as Granularity;
+    }
+
+    const repo = params.get("repo");
+
+    if (repo !== null) {
+        if (!REPO_PATTERN.test(repo)) {
+            return { ok: false, error: "Invalid 'repo', expected owner/name" };
+        }
+
+        // GitHub names are case-insensitive
+        query.repo = repo.toLowerCase();
+    }
+
+    const tags = params.get("tags");
+
+    if (tags !== null) {
+        const parsed = [...new Set(tags.split(",").map((tag) => tag.trim()).filter(Boolean))].sort();
+
+        if (parsed.length === 0) {
+            return { ok: false, error: "'tags' must list at least one release tag" };
+        }
+
+        if (parsed.length > MAX_TAGS) {
+            return { ok: false, error: `'tags' accepts at most ${MAX_TAGS} release tags` };
+        }
+
+        const invalid = parsed.find((tag) => !TAG_PATTERN.test(tag));
+
+        if (invalid) {
+            return { ok: false, error: `Invalid release tag '${invalid}'` };
+        }
+
+        query.tags = parsed;
+    }
+
+    const limit = params.get("limit");
+
+    if (limit !== null) {
+        const parsed = /^\d+$/.test(limit) ? Number(limit) : NaN;
+
+        if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_LIMIT) {
+            return { ok: false, error: `Invalid 'limit', expected an integer between 1 and ${MAX_LIMIT}` };
+        }
+
+        query.limit = parsed;
+    }
+
+    return { ok: true, query };
+}
+
+/**
+ * Validates the export-only `breakdown` parameter.
+ */
+function parseExportBreakdown(params: URLSearchParams): ExportBreakdown | null {
+    const breakdown = params.get("breakdown") ?? "total";
+
+    return EXPORT_BREAKDOWNS.includes(breakdown as ExportBreakdown) ? (breakdown as ExportBreakdown) : null;
+}
+
+/**
+ * Validates the compare-only `days` parameter.
+ */
+function parseCompareDays(params: URLSearchParams): number | null {
+    const days = params.get("days");
+
+    if (days === null) {
+        return DEFAULT_COMPARE_DAYS;
+    }
+
+    const parsed = /^\d+$/.test(days) ? Number(days) : NaN;
+
+    return Number.isInteger(parsed) && parsed >= 1 && parsed <= MAX_COMPARE_DAYS ? parsed : null;
+}
+
+/**
+ * Validates the badge-only `period`, `style`, `label` and `color` parameters.
+ */
+function parseBadgeOptions(params: URLSearchParams): BadgeOptionsResult {
+    const period = params.get("period");
+
+    if (period !== null && !BADGE_PERIODS.includes(period as BadgePeriod)) {
+        return { ok: false, error: `Invalid 'period', expected one of: ${BADGE_PERIODS.join(", ")}` };
+    }
+
+    const style = params.get("style") ?? "flat";
+
+    if (!BADGE_STYLES.includes(style as BadgeStyle)) {
+        return { ok: false, error: `Invalid 'style', expected one of: ${BADGE_STYLES.join(", ")}` };
+    }
+
+    const label = params.get("label");
+
+    if (label !== null && label.length > MAX_BADGE_LABEL_LENGTH) {
+        return { ok: false, error: `'label' accepts at most ${MAX_BADGE_LABEL_LENGTH} characters` };
+    }
+
+    const colorParam = params.get("color");
+    const color = colorParam !== null ? resolveBadgeColor(colorParam) : null;
+
+    if (colorParam !== null && color === null) {
+        return { ok: false, error: "Invalid 'color', expected a color name or hex value" };
+    }
+
+    return {
+        ok: true,
+        options: { period: period as BadgePeriod | null, style: style as BadgeStyle, label, color },
+    };
+}
+
+/**
+ * Picks the response format from an Accept header.
+ * Falls back to JSON when the header is missing, a wildcard wins, or nothing matches.
+ */
+function negotiateFormat(accept: string | null): ExportFormat | "json" {
+    if (!accept) {
+        return "json";
+    }
+
+    let best: { format: ExportFormat | "json"; quality: number } = { format: "json", quality: 0 };
+
+    for (const part of accept.split(",")) {
+        const [mediaType, ...params] = part.split(";").map((value) => value.trim().toLowerCase());
+        const qualityParam = params.find((param) => param.startsWith("q="));
+        const quality = qualityParam ? Number(qualityParam.slice(2)) : 1;
+        const match = NEGOTIATED_FORMATS.find(([type]) => type === mediaType);
+        const format = match ? match[1] : mediaType === "*/*" || mediaType === "application/*" ? "json" : null;
+
+        if (format !== null && Number.isFinite(quality) && quality > best.quality) {
+            best = { format, quality };
+        }
+    }
+
+    return best.format;
+}
+
+/**
+ * Serializes a validated query in a fixed order so equivalent requests
+ * (e.g. reordered parameters or tags) share one cache entry.
+ */
+function normalizeStatsQuery(query: StatsQuery): string {
+    const params = new URLSearchParams();
+
+    if (query.from !== null) params.set("from", formatDate(query.from));
+    if (query.to !== null) params.set("to", formatDate(query.to));
+    if (query.granularity !== null) params.set("granularity", query.granularity);
+    if (query.repo !== null) params.set("repo", query.repo);
+    if (query.tags !== null) params.set("tags", query.tags.join(","));
+    if (query.limit !== null) params.set("limit", String(query.limit));
+
+    return params.toString();
+}
+
+/**
+ * Resolves the date window for one time series.
+ *
+ * Without `from`, each series keeps its default history length counted back
+ * from `to` (or today). An explicit `from` is aligned to the containing week
+ * or month so the first bucket is not dropped.
+ */
+function resolveSeriesWindow(query: StatsQuery, granularity: Granularity, historyDays: number): SeriesWindow {
+    if (query.granularity !== null && query.granularity !== granularity) {
+        return null;
+    }
+
+    const end = query.to ?? todayTimestamp();
+
+    if (query.from === null) {
+        return { start: end - (historyDays - 1) * MS_PER_DAY, end };
+    }
+
+    const align = granularity === "weekly" ? weekTimestamp : granularity === "monthly" ? monthTimestamp : (ts: number) => ts;
+
+    return { start: align(query.from), end };
+}
+
+/**
+ * Builds an SQL condition restricting rows to the repository's releases,
+ * narrowed to the requested release tags when given.
+ */
+function releaseTagFilter(
+    query: StatsQuery,
+    repositoryId: number,
+    column: string,
+): { sql: string; binds: Array<string | number> } {
+    if (query.tags === null) {
+        return {
+            sql: ` AND ${column} IN (SELECT id FROM releases WHERE repository_id = ?)`,
+            binds: [repositoryId],
+        };
+    }
+
+    const placeholders = query.tags.map(() => "?").join(", ");
+
+    return {
+        sql: ` AND ${column} IN (SELECT id FROM releases WHERE repository_id = ? AND tag IN (${placeholders}))`,
+        binds: [repositoryId, ...query.tags],
+    };
+}
+
+/**
+ * Runs a time series query bound to a window, skipping it when the series
+ * was not requested.
+ */
+async function querySeries<T>(
+    db: D1Database,
+    sql: string,
+    window: SeriesWindow,
+    binds: Array<string | number>,
+): Promise<T[]> {
+    if (window === null) {
+        return [];
+    }
+
+    const result = await db
+        .prepare(sql)
+        .bind(window.start, window.end, ...binds)
+        .all<T>();
+
+    return result.results;
+}
+
 // =============================================================================
 // Cache Utilities
 // =============================================================================
 
 /**
  * Generates a cache key URL based on the latest known data update.
- * This keeps cached responses aligned with the underlying snapshot version.
+ * This keeps cached responses aligned with the underlying snapshot version,
+ * with one entry per normalized query variant and response format. The API
+ * version is part of the key so a breaking change never serves old shapes.
  */
-function getCacheKey(request: Request, versionTimestamp: number): Request {
+function getCacheKey(request: Request, versionTimestamp: number, query: StatsQuery, variant = ""): Request {
     const url = new URL(request.url);
 
     // Create a deterministic cache key URL
-    url.pathname = `/api/stats/${versionTimestamp}`;
-    url.search = "";
+    url.pathname = `/api/stats/v${STATS_API_VERSION}/${versionTimestamp}${variant}`;
+    url.search = normalizeStatsQuery(query);
 
     return new Request(url.toString(), {
         method: "GET",
     });
 }
 
+/**
+ * Serves a response from the edge cache, building and storing it on a miss.
+ * Sets the X-Cache header so clients can tell hits from misses.
+ */
+async function serveCached(env: StatsApiEnv, cacheKey: Request, build: () => Promise<Response>): Promise<Response> {
+    // Skip cache entirely if disabled (e.g., in test environment)
+    const cacheDisabled = env.DISABLE_CACHE === "true";
+    let cache: Cache | undefined;
+
+    // Try to use the cache if available and not disabled
+    if (!cacheDisabled) {
+        try {
+            cache = caches.default;
+            const cachedResponse = await cache.match(cacheKey);
+
+            if (cachedResponse) {
+                // Return cached response with cache hit header
+                const response = new Response(cachedResponse.body, cachedResponse);
+
+                response.headers.set("X-Cache", "HIT");
+
+                return response;
+            }
+        } catch {
+            // Cache not available, continue without it
+            cache = undefined;
+        }
+    }
+
+    const response = await build();
+
+    response.headers.set("X-Cache", "MISS");
+
+    // Store in cache if available (don't await - fire and forget)
+    if (cache) {
+        cache.put(cacheKey, response.clone());
+    }
+
+    return response;
+}
+
 interface StatsFreshness {
     /** Latest stored daily snapshot date, used for the user-visible as-of label */
     asOf: number;
@@ -147,21 +637,61 @@ interface StatsFreshness {
     cacheVersion: number;
 }
 
+/** Pending migrations, applied at most once per isolate */
+let schemaReady: Promise<void> | null = null;
+
 /**
- * Computes freshness metadata for stats responses.
+ * Applies pending schema migrations before the first query in this isolate,
+ * so a fresh deployment serves empty statistics instead of failing until the
+ * collector has run. A failed attempt is retried on the next request.
+ */
+function ensureSchema(db: D1Database): Promise<void> {
+    schemaReady ??= applyMigrations(db).then(
+        () => undefined,
+        (error) => {
+            schemaReady = null;
+            throw error;
+        },
+    );
+
+    return schemaReady;
+}
+
+/**
+ * Looks up a tracked repository by its lower-cased "owner/name".
+ * Returns the primary repository when none was requested, or null when unknown.
+ */
+async function resolveRepositoryId(db: D1Database, repo: string | null): Promise<number | null> {
+    if (repo === null) {
+        return PRIMARY_REPOSITORY_ID;
+    }
+
+    const [owner, name] = repo.split("/");
+    const row = await db
+        .prepare("SELECT id FROM repositories WHERE owner = ? AND name = ?")
+        .bind(owner, name)
+        .first<{ id: number }>();
+
+    return row?.id ?? null;
+}
+
+/**
+ * Computes freshness metadata for one repository's stats responses.
  *
  * `asOf` tracks the newest stored daily snapshot so charts and labels stay
  * honest when collection falls behind. `cacheVersion` uses `last_updated`
  * when available so cached responses roll forward after a successful collect.
  */
-async function getStatsFreshness(db: D1Database): Promise<StatsFreshness> {
+async function getStatsFreshness(db: D1Database, repositoryId: number): Promise<StatsFreshness> {
     const today = todayTimestamp();
     const freshness = await db
         .prepare(`
             SELECT
-                (SELECT MAX(date) FROM downloads_daily) AS latest_daily,
-                (SELECT MAX(last_updated) FROM releases) AS latest_update
+                (SELECT MAX(date) FROM downloads_daily
+                    WHERE release_id IN (SELECT id FROM releases WHERE repository_id = ?1)) AS latest_daily,
+                (SELECT MAX(last_updated) FROM releases WHERE repository_id = ?1) AS latest_update
         `)
+        .bind(repositoryId)
         .first<{ latest_daily: number | null; latest_update: number | null }>();
 
     const latestDaily = freshness?.latest_daily ?? null;
@@ -179,11 +709,15 @@ async function getStatsFreshness(db: D1Database): Promise<StatsFreshness> {
 
 /**
  * Fetches total download counts from the database.
+ * Totals follow the `tags` filter but not `limit`, which only trims the list.
  */
-async function getTotals(db: D1Database): Promise<StatsResponse["totals"]> {
+async function getTotals(db: D1Database, query: StatsQuery, repositoryId: number): Promise<StatsResponse["totals"]> {
+    const filter = releaseTagFilter(query, repositoryId, "id");
+
     // All-time total from releases table (lifetime stats)
     const allTimeResult = await db
-        .prepare(`SELECT COALESCE(SUM(total_downloads), 0) as total FROM releases LIMIT 1`)
+        .prepare(`SELECT COALESCE(SUM(total_downloads), 0) as total FROM releases WHERE 1 = 1${filter.sql} LIMIT 1`)
+        .bind(...filter.binds)
         .first<{ total: number }>();
 
     return {
@@ -194,71 +728,94 @@ async function getTotals(db: D1Database): Promise<StatsResponse["totals"]> {
 /**
  * Fetches per-release statistics with time series data.
  */
-async function getReleases(db: D1Database): Promise<StatsResponse["releases"]> {
-    const today = todayTimestamp();
-
+async function getReleases(db: D1Database, query: StatsQuery, repositoryId: number): Promise<StatsResponse["releases"]> {
     // Each time series has its own history range
-    const dailyStart = daysBeforeToday(DAILY_HISTORY_DAYS - 1);
-    const weeklyStart = daysBeforeToday(WEEKLY_HISTORY_DAYS - 1);
-    const monthlyStart = daysBeforeToday(MONTHLY_HISTORY_DAYS - 1);
+    const dailyWindow = resolveSeriesWindow(query, "daily", DAILY_HISTORY_DAYS);
+    const weeklyWindow = resolveSeriesWindow(query, "weekly", WEEKLY_HISTORY_DAYS);
+    const monthlyWindow = resolveSeriesWindow(query, "monthly", MONTHLY_HISTORY_DAYS);
+    const filter = releaseTagFilter(query, repositoryId, "release_id");
+    const releaseFilter = releaseTagFilter(query, repositoryId, "id");
 
     // Get releases ordered by lifetime downloads
     const releasesResult = await db
         .prepare(`
             SELECT id, tag, name, COALESCE(total_downloads, 0) as downloads, published_at
             FROM releases
+            WHERE 1 = 1${releaseFilter.sql}
             ORDER BY downloads DESC
+            ${query.limit !== null ? `LIMIT ${query.limit}` : ""}
         `)
+        .bind(...releaseFilter.binds)
         .all<{ id: number; tag: string; name: string; downloads: number; published_at: number | null }>();
 
+    if (releasesResult.results.length === 0) {
+        return [];
+    }
+
     // Fetch all time series data in bulk queries for efficiency
     // Each query uses its own history range for optimal data coverage
-    const [dailyResult, weeklyResult, monthlyResult] = await Promise.all([
+    const [dailyRows, weeklyRows, monthlyRows] = await Promise.all([
         // Daily snapshots per release (90 days)
-        db.prepare(`
-            SELECT release_id, date, count as downloads
+        querySeries<{ release_id: number; date: number; downloads: number; estimated: number }>(
+            db,
+            `
+            SELECT release_id, date, count as downloads, estimated
             FROM downloads_daily
-            WHERE date >= ? AND date <= ?
+            WHERE date >= ? AND date <= ?${filter.sql}
             ORDER BY date ASC
-        `)
-            .bind(dailyStart, today)
-            .all<{ release_id: number; date: number; downloads: number }>(),
+        `,
+            dailyWindow,
+            filter.binds,
+        ),
 
         // Weekly aggregates per release (~6 months)
-        db.prepare(`
+        querySeries<{ release_id: number; week: number; downloads: number }>(
+            db,
+            `
             SELECT release_id, week, count as downloads
             FROM downloads_weekly
-            WHERE week >= ? AND week <= ?
+            WHERE week >= ? AND week <= ?${filter.sql}
             ORDER BY week ASC
-        `)
-            .bind(weeklyStart, today)
-            .all<{ release_id: number; week: number; downloads: number }>(),
+        `,
+            weeklyWindow,
+            filter.binds,
+        ),
 
         // Monthly aggregates per release (~2 years)
-        db.prepare(`
+        querySeries<{ release_id: number; month: number; downloads: number }>(
+            db,
+            `
             SELECT release_id, month, count as downloads
             FROM downloads_monthly
-            WHERE month >= ? AND month <= ?
+            WHERE month >= ? AND month <= ?${filter.sql}
             ORDER BY month ASC
-        `)
-            .bind(monthlyStart, today)
-            .all<{ release_id: number; month: number; downloads: number }>(),
+        `,
+            monthlyWindow,
+            filter.binds,
+        ),
     ]);
 
     // Group time series data by release_id for efficient lookup
-    const dailyByRelease = new Map<number, Array<{ date: number; downloads: number }>>();
+    const dailyByRelease = new Map<number, StatsResponse["releases"][number]["daily"]>();
     const weeklyByRelease = new Map<number, Array<{ week: number; downloads: number }>>();
     const monthlyByRelease = new Map<number, Array<{ month: number; downloads: number }>>();
 
-    for (const row of dailyResult.results) {
+    for (const row of dailyRows) {
         if (!dailyByRelease.has(row.release_id)) {
             dailyByRelease.set(row.release_id, []);
         }
 
-        dailyByRelease.get(row.release_id)!.push({ date: row.date, downloads: row.downloads });
+        // Only flag estimated snapshots to keep the payload small
+        dailyByRelease
+            .get(row.release_id)!
+            .push(
+                row.estimated
+                    ? { date: row.date, downloads: row.downloads, estimated: true }
+                    : { date: row.date, downloads: row.downloads },
+            );
     }
 
-    for (const row of weeklyResult.results) {
+    for (const row of weeklyRows) {
         if (!weeklyByRelease.has(row.release_id)) {
             weeklyByRelease.set(row.release_id, []);
         }
@@ -266,7 +823,7 @@ async function getReleases(db: D1Database): Promise<StatsResponse["releases"]> {
         weeklyByRelease.get(row.release_id)!.push({ week: row.week, downloads: row.downloads });
     }
 
-    for (const row of monthlyResult.results) {
+    for (const row of monthlyRows) {
         if (!monthlyByRelease.has(row.release_id)) {
             monthlyByRelease.set(row.release_id, []);
         }
@@ -286,79 +843,776 @@ async function getReleases(db: D1Database): Promise<StatsResponse["releases"]> {
     }));
 }
 
+/**
+ * Fetches per-platform statistics with time series data summed across releases.
+ * Platforms follow the `tags` filter and the requested windows.
+ */
+async function getPlatforms(db: D1Database, query: StatsQuery, repositoryId: number): Promise<StatsResponse["platforms"]> {
+    const dailyWindow = resolveSeriesWindow(query, "daily", DAILY_HISTORY_DAYS);
+    const weeklyWindow = resolveSeriesWindow(query, "weekly", WEEKLY_HISTORY_DAYS);
+    const monthlyWindow = resolveSeriesWindow(query, "monthly", MONTHLY_HISTORY_DAYS);
+    const filter = releaseTagFilter(query, repositoryId, "release_id");
+
+    const [platformsResult, totalsResult, dailyRows, weeklyRows, monthlyRows] = await Promise.all([
+        // One classification row per platform key
+        db.prepare(`
+            SELECT platform, MAX(os) as os, MAX(arch) as arch, MAX(cuda_version) as cuda, MAX(variant) as variant
+            FROM release_assets
+            WHERE platform IS NOT NULL${filter.sql}
+            GROUP BY platform
+        `)
+            .bind(...filter.binds)
+            .all<{ platform: string; os: string; arch: string; cuda: string | null; variant: string }>(),
+
+        // Lifetime totals: latest cumulative snapshot per release, summed per platform
+        db.prepare(`
+            SELECT p.platform, SUM(p.count) as downloads
+            FROM platform_downloads_daily p
+            INNER JOIN (
+                SELECT release_id, platform, MAX(date) as max_date
+                FROM platform_downloads_daily
+                WHERE 1 = 1${filter.sql}
+                GROUP BY release_id, platform
+            ) latest ON p.release_id = latest.release_id AND p.platform = latest.platform AND p.date = latest.max_date
+            GROUP BY p.platform
+        `)
+            .bind(...filter.binds)
+            .all<{ platform: string; downloads: number }>(),
+
+        querySeries<{ platform: string; date: number; downloads: number }>(
+            db,
+            `
+            SELECT platform, date, SUM(count) as downloads
+            FROM platform_downloads_daily
+            WHERE date >= ? AND date <= ?${filter.sql}
+            GROUP BY platform, date
+            ORDER BY date ASC
+        `,
+            dailyWindow,
+            filter.binds,
+        ),
+
+        querySeries<{ platform: string; week: number; downloads: number }>(
+            db,
+            `
+            SELECT platform, week, SUM(count) as downloads
+            FROM platform_downloads_weekly
+            WHERE week >= ? AND week <= ?${filter.sql}
+            GROUP BY platform, week
+            ORDER BY week ASC
+        `,
+            weeklyWindow,
+            filter.binds,
+        ),
+
+        querySeries<{ platform: string; month: number; downloads: number }>(
+            db,
+            `
+            SELECT platform, month, SUM(count) as downloads
+            FROM platform_downloads_monthly
+            WHERE month >= ? AND month <= ?${filter.sql}
+            GROUP BY platform, month
+            ORDER BY month ASC
+        `,
+            monthlyWindow,
+            filter.binds,
+        ),
+    ]);
+
+    const totalsByPlatform = new Map<string, number>();
+
+    for (const row of totalsResult.results) {
+        totalsByPlatform.set(row.platform, row.downloads);
+    }
+
+    const dailyByPlatform = new Map<string, Array<{ date: number; downloads: number }>>();
+    const weeklyByPlatform = new Map<string, Array<{ week: number; downloads: number }>>();
+    const monthlyByPlatform = new Map<string, Array<{ month: number; downloads: number }>>();
+
+    for (const row of dailyRows) {
+        if (!dailyByPlatform.has(row.platform)) {
+            dailyByPlatform.set(row.platform, []);
+        }
+
+        dailyByPlatform.get(row.platform)!.push({ date: row.date, downloads: row.downloads });
+    }
+
+    for (const row of weeklyRows) {
+        if (!weeklyByPlatform.has(row.platform)) {
+            weeklyByPlatform.set(row.platform, []);
+        }
+
+        weeklyByPlatform.get(row.platform)!.push({ week: row.week, downloads: row.downloads });
+    }
+
+    for (const row of monthlyRows) {
+        if (!monthlyByPlatform.has(row.platform)) {
+            monthlyByPlatform.set(row.platform, []);
+        }
+
+        monthlyByPlatform.get(row.platform)!.push({ month: row.month, downloads: row.downloads });
+    }
+
+    return platformsResult.results
+        .map((platform) => ({
+            platform: platform.platform,
+            os: platform.os,
+            arch: platform.arch,
+            cuda: platform.cuda,
+            variant: platform.variant,
+            downloads: totalsByPlatform.get(platform.platform) ?? 0,
+            daily: dailyByPlatform.get(platform.platform) ?? [],
+            weekly: weeklyByPlatform.get(platform.platform) ?? [],
+            monthly: monthlyByPlatform.get(platform.platform) ?? [],
+        }))
+        .sort((a, b) => b.downloads - a.downloads);
+}
+
+/**
+ * Fetches collector anomalies for the releases in scope.
+ * Follows the `tags` filter and the from/to window (default: the monthly history),
+ * but not `limit`, so markers stay put when fewer releases are charted.
+ */
+async function getAnnotations(
+    db: D1Database,
+    query: StatsQuery,
+    repositoryId: number,
+): Promise<StatsResponse["annotations"]> {
+    const end = query.to ?? todayTimestamp();
+    const start = query.from ?? end - (MONTHLY_HISTORY_DAYS - 1) * MS_PER_DAY;
+    const filter = releaseTagFilter(query, repositoryId, "a.release_id");
+
+    const result = await db.prepare(`
+        SELECT a.date, r.tag, a.kind, a.delta, a.detail
+        FROM anomalies a
+        JOIN releases r ON r.id = a.release_id
+        WHERE a.date >= ? AND a.date <= ?${filter.sql}
+        ORDER BY a.date ASC, a.id ASC
+    `).bind(start, end, ...filter.binds).all<{
+        date: number;
+        tag: string;
+        kind: StatsResponse["annotations"][number]["kind"];
+        delta: number;
+        detail: string;
+    }>();
+
+    return result.results.map((row) => ({
+        date: row.date,
+        tag: row.tag,
+        kind: row.kind,
+        delta: row.delta,
+        message: row.detail,
+    }));
+}
+
+/**
+ * Fetches weekly download totals for the forecast: the complete weeks before
+ * the one containing `asOf`, summed over the releases in scope.
+ * Follows the `tags` filter but not `limit`, like the totals.
+ */
+async function getWeeklyTotals(
+    db: D1Database,
+    query: StatsQuery,
+    repositoryId: number,
+    asOf: number,
+): Promise<WeeklyTotal[]> {
+    const currentWeek = weekTimestamp(asOf);
+    const filter = releaseTagFilter(query, repositoryId, "release_id");
+
+    const result = await db.prepare(`
+        SELECT week, SUM(count) as downloads
+        FROM downloads_weekly
+        WHERE week >= ? AND week < ?${filter.sql}
+        GROUP BY week
+        ORDER BY week ASC
+    `).bind(currentWeek - FORECAST_HISTORY_WEEKS * 7 * MS_PER_DAY, currentWeek, ...filter.binds).all<WeeklyTotal>();
+
+    return result.results;
+}
+
+/**
+ * Builds a badge from the stored statistics.
+ *
+ * Download badges show the all-time total of the releases in scope, or their
+ * downloads in the week or month containing `asOf`. A single requested tag is
+ * named in the label. The latest badge shows the newest published release,
+ * ignoring the rolling nightly build.
+ */
+async function getBadge(
+    db: D1Database,
+    kind: BadgeKind,
+    query: StatsQuery,
+    repositoryId: number,
+    options: BadgeOptions,
+    asOf: number,
+): Promise<Badge> {
+    let label: string;
+    let message: string;
+    let color: string;
+
+    if (kind === "latest") {
+        const latest = await db
+            .prepare(`
+                SELECT tag FROM releases
+                WHERE repository_id = ? AND tag <> 'nightly'
+                ORDER BY published_at IS NULL, published_at DESC, first_seen DESC
+                LIMIT 1
+            `)
+            .bind(repositoryId)
+            .first<{ tag: string }>();
+
+        label = "latest";
+        message = latest?.tag ?? "none";
+        color = BADGE_COLORS.blue;
+    } else if (options.period === null) {
+        label = "downloads";
+        message = formatCount((await getTotals(db, query, repositoryId)).allTime);
+        color = BADGE_COLORS.brightgreen;
+    } else {
+        const filter = releaseTagFilter(query, repositoryId, "release_id");
+        const [table, column, start] = options.period === "week"
+            ? ["downloads_weekly", "week", weekTimestamp(asOf)]
+            : ["downloads_monthly", "month", monthTimestamp(asOf)];
+
+        const result = await db
+            .prepare(`SELECT COALESCE(SUM(count), 0) as downloads FROM ${table} WHERE ${column} = ?${filter.sql}`)
+            .bind(start, ...filter.binds)
+            .first<{ downloads: number }>();
+
+        label = `this ${options.period}`;
+        message = formatCount(result?.downloads ?? 0);
+        color = BADGE_COLORS.brightgreen;
+    }
+
+    if (kind === "downloads" && query.tags?.length === 1) {
+        label = `${label}@${query.tags[0]}`;
+    }
+
+    return {
+        label: options.label ?? label,
+        message,
+        color: options.color ?? color,
+        style: options.style,
+    };
+}
+
 // =============================================================================
 // Request Handlers
 // =============================================================================
 
 /**
  * Handles GET /api/stats requests.
- * Returns download statistics with 24-hour caching.
+ * Returns download statistics with 24-hour caching, or an export when the
+ * Accept header asks for CSV or NDJSON.
  */
 async function handleStats(request: Request, env: StatsApiEnv): Promise<Response> {
+    const format = negotiateFormat(request.headers.get("Accept"));
+
+    if (format !== "json") {
+        return handleExport(request, env, format);
+    }
+
     if (!env.STATS_DB) {
         return errorResponse("Database not configured", 503);
     }
 
+    const parsed = parseStatsQuery(new URL(request.url).searchParams);
+
+    if (!parsed.ok) {
+        return errorResponse(parsed.error, 400);
+    }
+
+    const { query } = parsed;
+
     try {
-        const freshness = await getStatsFreshness(env.STATS_DB);
-
-        // Skip cache entirely if disabled (e.g., in test environment)
-        const cacheDisabled = env.DISABLE_CACHE === "true";
-        let cache: Cache | undefined;
-        let cacheKey: Request | undefined;
-
-        // Try to use the cache if available and not disabled
-        if (!cacheDisabled) {
-            try {
-                cache = caches.default;
-                cacheKey = getCacheKey(request, freshness.cacheVersion);
-                const cachedResponse = await cache.match(cacheKey);
-
-                if (cachedResponse) {
-                    // Return cached response with cache hit header
-                    const response = new Response(cachedResponse.body, cachedResponse);
-
-                    response.headers.set("X-Cache", "HIT");
-
-                    return response;
-                }
-            } catch {
-                // Cache not available, continue without it
-                cache = undefined;
-            }
+        await ensureSchema(env.STATS_DB);
+
+        const repositoryId = await resolveRepositoryId(env.STATS_DB, query.repo);
+
+        if (repositoryId === null) {
+            return errorResponse(`Unknown repository '${query.repo}'`, 404);
         }
 
-        // Compute fresh response from database
-        const [totals, releases] = await Promise.all([
-            getTotals(env.STATS_DB),
-            getReleases(env.STATS_DB),
+        const freshness = await getStatsFreshness(env.STATS_DB, repositoryId);
+        const cacheKey = getCacheKey(request, freshness.cacheVersion, query);
+
+        return await serveCached(env, cacheKey, async () => {
+            // Compute fresh response from database
+            const [totals, releases, platforms, annotations, weeklyTotals] = await Promise.all([
+                getTotals(env.STATS_DB, query, repositoryId),
+                getReleases(env.STATS_DB, query, repositoryId),
+                getPlatforms(env.STATS_DB, query, repositoryId),
+                getAnnotations(env.STATS_DB, query, repositoryId),
+                query.to === null ? getWeeklyTotals(env.STATS_DB, query, repositoryId, freshness.asOf) : [],
+            ]);
+
+            const statsResponse: StatsResponse = {
+                apiVersion: STATS_API_VERSION,
+                asOf: formatDate(freshness.asOf),
+                totals,
+                releases,
+                platforms,
+                annotations,
+                forecast: query.to === null ? buildForecast(weeklyTotals, totals.allTime, freshness.asOf) : null,
+            };
+
+            return new Response(JSON.stringify(statsResponse), {
+                headers: {
+                    "Content-Type": "application/json",
+                    "Cache-Control": `public, max-age=${CACHE_TTL_SECONDS}`,
+                    "Access-Control-Allow-Origin": "*",
+                    Vary: "Accept",
+                },
+            });
+        });
+    } catch (error) {
+        console.error("Error fetching stats:", error);
+
+        return errorResponse("Failed to fetch statistics");
+    }
+}
+
+/**
+ * Handles CSV and NDJSON exports of the daily/weekly/monthly tables.
+ * Shares query validation and freshness-based cache versioning with /api/stats.
+ */
+async function handleExport(request: Request, env: StatsApiEnv, format: ExportFormat): Promise<Response> {
+    if (!env.STATS_DB) {
+        return errorResponse("Database not configured", 503);
+    }
+
+    const params = new URL(request.url).searchParams;
+    const parsed = parseStatsQuery(params);
+
+    if (!parsed.ok) {
+        return errorResponse(parsed.error, 400);
+    }
+
+    const breakdown = parseExportBreakdown(params);
+
+    if (breakdown === null) {
+        return errorResponse(`Invalid 'breakdown', expected one of: ${EXPORT_BREAKDOWNS.join(", ")}`, 400);
+    }
+
+    const { query } = parsed;
+    const granularity = query.granularity ?? "daily";
+    const align = granularity === "weekly" ? weekTimestamp : granularity === "monthly" ? monthTimestamp : (ts: number) => ts;
+
+    try {
+        await ensureSchema(env.STATS_DB);
+
+        const repositoryId = await resolveRepositoryId(env.STATS_DB, query.repo);
+
+        if (repositoryId === null) {
+            return errorResponse(`Unknown repository '${query.repo}'`, 404);
+        }
+
+        const exportQuery: ExportQuery = {
+            granularity,
+            breakdown,
+            start: query.from !== null ? align(query.from) : 0,
+            end: query.to ?? Number.MAX_SAFE_INTEGER,
+            repositoryId,
+            repository: query.repo,
+            tags: query.tags,
+            limit: query.limit,
+        };
+        const freshness = await getStatsFreshness(env.STATS_DB, repositoryId);
+        const cacheKey = getCacheKey(request, freshness.cacheVersion, query, `/export-${granularity}-${breakdown}.${format}`);
+
+        return await serveCached(env, cacheKey, async () => {
+            const stream = await createExportStream(env.STATS_DB, format, exportQuery);
+            const filename = exportFilename(format, exportQuery, formatDate(freshness.asOf));
+
+            return new Response(stream, {
+                headers: {
+                    "Content-Type": EXPORT_CONTENT_TYPES[format],
+                    "Content-Disposition": `attachment; filename="${filename}"`,
+                    "Cache-Control": `public, max-age=${CACHE_TTL_SECONDS}`,
+                    "Access-Control-Allow-Origin": "*",
+                    Vary: "Accept",
+                },
+            });
+        });
+    } catch (error) {
+        console.error("Error exporting stats:", error);
+
+        return errorResponse("Failed to export statistics");
+    }
+}
+
+/**
+ * Handles GET /api/stats/compare requests.
+ * Shares tag and repository validation and cache versioning with /api/stats.
+ */
+async function handleCompare(request: Request, env: StatsApiEnv): Promise<Response> {
+    if (!env.STATS_DB) {
+        return errorResponse("Database not configured", 503);
+    }
+
+    const params = new URL(request.url).searchParams;
+    const parsed = parseStatsQuery(params);
+
+    if (!parsed.ok) {
+        return errorResponse(parsed.error, 400);
+    }
+
+    const { query } = parsed;
+
+    if (query.tags === null) {
+        return errorResponse("'tags' is required, e.g. tags=v0.5.2,v0.5.3", 400);
+    }
+
+    if (query.tags.length > MAX_COMPARE_TAGS) {
+        return errorResponse(`Compare accepts at most ${MAX_COMPARE_TAGS} release tags`, 400);
+    }
+
+    const days = parseCompareDays(params);
+
+    if (days === null) {
+        return errorResponse(`Invalid 'days', expected an integer between 1 and ${MAX_COMPARE_DAYS}`, 400);
+    }
+
+    try {
+        await ensureSchema(env.STATS_DB);
+
+        const repositoryId = await resolveRepositoryId(env.STATS_DB, query.repo);
+
+        if (repositoryId === null) {
+            return errorResponse(`Unknown repository '${query.repo}'`, 404);
+        }
+
+        const compareQuery: CompareQuery = { repositoryId, tags: query.tags, days };
+        const freshness = await getStatsFreshness(env.STATS_DB, repositoryId);
+
+        // Only repo and tags affect the result, so the window parameters stay out of the key
+        const cacheKey = getCacheKey(
+            request,
+            freshness.cacheVersion,
+            { ...query, from: null, to: null, granularity: null, limit: null },
+            `/compare-${days}`,
+        );
+
+        return await serveCached(env, cacheKey, async () => {
+            const compareResponse: CompareResponse = {
+                apiVersion: STATS_API_VERSION,
+                asOf: formatDate(freshness.asOf),
+                days,
+                releases: await getComparison(env.STATS_DB, compareQuery),
+            };
+
+            return new Response(JSON.stringify(compareResponse), {
+                headers: {
+                    "Content-Type": "application/json",
+                    "Cache-Control": `public, max-age=${CACHE_TTL_SECONDS}`,
+                    "Access-Control-Allow-Origin": "*",
+                },
+            });
+        });
+    } catch (error) {
+        console.error("Error comparing releases:", error);
+
+        return errorResponse("Failed to compare releases");
+    }
+}
+
+/**
+ * Handles GET /api/stats/repo requests.
+ * Versioned by the newest metrics write rather than the download snapshots.
+ */
+async function handleRepo(request: Request, env: StatsApiEnv): Promise<Response> {
+    if (!env.STATS_DB) {
+        return errorResponse("Database not configured", 503);
+    }
+
+    const parsed = parseStatsQuery(new URL(request.url).searchParams);
+
+    if (!parsed.ok) {
+        return errorResponse(parsed.error, 400);
+    }
+
+    const { query } = parsed;
+
+    try {
+        await ensureSchema(env.STATS_DB);
+
+        const repositoryId = await resolveRepositoryId(env.STATS_DB, query.repo);
+
+        if (repositoryId === null) {
+            return errorResponse(`Unknown repository '${query.repo}'`, 404);
+        }
+
+        const info = await getRepoInfo(env.STATS_DB, repositoryId);
+        const asOf = info.latestDate ?? todayTimestamp();
+        const end = query.to ?? asOf;
+        const repoQuery: RepoQuery = {
+            repositoryId,
+            start: query.from ?? end - (REPO_HISTORY_DAYS - 1) * MS_PER_DAY,
+            end,
+        };
+
+        // Only repo and the window affect the result
+        const cacheKey = getCacheKey(
+            request,
+            info.collectedAt ?? 0,
+            { ...query, granularity: null, tags: null, limit: null },
+            "/repo",
+        );
+
+        return await serveCached(env, cacheKey, async () => {
+            const repoResponse: RepoStatsResponse = {
+                apiVersion: STATS_API_VERSION,
+                asOf: formatDate(asOf),
+                repository: info.repository,
+                ...(await getRepoMetrics(env.STATS_DB, repoQuery)),
+            };
+
+            return new Response(JSON.stringify(repoResponse), {
+                headers: {
+                    "Content-Type": "application/json",
+                    "Cache-Control": `public, max-age=${CACHE_TTL_SECONDS}`,
+                    "Access-Control-Allow-Origin": "*",
+                },
+            });
+        });
+    } catch (error) {
+        console.error("Error fetching repository stats:", error);
+
+        return errorResponse("Failed to fetch repository statistics");
+    }
+}
+
+/**
+ * Handles GET /api/stats/contributors requests.
+ * Versioned by the latest activity refresh rather than the download snapshots.
+ */
+async function handleContributors(request: Request, env: StatsApiEnv): Promise<Response> {
+    if (!env.STATS_DB) {
+        return errorResponse("Database not configured", 503);
+    }
+
+    const parsed = parseStatsQuery(new URL(request.url).searchParams);
+
+    if (!parsed.ok) {
+        return errorResponse(parsed.error, 400);
+    }
+
+    const { query } = parsed;
+
+    try {
+        await ensureSchema(env.STATS_DB);
+
+        const repositoryId = await resolveRepositoryId(env.STATS_DB, query.repo);
+
+        if (repositoryId === null) {
+            return errorResponse(`Unknown repository '${query.repo}'`, 404);
+        }
+
+        const info = await getContributorsInfo(env.STATS_DB, repositoryId);
+        const asOf =
+            info.refreshedAt !== null ? Math.floor(info.refreshedAt / MS_PER_DAY) * MS_PER_DAY : todayTimestamp();
+        const end = monthOf(query.to ?? asOf);
+        const contributorsQuery: ContributorsQuery = {
+            repositoryId,
+            start: query.from !== null ? monthOf(query.from) : addMonths(end, 1 - CONTRIBUTOR_HISTORY_MONTHS),
+            end,
+            limit: query.limit ?? DEFAULT_CONTRIBUTORS_LIMIT,
+        };
+
+        // Only repo, the window and limit affect the result
+        const cacheKey = getCacheKey(
+            request,
+            info.refreshedAt ?? 0,
+            { ...query, granularity: null, tags: null },
+            "/contributors",
+        );
+
+        return await serveCached(env, cacheKey, async () => {
+            const contributorsResponse: ContributorsResponse = {
+                apiVersion: STATS_API_VERSION,
+                asOf: formatDate(asOf),
+                repository: info.repository,
+                ...(await getContributorActivity(env.STATS_DB, contributorsQuery)),
+            };
+
+            return new Response(JSON.stringify(contributorsResponse), {
+                headers: {
+                    "Content-Type": "application/json",
+                    "Cache-Control": `public, max-age=${CACHE_TTL_SECONDS}`,
+                    "Access-Control-Allow-Origin": "*",
+                },
+            });
+        });
+    } catch (error) {
+        console.error("Error fetching contributor activity:", error);
+
+        return errorResponse("Failed to fetch contributor activity");
+    }
+}
+
+/**
+ * Creates an SVG badge response. Error badges are never cached.
+ */
+function badgeResponse(badge: Badge, status = 200): Response {
+    return new Response(renderBadge(badge), {
+        status,
+        headers: {
+            "Content-Type": "image/svg+xml; charset=utf-8",
+            "Cache-Control": status === 200 ? `public, max-age=${BADGE_MAX_AGE_SECONDS}` : "no-store",
+            "Access-Control-Allow-Origin": "*",
+        },
+    });
+}
+
+/** Renders an error message as a red badge with the given status. */
+function errorBadge(message: string, status: number): Response {
+    return badgeResponse({ label: "badge", message, color: BADGE_COLORS.red, style: "flat" }, status);
+}
+
+/**
+ * Handles GET /api/badge/{kind}.svg requests.
+ * Shares repository and tag validation and cache versioning with /api/stats.
+ */
+async function handleBadge(request: Request, env: StatsApiEnv, kind: string): Promise<Response> {
+    if (!BADGE_KINDS.includes(kind as BadgeKind)) {
+        return errorBadge(`Unknown badge, expected one of: ${BADGE_KINDS.join(", ")}`, 404);
+    }
+
+    if (!env.STATS_DB) {
+        return errorBadge("Database not configured", 503);
+    }
+
+    const params = new URL(request.url).searchParams;
+    const parsed = parseStatsQuery(params);
+
+    if (!parsed.ok) {
+        return errorBadge(parsed.error, 400);
+    }
+
+    const badgeOptions = parseBadgeOptions(params);
+
+    if (!badgeOptions.ok) {
+        return errorBadge(badgeOptions.error, 400);
+    }
+
+    const { options } = badgeOptions;
+
+    // The latest badge always looks at the whole repository
+    const query: StatsQuery = {
+        ...parsed.query,
+        from: null,
+        to: null,
+        granularity: null,
+        limit: null,
+        tags: kind === "downloads" ? parsed.query.tags : null,
+    };
+
+    try {
+        await ensureSchema(env.STATS_DB);
+
+        const repositoryId = await resolveRepositoryId(env.STATS_DB, query.repo);
+
+        if (repositoryId === null) {
+            return errorBadge(`Unknown repository '${query.repo}'`, 404);
+        }
+
+        const freshness = await getStatsFreshness(env.STATS_DB, repositoryId);
+        const variant = [kind, options.period ?? "all", options.style, options.color ?? "", options.label ?? "~"]
+            .map(encodeURIComponent)
+            .join("/");
+        const cacheKey = getCacheKey(request, freshness.cacheVersion, query, `/badge/${variant}`);
+
+        return await serveCached(env, cacheKey, async () =>
+            badgeResponse(await getBadge(env.STATS_DB, kind as BadgeKind, query, repositoryId, options, freshness.asOf)),
+        );
+    } catch (error) {
+        console.error("Error rendering badge:", error);
+
+        return errorBadge("Failed to render badge", 500);
+    }
+}
+
+/**
+ * Handles GET /api/stats/health requests.
+ * Responds 503 when collection is failing or stale so uptime monitors can alert
+ * on the status code alone.
+ */
+async function handleHealth(env: StatsApiEnv): Promise<Response> {
+    if (!env.STATS_DB) {
+        return errorResponse("Database not configured", 503);
+    }
+
+    try {
+        await ensureSchema(env.STATS_DB);
+
+        const [freshness, summary, lastRun] = await Promise.all([
+            getStatsFreshness(env.STATS_DB, PRIMARY_REPOSITORY_ID),
+            env.STATS_DB.prepare(`
+                SELECT
+                    (SELECT MAX(finished_at) FROM collection_runs WHERE status = 'success') AS last_success,
+                    (SELECT COUNT(*) FROM collection_runs
+                        WHERE status = 'error'
+                        AND started_at > COALESCE((SELECT MAX(started_at) FROM collection_runs WHERE status = 'success'), 0)
+                    ) AS consecutive_failures
+            `).first<{ last_success: number | null; consecutive_failures: number }>(),
+            env.STATS_DB.prepare(`
+                SELECT status, started_at, finished_at, duration_ms, error, rate_limit_remaining
+                FROM collection_runs
+                ORDER BY started_at DESC, id DESC
+                LIMIT 1
+            `).first<{
+                status: string;
+                started_at: number;
+                finished_at: number | null;
+                duration_ms: number | null;
+                error: string | null;
+                rate_limit_remaining: number | null;
+            }>(),
         ]);
 
-        const statsResponse: StatsResponse = {
+        const lastSuccessAt = summary?.last_success ?? null;
+        const consecutiveFailures = summary?.consecutive_failures ?? 0;
+        const stalenessMs = lastSuccessAt === null ? null : Math.max(0, Date.now() - lastSuccessAt);
+
+        let status: HealthResponse["status"] = "ok";
+
+        if (consecutiveFailures >= HEALTH_MAX_CONSECUTIVE_FAILURES) {
+            status = "failing";
+        } else if (stalenessMs === null || stalenessMs > HEALTH_MAX_STALENESS_MS) {
+            status = "stale";
+        }
+
+        const health: HealthResponse = {
+            apiVersion: STATS_API_VERSION,
+            status,
             asOf: formatDate(freshness.asOf),
-            totals,
-            releases,
+            lastSuccessAt,
+            stalenessMs,
+            consecutiveFailures,
+            lastRun: lastRun
+                ? {
+                      status: lastRun.status,
+                      startedAt: lastRun.started_at,
+                      finishedAt: lastRun.finished_at,
+                      durationMs: lastRun.duration_ms,
+                      error: lastRun.error,
+                      rateLimitRemaining: lastRun.rate_limit_remaining,
+                  }
+                : null,
         };
 
-        const response = new Response(JSON.stringify(statsResponse), {
+        return new Response(JSON.stringify(health), {
+            status: status === "ok" ? 200 : 503,
             headers: {
                 "Content-Type": "application/json",
-                "Cache-Control": `public, max-age=${CACHE_TTL_SECONDS}`,
+                "Cache-Control": "no-store",
                 "Access-Control-Allow-Origin": "*",
-                "X-Cache": "MISS",
             },
         });
-
-        // Store in cache if available (don't await - fire and forget)
-        if (cache && cacheKey) {
-            cache.put(cacheKey, response.clone());
-        }
-
-        return response;
     } catch (error) {
-        console.error("Error fetching stats:", error);
+        console.error("Error checking health:", error);
 
-        return errorResponse("Failed to fetch statistics");
+        return errorResponse("Failed to check collector health", 503);
     }
 }
 
@@ -387,6 +1641,12 @@ export default {
      * Routes:
      *   OPTIONS /api/*  - CORS preflight
      *   GET /api/stats  - Download statistics
+     *   GET /api/stats/export.{csv,ndjson} - Time series exports
+     *   GET /api/stats/health - Collector health
+     *   GET /api/stats/compare - Release adoption curves
+     *   GET /api/stats/repo - Repository metrics and traffic
+     *   GET /api/stats/contributors - Contributor activity
+     *   GET /api/badge/{kind}.svg - SVG badges
      *   *               - 404 Not Found or fallback to assets
      */
     async fetch(request: Request, env: StatsApiEnv): Promise<Response> {
@@ -402,6 +1662,42 @@ export default {
             return handleStats(request, env);
         }
 
+        // Route: GET /api/stats/health
+        if (url.pathname === "/api/stats/health" && request.method === "GET") {
+            return handleHealth(env);
+        }
+
+        // Route: GET /api/stats/compare
+        if (url.pathname === "/api/stats/compare" && request.method === "GET") {
+            return handleCompare(request, env);
+        }
+
+        // Route: GET /api/stats/repo
+        if (url.pathname === "/api/stats/repo" && request.method === "GET") {
+            return handleRepo(request, env);
+        }
+
+        // Route: GET /api/stats/contributors
+        if (url.pathname === "/api/stats/contributors" && request.method === "GET") {
+            return handleContributors(request, env);
+        }
+
+        // Route: GET /api/stats/export.csv and /api/stats/export.ndjson
+        if (url.pathname === "/api/stats/export.csv" && request.method === "GET") {
+            return handleExport(request, env, "csv");
+        }
+
+        if (url.pathname === "/api/stats/export.ndjson" && request.method === "GET") {
+            return handleExport(request, env, "ndjson");
+        }
+
+        // Route: GET /api/badge/{kind}.svg
+        const badge = BADGE_PATH_PATTERN.exec(url.pathname);
+
+        if (badge && request.method === "GET") {
+            return handleBadge(request, env, badge[1]);
+        }
+
         // 404 for unmatched /api/* routes
         if (url.pathname.startsWith("/api/")) {
             return new Response("Not Found", { status: 404 });
@@ -0,0 +1,124 @@
+/**
+ * workers/stats-api/src/repo.ts
+ *
+ * Repository metrics for GET /api/stats/repo: the daily snapshots of stars,
+ * forks, watchers and open issues stored by the collector, and the daily
+ * clones and views it copies from GitHub's traffic API.
+ */
+
+import type { RepoMetricsSnapshot, RepoStatsResponse } from "../../../shared/stats-schema";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RepoQuery {
+    /** Tracked repository (repositories.id) */
+    repositoryId: number;
+    /** Inclusive window (start of day UTC) */
+    start: number;
+    end: number;
+}
+
+interface MetricsRow {
+    date: number;
+    stars: number;
+    forks: number;
+    watchers: number;
+    open_issues: number;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toSnapshot(row: MetricsRow): RepoMetricsSnapshot {
+    return {
+        date: row.date,
+        stars: row.stars,
+        forks: row.forks,
+        watchers: row.watchers,
+        openIssues: row.open_issues,
+    };
+}
+
+// =============================================================================
+// Query
+// =============================================================================
+
+/**
+ * Returns a repository's "owner/name" with the date of its latest metrics
+ * snapshot and the newest metrics write, which versions cached responses.
+ * Both are null before the first collection.
+ */
+export async function getRepoInfo(
+    db: D1Database,
+    repositoryId: number,
+): Promise<{ repository: string; latestDate: number | null; collectedAt: number | null }> {
+    const row = await db
+        .prepare(`
+            SELECT
+                (SELECT owner || '/' || name FROM repositories WHERE id = ?1) AS repository,
+                (SELECT MAX(date) FROM repository_metrics_daily WHERE repository_id = ?1) AS latest_date,
+                (SELECT MAX(collected_at) FROM repository_metrics_daily WHERE repository_id = ?1) AS collected_at
+        `)
+        .bind(repositoryId)
+        .first<{ repository: string; latest_date: number | null; collected_at: number | null }>();
+
+    return {
+        repository: row?.repository ?? "",
+        latestDate: row?.latest_date ?? null,
+        collectedAt: row?.collected_at ?? null,
+    };
+}
+
+/**
+ * Loads the latest snapshot and the metrics and traffic series of one
+ * repository within the window, oldest first.
+ */
+export async function getRepoMetrics(
+    db: D1Database,
+    query: RepoQuery,
+): Promise<Pick<RepoStatsResponse, "latest" | "daily" | "traffic">> {
+    const [latest, daily, traffic] = await Promise.all([
+        db.prepare(`
+            SELECT date, stars, forks, watchers, open_issues
+            FROM repository_metrics_daily
+            WHERE repository_id = ?
+            ORDER BY date DESC
+            LIMIT 1
+        `).bind(query.repositoryId).first<MetricsRow>(),
+
+        db.prepare(`
+            SELECT date, stars, forks, watchers, open_issues
+            FROM repository_metrics_daily
+            WHERE repository_id = ? AND date >= ? AND date <= ?
+            ORDER BY date ASC
+        `).bind(query.repositoryId, query.start, query.end).all<MetricsRow>(),
+
+        db.prepare(`
+            SELECT date, clones, unique_clones, views, unique_views
+            FROM repository_traffic_daily
+            WHERE repository_id = ? AND date >= ? AND date <= ?
+            ORDER BY date ASC
+        `).bind(query.repositoryId, query.start, query.end).all<{
+            date: number;
+            clones: number;
+            unique_clones: number;
+            views: number;
+            unique_views: number;
+        }>(),
+    ]);
+
+    return {
+        latest: latest ? toSnapshot(latest) : null,
+        daily: daily.results.map(toSnapshot),
+        traffic: traffic.results.map((row) => ({
+            date: row.date,
+            clones: row.clones,
+            uniqueClones: row.unique_clones,
+            views: row.views,
+            uniqueViews: row.unique_views,
+        })),
+    };
+}
@@ -0,0 +1,95 @@
+/**
+ * workers/stats-api/test/badge.test.ts
+ *
+ * Unit tests for SVG badge rendering.
+ */
+
+import { describe, it, expect } from "vitest";
+import { formatCount, renderBadge, resolveBadgeColor } from "../src/badge";
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe("formatCount", () => {
+  it("should keep small counts as they are", () => {
+    expect(formatCount(0)).toBe("0");
+    expect(formatCount(999)).toBe("999");
+  });
+
+  it("should abbreviate thousands and millions without rounding up", () => {
+    expect(formatCount(1234)).toBe("1.2k");
+    expect(formatCount(45_678)).toBe("45k");
+    expect(formatCount(999_999)).toBe("999k");
+    expect(formatCount(3_450_000)).toBe("3.4M");
+    expect(formatCount(2_000_000_000)).toBe("2B");
+  });
+});
+
+describe("resolveBadgeColor", () => {
+  it("should resolve named colours and hex values", () => {
+    expect(resolveBadgeColor("blue")).toBe("#007ec6");
+    expect(resolveBadgeColor("BrightGreen")).toBe("#4c1");
+    expect(resolveBadgeColor("ff69B4")).toBe("#ff69b4");
+    expect(resolveBadgeColor("#abc")).toBe("#abc");
+  });
+
+  it("should reject anything else", () => {
+    expect(resolveBadgeColor("url(#x)")).toBeNull();
+    expect(resolveBadgeColor("#12345")).toBeNull();
+  });
+});
+
+describe("renderBadge", () => {
+  it("should render the label and message with an accessible title", () => {
+    // Act
+    const svg = renderBadge({ label: "downloads", message: "45k", color: "#4c1", style: "flat" });
+
+    // Assert
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="\d+" height="20"/);
+    expect(svg).toContain('aria-label="downloads: 45k"');
+    expect(svg).toContain("<title>downloads: 45k</title>");
+    expect(svg).toContain('fill="#4c1"');
+    expect(svg).toContain('rx="3"');
+  });
+
+  it("should grow with longer text", () => {
+    // Act
+    const width = (message: string) =>
+      Number(/width="(\d+)"/.exec(renderBadge({ label: "latest", message, color: "#007ec6", style: "flat" }))![1]);
+
+    // Assert
+    expect(width("v0.5.3-with-a-long-suffix")).toBeGreaterThan(width("v0.5.3"));
+  });
+
+  it("should escape markup in the label and message", () => {
+    // Act
+    const svg = renderBadge({ label: '<script>"', message: "a&b", color: "#555", style: "flat" });
+
+    // Assert
+    expect(svg).not.toContain("<script>");
+    expect(svg).toContain("&#60;script&#62;&#34;");
+    expect(svg).toContain("a&#38;b");
+  });
+
+  it("should render square and tall styles", () => {
+    // Act
+    const square = renderBadge({ label: "latest", message: "v1.0.0", color: "#007ec6", style: "flat-square" });
+    const tall = renderBadge({ label: "latest", message: "v1.0.0", color: "#007ec6", style: "for-the-badge" });
+
+    // Assert
+    expect(square).not.toContain("rx=");
+    expect(tall).toContain('height="28"');
+    expect(tall).toContain(">LATEST</text>");
+    expect(tall).toContain(">V1.0.0</text>");
+  });
+
+  it("should render the message alone for an empty label", () => {
+    // Act
+    const svg = renderBadge({ label: "", message: "45k", color: "#4c1", style: "flat-square" });
+
+    // Assert
+    expect(svg).not.toContain('fill="#555"');
+    expect(svg.match(/<text /g)).toHaveLength(2);
+  });
+});
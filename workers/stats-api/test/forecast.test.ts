@@ -0,0 +1,146 @@
+/**
+ * workers/stats-api/test/forecast.test.ts
+ *
+ * Unit tests for the weekly download forecast.
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildForecast, nextMilestone } from "../src/forecast";
+import type { WeeklyTotal } from "../src/forecast";
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const MS_PER_DAY = 86400000;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+
+/** Monday, 5 January 2026 (UTC) */
+const MONDAY = Date.UTC(2026, 0, 5);
+
+/**
+ * Builds weekly totals ending with the week before `MONDAY`, oldest first.
+ */
+function weeksBefore(values: number[]): WeeklyTotal[] {
+  return values.map((downloads, i) => ({ week: MONDAY - (values.length - i) * MS_PER_WEEK, downloads }));
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe("buildForecast", () => {
+  it("should return null without enough complete weeks", () => {
+    // Act
+    const result = buildForecast(weeksBefore([100, 100, 100, 100, 100, 100, 100]), 700, MONDAY);
+
+    // Assert
+    expect(result).toBeNull();
+  });
+
+  it("should ignore the incomplete current week", () => {
+    // Arrange: the current week only has two days of downloads so far
+    const history = [...weeksBefore(Array.from({ length: 10 }, () => 100)), { week: MONDAY, downloads: 5 }];
+
+    // Act
+    const result = buildForecast(history, 1005, MONDAY + MS_PER_DAY);
+
+    // Assert
+    expect(result!.fittedWeeks).toBe(10);
+    expect(result!.weekly[0]).toEqual({ week: MONDAY, downloads: 100, lower: 100, upper: 100 });
+  });
+
+  it("should project a flat series forward without a band", () => {
+    // Act
+    const result = buildForecast(weeksBefore(Array.from({ length: 20 }, () => 700)), 14000, MONDAY);
+
+    // Assert
+    expect(result!.model).toBe("holt");
+    expect(result!.weekly).toHaveLength(13);
+    expect(result!.next30Days).toEqual({ downloads: 3000, lower: 3000, upper: 3000 });
+    expect(result!.next90Days.downloads).toBe(9000);
+    expect(result!.cumulative[0]).toEqual({ date: MONDAY, total: 14000, lower: 14000, upper: 14000 });
+    expect(result!.cumulative[1]).toEqual({ date: MONDAY + 6 * MS_PER_DAY, total: 14600, lower: 14600, upper: 14600 });
+  });
+
+  it("should follow a growing trend", () => {
+    // Act
+    const result = buildForecast(weeksBefore(Array.from({ length: 12 }, (_, i) => 100 + i * 10)), 3000, MONDAY);
+
+    // Assert
+    const weekly = result!.weekly.map((week) => week.downloads);
+
+    expect(weekly[0]).toBe(220);
+    expect(weekly[12]).toBe(340);
+  });
+
+  it("should widen the band with the forecast horizon for noisy series", () => {
+    // Act
+    const result = buildForecast(
+      weeksBefore(Array.from({ length: 16 }, (_, i) => (i % 2 === 0 ? 80 : 120))),
+      1600,
+      MONDAY,
+    );
+
+    // Assert
+    const first = result!.weekly[0];
+    const last = result!.weekly[12];
+
+    expect(first.lower).toBeLessThan(first.downloads);
+    expect(first.upper).toBeGreaterThan(first.downloads);
+    expect(last.upper - last.lower).toBeGreaterThan(first.upper - first.lower);
+  });
+
+  it("should use yearly seasonality with two years of history", () => {
+    // Arrange: a release-day burst in the same week of each year
+    const values = Array.from({ length: 110 }, (_, i) => (i % 52 === 10 ? 1100 : 100));
+
+    // Act
+    const result = buildForecast(weeksBefore(values), 20000, MONDAY);
+
+    // Assert: the history ends at index 109, so the next burst (index 114) is 5 weeks out
+    const weekly = result!.weekly.map((week) => week.downloads);
+
+    expect(result!.model).toBe("holt-winters");
+    expect(weekly[4]).toBeGreaterThan(weekly[3] + 500);
+    expect(weekly[4]).toBeGreaterThan(weekly[5] + 500);
+  });
+
+  it("should count missing weeks as weeks without downloads", () => {
+    // Arrange
+    const history = weeksBefore(Array.from({ length: 10 }, () => 100)).filter((_, i) => i !== 4);
+
+    // Act
+    const result = buildForecast(history, 900, MONDAY);
+
+    // Assert
+    expect(result!.fittedWeeks).toBe(10);
+  });
+
+  it("should estimate the day the next milestone is reached", () => {
+    // Act: 1,000 downloads a week, 4,900 short of 100k
+    const result = buildForecast(weeksBefore(Array.from({ length: 10 }, () => 1000)), 95100, MONDAY);
+
+    // Assert: six days this week, four full weeks, then under a day
+    expect(result!.milestone).toEqual({ downloads: 100000, expectedDate: MONDAY + 35 * MS_PER_DAY });
+  });
+
+  it("should not expect a milestone when downloads stopped", () => {
+    // Act
+    const result = buildForecast(weeksBefore(Array.from({ length: 10 }, () => 0)), 95100, MONDAY);
+
+    // Assert
+    expect(result!.milestone).toEqual({ downloads: 100000, expectedDate: null });
+  });
+});
+
+describe("nextMilestone", () => {
+  it("should return the next round total above the current one", () => {
+    // Act & Assert
+    expect(nextMilestone(0)).toBe(1000);
+    expect(nextMilestone(1000)).toBe(2500);
+    expect(nextMilestone(2600)).toBe(5000);
+    expect(nextMilestone(99999)).toBe(100000);
+    expect(nextMilestone(100000)).toBe(250000);
+  });
+});
@@ -2,13 +2,14 @@
  * workers/stats-api/test/setup.ts
  *
  * Test setup file that runs before each test file.
- * Applies D1 schema to initialize the database.
+ * Applies the D1 schema migrations to initialize the database.
  *
  * Reference: https://developers.cloudflare.com/workers/testing/vitest-integration/test-apis/
  */
 
 import { env } from "cloudflare:test";
 import { beforeAll } from "vitest";
+import { applyMigrations } from "../../../db/migrate";
 
 // =============================================================================
 // Type Declarations
@@ -20,7 +21,6 @@ import { beforeAll } from "vitest";
 declare module "cloudflare:test" {
     interface ProvidedEnv {
         STATS_DB: D1Database;
-        TEST_SCHEMA_STATEMENTS: string[];
     }
 }
 
@@ -29,12 +29,9 @@ declare module "cloudflare:test" {
 // =============================================================================
 
 /**
- * Apply D1 schema before all tests.
- * This ensures the database tables are created for each test run.
+ * Apply D1 schema migrations before all tests.
+ * Uses the same runner as the deployed workers, so tests cover db/migrations.
  */
 beforeAll(async () => {
-    // Execute each schema statement individually
-    for (const stmt of env.TEST_SCHEMA_STATEMENTS) {
-        await env.STATS_DB.prepare(stmt).run();
-    }
+    await applyMigrations(env.STATS_DB);
 });
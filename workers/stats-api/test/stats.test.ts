@@ -12,29 +12,20 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { env } from "cloudflare:test";
 import worker from "../src/index";
-
-// =============================================================================
-// Types
-// =============================================================================
-
-/**
- * Expected structure of the stats response.
- * Time series data is now nested per-release for granular tracking.
- */
-interface StatsResponse {
-  asOf: string;
-  totals: {
-    allTime: number;
-  };
-  releases: Array<{
-    tag: string;
-    name: string;
-    downloads: number;
-    daily: Array<{ date: number; downloads: number }>;
-    weekly: Array<{ week: number; downloads: number }>;
-    monthly: Array<{ month: number; downloads: number }>;
-  }>;
-}
+import {
+  STATS_API_VERSION,
+  validateCompareResponse,
+  validateHealthResponse,
+  validateContributorsResponse,
+  validateRepoStatsResponse,
+  validateStatsResponse,
+} from "../../../shared/stats-schema";
+import type {
+  CompareResponse,
+  ContributorsResponse,
+  RepoStatsResponse,
+  StatsResponse,
+} from "../../../shared/stats-schema";
 
 // =============================================================================
 // Test Data
@@ -100,11 +91,22 @@ function monthTimestamp(ts: number): number {
  * Clears all data from the test database tables.
  */
 async function clearDatabase(): Promise<void> {
+  await env.STATS_DB.prepare("DELETE FROM anomalies").run();
+  await env.STATS_DB.prepare("DELETE FROM contributor_activity_monthly").run();
+  await env.STATS_DB.prepare("DELETE FROM contributors").run();
+  await env.STATS_DB.prepare("DELETE FROM repository_traffic_daily").run();
+  await env.STATS_DB.prepare("DELETE FROM repository_metrics_daily").run();
+  await env.STATS_DB.prepare("DELETE FROM collection_runs").run();
+  await env.STATS_DB.prepare("DELETE FROM platform_downloads_monthly").run();
+  await env.STATS_DB.prepare("DELETE FROM platform_downloads_weekly").run();
+  await env.STATS_DB.prepare("DELETE FROM platform_downloads_daily").run();
   await env.STATS_DB.prepare("DELETE FROM release_assets").run();
   await env.STATS_DB.prepare("DELETE FROM downloads_monthly").run();
   await env.STATS_DB.prepare("DELETE FROM downloads_weekly").run();
   await env.STATS_DB.prepare("DELETE FROM downloads_daily").run();
   await env.STATS_DB.prepare("DELETE FROM releases").run();
+  await env.STATS_DB.prepare("DELETE FROM repositories WHERE id <> 1").run();
+  await env.STATS_DB.prepare("UPDATE repositories SET contributors_refreshed_at = NULL").run();
 }
 
 /**
@@ -275,6 +277,221 @@ async function seedMonthlyData(): Promise<void> {
     .run();
 }
 
+/**
+ * Seeds classified assets and per-platform series for both releases.
+ */
+async function seedPlatformData(): Promise<void> {
+  const now = Date.now();
+  const today = todayTimestamp();
+  const thisWeek = weekTimestamp(today);
+  const thisMonth = monthTimestamp(today);
+
+  await env.STATS_DB.prepare(
+    `
+        INSERT INTO release_assets (asset_id, release_id, name, last_download_count, first_seen, last_seen, platform, os, arch, cuda_version, variant)
+        VALUES
+          (101, 1, 'v1.0.0-windows-x64-cuda12.8.zip', 1100, ?1, ?1, 'windows-x64-cuda12.8-portable', 'windows', 'x64', '12.8', 'portable'),
+          (102, 1, 'v1.0.0-linux-x86_64.AppImage', 400, ?1, ?1, 'linux-x64-portable', 'linux', 'x64', NULL, 'portable'),
+          (201, 2, 'v0.9.0-windows-x64-cuda12.8.zip', 500, ?1, ?1, 'windows-x64-cuda12.8-portable', 'windows', 'x64', '12.8', 'portable')
+    `,
+  )
+    .bind(now)
+    .run();
+
+  await env.STATS_DB.prepare(
+    `
+        INSERT INTO platform_downloads_daily (date, release_id, platform, count)
+        VALUES
+          (?1, 1, 'windows-x64-cuda12.8-portable', 800),
+          (?1, 1, 'linux-x64-portable', 200),
+          (?1, 2, 'windows-x64-cuda12.8-portable', 300),
+          (?2, 1, 'windows-x64-cuda12.8-portable', 1100),
+          (?2, 1, 'linux-x64-portable', 400),
+          (?2, 2, 'windows-x64-cuda12.8-portable', 500)
+    `,
+  )
+    .bind(daysBeforeToday(6), today)
+    .run();
+
+  await env.STATS_DB.prepare(
+    `
+        INSERT INTO platform_downloads_weekly (week, release_id, platform, count)
+        VALUES (?1, 1, 'windows-x64-cuda12.8-portable', 250), (?1, 2, 'windows-x64-cuda12.8-portable', 100), (?1, 1, 'linux-x64-portable', 50)
+    `,
+  )
+    .bind(thisWeek)
+    .run();
+
+  await env.STATS_DB.prepare(
+    `
+        INSERT INTO platform_downloads_monthly (month, release_id, platform, count)
+        VALUES (?1, 1, 'windows-x64-cuda12.8-portable', 400), (?1, 1, 'linux-x64-portable', 100)
+    `,
+  )
+    .bind(thisMonth)
+    .run();
+}
+
+/**
+ * Seeds a tracked plugin repository whose only release reuses the tag of a
+ * LichtFeld Studio release.
+ */
+async function seedPluginRepository(): Promise<void> {
+  const now = Date.now();
+
+  await env.STATS_DB.prepare(
+    `
+        INSERT INTO repositories (id, owner, name, plugin_id, first_seen)
+        VALUES (2, 'example', 'Example-Plugin', 'community:example-plugin', ?)
+    `,
+  )
+    .bind(now)
+    .run();
+
+  await env.STATS_DB.prepare(
+    `
+        INSERT INTO releases (id, repository_id, tag, name, total_downloads, first_seen, last_updated)
+        VALUES (3, 2, 'v1.0.0', 'Example Plugin 1.0.0', 42, ?, ?)
+    `,
+  )
+    .bind(now, now)
+    .run();
+
+  await env.STATS_DB.prepare("INSERT INTO downloads_daily (date, release_id, count) VALUES (?, 3, 42)")
+    .bind(todayTimestamp())
+    .run();
+}
+
+/**
+ * Seeds collector anomalies: a spike for v1.0.0 today, a counter reset for
+ * v0.9.0 a week ago and an old re-upload outside the default window.
+ */
+async function seedAnomalies(): Promise<void> {
+  const statement = env.STATS_DB.prepare(
+    `
+        INSERT INTO anomalies (release_id, date, kind, asset_id, delta, expected, score, detail, detected_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+  );
+  const now = Date.now();
+
+  await env.STATS_DB.batch([
+    statement.bind(1, todayTimestamp(), "spike", 0, 900, 20, 44, "900 downloads in a day", now),
+    statement.bind(2, daysBeforeToday(7), "negative_delta", 11, -30, null, null, "Count fell by 30", now),
+    statement.bind(2, daysBeforeToday(800), "asset_reupload", 12, -200, null, null, "Re-uploaded", now),
+  ]);
+}
+
+/**
+ * Seeds both releases with publish dates and snapshots from their first days:
+ * v1.0.0 was published 3 days ago and missed a snapshot on day 2, v0.9.0 was
+ * published 40 days ago.
+ */
+async function seedAdoptionCurves(): Promise<void> {
+  await seedReleases();
+
+  const hour = 3600000;
+  const update = env.STATS_DB.prepare("UPDATE releases SET published_at = ? WHERE id = ?");
+  const snapshot = env.STATS_DB.prepare(
+    "INSERT INTO downloads_daily (date, release_id, count, estimated) VALUES (?, ?, ?, ?)",
+  );
+
+  await env.STATS_DB.batch([
+    update.bind(daysBeforeToday(3) + 5 * hour, 1),
+    update.bind(daysBeforeToday(40) + hour, 2),
+    snapshot.bind(daysBeforeToday(3), 1, 100, 0),
+    snapshot.bind(daysBeforeToday(2), 1, 150, 1),
+    snapshot.bind(todayTimestamp(), 1, 300, 0),
+    snapshot.bind(daysBeforeToday(40), 2, 40, 0),
+    snapshot.bind(daysBeforeToday(39), 2, 90, 0),
+    snapshot.bind(daysBeforeToday(38), 2, 120, 0),
+    snapshot.bind(daysBeforeToday(5), 2, 500, 0),
+  ]);
+}
+
+/**
+ * Seeds repository metrics for today, yesterday and 400 days ago (outside the
+ * default window), and two days of traffic.
+ */
+async function seedRepoMetrics(): Promise<void> {
+  const metrics = env.STATS_DB.prepare(
+    `
+        INSERT INTO repository_metrics_daily (date, repository_id, stars, forks, watchers, open_issues, collected_at)
+        VALUES (?, 1, ?, ?, ?, ?, ?)
+    `,
+  );
+  const traffic = env.STATS_DB.prepare(
+    `
+        INSERT INTO repository_traffic_daily (date, repository_id, clones, unique_clones, views, unique_views)
+        VALUES (?, 1, ?, ?, ?, ?)
+    `,
+  );
+
+  await env.STATS_DB.batch([
+    metrics.bind(daysBeforeToday(400), 1000, 80, 20, 30, daysBeforeToday(400)),
+    metrics.bind(daysBeforeToday(1), 2400, 180, 45, 62, daysBeforeToday(1)),
+    metrics.bind(todayTimestamp(), 2410, 181, 45, 60, Date.now()),
+    traffic.bind(daysBeforeToday(2), 12, 8, 300, 120),
+    traffic.bind(daysBeforeToday(1), 7, 5, 250, 90),
+  ]);
+}
+
+/** Start of the month `count` months before the current one. */
+function monthsAgo(count: number): number {
+  const today = new Date(todayTimestamp());
+
+  return Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - count, 1);
+}
+
+/**
+ * Seeds contributor activity refreshed now: alice (contributing for years)
+ * and bob last month, alice and carol (new) this month, and dave 13 months
+ * ago, outside the default window.
+ */
+async function seedContributorActivity(): Promise<void> {
+  const activity = env.STATS_DB.prepare(
+    `
+        INSERT INTO contributor_activity_monthly (month, repository_id, login, commits, pull_requests, issues, collected_at)
+        VALUES (?, 1, ?, ?, ?, ?, ?)
+    `,
+  );
+  const contributor = env.STATS_DB.prepare(
+    "INSERT INTO contributors (repository_id, login, avatar_url, first_contribution) VALUES (1, ?, ?, ?)",
+  );
+  const now = Date.now();
+
+  await env.STATS_DB.batch([
+    activity.bind(monthsAgo(13), "dave", 4, 0, 0, now),
+    activity.bind(monthsAgo(1), "alice", 5, 0, 0, now),
+    activity.bind(monthsAgo(1), "bob", 0, 2, 1, now),
+    activity.bind(monthsAgo(0), "alice", 3, 1, 0, now),
+    activity.bind(monthsAgo(0), "carol", 0, 0, 1, now),
+    contributor.bind("alice", "https://avatars.example/alice", monthsAgo(20)),
+    contributor.bind("bob", null, monthsAgo(1)),
+    contributor.bind("carol", null, monthsAgo(0)),
+    contributor.bind("dave", null, monthsAgo(13)),
+    env.STATS_DB.prepare("UPDATE repositories SET contributors_refreshed_at = ? WHERE id = 1").bind(now),
+  ]);
+}
+
+/**
+ * Seeds ten complete weeks of 70 weekly downloads for v1.0.0 and 700 for
+ * v0.9.0 before the current week, replacing last week's seeded deltas.
+ */
+async function seedWeeklyHistory(): Promise<void> {
+  const statement = env.STATS_DB.prepare(
+    "INSERT OR REPLACE INTO downloads_weekly (week, release_id, count) VALUES (?, ?, ?)",
+  );
+  const currentWeek = weekTimestamp(todayTimestamp());
+
+  await env.STATS_DB.batch(
+    Array.from({ length: 10 }, (_, i) => [
+      statement.bind(currentWeek - (i + 1) * 7 * MS_PER_DAY, 1, 70),
+      statement.bind(currentWeek - (i + 1) * 7 * MS_PER_DAY, 2, 700),
+    ]).flat(),
+  );
+}
+
 /**
  * Seeds the complete test database with all data.
  */
@@ -448,6 +665,29 @@ describe("Stats API Worker", () => {
       });
     });
 
+    it("should flag estimated daily snapshots", async () => {
+      // Arrange: one interpolated snapshot between two collected ones
+      await seedDatabase();
+      await env.STATS_DB.prepare(
+        "INSERT INTO downloads_daily (date, release_id, count, estimated) VALUES (?, 1, 1100, 1)",
+      )
+        .bind(daysBeforeToday(15))
+        .run();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats"), env);
+      const body = (await response.json()) as StatsResponse;
+      const release = body.releases.find((r) => r.tag === "v1.0.0")!;
+
+      // Assert
+      expect(release.daily).toEqual([
+        { date: daysBeforeToday(29), downloads: 1000 },
+        { date: daysBeforeToday(15), downloads: 1100, estimated: true },
+        { date: daysBeforeToday(6), downloads: 1200 },
+        { date: todayTimestamp(), downloads: 1500 },
+      ]);
+    });
+
     it("should return per-release weekly time series data", async () => {
       // Arrange
       await seedDatabase();
@@ -523,31 +763,1054 @@ describe("Stats API Worker", () => {
   });
 
   // -------------------------------------------------------------------------
-  // Empty Database Tests
+  // Platform Breakdown Tests
   // -------------------------------------------------------------------------
 
-  describe("Empty Database", () => {
-    it("should return zeros for empty database", async () => {
-      // Arrange: Database is already empty after clearDatabase
+  describe("Platform breakdown", () => {
+    it("should return per-platform totals summed across releases", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedPlatformData();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats"), env);
+      const body = (await response.json()) as StatsResponse;
+
+      // Assert: ordered by downloads, classification carried through
+      expect(body.platforms.map((p) => [p.platform, p.downloads])).toEqual([
+        ["windows-x64-cuda12.8-portable", 1600],
+        ["linux-x64-portable", 400],
+      ]);
+      expect(body.platforms[0]).toMatchObject({ os: "windows", arch: "x64", cuda: "12.8", variant: "portable" });
+      expect(body.platforms[1].cuda).toBeNull();
+    });
+
+    it("should return per-platform time series", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedPlatformData();
 
       // Act
       const response = await worker.fetch(new Request("http://localhost/api/stats"), env);
       const body = (await response.json()) as StatsResponse;
+      const windows = body.platforms.find((p) => p.os === "windows")!;
 
       // Assert
-      expect(body.totals.allTime).toBe(0);
-      expect(body.releases).toHaveLength(0);
+      expect(windows.daily).toEqual([
+        { date: daysBeforeToday(6), downloads: 1100 },
+        { date: todayTimestamp(), downloads: 1600 },
+      ]);
+      expect(windows.weekly).toEqual([{ week: weekTimestamp(todayTimestamp()), downloads: 350 }]);
+      expect(windows.monthly).toEqual([{ month: monthTimestamp(todayTimestamp()), downloads: 400 }]);
     });
+  });
+
+  // -------------------------------------------------------------------------
+  // Annotation Tests
+  // -------------------------------------------------------------------------
+
+  describe("Annotations", () => {
+    it("should return recorded anomalies within the monthly history, oldest first", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedAnomalies();
 
-    it("should still include asOf date for empty database", async () => {
       // Act
       const response = await worker.fetch(new Request("http://localhost/api/stats"), env);
       const body = (await response.json()) as StatsResponse;
 
       // Assert
-      const expectedDate = formatDate(todayTimestamp());
+      expect(body.annotations).toEqual([
+        { date: daysBeforeToday(7), tag: "v0.9.0", kind: "negative_delta", delta: -30, message: "Count fell by 30" },
+        { date: todayTimestamp(), tag: "v1.0.0", kind: "spike", delta: 900, message: "900 downloads in a day" },
+      ]);
+    });
 
-      expect(body.asOf).toBe(expectedDate);
+    it("should follow the tags filter and the from/to window", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedAnomalies();
+
+      // Act
+      const byTag = await worker.fetch(new Request("http://localhost/api/stats?tags=v1.0.0"), env);
+      const byDate = await worker.fetch(
+        new Request(`http://localhost/api/stats?to=${formatDate(daysBeforeToday(1))}`),
+        env,
+      );
+
+      // Assert
+      expect(((await byTag.json()) as StatsResponse).annotations.map((a) => a.kind)).toEqual(["spike"]);
+      expect(((await byDate.json()) as StatsResponse).annotations.map((a) => a.kind)).toEqual(["negative_delta"]);
+    });
+
+    it("should not return anomalies of other repositories", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedAnomalies();
+      await seedPluginRepository();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats?repo=example/Example-Plugin"), env);
+      const body = (await response.json()) as StatsResponse;
+
+      // Assert
+      expect(body.annotations).toEqual([]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Forecast Tests
+  // -------------------------------------------------------------------------
+
+  describe("Forecast", () => {
+    it("should project downloads from the weekly totals", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedWeeklyHistory();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats"), env);
+      const body = (await response.json()) as StatsResponse;
+
+      // Assert: a flat 770 downloads a week
+      expect(body.forecast).toMatchObject({
+        model: "holt",
+        fittedWeeks: 10,
+        next30Days: { downloads: 3300, lower: 3300, upper: 3300 },
+        milestone: { downloads: 2500 },
+      });
+      expect(body.forecast!.weekly[0]).toEqual({
+        week: weekTimestamp(todayTimestamp()),
+        downloads: 770,
+        lower: 770,
+        upper: 770,
+      });
+      expect(body.forecast!.cumulative[0]).toEqual({ date: todayTimestamp(), total: 2000, lower: 2000, upper: 2000 });
+    });
+
+    it("should follow the tags filter", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedWeeklyHistory();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats?tags=v1.0.0"), env);
+      const body = (await response.json()) as StatsResponse;
+
+      // Assert
+      expect(body.forecast!.weekly[0].downloads).toBe(70);
+      expect(body.forecast!.next30Days.downloads).toBe(300);
+    });
+
+    it("should not forecast historical windows or short histories", async () => {
+      // Arrange
+      await seedDatabase();
+
+      // Act
+      const short = await worker.fetch(new Request("http://localhost/api/stats"), env);
+
+      await seedWeeklyHistory();
+
+      const historical = await worker.fetch(
+        new Request(`http://localhost/api/stats?to=${formatDate(daysBeforeToday(1))}`),
+        env,
+      );
+
+      // Assert
+      expect(((await short.json()) as StatsResponse).forecast).toBeNull();
+      expect(((await historical.json()) as StatsResponse).forecast).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Query Parameter Tests
+  // -------------------------------------------------------------------------
+
+  describe("Query parameters", () => {
+    it("should restrict releases, totals and platforms to the requested tags", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedPlatformData();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats?tags=v0.9.0"), env);
+      const body = (await response.json()) as StatsResponse;
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(body.releases.map((r) => r.tag)).toEqual(["v0.9.0"]);
+      expect(body.totals.allTime).toBe(500);
+      expect(body.platforms.map((p) => [p.platform, p.downloads])).toEqual([["windows-x64-cuda12.8-portable", 500]]);
+    });
+
+    it("should trim the release list with limit without changing totals", async () => {
+      // Arrange
+      await seedDatabase();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats?limit=1"), env);
+      const body = (await response.json()) as StatsResponse;
+
+      // Assert
+      expect(body.releases.map((r) => r.tag)).toEqual(["v1.0.0"]);
+      expect(body.totals.allTime).toBe(2000);
+    });
+
+    it("should only return the requested granularity", async () => {
+      // Arrange
+      await seedDatabase();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats?granularity=weekly"), env);
+      const body = (await response.json()) as StatsResponse;
+      const release = body.releases.find((r) => r.tag === "v1.0.0")!;
+
+      // Assert
+      expect(release.weekly).toHaveLength(2);
+      expect(release.daily).toEqual([]);
+      expect(release.monthly).toEqual([]);
+    });
+
+    it("should apply from and to to the daily series", async () => {
+      // Arrange
+      await seedDatabase();
+      const from = formatDate(daysBeforeToday(10));
+      const to = formatDate(daysBeforeToday(1));
+
+      // Act
+      const response = await worker.fetch(new Request(`http://localhost/api/stats?from=${from}&to=${to}`), env);
+      const body = (await response.json()) as StatsResponse;
+      const release = body.releases.find((r) => r.tag === "v1.0.0")!;
+
+      // Assert: only the snapshot from 6 days ago falls inside the window
+      expect(release.daily).toEqual([{ date: daysBeforeToday(6), downloads: 1200 }]);
+    });
+
+    it("should include the week containing from in the weekly series", async () => {
+      // Arrange
+      await seedDatabase();
+      const thisWeek = weekTimestamp(todayTimestamp());
+      const from = formatDate(todayTimestamp());
+
+      // Act
+      const response = await worker.fetch(new Request(`http://localhost/api/stats?from=${from}`), env);
+      const body = (await response.json()) as StatsResponse;
+      const release = body.releases.find((r) => r.tag === "v1.0.0")!;
+
+      // Assert
+      expect(release.weekly).toEqual([{ week: thisWeek, downloads: 300 }]);
+    });
+
+    it.each([
+      ["from=2024-13-01", "'from'"],
+      ["to=2024-02-31", "'to'"],
+      ["from=2024-03-01&to=2024-02-01", "'from' must not be after 'to'"],
+      ["granularity=hourly", "'granularity'"],
+      ["tags=,", "'tags'"],
+      ["tags=v1.0.0;DROP", "Invalid release tag"],
+      ["repo=example", "'repo'"],
+      ["repo=example/plugin/extra", "'repo'"],
+      ["limit=0", "'limit'"],
+      ["limit=1.5", "'limit'"],
+      ["limit=101", "'limit'"],
+    ])("should reject invalid query %s with 400", async (search, message) => {
+      // Act
+      const response = await worker.fetch(new Request(`http://localhost/api/stats?${search}`), env);
+
+      // Assert
+      expect(response.status).toBe(400);
+
+      const body = (await response.json()) as { error: string };
+
+      expect(body.error).toContain(message);
+    });
+
+    it("should only return LichtFeld Studio releases without repo", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedPluginRepository();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats"), env);
+      const body = (await response.json()) as StatsResponse;
+
+      // Assert
+      expect(body.releases.map((r) => r.name)).toEqual(["Version 1.0.0", "Version 0.9.0"]);
+      expect(body.totals.allTime).toBe(2000);
+    });
+
+    it("should return the releases of the requested repository", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedPluginRepository();
+
+      // Act: owner and name match case-insensitively
+      const response = await worker.fetch(new Request("http://localhost/api/stats?repo=Example/example-plugin"), env);
+      const body = (await response.json()) as StatsResponse;
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(body.totals.allTime).toBe(42);
+      expect(body.releases).toHaveLength(1);
+      expect(body.releases[0]).toMatchObject({ tag: "v1.0.0", name: "Example Plugin 1.0.0", downloads: 42 });
+      expect(body.releases[0].daily).toEqual([{ date: todayTimestamp(), downloads: 42 }]);
+    });
+
+    it("should return 404 for a repository that is not tracked", async () => {
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats?repo=example/unknown"), env);
+
+      // Assert
+      expect(response.status).toBe(404);
+
+      const body = (await response.json()) as { error: string };
+
+      expect(body.error).toContain("Unknown repository");
+    });
+
+    it("should ignore unknown query parameters", async () => {
+      // Arrange
+      await seedDatabase();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats?v=123"), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Export Tests
+  // -------------------------------------------------------------------------
+
+  describe("GET /api/stats/export", () => {
+    it("should export daily totals as CSV", async () => {
+      // Arrange
+      await seedDatabase();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/export.csv"), env);
+      const text = await response.text();
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toContain("text/csv");
+      expect(response.headers.get("Content-Disposition")).toContain(
+        `lichtfeld-downloads-daily-${formatDate(todayTimestamp())}.csv`,
+      );
+      expect(text.split("\r\n")).toEqual([
+        "date,downloads",
+        `${formatDate(daysBeforeToday(29))},1300`,
+        `${formatDate(daysBeforeToday(6))},1600`,
+        `${formatDate(todayTimestamp())},2000`,
+        "",
+      ]);
+    });
+
+    it("should export weekly rows per release as NDJSON", async () => {
+      // Arrange
+      await seedDatabase();
+      const thisWeek = formatDate(weekTimestamp(todayTimestamp()));
+
+      // Act
+      const response = await worker.fetch(
+        new Request("http://localhost/api/stats/export.ndjson?granularity=weekly&breakdown=release&tags=v1.0.0"),
+        env,
+      );
+      const lines = (await response.text()).trim().split("\n");
+
+      // Assert
+      expect(response.headers.get("Content-Type")).toContain("application/x-ndjson");
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1])).toEqual({ week: thisWeek, release: "v1.0.0", downloads: 300 });
+    });
+
+    it("should name exports of other repositories after the repository", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedPluginRepository();
+
+      // Act
+      const response = await worker.fetch(
+        new Request("http://localhost/api/stats/export.csv?repo=example/Example-Plugin"),
+        env,
+      );
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Disposition")).toMatch(
+        /filename="example-example-plugin-downloads-daily-\d{4}-\d{2}-\d{2}\.csv"/,
+      );
+    });
+
+    it("should stream exports larger than one page", async () => {
+      // Arrange: 1200 daily rows for one release
+      await seedReleases();
+      const today = todayTimestamp();
+
+      for (let offset = 0; offset < 1200; offset += 100) {
+        const values = Array.from(
+          { length: 100 },
+          (_, i) => `(${today - (offset + i) * MS_PER_DAY}, 1, ${offset + i})`,
+        );
+
+        await env.STATS_DB.prepare(
+          `INSERT INTO downloads_daily (date, release_id, count) VALUES ${values.join(", ")}`,
+        ).run();
+      }
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/export.ndjson"), env);
+      const lines = (await response.text()).trim().split("\n");
+
+      // Assert: ordered oldest first across page boundaries
+      expect(lines).toHaveLength(1200);
+      expect(JSON.parse(lines[0]).downloads).toBe(1199);
+      expect(JSON.parse(lines[1199]).downloads).toBe(0);
+    });
+
+    it("should serve CSV from /api/stats when Accept prefers it", async () => {
+      // Arrange
+      await seedDatabase();
+
+      // Act
+      const response = await worker.fetch(
+        new Request("http://localhost/api/stats?granularity=monthly", {
+          headers: { Accept: "application/json;q=0.5, text/csv" },
+        }),
+        env,
+      );
+
+      // Assert
+      expect(response.headers.get("Content-Type")).toContain("text/csv");
+      expect(response.headers.get("Vary")).toBe("Accept");
+      expect((await response.text()).startsWith("month,downloads\r\n")).toBe(true);
+    });
+
+    it("should keep JSON for wildcard Accept headers", async () => {
+      // Act
+      const response = await worker.fetch(
+        new Request("http://localhost/api/stats", { headers: { Accept: "text/html, */*;q=0.8" } }),
+        env,
+      );
+
+      // Assert
+      expect(response.headers.get("Content-Type")).toBe("application/json");
+    });
+
+    it("should reject an invalid breakdown with 400", async () => {
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/export.csv?breakdown=asset"), env);
+
+      // Assert
+      expect(response.status).toBe(400);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Release Comparison Tests
+  // -------------------------------------------------------------------------
+
+  describe("GET /api/stats/compare", () => {
+    it("should align release series on days since publish, oldest release first", async () => {
+      // Arrange
+      await seedAdoptionCurves();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/compare?tags=v1.0.0,v0.9.0"), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as CompareResponse;
+
+      expect(body.days).toBe(90);
+      expect(body.releases.map((r) => r.tag)).toEqual(["v0.9.0", "v1.0.0"]);
+      expect(body.releases[1]).toMatchObject({ name: "Version 1.0.0", downloads: 1500 });
+      expect(body.releases[1].series).toEqual([
+        { day: 0, date: daysBeforeToday(3), cumulative: 100, downloads: 100 },
+        { day: 1, date: daysBeforeToday(2), cumulative: 150, downloads: 50, estimated: true },
+        { day: 3, date: todayTimestamp(), cumulative: 300, downloads: null },
+      ]);
+      expect(body.releases[0].series.map((p) => [p.day, p.downloads])).toEqual([
+        [0, 40],
+        [1, 50],
+        [2, 30],
+        [35, null],
+      ]);
+    });
+
+    it("should only include the requested number of days", async () => {
+      // Arrange
+      await seedAdoptionCurves();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/compare?tags=v0.9.0&days=2"), env);
+      const body = (await response.json()) as CompareResponse;
+
+      // Assert
+      expect(body.days).toBe(2);
+      expect(body.releases[0].series.map((p) => p.day)).toEqual([0, 1]);
+    });
+
+    it("should leave out unknown tags and return empty series without a publish date", async () => {
+      // Arrange
+      await seedReleases();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/compare?tags=v1.0.0,v9.9.9"), env);
+      const body = (await response.json()) as CompareResponse;
+
+      // Assert
+      expect(body.releases).toEqual([
+        { tag: "v1.0.0", name: "Version 1.0.0", publishedAt: null, downloads: 1500, series: [] },
+      ]);
+    });
+
+    it("should compare releases of the requested repository", async () => {
+      // Arrange
+      await seedAdoptionCurves();
+      await seedPluginRepository();
+
+      // Act
+      const response = await worker.fetch(
+        new Request("http://localhost/api/stats/compare?tags=v1.0.0&repo=example/Example-Plugin"),
+        env,
+      );
+      const body = (await response.json()) as CompareResponse;
+
+      // Assert
+      expect(body.releases).toEqual([
+        { tag: "v1.0.0", name: "Example Plugin 1.0.0", publishedAt: null, downloads: 42, series: [] },
+      ]);
+    });
+
+    it.each([
+      ["", "'tags' is required"],
+      ["?tags=" + Array.from({ length: 11 }, (_, i) => `v0.${i}.0`).join(","), "at most 10 release tags"],
+      ["?tags=v1.0.0&days=0", "Invalid 'days'"],
+      ["?tags=v1.0.0&days=731", "Invalid 'days'"],
+      ["?tags=v1.0.0&days=1.5", "Invalid 'days'"],
+    ])("should reject %s with 400", async (search, message) => {
+      // Act
+      const response = await worker.fetch(new Request(`http://localhost/api/stats/compare${search}`), env);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as { error: string }).error).toContain(message);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Repository Metrics Tests
+  // -------------------------------------------------------------------------
+
+  describe("GET /api/stats/repo", () => {
+    it("should return the latest snapshot and the last year of metrics and traffic", async () => {
+      // Arrange
+      await seedRepoMetrics();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/repo"), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as RepoStatsResponse;
+
+      expect(body).toMatchObject({ asOf: formatDate(todayTimestamp()), repository: "MrNeRF/LichtFeld-Studio" });
+      expect(body.latest).toEqual({ date: todayTimestamp(), stars: 2410, forks: 181, watchers: 45, openIssues: 60 });
+      expect(body.daily.map((day) => day.stars)).toEqual([2400, 2410]);
+      expect(body.traffic).toEqual([
+        { date: daysBeforeToday(2), clones: 12, uniqueClones: 8, views: 300, uniqueViews: 120 },
+        { date: daysBeforeToday(1), clones: 7, uniqueClones: 5, views: 250, uniqueViews: 90 },
+      ]);
+    });
+
+    it("should limit the series to from/to but keep the latest snapshot", async () => {
+      // Arrange
+      await seedRepoMetrics();
+
+      const day = formatDate(daysBeforeToday(1));
+
+      // Act
+      const response = await worker.fetch(new Request(`http://localhost/api/stats/repo?from=${day}&to=${day}`), env);
+      const body = (await response.json()) as RepoStatsResponse;
+
+      // Assert
+      expect(body.daily.map((snapshot) => snapshot.date)).toEqual([daysBeforeToday(1)]);
+      expect(body.traffic.map((traffic) => traffic.date)).toEqual([daysBeforeToday(1)]);
+      expect(body.latest?.stars).toBe(2410);
+    });
+
+    it("should return empty series before the first collection", async () => {
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/repo"), env);
+      const body = (await response.json()) as RepoStatsResponse;
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(body).toMatchObject({ asOf: formatDate(todayTimestamp()), latest: null, daily: [], traffic: [] });
+    });
+
+    it.each([
+      ["?repo=unknown/repository", 404, "Unknown repository 'unknown/repository'"],
+      ["?repo=not-a-repo", 400, "Invalid 'repo'"],
+      ["?from=2024-02-01&to=2024-01-01", 400, "'from' must not be after 'to'"],
+    ])("should reject %s", async (search, status, message) => {
+      // Act
+      const response = await worker.fetch(new Request(`http://localhost/api/stats/repo${search}`), env);
+
+      // Assert
+      expect(response.status).toBe(status);
+      expect(((await response.json()) as { error: string }).error).toContain(message);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Contributors Tests
+  // -------------------------------------------------------------------------
+
+  describe("GET /api/stats/contributors", () => {
+    it("should return a year of monthly activity with the top and first-time contributors", async () => {
+      // Arrange
+      await seedContributorActivity();
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/contributors"), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as ContributorsResponse;
+
+      expect(body).toMatchObject({ asOf: formatDate(todayTimestamp()), repository: "MrNeRF/LichtFeld-Studio" });
+      expect(body.months.map((month) => month.month)).toEqual(Array.from({ length: 12 }, (_, i) => monthsAgo(11 - i)));
+      expect(body.months.slice(0, 10).every((month) => month.contributors === 0 && month.commits === 0)).toBe(true);
+      expect(body.months.slice(10)).toEqual([
+        { month: monthsAgo(1), contributors: 2, newContributors: 1, commits: 5, pullRequests: 2, issues: 1 },
+        { month: monthsAgo(0), contributors: 2, newContributors: 1, commits: 3, pullRequests: 1, issues: 1 },
+      ]);
+      expect(body.topContributors).toEqual([
+        {
+          login: "alice",
+          avatarUrl: "https://avatars.example/alice",
+          commits: 8,
+          pullRequests: 1,
+          issues: 0,
+          firstContribution: monthsAgo(20),
+        },
+        { login: "bob", avatarUrl: null, commits: 0, pullRequests: 2, issues: 1, firstContribution: monthsAgo(1) },
+        { login: "carol", avatarUrl: null, commits: 0, pullRequests: 0, issues: 1, firstContribution: monthsAgo(0) },
+      ]);
+      expect(body.firstTimeContributors.map((contributor) => contributor.login)).toEqual(["carol", "bob"]);
+    });
+
+    it("should cover the months of from/to and apply limit to both lists", async () => {
+      // Arrange
+      await seedContributorActivity();
+
+      const from = formatDate(monthsAgo(13) + 14 * MS_PER_DAY);
+
+      // Act
+      const window = (await (
+        await worker.fetch(new Request(`http://localhost/api/stats/contributors?from=${from}&to=${from}`), env)
+      ).json()) as ContributorsResponse;
+      const limited = (await (
+        await worker.fetch(new Request("http://localhost/api/stats/contributors?limit=1"), env)
+      ).json()) as ContributorsResponse;
+
+      // Assert
+      expect(window.months).toEqual([
+        { month: monthsAgo(13), contributors: 1, newContributors: 1, commits: 4, pullRequests: 0, issues: 0 },
+      ]);
+      expect(window.topContributors.map((contributor) => contributor.login)).toEqual(["dave"]);
+      expect(limited.topContributors.map((contributor) => contributor.login)).toEqual(["alice"]);
+      expect(limited.firstTimeContributors.map((contributor) => contributor.login)).toEqual(["carol"]);
+    });
+
+    it("should return empty months before the first refresh", async () => {
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/contributors"), env);
+      const body = (await response.json()) as ContributorsResponse;
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(body.months).toHaveLength(12);
+      expect(body).toMatchObject({
+        asOf: formatDate(todayTimestamp()),
+        topContributors: [],
+        firstTimeContributors: [],
+      });
+    });
+
+    it.each([
+      ["?repo=unknown/repository", 404, "Unknown repository 'unknown/repository'"],
+      ["?limit=0", 400, "Invalid 'limit'"],
+    ])("should reject %s", async (search, status, message) => {
+      // Act
+      const response = await worker.fetch(new Request(`http://localhost/api/stats/contributors${search}`), env);
+
+      // Assert
+      expect(response.status).toBe(status);
+      expect(((await response.json()) as { error: string }).error).toContain(message);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Badge Tests
+  // -------------------------------------------------------------------------
+
+  describe("GET /api/badge", () => {
+    /** Fetches a badge and returns its status, headers and SVG text. */
+    async function fetchBadge(path: string): Promise<{ status: number; headers: Headers; svg: string }> {
+      const response = await worker.fetch(new Request(`http://localhost${path}`), env);
+
+      return { status: response.status, headers: response.headers, svg: await response.text() };
+    }
+
+    it("should render the all-time download total", async () => {
+      // Arrange
+      await seedDatabase();
+
+      // Act
+      const { status, headers, svg } = await fetchBadge("/api/badge/downloads.svg");
+
+      // Assert
+      expect(status).toBe(200);
+      expect(headers.get("Content-Type")).toBe("image/svg+xml; charset=utf-8");
+      expect(headers.get("Cache-Control")).toBe("public, max-age=3600");
+      expect(headers.get("Access-Control-Allow-Origin")).toBe("*");
+      expect(svg).toContain("<title>downloads: 2k</title>");
+    });
+
+    it("should name a single requested release in the label", async () => {
+      // Arrange
+      await seedDatabase();
+
+      // Act
+      const { svg } = await fetchBadge("/api/badge/downloads.svg?tags=v1.0.0");
+
+      // Assert
+      expect(svg).toContain("<title>downloads@v1.0.0: 1.5k</title>");
+    });
+
+    it("should render downloads for the current week and month", async () => {
+      // Arrange
+      await seedDatabase();
+
+      // Act
+      const week = await fetchBadge("/api/badge/downloads.svg?period=week");
+      const month = await fetchBadge("/api/badge/downloads.svg?period=month&tags=v0.9.0");
+
+      // Assert
+      expect(week.svg).toContain("<title>this week: 400</title>");
+      expect(month.svg).toContain("<title>this month@v0.9.0: 200</title>");
+    });
+
+    it("should render the latest release, ignoring nightly builds", async () => {
+      // Arrange
+      await seedReleases();
+      await env.STATS_DB.batch([
+        env.STATS_DB.prepare("UPDATE releases SET published_at = ? WHERE tag = 'v0.9.0'").bind(daysBeforeToday(30)),
+        env.STATS_DB.prepare("UPDATE releases SET published_at = ? WHERE tag = 'v1.0.0'").bind(daysBeforeToday(10)),
+        env.STATS_DB.prepare(
+          "INSERT INTO releases (id, tag, name, total_downloads, published_at) VALUES (9, 'nightly', 'Nightly', 5, ?)",
+        ).bind(daysBeforeToday(1)),
+      ]);
+
+      // Act
+      const { status, svg } = await fetchBadge("/api/badge/latest.svg");
+
+      // Assert
+      expect(status).toBe(200);
+      expect(svg).toContain("<title>latest: v1.0.0</title>");
+    });
+
+    it("should apply label, color and style options", async () => {
+      // Arrange
+      await seedDatabase();
+
+      // Act
+      const { svg } = await fetchBadge("/api/badge/downloads.svg?label=installs&color=ff69b4&style=for-the-badge");
+
+      // Assert
+      expect(svg).toContain("<title>installs: 2k</title>");
+      expect(svg).toContain('fill="#ff69b4"');
+      expect(svg).toContain('height="28"');
+    });
+
+    it("should render plugin repository badges", async () => {
+      // Arrange
+      await seedDatabase();
+      await seedPluginRepository();
+
+      // Act
+      const { svg } = await fetchBadge("/api/badge/downloads.svg?repo=example/example-plugin");
+
+      // Assert
+      expect(svg).toContain("<title>downloads: 42</title>");
+    });
+
+    it("should render invalid parameters as an uncached error badge", async () => {
+      // Act
+      const { status, headers, svg } = await fetchBadge("/api/badge/downloads.svg?style=3d");
+
+      // Assert
+      expect(status).toBe(400);
+      expect(headers.get("Content-Type")).toBe("image/svg+xml; charset=utf-8");
+      expect(headers.get("Cache-Control")).toBe("no-store");
+      expect(svg).toContain("Invalid &#39;style&#39;");
+    });
+
+    it("should answer 404 for unknown badges and repositories", async () => {
+      // Act
+      const unknownBadge = await fetchBadge("/api/badge/stars.svg");
+      const unknownRepo = await fetchBadge("/api/badge/downloads.svg?repo=nobody/nothing");
+
+      // Assert
+      expect(unknownBadge.status).toBe(404);
+      expect(unknownRepo.status).toBe(404);
+      expect(unknownRepo.svg).toContain("Unknown repository &#39;nobody/nothing&#39;");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Health Tests
+  // -------------------------------------------------------------------------
+
+  describe("GET /api/stats/health", () => {
+    /**
+     * Inserts a finished collection run that started `hoursAgo` hours ago.
+     */
+    async function seedRun(status: "success" | "error", hoursAgo: number, error: string | null = null): Promise<void> {
+      const startedAt = Date.now() - hoursAgo * 60 * 60 * 1000;
+
+      await env.STATS_DB.prepare(
+        `
+          INSERT INTO collection_runs (trigger, status, started_at, finished_at, duration_ms, error, rate_limit_remaining)
+          VALUES ('scheduled', ?, ?, ?, 1000, ?, 4990)
+      `,
+      )
+        .bind(status, startedAt, startedAt + 1000, error)
+        .run();
+    }
+
+    it("should report ok after a recent successful collection", async () => {
+      // Arrange
+      await seedRun("success", 1);
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/health"), env);
+      const body = (await response.json()) as { status: string; consecutiveFailures: number; lastRun: unknown };
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Cache-Control")).toBe("no-store");
+      expect(body.status).toBe("ok");
+      expect(body.consecutiveFailures).toBe(0);
+      expect(body.lastRun).toMatchObject({ status: "success", durationMs: 1000, rateLimitRemaining: 4990 });
+    });
+
+    it("should report stale when the last success is too old", async () => {
+      // Arrange
+      await seedRun("success", 5);
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/health"), env);
+      const body = (await response.json()) as { status: string; stalenessMs: number };
+
+      // Assert
+      expect(response.status).toBe(503);
+      expect(body.status).toBe("stale");
+      expect(body.stalenessMs).toBeGreaterThan(4 * 60 * 60 * 1000);
+    });
+
+    it("should count consecutive failures since the last success", async () => {
+      // Arrange
+      await seedRun("error", 4, "GitHub API error: 500");
+      await seedRun("success", 2);
+      await seedRun("error", 1.5, "GitHub API error: 502");
+      await seedRun("error", 1, "GitHub API error: 502");
+      await seedRun("error", 0.5, "GitHub API error: 403");
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/health"), env);
+      const body = (await response.json()) as {
+        status: string;
+        consecutiveFailures: number;
+        lastRun: { error: string };
+      };
+
+      // Assert
+      expect(response.status).toBe(503);
+      expect(body.status).toBe("failing");
+      expect(body.consecutiveFailures).toBe(3);
+      expect(body.lastRun.error).toBe("GitHub API error: 403");
+    });
+
+    it("should report stale when nothing was ever collected", async () => {
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats/health"), env);
+      const body = (await response.json()) as { status: string; lastSuccessAt: number | null; lastRun: null };
+
+      // Assert
+      expect(response.status).toBe(503);
+      expect(body.status).toBe("stale");
+      expect(body.lastSuccessAt).toBeNull();
+      expect(body.lastRun).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Empty Database Tests
+  // -------------------------------------------------------------------------
+
+  describe("Empty Database", () => {
+    it("should return zeros for empty database", async () => {
+      // Arrange: Database is already empty after clearDatabase
+
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats"), env);
+      const body = (await response.json()) as StatsResponse;
+
+      // Assert
+      expect(body.totals.allTime).toBe(0);
+      expect(body.releases).toHaveLength(0);
+      expect(body.platforms).toHaveLength(0);
+    });
+
+    it("should still include asOf date for empty database", async () => {
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/api/stats"), env);
+      const body = (await response.json()) as StatsResponse;
+
+      // Assert
+      const expectedDate = formatDate(todayTimestamp());
+
+      expect(body.asOf).toBe(expectedDate);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Contract Tests
+  // -------------------------------------------------------------------------
+
+  /**
+   * Responses are validated in strict mode against shared/stats-schema, the
+   * contract the website is built against, so a field added, removed or
+   * retyped on either side fails here.
+   */
+  describe("Response contract", () => {
+    async function fetchJson(path: string): Promise<unknown> {
+      const response = await worker.fetch(new Request(`http://localhost${path}`), env);
+
+      return response.json();
+    }
+
+    it("should match the stats schema with every section populated", async () => {
+      // Arrange: platforms, annotations, an estimated snapshot and a forecast
+      await seedDatabase();
+      await seedPlatformData();
+      await seedAnomalies();
+      await seedWeeklyHistory();
+      await env.STATS_DB.prepare("UPDATE downloads_daily SET estimated = 1 WHERE date = ?")
+        .bind(daysBeforeToday(1))
+        .run();
+
+      // Act
+      const body = await fetchJson("/api/stats");
+      const result = validateStatsResponse(body, { strict: true });
+
+      // Assert
+      expect(result.ok ? [] : result.errors).toEqual([]);
+      expect(body).toMatchObject({ apiVersion: STATS_API_VERSION, forecast: { model: "holt" } });
+      expect((body as StatsResponse).platforms.length).toBeGreaterThan(0);
+      expect((body as StatsResponse).annotations.length).toBeGreaterThan(0);
+    });
+
+    it.each(["", "?granularity=weekly&tags=v1.0.0", "?limit=1&to=" + formatDate(daysBeforeToday(1))])(
+      "should match the stats schema for query %j and an empty database",
+      async (search) => {
+        // Arrange: an empty database first, then the seeded one
+        const empty = validateStatsResponse(await fetchJson(`/api/stats${search}`), { strict: true });
+
+        await seedDatabase();
+
+        // Act
+        const seeded = validateStatsResponse(await fetchJson(`/api/stats${search}`), { strict: true });
+
+        // Assert
+        expect(empty.ok ? [] : empty.errors).toEqual([]);
+        expect(seeded.ok ? [] : seeded.errors).toEqual([]);
+      },
+    );
+
+    it("should match the compare schema", async () => {
+      // Arrange
+      await seedAdoptionCurves();
+
+      // Act
+      const result = validateCompareResponse(await fetchJson("/api/stats/compare?tags=v1.0.0,v0.9.0"), {
+        strict: true,
+      });
+
+      // Assert
+      expect(result.ok ? [] : result.errors).toEqual([]);
+    });
+
+    it("should match the repository schema", async () => {
+      // Arrange
+      await seedRepoMetrics();
+
+      // Act
+      const result = validateRepoStatsResponse(await fetchJson("/api/stats/repo"), { strict: true });
+
+      // Assert
+      expect(result.ok ? [] : result.errors).toEqual([]);
+    });
+
+    it("should match the contributors schema", async () => {
+      // Arrange
+      await seedContributorActivity();
+
+      // Act
+      const result = validateContributorsResponse(await fetchJson("/api/stats/contributors"), { strict: true });
+
+      // Assert
+      expect(result.ok ? [] : result.errors).toEqual([]);
+    });
+
+    it("should match the health schema whether healthy or not", async () => {
+      // Act: no runs yet (stale, 503), then a successful run
+      const stale = validateHealthResponse(await fetchJson("/api/stats/health"), { strict: true });
+
+      await env.STATS_DB.prepare(
+        `
+          INSERT INTO collection_runs (trigger, status, started_at, finished_at, duration_ms, rate_limit_remaining)
+          VALUES ('scheduled', 'success', ?, ?, 1000, 4990)
+      `,
+      )
+        .bind(Date.now() - 1000, Date.now())
+        .run();
+
+      const ok = validateHealthResponse(await fetchJson("/api/stats/health"), { strict: true });
+
+      // Assert
+      expect(stale.ok ? [] : stale.errors).toEqual([]);
+      expect(ok.ok ? [] : ok.errors).toEqual([]);
+    });
+
+    it("should reject a response from another API version", async () => {
+      // Arrange
+      const body = { ...((await fetchJson("/api/stats")) as StatsResponse), apiVersion: STATS_API_VERSION + 1 };
+
+      // Act
+      const result = validateStatsResponse(body);
+
+      // Assert
+      expect(result).toEqual({ ok: false, errors: [expect.stringContaining("apiVersion")] });
     });
   });
 
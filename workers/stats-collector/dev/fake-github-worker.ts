@@ -0,0 +1,121 @@
+/**
+ * workers/stats-collector/dev/fake-github-worker.ts
+ *
+ * Serves the fake GitHub API (./fake-github) over HTTP so `wrangler dev` of
+ * the collector can run against it without network access:
+ *
+ *   pnpm dev:fake-github   # fake API on http://localhost:8788
+ *   pnpm dev:local         # collector on http://localhost:8787, GITHUB_API_URL pointing at the fake
+ *
+ * The fixtures live in the worker's memory and start over when it restarts.
+ * Control routes change them between collections:
+ *
+ *   GET  /_fake/requests    - Requests served so far
+ *   POST /_fake/downloads   - { repo, tag, downloads: { assetName: count } }
+ *   POST /_fake/publish     - { repo, tag, publishedAt?, downloads, prerelease? }
+ *   POST /_fake/reupload    - { repo, tag, asset, downloadCount? }
+ *   POST /_fake/contribute  - { repo, login, kind: commit | pull_request | issue, date? }
+ *   POST /_fake/fail        - { status, times?, path? }
+ *   POST /_fake/rate-limit  - Spend the rest of the hour's budget
+ *   POST /_fake/reset       - Back to the starting fixtures
+ */
+
+import { createFakeGitHub, fakeRelease } from "./fake-github";
+import type { FakeContribution, FakeGitHub } from "./fake-github";
+import { LICHTFELD_REPOSITORY, lichtfeldRepository } from "./fixtures";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ControlBody {
+  repo?: string;
+  tag?: string;
+  publishedAt?: string;
+  downloads?: Record<string, number>;
+  prerelease?: boolean;
+  asset?: string;
+  downloadCount?: number;
+  status?: number;
+  times?: number;
+  path?: string;
+  login?: string;
+  kind?: FakeContribution["kind"];
+  date?: string;
+}
+
+// =============================================================================
+// State
+// =============================================================================
+
+let fake: FakeGitHub = createFakeGitHub({ repositories: [lichtfeldRepository()] });
+
+// =============================================================================
+// Control Routes
+// =============================================================================
+
+async function handleControl(request: Request, action: string): Promise<Response> {
+  if (request.method === "GET" && action === "requests") {
+    return Response.json(fake.requests);
+  }
+
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const body: ControlBody = await request.json<ControlBody>().catch(() => ({}));
+  const repo = body.repo ?? LICHTFELD_REPOSITORY;
+
+  switch (action) {
+    case "downloads":
+      fake.addDownloads(repo, body.tag ?? "", body.downloads ?? {});
+      break;
+    case "publish":
+      fake.publish(
+        repo,
+        fakeRelease(body.tag ?? "", body.publishedAt ?? new Date().toISOString(), body.downloads ?? {}, {
+          prerelease: body.prerelease,
+        }),
+      );
+      break;
+    case "reupload":
+      fake.reupload(repo, body.tag ?? "", body.asset ?? "", body.downloadCount);
+      break;
+    case "contribute":
+      fake.contribute(repo, body.login ?? "", body.kind ?? "commit", body.date);
+      break;
+    case "fail":
+      fake.fail(body.status ?? 500, { times: body.times, path: body.path });
+      break;
+    case "rate-limit":
+      fake.exhaustRateLimit();
+      break;
+    case "reset":
+      fake = createFakeGitHub({ repositories: [lichtfeldRepository()] });
+      break;
+    default:
+      return Response.json({ error: `Unknown control route '${action}'` }, { status: 404 });
+  }
+
+  return Response.json({ status: "ok" });
+}
+
+// =============================================================================
+// Worker Export
+// =============================================================================
+
+export default {
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname.startsWith("/_fake/")) {
+      try {
+        return await handleControl(request, url.pathname.slice("/_fake/".length));
+      } catch (error) {
+        return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+      }
+    }
+
+    return fake.fetch(request);
+  },
+};
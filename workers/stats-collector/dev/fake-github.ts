@@ -0,0 +1,537 @@
+/**
+ * workers/stats-collector/dev/fake-github.ts
+ *
+ * In-memory stand-in for the parts of the GitHub REST API the collector uses:
+ *
+ *   GET /repos/{owner}/{repo}                           - Repository counts
+ *   GET /repos/{owner}/{repo}/releases?per_page&page     - Paginated releases with assets
+ *   GET /repos/{owner}/{repo}/traffic/{clones,views}     - Daily traffic (token required)
+ *   GET /repos/{owner}/{repo}/commits?since&per_page&page - Commits, newest first
+ *   GET /repos/{owner}/{repo}/issues?per_page&page       - Issues and pull requests, newest first
+ *   GET /repos/{owner}/{repo}/stats/contributors         - Weekly commits per author
+ *
+ * Responses carry X-RateLimit-* headers from a per-hour budget that follows
+ * Date.now(), so fake timers move the reset along. Release pages send an ETag
+ * and answer a matching If-None-Match with 304, which like GitHub's doesn't
+ * spend the budget. Errors and rate-limit exhaustion are injected with fail()
+ * and exhaustRateLimit().
+ *
+ * The fixtures are plain objects: scenarios change download counts, publish
+ * releases and re-upload assets between collections. Used by the scenario
+ * runs (../scenarios) through a stubbed fetch, and served over HTTP for
+ * `wrangler dev` by ./fake-github-worker.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FakeAsset {
+  id: number;
+  name: string;
+  download_count: number;
+  created_at: string;
+}
+
+export interface FakeRelease {
+  tag_name: string;
+  name: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string;
+  assets: FakeAsset[];
+}
+
+/** One day of clones or views as GitHub reports it. */
+export interface FakeTrafficDay {
+  timestamp: string;
+  count: number;
+  uniques: number;
+}
+
+/** A commit, pull request or issue by a contributor. */
+export interface FakeContribution {
+  login: string;
+  kind: "commit" | "pull_request" | "issue";
+  /** ISO 8601 commit or creation date */
+  date: string;
+}
+
+export interface FakeRepository {
+  owner: string;
+  name: string;
+  /** Newest first, like GitHub lists them */
+  releases: FakeRelease[];
+  stargazers_count: number;
+  forks_count: number;
+  subscribers_count: number;
+  open_issues_count: number;
+  /** Daily traffic, or null to answer 403 as for a token without push access */
+  traffic: { clones: FakeTrafficDay[]; views: FakeTrafficDay[] } | null;
+  /** In the order they happened */
+  contributions: FakeContribution[];
+}
+
+/** A request served by the fake, in arrival order. */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  status: number;
+  /** Date.now() when it was served */
+  at: number;
+}
+
+export interface FakeGitHubOptions {
+  repositories: FakeRepository[];
+  /** Requests per hour (default 5000) */
+  rateLimit?: number;
+}
+
+export interface FakeGitHub {
+  /** Drop-in for the global fetch; routes on the path, whatever the host */
+  fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
+  /** Every request served so far */
+  readonly requests: FakeRequest[];
+  /** Looks up a repository by "owner/name" (case-insensitive) */
+  repository(fullName: string): FakeRepository;
+  /** Looks up a release of a repository by tag */
+  release(fullName: string, tag: string): FakeRelease;
+  /** Adds downloads to a release's assets, keyed by asset name */
+  addDownloads(fullName: string, tag: string, downloads: Record<string, number>): void;
+  /** Lists a new release first, as GitHub does */
+  publish(fullName: string, release: FakeRelease): void;
+  /** Records a commit, pull request or issue by `login`, now unless `date` is given */
+  contribute(fullName: string, login: string, kind: FakeContribution["kind"], date?: string): void;
+  /** Replaces an asset with a new upload of the same name, which starts from `downloadCount` */
+  reupload(fullName: string, tag: string, assetName: string, downloadCount?: number): FakeAsset;
+  /** Answers the next `times` requests (whose path starts with `path`, when given) with `status` */
+  fail(status: number, options?: { times?: number; path?: string }): void;
+  /** Spends the rest of the hour's budget, so requests get 403 until the reset */
+  exhaustRateLimit(): void;
+}
+
+interface PendingFailure {
+  status: number;
+  times: number;
+  path: string | null;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MS_PER_HOUR = 3600000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+const DEFAULT_RATE_LIMIT = 5000;
+
+/** GitHub's default and maximum per_page */
+const DEFAULT_PER_PAGE = 30;
+const MAX_PER_PAGE = 100;
+
+/** GitHub reports the last 14 days of traffic */
+const TRAFFIC_DAYS = 14;
+
+const DOCUMENTATION_URL = "https://docs.github.com/rest";
+
+const REPOSITORY_PATH =
+  /^\/repos\/([^/]+)\/([^/]+)(?:\/(releases|traffic\/clones|traffic\/views|commits|issues|stats\/contributors))?\/?$/;
+
+let nextAssetId = 1;
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+/**
+ * Builds a published release whose assets start at the given download counts.
+ * Asset IDs are unique across every fixture built in the process.
+ */
+export function fakeRelease(
+  tag: string,
+  publishedAt: string,
+  downloads: Record<string, number>,
+  options: { prerelease?: boolean; draft?: boolean } = {},
+): FakeRelease {
+  return {
+    tag_name: tag,
+    name: tag,
+    draft: options.draft ?? false,
+    prerelease: options.prerelease ?? false,
+    published_at: publishedAt,
+    assets: Object.entries(downloads).map(([name, count]) => fakeAsset(name, count, publishedAt)),
+  };
+}
+
+function fakeAsset(name: string, downloadCount: number, createdAt: string): FakeAsset {
+  return { id: nextAssetId++, name, download_count: downloadCount, created_at: createdAt };
+}
+
+/** Builds a repository without releases, traffic or contributions. */
+export function fakeRepository(fullName: string, releases: FakeRelease[] = []): FakeRepository {
+  const [owner, name] = fullName.split("/");
+
+  return {
+    owner,
+    name,
+    releases,
+    stargazers_count: 0,
+    forks_count: 0,
+    subscribers_count: 0,
+    open_issues_count: 0,
+    traffic: null,
+    contributions: [],
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** FNV-1a, enough to tell response bodies apart for ETags. */
+function hashBody(body: string): string {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < body.length; i++) {
+    hash ^= body.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function parsePageParam(value: string | null, fallback: number): number {
+  const parsed = Number(value);
+
+  return value !== null && Number.isInteger(parsed) && parsed >= 1 ? parsed : fallback;
+}
+
+function fakeUser(login: string): { login: string; avatar_url: string; type: string } {
+  return { login, avatar_url: `https://avatars.githubusercontent.com/${login}`, type: "User" };
+}
+
+/** Contributions of the given kinds, newest first, as GitHub lists them. */
+function newestFirst(repo: FakeRepository, kinds: Array<FakeContribution["kind"]>): FakeContribution[] {
+  return repo.contributions
+    .filter((entry) => kinds.includes(entry.kind))
+    .sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+}
+
+function errorBody(message: string): string {
+  return JSON.stringify({ message, documentation_url: DOCUMENTATION_URL });
+}
+
+// =============================================================================
+// Fake API
+// =============================================================================
+
+/** Creates a fake GitHub API serving the given repositories. */
+export function createFakeGitHub(options: FakeGitHubOptions): FakeGitHub {
+  const repositories = new Map(options.repositories.map((repo) => [`${repo.owner}/${repo.name}`.toLowerCase(), repo]));
+  const limit = options.rateLimit ?? DEFAULT_RATE_LIMIT;
+  const requests: FakeRequest[] = [];
+  const failures: PendingFailure[] = [];
+  let remaining = limit;
+  let reset = 0;
+
+  /** Starts a new budget once the hour of the last one is over. */
+  function refreshBudget(): void {
+    const now = Date.now();
+
+    if (now >= reset) {
+      remaining = limit;
+      reset = Math.floor(now / MS_PER_HOUR) * MS_PER_HOUR + MS_PER_HOUR;
+    }
+  }
+
+  function rateLimitHeaders(): Record<string, string> {
+    return {
+      "X-RateLimit-Limit": String(limit),
+      "X-RateLimit-Remaining": String(remaining),
+      "X-RateLimit-Used": String(limit - remaining),
+      "X-RateLimit-Reset": String(Math.floor(reset / 1000)),
+      "X-RateLimit-Resource": "core",
+    };
+  }
+
+  function respond(status: number, body: string | null, headers: Record<string, string> = {}): Response {
+    return new Response(body, {
+      status,
+      headers: { ...(body === null ? {} : { "Content-Type": "application/json" }), ...rateLimitHeaders(), ...headers },
+    });
+  }
+
+  function takeFailure(path: string): PendingFailure | null {
+    const failure = failures.find((entry) => entry.path === null || path.startsWith(entry.path));
+
+    if (!failure) {
+      return null;
+    }
+
+    if (--failure.times === 0) {
+      failures.splice(failures.indexOf(failure), 1);
+    }
+
+    return failure;
+  }
+
+  /** The requested page of `items`, with Link headers to the next and last pages. */
+  function paginate<T>(items: T[], url: URL): { body: string; headers: Record<string, string> } {
+    const perPage = Math.min(parsePageParam(url.searchParams.get("per_page"), DEFAULT_PER_PAGE), MAX_PER_PAGE);
+    const page = parsePageParam(url.searchParams.get("page"), 1);
+    const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+    const body = JSON.stringify(items.slice((page - 1) * perPage, page * perPage));
+    const headers: Record<string, string> = {};
+
+    if (page < lastPage) {
+      const link = (target: number): string => {
+        const next = new URL(url);
+
+        next.searchParams.set("per_page", String(perPage));
+        next.searchParams.set("page", String(target));
+
+        return next.toString();
+      };
+
+      headers.Link = `<${link(page + 1)}>; rel="next", <${link(lastPage)}>; rel="last"`;
+    }
+
+    return { body, headers };
+  }
+
+  function listReleases(repo: FakeRepository, url: URL, ifNoneMatch: string | null): Response {
+    const { body, headers } = paginate(repo.releases, url);
+    const etag = `W/"${hashBody(body)}"`;
+
+    headers.ETag = etag;
+
+    if (ifNoneMatch === etag) {
+      return respond(304, null, headers);
+    }
+
+    remaining--;
+
+    return respond(200, body, headers);
+  }
+
+  function trafficResponse(repo: FakeRepository, kind: "clones" | "views", authorized: boolean): Response {
+    remaining--;
+
+    if (!authorized || repo.traffic === null) {
+      return respond(403, errorBody("Must have push access to repository"));
+    }
+
+    const days = repo.traffic[kind].slice(-TRAFFIC_DAYS);
+
+    return respond(
+      200,
+      JSON.stringify({
+        count: days.reduce((sum, day) => sum + day.count, 0),
+        uniques: days.reduce((sum, day) => sum + day.uniques, 0),
+        [kind]: days,
+      }),
+    );
+  }
+
+  function listCommits(repo: FakeRepository, url: URL): Response {
+    const since = url.searchParams.has("since") ? Date.parse(url.searchParams.get("since")!) : -Infinity;
+    const commits = newestFirst(repo, ["commit"])
+      .filter((entry) => Date.parse(entry.date) >= since)
+      .map((entry, i) => ({
+        sha: hashBody(`${entry.login}:${entry.date}:${i}`),
+        author: fakeUser(entry.login),
+        commit: { author: { name: entry.login, date: entry.date } },
+      }));
+    const { body, headers } = paginate(commits, url);
+
+    remaining--;
+
+    return respond(200, body, headers);
+  }
+
+  function listIssues(repo: FakeRepository, url: URL): Response {
+    const issues = newestFirst(repo, ["issue", "pull_request"]).map((entry, i, all) => ({
+      number: all.length - i,
+      user: fakeUser(entry.login),
+      created_at: entry.date,
+      ...(entry.kind === "pull_request" ? { pull_request: { url: `${url.origin}/pulls/${all.length - i}` } } : {}),
+    }));
+    const { body, headers } = paginate(issues, url);
+
+    remaining--;
+
+    return respond(200, body, headers);
+  }
+
+  /** Weekly commit counts per author; weeks without commits are left out. */
+  function contributorStats(repo: FakeRepository): Response {
+    const authors = new Map<string, Map<number, number>>();
+
+    for (const entry of repo.contributions.filter((contribution) => contribution.kind === "commit")) {
+      // Weeks start on Sunday 00:00 UTC, in Unix seconds
+      const date = new Date(entry.date);
+      const week = (Math.floor(date.getTime() / MS_PER_DAY) - date.getUTCDay()) * (MS_PER_DAY / 1000);
+      const weeks = authors.get(entry.login) ?? new Map<number, number>();
+
+      weeks.set(week, (weeks.get(week) ?? 0) + 1);
+      authors.set(entry.login, weeks);
+    }
+
+    remaining--;
+
+    return respond(
+      200,
+      JSON.stringify(
+        [...authors].map(([login, weeks]) => ({
+          author: fakeUser(login),
+          total: [...weeks.values()].reduce((sum, count) => sum + count, 0),
+          weeks: [...weeks].sort(([a], [b]) => a - b).map(([w, c]) => ({ w, a: 0, d: 0, c })),
+        })),
+      ),
+    );
+  }
+
+  function route(request: Request): Response {
+    const url = new URL(request.url);
+
+    refreshBudget();
+
+    if (request.method !== "GET") {
+      remaining--;
+
+      return respond(404, errorBody("Not Found"));
+    }
+
+    const failure = takeFailure(url.pathname);
+
+    if (failure) {
+      remaining--;
+
+      return respond(failure.status, errorBody("Injected failure"));
+    }
+
+    if (remaining <= 0) {
+      return respond(403, errorBody("API rate limit exceeded"));
+    }
+
+    const match = REPOSITORY_PATH.exec(url.pathname);
+    const repo = match ? repositories.get(`${match[1]}/${match[2]}`.toLowerCase()) : undefined;
+
+    if (!match || !repo) {
+      remaining--;
+
+      return respond(404, errorBody("Not Found"));
+    }
+
+    switch (match[3]) {
+      case "releases":
+        return listReleases(repo, url, request.headers.get("If-None-Match"));
+      case "traffic/clones":
+      case "traffic/views":
+        return trafficResponse(
+          repo,
+          match[3] === "traffic/clones" ? "clones" : "views",
+          request.headers.has("Authorization"),
+        );
+      case "commits":
+        return listCommits(repo, url);
+      case "issues":
+        return listIssues(repo, url);
+      case "stats/contributors":
+        return contributorStats(repo);
+      default: {
+        remaining--;
+
+        const { releases: _releases, traffic: _traffic, contributions: _contributions, ...fields } = repo;
+
+        return respond(200, JSON.stringify({ ...fields, full_name: `${repo.owner}/${repo.name}` }));
+      }
+    }
+  }
+
+  const fake: FakeGitHub = {
+    async fetch(input, init) {
+      const request = new Request(input, init);
+      const response = route(request);
+
+      requests.push({
+        method: request.method,
+        path: new URL(request.url).pathname + new URL(request.url).search,
+        status: response.status,
+        at: Date.now(),
+      });
+
+      return response;
+    },
+
+    requests,
+
+    repository(fullName) {
+      const repo = repositories.get(fullName.toLowerCase());
+
+      if (!repo) {
+        throw new Error(`Unknown fake repository '${fullName}'`);
+      }
+
+      return repo;
+    },
+
+    release(fullName, tag) {
+      const release = fake.repository(fullName).releases.find((entry) => entry.tag_name === tag);
+
+      if (!release) {
+        throw new Error(`Unknown release '${tag}' of fake repository '${fullName}'`);
+      }
+
+      return release;
+    },
+
+    addDownloads(fullName, tag, downloads) {
+      const release = fake.release(fullName, tag);
+
+      for (const [name, count] of Object.entries(downloads)) {
+        const asset = release.assets.find((entry) => entry.name === name);
+
+        if (!asset) {
+          throw new Error(`Unknown asset '${name}' of release '${tag}'`);
+        }
+
+        asset.download_count += count;
+      }
+    },
+
+    publish(fullName, release) {
+      fake.repository(fullName).releases.unshift(release);
+    },
+
+    contribute(fullName, login, kind, date = new Date(Date.now()).toISOString()) {
+      fake.repository(fullName).contributions.push({ login, kind, date });
+    },
+
+    reupload(fullName, tag, assetName, downloadCount = 0) {
+      const release = fake.release(fullName, tag);
+      const index = release.assets.findIndex((entry) => entry.name === assetName);
+
+      if (index === -1) {
+        throw new Error(`Unknown asset '${assetName}' of release '${tag}'`);
+      }
+
+      const asset = fakeAsset(assetName, downloadCount, new Date(Date.now()).toISOString());
+
+      release.assets[index] = asset;
+
+      return asset;
+    },
+
+    fail(status, { times = 1, path } = {}) {
+      failures.push({ status, times, path: path ?? null });
+    },
+
+    exhaustRateLimit() {
+      refreshBudget();
+      remaining = 0;
+    },
+  };
+
+  return fake;
+}
@@ -0,0 +1,100 @@
+/**
+ * workers/stats-collector/dev/fixtures.ts
+ *
+ * Starting data for the fake GitHub API: the LichtFeld Studio repository
+ * with two stable releases, a rolling nightly and a draft, shaped like the
+ * real release assets so platform classification has something to do, and
+ * a quarter of commits, pull requests and issues by a few contributors.
+ */
+
+import { fakeRelease, fakeRepository } from "./fake-github";
+import type { FakeContribution, FakeRepository, FakeTrafficDay } from "./fake-github";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const LICHTFELD_REPOSITORY = "MrNeRF/LichtFeld-Studio";
+
+const MS_PER_DAY = 86400000;
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+/** Assets of a stable release, named like the real ones, starting from `base` downloads. */
+export function releaseAssets(version: string, base: number): Record<string, number> {
+  return {
+    [`LichtFeld-Studio-${version}-windows-x64-cuda12.8.zip`]: base * 2,
+    [`LichtFeld-Studio-${version}-windows-x64-cuda12.8-setup.exe`]: base,
+    [`LichtFeld-Studio-${version}-linux-x64-cuda12.8.tar.gz`]: Math.round(base / 2),
+  };
+}
+
+/**
+ * Fourteen days of traffic ending the day before `now`, growing by a little
+ * each day, so the views are visibly more than the clones.
+ */
+export function trafficHistory(now: number): { clones: FakeTrafficDay[]; views: FakeTrafficDay[] } {
+  const today = Math.floor(now / MS_PER_DAY) * MS_PER_DAY;
+  const days = Array.from({ length: 14 }, (_, i) => ({
+    timestamp: new Date(today - (14 - i) * MS_PER_DAY).toISOString().replace(".000Z", "Z"),
+    index: i,
+  }));
+
+  return {
+    clones: days.map(({ timestamp, index }) => ({ timestamp, count: 20 + index, uniques: 8 + Math.floor(index / 2) })),
+    views: days.map(({ timestamp, index }) => ({ timestamp, count: 400 + 10 * index, uniques: 150 + 3 * index })),
+  };
+}
+
+/**
+ * Ninety days of contributions ending before `now`: the maintainer commits
+ * every other day, a regular opens a pull request a week and a user files
+ * an issue every ten days.
+ */
+export function contributionHistory(now: number): FakeContribution[] {
+  const at = (daysAgo: number): string => new Date(now - daysAgo * MS_PER_DAY).toISOString();
+  const contributions: FakeContribution[] = [];
+
+  for (let daysAgo = 90; daysAgo >= 1; daysAgo--) {
+    if (daysAgo % 2 === 0) {
+      contributions.push({ login: "MrNeRF", kind: "commit", date: at(daysAgo) });
+    }
+
+    if (daysAgo % 7 === 0) {
+      contributions.push({ login: "splat-dev", kind: "pull_request", date: at(daysAgo) });
+    }
+
+    if (daysAgo % 10 === 0) {
+      contributions.push({ login: "gaussian-user", kind: "issue", date: at(daysAgo) });
+    }
+  }
+
+  return contributions;
+}
+
+/** The LichtFeld Studio repository as of `now` (default: the current time). */
+export function lichtfeldRepository(now = Date.now()): FakeRepository {
+  const repo = fakeRepository(LICHTFELD_REPOSITORY, [
+    fakeRelease("v0.3.0", "2025-12-01T12:00:00Z", { "draft-notes.txt": 0 }, { draft: true }),
+    fakeRelease(
+      "nightly",
+      "2025-09-01T02:00:00Z",
+      { "LichtFeld-Studio-nightly-windows-x64-cuda12.8.zip": 40 },
+      { prerelease: true },
+    ),
+    fakeRelease("v0.2.0", "2025-09-15T12:00:00Z", releaseAssets("v0.2.0", 500)),
+    fakeRelease("v0.1.0", "2025-06-01T12:00:00Z", releaseAssets("v0.1.0", 2000)),
+  ]);
+
+  return {
+    ...repo,
+    stargazers_count: 2400,
+    forks_count: 180,
+    subscribers_count: 45,
+    open_issues_count: 62,
+    traffic: trafficHistory(now),
+    contributions: contributionHistory(now),
+  };
+}
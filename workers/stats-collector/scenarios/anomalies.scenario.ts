@@ -0,0 +1,120 @@
+/**
+ * workers/stats-collector/scenarios/anomalies.scenario.ts
+ *
+ * Three weeks of hourly collections with a new release, a download spike, a
+ * re-uploaded nightly asset and a counter that goes backwards. Checks that
+ * each is recorded once as an anomaly and that no stored series shrinks.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  aggregateDrift,
+  createScenario,
+  dailySnapshots,
+  endScenario,
+  MS_PER_DAY,
+  resetDatabase,
+  runHourly,
+  storedAnomalies,
+  storedReleases,
+} from "./harness";
+import { fakeRelease } from "../dev/fake-github";
+import { LICHTFELD_REPOSITORY, releaseAssets } from "../dev/fixtures";
+
+// =============================================================================
+// Scenario
+// =============================================================================
+
+const [WINDOWS_ZIP, WINDOWS_SETUP] = Object.keys(releaseAssets("v0.2.0", 0));
+const [, OLD_WINDOWS_SETUP] = Object.keys(releaseAssets("v0.1.0", 0));
+const [NEW_WINDOWS_ZIP] = Object.keys(releaseAssets("v0.4.0", 0));
+const NIGHTLY_ZIP = "LichtFeld-Studio-nightly-windows-x64-cuda12.8.zip";
+
+const START = Date.UTC(2026, 1, 2);
+
+/** Day of the scenario (0 = START) each event happens on */
+const PUBLISH_DAY = 7;
+const SPIKE_DAY = 10;
+const REUPLOAD_DAY = 14;
+const RESET_DAY = 16;
+
+describe("Anomalies", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+  });
+
+  afterEach(() => {
+    endScenario();
+  });
+
+  it("should record each anomaly once and never let a series shrink", async () => {
+    // Arrange
+    const scenario = createScenario({ start: "2026-02-02T00:30:00Z" });
+    const { fake } = scenario;
+
+    // Act
+    await runHourly(scenario, 21 * 24, (hour, at) => {
+      const day = Math.floor(hour / 24);
+      const hourOfDay = new Date(at).getUTCHours();
+
+      if (day === PUBLISH_DAY && hourOfDay === 12) {
+        fake.publish(
+          LICHTFELD_REPOSITORY,
+          fakeRelease("v0.4.0", new Date(at).toISOString(), releaseAssets("v0.4.0", 0)),
+        );
+      }
+
+      if (day === REUPLOAD_DAY && hourOfDay === 2) {
+        fake.reupload(LICHTFELD_REPOSITORY, "nightly", NIGHTLY_ZIP, 0);
+      }
+
+      if (day === RESET_DAY && hourOfDay === 2) {
+        fake.release(LICHTFELD_REPOSITORY, "v0.1.0").assets.find((a) => a.name === OLD_WINDOWS_SETUP)!.download_count -=
+          100;
+      }
+
+      if (hourOfDay < 6) {
+        return;
+      }
+
+      fake.addDownloads(LICHTFELD_REPOSITORY, "v0.2.0", {
+        [WINDOWS_ZIP]: day === SPIKE_DAY ? 60 : 2,
+        [WINDOWS_SETUP]: 1,
+      });
+      fake.addDownloads(LICHTFELD_REPOSITORY, "nightly", { [NIGHTLY_ZIP]: 1 });
+
+      if (day > PUBLISH_DAY || (day === PUBLISH_DAY && hourOfDay >= 12)) {
+        fake.addDownloads(LICHTFELD_REPOSITORY, "v0.4.0", { [NEW_WINDOWS_ZIP]: 1 });
+      }
+    });
+
+    // Assert: one anomaly per event, on the day it happened
+    const anomalies = await storedAnomalies();
+
+    expect(anomalies.map(({ tag, date, kind }) => ({ tag, date, kind }))).toEqual([
+      { tag: "v0.2.0", date: START + SPIKE_DAY * MS_PER_DAY, kind: "spike" },
+      { tag: "nightly", date: START + REUPLOAD_DAY * MS_PER_DAY, kind: "asset_reupload" },
+      { tag: "v0.1.0", date: START + RESET_DAY * MS_PER_DAY, kind: "negative_delta" },
+    ]);
+    expect(anomalies[2].delta).toBe(-100);
+
+    // The new release is tracked from the day it was published
+    const published = await dailySnapshots("v0.4.0");
+
+    expect(published[0].date).toBe(START + PUBLISH_DAY * MS_PER_DAY);
+    expect(published.at(-1)!.count).toBe(12 + 13 * 18);
+
+    // Cumulative series only grow, even when GitHub's counters fall
+    for (const { tag } of await storedReleases()) {
+      const counts = (await dailySnapshots(tag)).map((row) => row.count);
+
+      expect(counts, tag).toEqual([...counts].sort((a, b) => a - b));
+    }
+
+    // The nightly keeps the downloads of the replaced upload
+    const nightly = (await storedReleases()).find((release) => release.tag === "nightly");
+
+    expect(nightly?.total_downloads).toBe(40 + 21 * 18);
+    expect(await aggregateDrift()).toEqual([]);
+  });
+});
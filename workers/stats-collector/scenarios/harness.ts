@@ -0,0 +1,268 @@
+/**
+ * workers/stats-collector/scenarios/harness.ts
+ *
+ * Runs the collector hour by hour against the fake GitHub API and the
+ * Miniflare D1 database of the test pool. The clock is faked, so weeks of
+ * hourly cron runs take seconds and every run sees the date it would have
+ * seen in production.
+ *
+ * A scenario changes the fake's fixtures from the `beforeRun` hook and
+ * checks the stored tables afterwards. Collections run exactly as the
+ * scheduled handler runs them (collectWithStats with the "scheduled"
+ * trigger), and a failed run is recorded rather than ending the scenario.
+ */
+
+import { env } from "cloudflare:test";
+import { vi } from "vitest";
+import { applyMigrations } from "../../../db/migrate";
+import { createFakeGitHub } from "../dev/fake-github";
+import type { FakeGitHub, FakeRepository } from "../dev/fake-github";
+import { LICHTFELD_REPOSITORY, lichtfeldRepository } from "../dev/fixtures";
+import { collectWithStats, recomputeAggregates } from "../src/index";
+import type { CollectorEnv, CollectResult } from "../src/index";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One scheduled collection of a scenario. */
+export interface ScenarioRun {
+  /** When the run started (Unix ms) */
+  at: number;
+  result: CollectResult | null;
+  /** Why the run failed, or null */
+  error: string | null;
+}
+
+export interface Scenario {
+  fake: FakeGitHub;
+  env: CollectorEnv;
+  runs: ScenarioRun[];
+  /** Time of the next run (Unix ms) */
+  now: number;
+}
+
+export interface ScenarioOptions {
+  /** Start of the first run, e.g. "2026-01-05T00:30:00Z" */
+  start: string;
+  /** Fake repositories (default: LichtFeld Studio as of `start`) */
+  repositories?: FakeRepository[];
+  /** Requests per hour of the fake (default 5000) */
+  rateLimit?: number;
+}
+
+/** Stored totals of one release, for comparing tables with the fake. */
+export interface ReleaseRow {
+  tag: string;
+  total_downloads: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const MS_PER_HOUR = 3600000;
+export const MS_PER_DAY = 86400000;
+
+const AGGREGATE_TABLES = [
+  "downloads_weekly",
+  "downloads_monthly",
+  "platform_downloads_weekly",
+  "platform_downloads_monthly",
+] as const;
+
+// =============================================================================
+// Scenario Runner
+// =============================================================================
+
+/**
+ * Empties every table the collector writes. The scenario pool shares one
+ * database between scenarios (see vitest.scenarios.config.ts).
+ */
+export async function resetDatabase(): Promise<void> {
+  await applyMigrations(env.STATS_DB);
+  await env.STATS_DB.exec(`
+        DELETE FROM contributor_activity_monthly;
+        DELETE FROM contributors;
+        DELETE FROM repository_traffic_daily;
+        DELETE FROM repository_metrics_daily;
+        DELETE FROM snapshot_archives;
+        DELETE FROM webhook_deliveries;
+        DELETE FROM anomalies;
+        DELETE FROM github_etags;
+        DELETE FROM collection_runs;
+        DELETE FROM platform_downloads_monthly;
+        DELETE FROM platform_downloads_weekly;
+        DELETE FROM platform_downloads_daily;
+        DELETE FROM downloads_monthly;
+        DELETE FROM downloads_weekly;
+        DELETE FROM downloads_daily;
+        DELETE FROM release_assets;
+        DELETE FROM releases;
+        DELETE FROM repositories WHERE id <> 1;
+        UPDATE repositories SET last_error = NULL, contributors_refreshed_at = NULL, traffic_forbidden_at = NULL;
+    `);
+}
+
+/**
+ * Sets up a scenario: fakes the clock, stubs fetch with the fake GitHub API
+ * and points the collector at the LichtFeld Studio repository.
+ * Call endScenario() afterwards to restore the clock and fetch.
+ */
+export function createScenario(options: ScenarioOptions): Scenario {
+  const now = Date.parse(options.start);
+
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(now);
+
+  const fake = createFakeGitHub({
+    repositories: options.repositories ?? [lichtfeldRepository(now)],
+    rateLimit: options.rateLimit,
+  });
+  const [owner, name] = LICHTFELD_REPOSITORY.split("/");
+
+  vi.stubGlobal("fetch", fake.fetch);
+
+  return {
+    fake,
+    env: { ...env, GITHUB_OWNER: owner, GITHUB_REPO: name, PLUGIN_REGISTRY_URL: "", WEBHOOK_URLS: "" },
+    runs: [],
+    now,
+  };
+}
+
+export function endScenario(): void {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+}
+
+/**
+ * Runs `hours` scheduled collections an hour apart. `beforeRun` gets the
+ * run's index within this call and its time, and may change the fixtures.
+ */
+export async function runHourly(
+  scenario: Scenario,
+  hours: number,
+  beforeRun?: (hour: number, at: number) => void,
+): Promise<ScenarioRun[]> {
+  const runs: ScenarioRun[] = [];
+
+  for (let hour = 0; hour < hours; hour++) {
+    const at = scenario.now;
+
+    vi.setSystemTime(at);
+    beforeRun?.(hour, at);
+
+    let run: ScenarioRun;
+
+    try {
+      run = { at, result: await collectWithStats(scenario.env, "scheduled"), error: null };
+    } catch (error) {
+      run = { at, result: null, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    runs.push(run);
+    scenario.runs.push(run);
+    scenario.now += MS_PER_HOUR;
+  }
+
+  return runs;
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/** Daily cumulative snapshots of a release, oldest first. */
+export async function dailySnapshots(tag: string): Promise<Array<{ date: number; count: number; estimated: number }>> {
+  const rows = await env.STATS_DB.prepare(
+    `SELECT d.date, d.count, d.estimated FROM downloads_daily d
+     JOIN releases r ON r.id = d.release_id
+     WHERE r.tag = ? ORDER BY d.date`,
+  )
+    .bind(tag)
+    .all<{ date: number; count: number; estimated: number }>();
+
+  return rows.results;
+}
+
+/** Weekly download deltas of a release, oldest first. */
+export async function weeklyDeltas(tag: string): Promise<Array<{ week: number; count: number }>> {
+  const rows = await env.STATS_DB.prepare(
+    `SELECT w.week, w.count FROM downloads_weekly w
+     JOIN releases r ON r.id = w.release_id
+     WHERE r.tag = ? ORDER BY w.week`,
+  )
+    .bind(tag)
+    .all<{ week: number; count: number }>();
+
+  return rows.results;
+}
+
+export async function storedReleases(): Promise<ReleaseRow[]> {
+  const rows = await env.STATS_DB.prepare("SELECT tag, total_downloads FROM releases ORDER BY tag").all<ReleaseRow>();
+
+  return rows.results;
+}
+
+export async function storedAnomalies(): Promise<Array<{ tag: string; date: number; kind: string; delta: number }>> {
+  const rows = await env.STATS_DB.prepare(
+    `SELECT r.tag, a.date, a.kind, a.delta FROM anomalies a
+     JOIN releases r ON r.id = a.release_id
+     ORDER BY a.date, a.id`,
+  ).all<{ tag: string; date: number; kind: string; delta: number }>();
+
+  return rows.results;
+}
+
+/** Collection runs by status, e.g. { success: 160, error: 1 }. */
+export async function runStatuses(): Promise<Record<string, number>> {
+  const rows = await env.STATS_DB.prepare("SELECT status, COUNT(*) AS count FROM collection_runs GROUP BY status").all<{
+    status: string;
+    count: number;
+  }>();
+
+  return Object.fromEntries(rows.results.map((row) => [row.status, row.count]));
+}
+
+/** Sum of the fake's asset counters of every published release, by tag. */
+export function fakeTotals(scenario: Scenario): Record<string, number> {
+  const releases = scenario.fake.repository(LICHTFELD_REPOSITORY).releases.filter((release) => !release.draft);
+
+  return Object.fromEntries(
+    releases.map((release) => [release.tag_name, release.assets.reduce((sum, asset) => sum + asset.download_count, 0)]),
+  );
+}
+
+/**
+ * Rebuilds the weekly and monthly tables from the daily snapshots and returns
+ * the rows that changed. The incremental updates of the hourly runs should
+ * leave nothing for a rebuild to fix.
+ */
+export async function aggregateDrift(): Promise<string[]> {
+  const before = await readAggregates();
+
+  await recomputeAggregates(env.STATS_DB);
+
+  const after = await readAggregates();
+
+  return [...new Set([...before.keys(), ...after.keys()])]
+    .filter((key) => (before.get(key) ?? 0) !== (after.get(key) ?? 0))
+    .map((key) => `${key}: ${before.get(key) ?? 0} -> ${after.get(key) ?? 0}`);
+}
+
+async function readAggregates(): Promise<Map<string, number>> {
+  const rows = new Map<string, number>();
+
+  for (const table of AGGREGATE_TABLES) {
+    const result = await env.STATS_DB.prepare(`SELECT * FROM ${table}`).all<Record<string, string | number>>();
+
+    for (const row of result.results) {
+      const { count, ...key } = row;
+
+      rows.set(`${table} ${Object.values(key).join(":")}`, Number(count));
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,115 @@
+/**
+ * workers/stats-collector/scenarios/outages.scenario.ts
+ *
+ * Nine days of hourly collections through a failed request, an exhausted
+ * rate limit, a day of traffic endpoint errors and a day of release errors.
+ * Checks that the runs are logged as such, that the collector picks up where
+ * it left off, and that a backfill estimates the day that was missed.
+ */
+
+import { env } from "cloudflare:test";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  aggregateDrift,
+  createScenario,
+  dailySnapshots,
+  endScenario,
+  fakeTotals,
+  MS_PER_DAY,
+  MS_PER_HOUR,
+  resetDatabase,
+  runHourly,
+  runStatuses,
+  storedReleases,
+} from "./harness";
+import { LICHTFELD_REPOSITORY, releaseAssets } from "../dev/fixtures";
+import { backfillGaps } from "../src/index";
+
+// =============================================================================
+// Scenario
+// =============================================================================
+
+const [WINDOWS_ZIP] = Object.keys(releaseAssets("v0.2.0", 0));
+
+const START = Date.UTC(2026, 2, 2);
+
+const RELEASES_PATH = `/repos/${LICHTFELD_REPOSITORY}/releases`;
+
+/** Day of the scenario (0 = START) each outage happens on */
+const FAILED_REQUEST_DAY = 1;
+const RATE_LIMIT_DAY = 2;
+const TRAFFIC_ERROR_DAY = 3;
+const OUTAGE_DAY = 4;
+
+describe("Outages", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+  });
+
+  afterEach(() => {
+    endScenario();
+  });
+
+  it("should log failed runs, recover on the next one and backfill the missed day", async () => {
+    // Arrange: 10 downloads of v0.2.0 an hour, around the clock
+    const scenario = createScenario({ start: "2026-03-02T00:30:00Z" });
+    const { fake } = scenario;
+
+    // Act
+    const runs = await runHourly(scenario, 9 * 24, (hour, at) => {
+      const day = Math.floor(hour / 24);
+      const hourOfDay = new Date(at).getUTCHours();
+
+      fake.addDownloads(LICHTFELD_REPOSITORY, "v0.2.0", { [WINDOWS_ZIP]: 10 });
+
+      if (day === FAILED_REQUEST_DAY && hourOfDay === 10) {
+        fake.fail(502, { path: RELEASES_PATH });
+      }
+
+      if (day === RATE_LIMIT_DAY && hourOfDay === 12) {
+        fake.exhaustRateLimit();
+      }
+
+      if (day === TRAFFIC_ERROR_DAY && hourOfDay === 0) {
+        fake.fail(500, { path: `/repos/${LICHTFELD_REPOSITORY}/traffic/views`, times: 24 });
+      }
+
+      if (day === OUTAGE_DAY && hourOfDay === 0) {
+        fake.fail(500, { path: RELEASES_PATH, times: 24 });
+      }
+    });
+
+    // Assert: each outage shows up in the run log, and the next run recovers
+    expect(await runStatuses()).toEqual({ success: 9 * 24 - 26, error: 25, rate_limited: 1 });
+    expect(runs.filter((run) => run.error !== null).map((run) => run.error)).toEqual(
+      Array(25).fill("GitHub API error: 502").fill("GitHub API error: 500", 1),
+    );
+    expect(runs.filter((run) => run.result?.rateLimited).map((run) => run.at)).toEqual([
+      START + RATE_LIMIT_DAY * MS_PER_DAY + 12.5 * MS_PER_HOUR,
+    ]);
+    expect(Object.fromEntries((await storedReleases()).map((r) => [r.tag, r.total_downloads]))).toEqual(
+      fakeTotals(scenario),
+    );
+
+    // A day of traffic errors loses that day's metrics snapshot, but not its runs
+    const metricsDays = await env.STATS_DB.prepare("SELECT COUNT(*) AS count FROM repository_metrics_daily").first<{
+      count: number;
+    }>();
+
+    expect(metricsDays?.count).toBe(9 - 2);
+
+    // The outage day has no snapshot until a backfill estimates it
+    const before = await dailySnapshots("v0.2.0");
+
+    expect(before.map((row) => row.date)).not.toContain(START + OUTAGE_DAY * MS_PER_DAY);
+
+    const backfill = await backfillGaps(env.STATS_DB);
+    const after = await dailySnapshots("v0.2.0");
+    const outage = after.find((row) => row.date === START + OUTAGE_DAY * MS_PER_DAY);
+    const around = after.filter((row) => Math.abs(row.date - outage!.date) === MS_PER_DAY);
+
+    expect(backfill.gaps.map((gap) => gap.missingDays)).toEqual([1, 1, 1]);
+    expect(outage).toMatchObject({ estimated: 1, count: (around[0].count + around[1].count) / 2 });
+    expect(await aggregateDrift()).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * workers/stats-collector/scenarios/steady-growth.scenario.ts
+ *
+ * Three weeks of hourly collections with downloads during the day and quiet
+ * nights. Checks the daily snapshots, weekly deltas and totals against the
+ * downloads the fake handed out, that quiet hours are served from ETags,
+ * and that a newcomer's pull request shows up in the contributor activity.
+ */
+
+import { env } from "cloudflare:test";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  aggregateDrift,
+  createScenario,
+  dailySnapshots,
+  endScenario,
+  fakeTotals,
+  MS_PER_DAY,
+  runHourly,
+  resetDatabase,
+  runStatuses,
+  storedAnomalies,
+  storedReleases,
+  weeklyDeltas,
+} from "./harness";
+import { LICHTFELD_REPOSITORY, releaseAssets } from "../dev/fixtures";
+
+// =============================================================================
+// Scenario
+// =============================================================================
+
+const [WINDOWS_ZIP, WINDOWS_SETUP] = Object.keys(releaseAssets("v0.2.0", 0));
+const [OLD_WINDOWS_ZIP] = Object.keys(releaseAssets("v0.1.0", 0));
+
+/** Monday, so the three weeks line up with downloads_weekly */
+const START = Date.UTC(2026, 0, 5);
+
+describe("Steady growth", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+  });
+
+  afterEach(() => {
+    endScenario();
+  });
+
+  it("should store what the fake handed out, hour by hour for three weeks", async () => {
+    // Arrange: 3 downloads of v0.2.0 every hour from 06:00, one of v0.1.0 every four hours
+    const scenario = createScenario({ start: "2026-01-05T00:30:00Z" });
+
+    // Act
+    const runs = await runHourly(scenario, 21 * 24, (hour, at) => {
+      const hourOfDay = new Date(at).getUTCHours();
+
+      if (hour === 10 * 24 + 12) {
+        scenario.fake.contribute(LICHTFELD_REPOSITORY, "newcomer", "pull_request");
+      }
+
+      if (hourOfDay < 6) {
+        return;
+      }
+
+      scenario.fake.addDownloads(LICHTFELD_REPOSITORY, "v0.2.0", { [WINDOWS_ZIP]: 2, [WINDOWS_SETUP]: 1 });
+
+      if (hourOfDay % 4 === 0) {
+        scenario.fake.addDownloads(LICHTFELD_REPOSITORY, "v0.1.0", { [OLD_WINDOWS_ZIP]: 1 });
+      }
+    });
+
+    // Assert: every run succeeded and the stored totals are GitHub's
+    expect(runs.filter((run) => run.error !== null)).toEqual([]);
+    expect(await runStatuses()).toEqual({ success: 21 * 24 });
+    expect(Object.fromEntries((await storedReleases()).map((r) => [r.tag, r.total_downloads]))).toEqual(
+      fakeTotals(scenario),
+    );
+
+    // One snapshot per day, the draft left out, growing by a day's downloads
+    const daily = await dailySnapshots("v0.2.0");
+
+    expect(daily.map((row) => row.date)).toEqual(Array.from({ length: 21 }, (_, i) => START + i * MS_PER_DAY));
+    expect(daily.slice(1).map((row, i) => row.count - daily[i].count)).toEqual(Array(20).fill(18 * 3));
+    expect(await dailySnapshots("v0.3.0")).toEqual([]);
+
+    // Weeks measure growth between their first and last daily snapshot (periodDelta),
+    // so a Monday's own downloads fall between weeks. A rebuild agrees with the hourly updates.
+    const weekly = await weeklyDeltas("v0.2.0");
+
+    expect(weekly.map((row) => row.count)).toEqual([6 * 18 * 3, 6 * 18 * 3, 6 * 18 * 3]);
+    expect((await weeklyDeltas("v0.1.0")).map((row) => row.count)).toEqual([6 * 4, 6 * 4, 6 * 4]);
+    expect(await aggregateDrift()).toEqual([]);
+    expect(await storedAnomalies()).toEqual([]);
+
+    // Nights change nothing, so their release pages come back 304
+    const notModified = await env.STATS_DB.prepare(
+      "SELECT SUM(github_not_modified) AS total FROM collection_runs",
+    ).first<{ total: number }>();
+
+    expect(scenario.fake.requests.filter((request) => request.status === 304)).toHaveLength(notModified!.total);
+    expect(notModified!.total).toBeGreaterThanOrEqual(21 * 5);
+
+    // One metrics snapshot a day, and the fake's fortnight of traffic
+    const metrics = await env.STATS_DB.prepare(
+      "SELECT COUNT(*) AS days, MAX(stars) AS stars FROM repository_metrics_daily",
+    ).first<{ days: number; stars: number }>();
+
+    expect(metrics).toEqual({ days: 21, stars: 2400 });
+
+    // Daily activity refreshes add up to the fake's contributions, and the newcomer is new this month
+    const activity = await env.STATS_DB.prepare(
+      `SELECT login, SUM(commits) + SUM(pull_requests) + SUM(issues) AS total
+       FROM contributor_activity_monthly GROUP BY login ORDER BY login`,
+    ).all<{ login: string; total: number }>();
+    const contributions = scenario.fake.repository(LICHTFELD_REPOSITORY).contributions;
+    const newcomer = await env.STATS_DB.prepare("SELECT first_contribution FROM contributors WHERE login = ?")
+      .bind("newcomer")
+      .first<{ first_contribution: number }>();
+
+    expect(activity.results).toEqual(
+      ["gaussian-user", "MrNeRF", "newcomer", "splat-dev"].map((login) => ({
+        login,
+        total: contributions.filter((entry) => entry.login === login).length,
+      })),
+    );
+    expect(newcomer?.first_contribution).toBe(Date.UTC(2026, 0, 1));
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * workers/stats-collector/src/admin.ts
+ *
+ * Admin routes for the stats collector, shared by the standalone collector
+ * worker and the unified site worker (src/api/index.ts).
+ *
+ * Every admin route is rate limited per client IP (backed by D1) and requires
+ * `Authorization: Bearer <ADMIN_TOKEN>`, where ADMIN_TOKEN is a Worker secret.
+ * When the secret is not configured the routes are disabled.
+ *
+ * Routes (relative to the caller's prefix, e.g. "/api"):
+ *   POST {prefix}/collect                - Run a collection now
+ *   POST {prefix}/admin/collect/dry-run  - Report what a collection would change
+ *   POST {prefix}/admin/recompute        - Rebuild weekly/monthly aggregates
+ *   POST {prefix}/admin/backfill         - Fill missing daily snapshots (?dryRun=true to only report gaps)
+ *   GET  {prefix}/admin/collections      - Recent collection runs (?limit=1-100)
+ *   POST {prefix}/admin/compact          - Compact old daily snapshots (?dryRun=true to only count them)
+ *   GET  {prefix}/admin/archives         - Archives of compacted snapshots
+ *   GET  {prefix}/admin/archives/download?id=N - One archive as gzipped NDJSON
+ */
+
+import { applyMigrations } from "../../../db/migrate";
+import { compactSnapshots, listSnapshotArchives, readSnapshotArchive, resolveHorizonDays } from "./compaction";
+import { backfillGaps, collectWithStats, dryRunCollect, recomputeAggregates } from "./index";
+import type { CollectorEnv } from "./index";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Length of one rate limit window */
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+/** Admin requests allowed per client IP per window */
+const RATE_LIMIT_MAX_REQUESTS = 10;
+
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function errorResponse(message: string, status: number, headers?: Record<string, string>): Response {
+  return Response.json({ status: "error", message }, { status, headers });
+}
+
+/**
+ * Compares two secrets without leaking their contents through timing.
+ * Both values are hashed first so the comparison always covers 32 bytes.
+ */
+async function secretsMatch(provided: string, expected: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [a, b] = await Promise.all([
+    crypto.subtle.digest("SHA-256", encoder.encode(provided)),
+    crypto.subtle.digest("SHA-256", encoder.encode(expected)),
+  ]);
+  const left = new Uint8Array(a);
+  const right = new Uint8Array(b);
+  let diff = 0;
+
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ right[i];
+  }
+
+  return diff === 0;
+}
+
+/**
+ * Counts a request against the client's fixed-window rate limit.
+ * Returns the seconds until the window resets when the limit is exceeded.
+ */
+async function checkRateLimit(db: D1Database, clientKey: string): Promise<number | null> {
+  const now = Date.now();
+  const windowStart = Math.floor(now / RATE_LIMIT_WINDOW_MS) * RATE_LIMIT_WINDOW_MS;
+
+  // Expired windows are pruned on the way so the table stays small
+  await db.prepare("DELETE FROM rate_limits WHERE window_start < ?").bind(windowStart).run();
+
+  const counted = await db
+    .prepare(
+      `INSERT INTO rate_limits (key, window_start, count) VALUES (?, ?, 1)
+       ON CONFLICT(key, window_start) DO UPDATE SET count = count + 1
+       RETURNING count`,
+    )
+    .bind(clientKey, windowStart)
+    .first<{ count: number }>();
+
+  const count = counted?.count ?? 0;
+
+  if (count <= RATE_LIMIT_MAX_REQUESTS) {
+    return null;
+  }
+
+  return Math.ceil((windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000);
+}
+
+/**
+ * Checks the bearer token against ADMIN_TOKEN.
+ * Returns an error response, or null when the request is authorized.
+ */
+async function authorize(request: Request, env: CollectorEnv): Promise<Response | null> {
+  if (!env.ADMIN_TOKEN) {
+    return errorResponse("Admin API not configured", 503);
+  }
+
+  const header = request.headers.get("Authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+
+  if (!token || !(await secretsMatch(token, env.ADMIN_TOKEN))) {
+    return errorResponse("Unauthorized", 401, { "WWW-Authenticate": 'Bearer realm="admin"' });
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Route Handlers
+// =============================================================================
+
+async function handleCollect(env: CollectorEnv): Promise<Response> {
+  const result = await collectWithStats(env, "manual");
+
+  return Response.json({ status: "collected", ...result });
+}
+
+async function handleDryRun(env: CollectorEnv): Promise<Response> {
+  const result = await dryRunCollect(env);
+
+  return Response.json({ status: "dry-run", ...result });
+}
+
+async function handleRecompute(env: CollectorEnv): Promise<Response> {
+  const result = await recomputeAggregates(env.STATS_DB);
+
+  return Response.json({ status: "recomputed", ...result });
+}
+
+async function handleBackfill(request: Request, env: CollectorEnv): Promise<Response> {
+  const dryRun = new URL(request.url).searchParams.get("dryRun") === "true";
+  const result = await backfillGaps(env.STATS_DB, { dryRun });
+
+  return Response.json({ status: dryRun ? "dry-run" : "backfilled", ...result });
+}
+
+async function handleCompact(request: Request, env: CollectorEnv): Promise<Response> {
+  const dryRun = new URL(request.url).searchParams.get("dryRun") === "true";
+  const horizonDays = resolveHorizonDays(env.COMPACTION_HORIZON_DAYS);
+  const result = await compactSnapshots(env.STATS_DB, { horizonDays, dryRun });
+
+  return Response.json({ status: dryRun ? "dry-run" : "compacted", horizonDays, ...result });
+}
+
+async function handleArchives(env: CollectorEnv): Promise<Response> {
+  const archives = await listSnapshotArchives(env.STATS_DB);
+
+  return Response.json({ status: "ok", archives });
+}
+
+async function handleArchiveDownload(request: Request, env: CollectorEnv): Promise<Response> {
+  const id = Number(new URL(request.url).searchParams.get("id"));
+
+  if (!Number.isInteger(id) || id < 1) {
+    return errorResponse("Invalid 'id', expected a positive integer", 400);
+  }
+
+  const stored = await readSnapshotArchive(env.STATS_DB, id);
+
+  if (!stored) {
+    return errorResponse(`Archive ${id} not found`, 404);
+  }
+
+  const { archive, data } = stored;
+
+  return new Response(data, {
+    headers: {
+      "Content-Type": "application/gzip",
+      "Content-Disposition": `attachment; filename="daily-snapshots-${archive.firstDate}-${archive.cutoff}.ndjson.gz"`,
+    },
+  });
+}
+
+async function handleHistory(request: Request, env: CollectorEnv): Promise<Response> {
+  const limitParam = new URL(request.url).searchParams.get("limit");
+  const limit = limitParam === null ? DEFAULT_HISTORY_LIMIT : Number(limitParam);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    return errorResponse(`Invalid 'limit', expected an integer between 1 and ${MAX_HISTORY_LIMIT}`, 400);
+  }
+
+  const runs = await env.STATS_DB.prepare(
+    `SELECT id, trigger, status, started_at, finished_at, duration_ms, releases_found, releases_processed, error,
+            github_requests, github_not_modified, rate_limit_limit, rate_limit_remaining, rate_limit_used, rate_limit_reset,
+            compacted_rows
+     FROM collection_runs
+     ORDER BY started_at DESC, id DESC
+     LIMIT ?`,
+  )
+    .bind(limit)
+    .all<{
+      id: number;
+      trigger: string;
+      status: string;
+      started_at: number;
+      finished_at: number | null;
+      duration_ms: number | null;
+      releases_found: number | null;
+      releases_processed: number | null;
+      error: string | null;
+      github_requests: number | null;
+      github_not_modified: number | null;
+      rate_limit_limit: number | null;
+      rate_limit_remaining: number | null;
+      rate_limit_used: number | null;
+      rate_limit_reset: number | null;
+      compacted_rows: number | null;
+    }>();
+
+  return Response.json({
+    status: "ok",
+    runs: runs.results.map((run) => ({
+      id: run.id,
+      trigger: run.trigger,
+      status: run.status,
+      startedAt: run.started_at,
+      finishedAt: run.finished_at,
+      durationMs: run.duration_ms,
+      releasesFound: run.releases_found,
+      releasesProcessed: run.releases_processed,
+      error: run.error,
+      githubRequests: run.github_requests,
+      githubNotModified: run.github_not_modified,
+      rateLimit:
+        run.rate_limit_remaining === null
+          ? null
+          : {
+              limit: run.rate_limit_limit,
+              remaining: run.rate_limit_remaining,
+              used: run.rate_limit_used,
+              reset: run.rate_limit_reset,
+            },
+      compactedRows: run.compacted_rows,
+    })),
+  });
+}
+
+// =============================================================================
+// Router
+// =============================================================================
+
+/**
+ * Handles admin routes under the given path prefix.
+ * Returns null when the request is not an admin route so callers can fall through.
+ */
+export async function handleAdminRequest(request: Request, env: CollectorEnv, prefix = ""): Promise<Response | null> {
+  const { pathname } = new URL(request.url);
+  const routes: Record<string, { method: string; handle: () => Promise<Response> }> = {
+    [`${prefix}/collect`]: { method: "POST", handle: () => handleCollect(env) },
+    [`${prefix}/admin/collect/dry-run`]: { method: "POST", handle: () => handleDryRun(env) },
+    [`${prefix}/admin/recompute`]: { method: "POST", handle: () => handleRecompute(env) },
+    [`${prefix}/admin/backfill`]: { method: "POST", handle: () => handleBackfill(request, env) },
+    [`${prefix}/admin/collections`]: { method: "GET", handle: () => handleHistory(request, env) },
+    [`${prefix}/admin/compact`]: { method: "POST", handle: () => handleCompact(request, env) },
+    [`${prefix}/admin/archives`]: { method: "GET", handle: () => handleArchives(env) },
+    [`${prefix}/admin/archives/download`]: { method: "GET", handle: () => handleArchiveDownload(request, env) },
+  };
+  const route = routes[pathname];
+
+  if (!route || route.method !== request.method) {
+    return null;
+  }
+
+  try {
+    // The rate limiter needs its table before anything else touches D1
+    await applyMigrations(env.STATS_DB);
+
+    const clientIp = request.headers.get("CF-Connecting-IP") ?? "unknown";
+    const retryAfter = await checkRateLimit(env.STATS_DB, `admin:${clientIp}`);
+
+    if (retryAfter !== null) {
+      return errorResponse("Too many requests", 429, { "Retry-After": String(retryAfter) });
+    }
+
+    const denied = await authorize(request, env);
+
+    if (denied) {
+      return denied;
+    }
+
+    return await route.handle();
+  } catch (error) {
+    return errorResponse(error instanceof Error ? error.message : String(error), 500);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * workers/stats-collector/src/anomalies.ts
+ *
+ * Detects suspicious download count changes: per-asset counters that went
+ * backwards, assets re-uploaded under a new ID, and daily increases far
+ * outside a release's recent history (typically bots).
+ *
+ * Detection is pure so it can be unit tested; the collector stores the
+ * findings in the anomalies table and /api/stats returns them as annotations.
+ * Stored totals are never adjusted here.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AnomalyKind = "negative_delta" | "asset_reupload" | "spike";
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  /** GitHub asset ID, or 0 for release-level anomalies */
+  assetId: number;
+  /** Observed change in downloads (negative for counter resets) */
+  delta: number;
+  /** Trailing mean daily increase (spikes only) */
+  expected: number | null;
+  /** Standard score versus the trailing window (spikes only) */
+  score: number | null;
+  detail: string;
+}
+
+/** An asset's download counter as stored or as reported by GitHub. */
+export interface AssetCount {
+  id: number;
+  name: string;
+  downloadCount: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Trailing days of daily increases a spike is compared against */
+export const SPIKE_WINDOW_DAYS = 28;
+
+/** Fewer trailing increases than this are too noisy to judge */
+const SPIKE_MIN_SAMPLES = 7;
+
+/** Standard score at or above which an increase counts as a spike */
+const SPIKE_MIN_SCORE = 4;
+
+/** Small releases jump around; increases below this are never spikes */
+const SPIKE_MIN_DOWNLOADS = 50;
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Compares a release's stored asset counters with the current GitHub assets.
+ *
+ * A counter lower than before is a negative delta. A new asset carrying the
+ * name of a stored asset that disappeared is a re-upload, which drops the old
+ * asset's downloads from GitHub's total. Releases without stored assets
+ * (first collection) have nothing to compare against.
+ */
+export function detectAssetAnomalies(previous: AssetCount[], current: AssetCount[]): Anomaly[] {
+  const previousById = new Map(previous.map((asset) => [asset.id, asset]));
+  const currentIds = new Set(current.map((asset) => asset.id));
+  const removedByName = new Map(
+    previous.filter((asset) => !currentIds.has(asset.id)).map((asset) => [asset.name, asset]),
+  );
+  const anomalies: Anomaly[] = [];
+
+  for (const asset of current) {
+    const before = previousById.get(asset.id);
+
+    if (before && asset.downloadCount < before.downloadCount) {
+      anomalies.push({
+        kind: "negative_delta",
+        assetId: asset.id,
+        delta: asset.downloadCount - before.downloadCount,
+        expected: null,
+        score: null,
+        detail: `Download count of ${asset.name} fell from ${before.downloadCount} to ${asset.downloadCount}`,
+      });
+      continue;
+    }
+
+    const replaced = before ? undefined : removedByName.get(asset.name);
+
+    if (replaced) {
+      anomalies.push({
+        kind: "asset_reupload",
+        assetId: asset.id,
+        delta: asset.downloadCount - replaced.downloadCount,
+        expected: null,
+        score: null,
+        detail: `${asset.name} was re-uploaded, replacing an upload with ${replaced.downloadCount} downloads`,
+      });
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Checks whether today's increase is an outlier versus the trailing daily
+ * increases (oldest first). The standard deviation is floored at one download
+ * so a perfectly flat history doesn't turn any increase into a spike.
+ */
+export function detectSpike(trailing: number[], increase: number): Anomaly | null {
+  const window = trailing.slice(-SPIKE_WINDOW_DAYS);
+
+  if (window.length < SPIKE_MIN_SAMPLES || increase < SPIKE_MIN_DOWNLOADS) {
+    return null;
+  }
+
+  const mean = window.reduce((sum, value) => sum + value, 0) / window.length;
+  const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / window.length;
+  const score = (increase - mean) / Math.max(Math.sqrt(variance), 1);
+
+  if (score < SPIKE_MIN_SCORE) {
+    return null;
+  }
+
+  return {
+    kind: "spike",
+    assetId: 0,
+    delta: increase,
+    expected: mean,
+    score,
+    detail: `${increase} downloads in a day against a ${window.length}-day mean of ${Math.round(mean)} (z = ${score.toFixed(1)})`,
+  };
+}
@@ -0,0 +1,422 @@
+/**
+ * workers/stats-collector/src/compaction.ts
+ *
+ * Retention for the daily snapshot tables. downloads_daily and
+ * platform_downloads_daily gain a row per release (and platform) every day,
+ * while the stats API only charts the last 90 days of them.
+ *
+ * At the end of each collection run, snapshots older than
+ * COMPACTION_HORIZON_DAYS (rounded down to the start of a month) are
+ * compacted, oldest first and at most MAX_MONTHS_PER_RUN months at a time:
+ *
+ *   1. The weekly and monthly aggregates of the compacted days are rebuilt
+ *      and checked against the daily snapshots they replace.
+ *   2. The snapshots are stored as gzipped NDJSON in snapshot_archives.
+ *   3. The snapshots are deleted, in the same batch as the archive insert.
+ *
+ * The newest snapshot of every release and platform is always kept, so
+ * lifetime totals never change. Aggregates of periods starting before the
+ * newest archive's cutoff are final, and recomputeAggregates leaves them alone.
+ */
+
+import { monthTimestamp, periodDelta, recomputeAggregates, weekTimestamp } from "./index";
+import type { RecomputeResult } from "./index";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CompactionResult {
+  dryRun: boolean;
+  /** Snapshots before this day (YYYY-MM-DD) were compacted, or null when none were due */
+  cutoff: string | null;
+  /** Rows removed from downloads_daily (for dry runs: rows that would be) */
+  releaseRows: number;
+  /** Rows removed from platform_downloads_daily */
+  platformRows: number;
+  /** releaseRows + platformRows */
+  reclaimedRows: number;
+  /** snapshot_archives row holding the removed rows */
+  archiveId: number | null;
+  /** Size of the gzipped archive */
+  archiveBytes: number;
+  recomputed: RecomputeResult | null;
+}
+
+/** A stored archive, without its data. */
+export interface SnapshotArchive {
+  id: number;
+  createdAt: number;
+  /** Oldest archived snapshot (YYYY-MM-DD) */
+  firstDate: string;
+  /** Snapshots before this day (YYYY-MM-DD) were compacted */
+  cutoff: string;
+  releaseRows: number;
+  platformRows: number;
+  bytes: number;
+}
+
+/** A daily snapshot table and the aggregates built from it. */
+interface SnapshotTables {
+  daily: "downloads_daily" | "platform_downloads_daily";
+  weekly: "downloads_weekly" | "platform_downloads_weekly";
+  monthly: "downloads_monthly" | "platform_downloads_monthly";
+  /** Columns identifying one cumulative series */
+  keyColumns: string[];
+  /** The same as one text value */
+  key: string;
+}
+
+interface ArchiveRow {
+  id: number;
+  created_at: number;
+  first_date: number;
+  cutoff: number;
+  release_rows: number;
+  platform_rows: number;
+  bytes: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MS_PER_DAY = 86400000;
+
+export const DEFAULT_HORIZON_DAYS = 365;
+
+/** The stats API charts the last 90 days of snapshots, so those are never compacted */
+export const MIN_HORIZON_DAYS = 90;
+
+/** Keeps the first compaction of a long history, and its archive, small */
+const MAX_MONTHS_PER_RUN = 6;
+
+const TABLES: SnapshotTables[] = [
+  {
+    daily: "downloads_daily",
+    weekly: "downloads_weekly",
+    monthly: "downloads_monthly",
+    keyColumns: ["release_id"],
+    key: "CAST(release_id AS TEXT)",
+  },
+  {
+    daily: "platform_downloads_daily",
+    weekly: "platform_downloads_weekly",
+    monthly: "platform_downloads_monthly",
+    keyColumns: ["release_id", "platform"],
+    key: "release_id || ':' || platform",
+  },
+];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatDate(ts: number): string {
+  return new Date(ts).toISOString().split("T")[0];
+}
+
+function nextMonth(month: number): number {
+  const date = new Date(month);
+
+  date.setUTCMonth(date.getUTCMonth() + 1);
+
+  return date.getTime();
+}
+
+function toArchive(row: ArchiveRow): SnapshotArchive {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    firstDate: formatDate(row.first_date),
+    cutoff: formatDate(row.cutoff),
+    releaseRows: row.release_rows,
+    platformRows: row.platform_rows,
+    bytes: row.bytes,
+  };
+}
+
+/**
+ * SQL condition matching the compactable rows of a daily table aliased `d`:
+ * dated before ?1, and not the newest row of their series.
+ */
+function compactable(tables: SnapshotTables): string {
+  const sameSeries = tables.keyColumns.map((column) => `l.${column} = d.${column}`).join(" AND ");
+
+  return `d.date < ?1 AND d.date < (SELECT MAX(l.date) FROM ${tables.daily} l WHERE ${sameSeries})`;
+}
+
+async function gzip(text: string): Promise<ArrayBuffer> {
+  const stream = new Response(text).body!.pipeThrough(new CompressionStream("gzip"));
+
+  return new Response(stream).arrayBuffer();
+}
+
+/** Parses COMPACTION_HORIZON_DAYS, falling back to the default when it is not set. */
+export function resolveHorizonDays(value: string | undefined): number {
+  if (value === undefined || value.trim() === "") {
+    return DEFAULT_HORIZON_DAYS;
+  }
+
+  const days = Number(value);
+
+  if (!Number.isInteger(days) || days < MIN_HORIZON_DAYS) {
+    throw new Error(`Invalid 'COMPACTION_HORIZON_DAYS', expected an integer of at least ${MIN_HORIZON_DAYS}`);
+  }
+
+  return days;
+}
+
+/** Returns the newest compaction cutoff, or 0 when nothing was compacted yet. */
+export async function compactedBefore(db: D1Database): Promise<number> {
+  const row = await db
+    .prepare("SELECT MAX(cutoff) AS cutoff FROM snapshot_archives")
+    .first<{ cutoff: number | null }>();
+
+  return row?.cutoff ?? 0;
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Compares the stored aggregates of the given weeks and months with the
+ * deltas of the daily snapshots, summed per series.
+ * Returns a description of every series that differs.
+ */
+async function verifyAggregates(
+  db: D1Database,
+  tables: SnapshotTables,
+  periods: { weeks: number[]; months: number[] },
+  publishedAt: Map<number, number>,
+): Promise<string[]> {
+  const checks = [
+    { table: tables.weekly, column: "week", starts: periods.weeks, end: (start: number) => start + 7 * MS_PER_DAY },
+    { table: tables.monthly, column: "month", starts: periods.months, end: nextMonth },
+  ];
+  const mismatches: string[] = [];
+
+  for (const { table, column, starts, end } of checks) {
+    if (starts.length === 0) {
+      continue;
+    }
+
+    const from = starts[0];
+    const to = end(starts[starts.length - 1]);
+    const [daily, stored] = await Promise.all([
+      db
+        .prepare(
+          `SELECT ${tables.key} AS key, release_id, date, count FROM ${tables.daily}
+           WHERE date >= ? AND date < ? ORDER BY key ASC, date ASC`,
+        )
+        .bind(from, to)
+        .all<{ key: string; release_id: number; date: number; count: number }>(),
+      db
+        .prepare(
+          `SELECT ${tables.key} AS key, SUM(count) AS total FROM ${table}
+           WHERE ${column} >= ? AND ${column} < ? GROUP BY key`,
+        )
+        .bind(from, to)
+        .all<{ key: string; total: number }>(),
+    ]);
+
+    const rowsByKey = new Map<string, Array<{ release_id: number; date: number; count: number }>>();
+
+    for (const row of daily.results) {
+      const rows = rowsByKey.get(row.key) ?? [];
+
+      rows.push(row);
+      rowsByKey.set(row.key, rows);
+    }
+
+    const expected = new Map<string, number>();
+
+    for (const [key, rows] of rowsByKey) {
+      const released = publishedAt.get(rows[0].release_id) ?? 0;
+      let total = 0;
+
+      for (const start of starts) {
+        const inPeriod = rows.filter((row) => row.date >= start && row.date < end(start));
+
+        total += periodDelta(inPeriod, released, start, end(start));
+      }
+
+      expected.set(key, total);
+    }
+
+    const actual = new Map(stored.results.map((row) => [row.key, row.total]));
+
+    for (const key of new Set([...expected.keys(), ...actual.keys()])) {
+      if ((expected.get(key) ?? 0) !== (actual.get(key) ?? 0)) {
+        mismatches.push(`${table} ${key}: ${actual.get(key) ?? 0} stored, ${expected.get(key) ?? 0} expected`);
+      }
+    }
+  }
+
+  return mismatches;
+}
+
+// =============================================================================
+// Compaction
+// =============================================================================
+
+/**
+ * Rolls daily snapshots older than the horizon into the weekly and monthly
+ * aggregates, archives them and deletes them. Dry runs only count the rows.
+ * Throws, without deleting anything, when the aggregates don't add up to
+ * the snapshots they replace.
+ */
+export async function compactSnapshots(
+  db: D1Database,
+  options: { horizonDays?: number; dryRun?: boolean } = {},
+): Promise<CompactionResult> {
+  const dryRun = options.dryRun ?? false;
+  const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+  const result: CompactionResult = {
+    dryRun,
+    cutoff: null,
+    releaseRows: 0,
+    platformRows: 0,
+    reclaimedRows: 0,
+    archiveId: null,
+    archiveBytes: 0,
+    recomputed: null,
+  };
+
+  if (!Number.isInteger(horizonDays) || horizonDays < MIN_HORIZON_DAYS) {
+    throw new Error(`Compaction horizon must be an integer of at least ${MIN_HORIZON_DAYS} days`);
+  }
+
+  const today = Math.floor(Date.now() / MS_PER_DAY) * MS_PER_DAY;
+  const horizon = monthTimestamp(today - horizonDays * MS_PER_DAY);
+  const oldest = await db
+    .prepare(
+      `SELECT MIN(first_date) AS first_date FROM (${TABLES.map(
+        (tables) => `SELECT MIN(d.date) AS first_date FROM ${tables.daily} d WHERE ${compactable(tables)}`,
+      ).join(" UNION ALL ")})`,
+    )
+    .bind(horizon)
+    .first<{ first_date: number | null }>();
+
+  if (oldest?.first_date == null) {
+    return result;
+  }
+
+  const firstDate = oldest.first_date;
+  let cutoff = monthTimestamp(firstDate);
+
+  for (let months = 0; months < MAX_MONTHS_PER_RUN && cutoff < horizon; months++) {
+    cutoff = nextMonth(cutoff);
+  }
+
+  const [releaseRows, platformRows] = await Promise.all(
+    TABLES.map((tables) =>
+      db
+        .prepare(`SELECT d.* FROM ${tables.daily} d WHERE ${compactable(tables)} ORDER BY d.date ASC`)
+        .bind(cutoff)
+        .all<Record<string, unknown>>(),
+    ),
+  );
+
+  result.cutoff = formatDate(cutoff);
+  result.releaseRows = releaseRows.results.length;
+  result.platformRows = platformRows.results.length;
+  result.reclaimedRows = result.releaseRows + result.platformRows;
+
+  if (dryRun) {
+    return result;
+  }
+
+  // Rebuilt while every snapshot is still there, including the days of the
+  // last week that fall after the cutoff. Periods frozen by earlier
+  // compactions are skipped here and by recomputeAggregates.
+  const floor = await compactedBefore(db);
+
+  result.recomputed = await recomputeAggregates(db, { from: firstDate, to: cutoff - MS_PER_DAY });
+
+  const periods = { weeks: [] as number[], months: [] as number[] };
+  let week = weekTimestamp(Math.max(firstDate, floor));
+
+  for (week = week < floor ? week + 7 * MS_PER_DAY : week; week < cutoff; week += 7 * MS_PER_DAY) {
+    periods.weeks.push(week);
+  }
+
+  for (let month = monthTimestamp(Math.max(firstDate, floor)); month < cutoff; month = nextMonth(month)) {
+    periods.months.push(month);
+  }
+
+  const releases = await db
+    .prepare("SELECT id, published_at FROM releases")
+    .all<{ id: number; published_at: number | null }>();
+  const publishedAt = new Map(releases.results.map((row) => [row.id, row.published_at ?? 0]));
+  const mismatches: string[] = [];
+
+  for (const tables of TABLES) {
+    mismatches.push(...(await verifyAggregates(db, tables, periods, publishedAt)));
+  }
+
+  if (mismatches.length > 0) {
+    throw new Error(`Compaction aborted, aggregates don't match the daily snapshots: ${mismatches.join("; ")}`);
+  }
+
+  const lines = [
+    ...releaseRows.results.map((row) => JSON.stringify({ table: "downloads_daily", ...row })),
+    ...platformRows.results.map((row) => JSON.stringify({ table: "platform_downloads_daily", ...row })),
+  ];
+  const archive = await gzip(lines.map((line) => `${line}\n`).join(""));
+
+  const [inserted] = await db.batch<{ id: number }>([
+    db
+      .prepare(
+        `INSERT INTO snapshot_archives (created_at, first_date, cutoff, release_rows, platform_rows, bytes, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING id`,
+      )
+      .bind(Date.now(), firstDate, cutoff, result.releaseRows, result.platformRows, archive.byteLength, archive),
+    ...TABLES.map((tables) => db.prepare(`DELETE FROM ${tables.daily} AS d WHERE ${compactable(tables)}`).bind(cutoff)),
+  ]);
+
+  result.archiveId = inserted.results[0].id;
+  result.archiveBytes = archive.byteLength;
+
+  console.log(`Compacted ${result.reclaimedRows} daily snapshots before ${result.cutoff}`);
+
+  return result;
+}
+
+// =============================================================================
+// Archives
+// =============================================================================
+
+/** Lists the stored archives, newest first. */
+export async function listSnapshotArchives(db: D1Database): Promise<SnapshotArchive[]> {
+  const rows = await db
+    .prepare(
+      `SELECT id, created_at, first_date, cutoff, release_rows, platform_rows, bytes
+       FROM snapshot_archives ORDER BY id DESC`,
+    )
+    .all<ArchiveRow>();
+
+  return rows.results.map(toArchive);
+}
+
+/**
+ * Loads an archive with its gzipped NDJSON: one removed snapshot per line,
+ * with its source table in `table`. Returns null for unknown ids.
+ */
+export async function readSnapshotArchive(
+  db: D1Database,
+  id: number,
+): Promise<{ archive: SnapshotArchive; data: ArrayBuffer } | null> {
+  const row = await db
+    .prepare("SELECT * FROM snapshot_archives WHERE id = ?")
+    .bind(id)
+    .first<ArchiveRow & { data: ArrayBuffer | number[] }>();
+
+  if (!row) {
+    return null;
+  }
+
+  // D1 returns BLOB columns as arrays of bytes
+  return { archive: toArchive(row), data: new Uint8Array(row.data).buffer };
+}
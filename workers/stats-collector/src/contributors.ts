@@ -0,0 +1,287 @@
+/**
+ * workers/stats-collector/src/contributors.ts
+ *
+ * Contributor activity. Once a day the collector counts the commits, pull
+ * requests and issues of every contributor per month, and records when each
+ * contributor first contributed so new contributors can be counted.
+ *
+ * The first refresh of a repository covers the last year. Later refreshes
+ * rewrite the previous and the current month, which catches late pushes and
+ * issues opened just before a month ended. Months older than what the page
+ * limit lets a refresh read are not written. First contributions come from
+ * GitHub's all-time commit statistics when they are ready (GitHub answers
+ * 202 while it computes them) and from the first stored month otherwise.
+ *
+ * The requests live in ./index with the rest of the GitHub API code; this
+ * module parses their responses and builds the D1 statements.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One commit, pull request or issue by a contributor. */
+export interface Contribution {
+  login: string;
+  avatarUrl: string | null;
+  /** Commit (author) date or creation date (Unix ms) */
+  date: number;
+}
+
+export interface IssueContribution extends Contribution {
+  pullRequest: boolean;
+}
+
+/** A contributor's first contribution according to GitHub's commit statistics. */
+export interface FirstContribution {
+  login: string;
+  avatarUrl: string | null;
+  /** Month of the first commit (1st 00:00 UTC) */
+  month: number;
+}
+
+/** Counts of one contributor in one month. */
+export interface MonthlyActivity {
+  month: number;
+  login: string;
+  avatarUrl: string | null;
+  commits: number;
+  pullRequests: number;
+  issues: number;
+}
+
+interface GitHubUser {
+  login?: unknown;
+  avatar_url?: unknown;
+  type?: unknown;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Months covered by the first refresh of a repository, including the current one */
+export const CONTRIBUTOR_HISTORY_MONTHS = 12;
+
+// =============================================================================
+// Dates
+// =============================================================================
+
+/** Start of the month (UTC) containing the timestamp. */
+function monthOf(ts: number): number {
+  const date = new Date(ts);
+
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/**
+ * Returns whether a repository's activity is due: never refreshed, or last
+ * refreshed before today.
+ */
+export function isRefreshDue(refreshedAt: number | null, today: number): boolean {
+  return refreshedAt === null || refreshedAt < today;
+}
+
+/**
+ * First month a refresh rewrites: a year back for the first refresh, else
+ * the month before the current one.
+ */
+export function activityWindowStart(today: number, refreshedAt: number | null): number {
+  const date = new Date(today);
+  const monthsBack = refreshedAt === null ? CONTRIBUTOR_HISTORY_MONTHS - 1 : 1;
+
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - monthsBack, 1);
+}
+
+/**
+ * First month a refresh can rewrite in full. Listings are read newest first,
+ * so one cut off at the page limit misses what is older than its last item:
+ * that item's month and the ones before it are left as stored.
+ */
+export function completeWindowStart(since: number, cutOff: Contribution[][]): number {
+  return cutOff.reduce((start, items) => {
+    if (items.length === 0) {
+      return start;
+    }
+
+    const oldest = new Date(Math.min(...items.map((item) => item.date)));
+
+    return Math.max(start, Date.UTC(oldest.getUTCFullYear(), oldest.getUTCMonth() + 1, 1));
+  }, since);
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/** Login and avatar of a GitHub user object, or null for missing users and bots. */
+function readUser(user: GitHubUser | null | undefined): Pick<Contribution, "login" | "avatarUrl"> | null {
+  if (!user || typeof user.login !== "string" || user.type === "Bot") {
+    return null;
+  }
+
+  return { login: user.login, avatarUrl: typeof user.avatar_url === "string" ? user.avatar_url : null };
+}
+
+/**
+ * Reads one page of GET /repos/{owner}/{repo}/commits. Commits whose author
+ * email isn't linked to a GitHub account, and bot commits, are left out.
+ */
+export function parseCommits(body: unknown): Contribution[] {
+  if (!Array.isArray(body)) {
+    throw new Error("Unexpected GitHub commits response");
+  }
+
+  return body.flatMap((item: { author?: GitHubUser | null; commit?: { author?: { date?: unknown } } }) => {
+    const date = typeof item?.commit?.author?.date === "string" ? Date.parse(item.commit.author.date) : NaN;
+
+    if (Number.isNaN(date)) {
+      throw new Error("Unexpected GitHub commits response, missing commit date");
+    }
+
+    const user = readUser(item.author);
+
+    return user ? [{ ...user, date }] : [];
+  });
+}
+
+/** Reads one page of GET /repos/{owner}/{repo}/issues, which lists pull requests too. */
+export function parseIssues(body: unknown): IssueContribution[] {
+  if (!Array.isArray(body)) {
+    throw new Error("Unexpected GitHub issues response");
+  }
+
+  return body.flatMap((item: { user?: GitHubUser | null; created_at?: unknown; pull_request?: unknown }) => {
+    const date = typeof item?.created_at === "string" ? Date.parse(item.created_at) : NaN;
+
+    if (Number.isNaN(date)) {
+      throw new Error("Unexpected GitHub issues response, missing creation date");
+    }
+
+    const user = readUser(item.user);
+
+    return user ? [{ ...user, date, pullRequest: item.pull_request !== undefined }] : [];
+  });
+}
+
+/** Reads GET /repos/{owner}/{repo}/stats/contributors into each author's first commit month. */
+export function parseContributorStats(body: unknown): FirstContribution[] {
+  if (!Array.isArray(body)) {
+    throw new Error("Unexpected GitHub contributor statistics response");
+  }
+
+  return body.flatMap((entry: { author?: GitHubUser | null; weeks?: Array<{ w?: unknown; c?: unknown }> }) => {
+    const user = readUser(entry?.author);
+    const firstWeek = Array.isArray(entry?.weeks)
+      ? entry.weeks.find((week) => typeof week.w === "number" && typeof week.c === "number" && week.c > 0)
+      : undefined;
+
+    // Weeks start on Sunday, so a week starting late in a month counts for that month
+    return user && firstWeek ? [{ ...user, month: monthOf((firstWeek.w as number) * 1000) }] : [];
+  });
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Counts contributions per contributor per month, leaving out those before
+ * `since`. Months without activity have no entry.
+ */
+export function tallyActivity(commits: Contribution[], issues: IssueContribution[], since: number): MonthlyActivity[] {
+  const activity = new Map<string, MonthlyActivity>();
+
+  const add = (contribution: Contribution, field: "commits" | "pullRequests" | "issues"): void => {
+    if (contribution.date < since) {
+      return;
+    }
+
+    const month = monthOf(contribution.date);
+    const key = `${month}:${contribution.login.toLowerCase()}`;
+    const entry = activity.get(key) ?? {
+      month,
+      login: contribution.login,
+      avatarUrl: contribution.avatarUrl,
+      commits: 0,
+      pullRequests: 0,
+      issues: 0,
+    };
+
+    entry[field]++;
+    activity.set(key, entry);
+  };
+
+  commits.forEach((commit) => add(commit, "commits"));
+  issues.forEach((issue) => add(issue, issue.pullRequest ? "pullRequests" : "issues"));
+
+  return [...activity.values()].sort((a, b) => a.month - b.month || a.login.localeCompare(b.login));
+}
+
+/**
+ * Earliest known contribution per contributor (lowercase login), from the
+ * commit statistics and the tallied months. The later of the two sources
+ * never wins, and stored values are kept by the upsert when they are older.
+ */
+export function firstContributions(
+  stats: FirstContribution[],
+  activity: MonthlyActivity[],
+): Map<string, FirstContribution> {
+  const first = new Map<string, FirstContribution>();
+
+  for (const entry of [...stats, ...activity]) {
+    const key = entry.login.toLowerCase();
+    const known = first.get(key);
+
+    if (!known || entry.month < known.month) {
+      first.set(key, {
+        login: entry.login,
+        avatarUrl: entry.avatarUrl ?? known?.avatarUrl ?? null,
+        month: entry.month,
+      });
+    } else if (known.avatarUrl === null) {
+      known.avatarUrl = entry.avatarUrl;
+    }
+  }
+
+  return first;
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/**
+ * Replaces a repository's activity from `since` on, upserts its contributors
+ * and marks the repository refreshed, as one batch.
+ */
+export function contributorStatements(
+  db: D1Database,
+  repositoryId: number,
+  since: number,
+  activity: MonthlyActivity[],
+  contributors: Iterable<FirstContribution>,
+): D1PreparedStatement[] {
+  const now = Date.now();
+  const activityStmt = db.prepare(
+    `INSERT INTO contributor_activity_monthly (month, repository_id, login, commits, pull_requests, issues, collected_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+  );
+  const contributorStmt = db.prepare(
+    `INSERT INTO contributors (repository_id, login, avatar_url, first_contribution) VALUES (?, ?, ?, ?)
+     ON CONFLICT(repository_id, login) DO UPDATE SET
+       avatar_url = COALESCE(excluded.avatar_url, contributors.avatar_url),
+       first_contribution = MIN(contributors.first_contribution, excluded.first_contribution)`,
+  );
+
+  return [
+    db
+      .prepare("DELETE FROM contributor_activity_monthly WHERE repository_id = ? AND month >= ?")
+      .bind(repositoryId, since),
+    ...activity.map((entry) =>
+      activityStmt.bind(entry.month, repositoryId, entry.login, entry.commits, entry.pullRequests, entry.issues, now),
+    ),
+    ...[...contributors].map((entry) => contributorStmt.bind(repositoryId, entry.login, entry.avatarUrl, entry.month)),
+    db.prepare("UPDATE repositories SET contributors_refreshed_at = ? WHERE id = ?").bind(now, repositoryId),
+  ];
+}
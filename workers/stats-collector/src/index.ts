@@ -3,8 +3,64 @@
  *
  * Collects GitHub release download statistics daily via cron.
  * Stores data in D1 for the /api/stats endpoint.
+ *
+ * Besides the LichtFeld Studio repository (GITHUB_OWNER/GITHUB_REPO), every
+ * GitHub repository listed in the plugin registry (PLUGIN_REGISTRY_URL) is
+ * tracked in the repositories table and collected in the same run.
+ *
+ * Manual collection and maintenance routes live in ./admin and require ADMIN_TOKEN.
+ * Pending schema migrations (db/migrations) are applied before each run.
+ *
+ * Release list pages are fetched with conditional requests against the ETags
+ * stored in github_etags, so unchanged pages cost no rate limit. When GitHub's
+ * rate limit runs out mid-run, the run stops and is logged as "rate_limited"
+ * instead of failing.
+ *
+ * After each repository is stored, an anomaly pass (./anomalies) records
+ * counter resets, asset re-uploads and download spikes in the anomalies table.
+ *
+ * New releases, releases crossing a round download total and failed
+ * collections are sent to the webhooks in WEBHOOK_URLS (./webhooks) at the
+ * end of each run, together with deliveries left pending by earlier runs.
+ *
+ * Each run also snapshots the stars, forks, watchers and open issues of every
+ * tracked repository, plus clones and views where the token has push access
+ * (./metrics). Once a day it also refreshes the monthly commit, pull request
+ * and issue counts per contributor (./contributors). Finally it compacts daily
+ * snapshots older than COMPACTION_HORIZON_DAYS into the weekly/monthly
+ * aggregates and archives them (./compaction).
  */
 
+import { applyMigrations } from "../../../db/migrate";
+import { handleAdminRequest } from "./admin";
+import { compactedBefore, compactSnapshots, resolveHorizonDays } from "./compaction";
+import type { CompactionResult } from "./compaction";
+import { detectAssetAnomalies, detectSpike, SPIKE_WINDOW_DAYS } from "./anomalies";
+import type { Anomaly, AssetCount } from "./anomalies";
+import {
+  activityWindowStart,
+  completeWindowStart,
+  contributorStatements,
+  firstContributions,
+  isRefreshDue,
+  parseCommits,
+  parseContributorStats,
+  parseIssues,
+  tallyActivity,
+} from "./contributors";
+import type { FirstContribution } from "./contributors";
+import {
+  isTrafficDue,
+  metricsStatement,
+  parseRepositoryMetrics,
+  parseTraffic,
+  TRAFFIC_KINDS,
+  trafficStatements,
+} from "./metrics";
+import { classifyAsset } from "./platforms";
+import { deliverPendingWebhooks, enqueueWebhooks, milestoneCrossed, parseWebhookUrls } from "./webhooks";
+import type { WebhookEvent } from "./webhooks";
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -14,6 +70,61 @@ export interface CollectorEnv {
   GITHUB_TOKEN?: string;
   GITHUB_OWNER: string;
   GITHUB_REPO: string;
+  /** Shared secret for admin routes, set via `wrangler secret put ADMIN_TOKEN` */
+  ADMIN_TOKEN?: string;
+  /** Plugin registry index (/plugin-registry/index.json) whose repositories are collected too */
+  PLUGIN_REGISTRY_URL?: string;
+  /** Webhook receivers (comma separated), set via `wrangler secret put WEBHOOK_URLS` */
+  WEBHOOK_URLS?: string;
+  /** Signs generic webhook payloads, set via `wrangler secret put WEBHOOK_SECRET` */
+  WEBHOOK_SECRET?: string;
+  /** Daily snapshots older than this many days are compacted (default 365, at least 90) */
+  COMPACTION_HORIZON_DAYS?: string;
+  /** GitHub REST API base URL, e.g. the fake server in dev/ (default https://api.github.com) */
+  GITHUB_API_URL?: string;
+}
+
+/** A GitHub repository tracked in the repositories table. */
+interface Repository {
+  id: number;
+  owner: string;
+  name: string;
+}
+
+/** What started a collection run, recorded in collection_runs. */
+export type CollectionTrigger = "scheduled" | "manual";
+
+/** GitHub rate-limit headers from the most recent API response. */
+export interface GitHubRateLimit {
+  limit: number | null;
+  remaining: number | null;
+  used: number | null;
+  /** When the window resets (Unix ms) */
+  reset: number | null;
+}
+
+/** Mutable state gathered while a collection runs, written to collection_runs. */
+interface CollectionRunState {
+  rateLimit: GitHubRateLimit | null;
+  /** GitHub API requests made so far */
+  requests: number;
+  /** Requests answered 304 Not Modified */
+  notModified: number;
+  /** Webhook events raised so far, sent when the run finishes */
+  events: WebhookEvent[];
+}
+
+/** Items read from a paginated GitHub listing. */
+interface GitHubList<T> {
+  items: T[];
+  /** False when MAX_LIST_PAGES ended the listing before its last page */
+  complete: boolean;
+}
+
+/** A stored releases page, reused when GitHub answers 304 Not Modified. */
+interface CachedPage {
+  etag: string;
+  releases: GitHubRelease[];
 }
 
 // Internal alias for backwards compatibility within this file
@@ -35,6 +146,13 @@ interface GitHubRelease {
   assets: GitHubAsset[];
 }
 
+/** Fields of a plugin registry index entry used to find its repository. */
+interface RegistryPlugin {
+  namespace: string;
+  name: string;
+  repository: string;
+}
+
 // =============================================================================
 // Constants
 // =============================================================================
@@ -42,6 +160,19 @@ interface GitHubRelease {
 const GITHUB_API = "https://api.github.com";
 const MS_PER_DAY = 86400000;
 
+/** Releases per GitHub list page; a shorter page is the last one */
+const RELEASES_PER_PAGE = 100;
+
+/** Items per page of other GitHub listings, and the most pages read from one */
+const LIST_PER_PAGE = 100;
+const MAX_LIST_PAGES = 10;
+
+/** The LichtFeld Studio repository, seeded by the repositories migration */
+const PRIMARY_REPOSITORY_ID = 1;
+
+/** Estimated rows the backfill writes per D1 batch */
+const BACKFILL_BATCH_SIZE = 500;
+
 // =============================================================================
 // Utilities
 // =============================================================================
@@ -52,7 +183,7 @@ function todayTimestamp(): number {
 }
 
 /** Returns Unix timestamp for Monday of the week containing the given timestamp. */
-function weekTimestamp(ts: number): number {
+export function weekTimestamp(ts: number): number {
   const date = new Date(ts);
   const day = date.getUTCDay();
   const diff = day === 0 ? 6 : day - 1;
@@ -64,7 +195,7 @@ function weekTimestamp(ts: number): number {
 }
 
 /** Returns Unix timestamp for 1st of the month containing the given timestamp. */
-function monthTimestamp(ts: number): number {
+export function monthTimestamp(ts: number): number {
   const date = new Date(ts);
 
   date.setUTCDate(1);
@@ -77,11 +208,74 @@ function monthTimestamp(ts: number): number {
 // GitHub API
 // =============================================================================
 
-/** Fetches all published releases from GitHub. */
-async function fetchReleases(env: Env): Promise<GitHubRelease[]> {
-  const releases: GitHubRelease[] = [];
-  let page = 1;
+/** Reads GitHub's X-RateLimit-* headers, or null when the response has none. */
+function readRateLimit(res: Response): GitHubRateLimit | null {
+  const header = (name: string): number | null => {
+    const value = res.headers.get(`X-RateLimit-${name}`);
+
+    return value === null || value === "" || Number.isNaN(Number(value)) ? null : Number(value);
+  };
 
+  const rateLimit = {
+    limit: header("Limit"),
+    remaining: header("Remaining"),
+    used: header("Used"),
+    reset: header("Reset"),
+  };
+
+  if (Object.values(rateLimit).every((value) => value === null)) {
+    return null;
+  }
+
+  // GitHub reports the reset time in epoch seconds
+  return { ...rateLimit, reset: rateLimit.reset === null ? null : rateLimit.reset * 1000 };
+}
+
+/**
+ * True when a response means the GitHub rate limit is exhausted, as opposed
+ * to a 403 for other reasons (e.g. a missing repository permission).
+ */
+function isRateLimited(res: Response): boolean {
+  return (
+    (res.status === 403 || res.status === 429) &&
+    (res.headers.get("X-RateLimit-Remaining") === "0" || res.headers.has("Retry-After"))
+  );
+}
+
+/** Keeps the release fields the collector uses, so stored pages stay small. */
+function trimReleases(releases: GitHubRelease[]): GitHubRelease[] {
+  return releases.map((release) => ({
+    tag_name: release.tag_name,
+    name: release.name,
+    draft: release.draft,
+    prerelease: release.prerelease,
+    published_at: release.published_at,
+    assets: release.assets.map((asset) => ({
+      id: asset.id,
+      name: asset.name,
+      download_count: asset.download_count,
+      created_at: asset.created_at,
+    })),
+  }));
+}
+
+/** Loads the stored pages of one repository's release list, keyed by URL. */
+async function loadCachedPages(db: D1Database, urlPrefix: string): Promise<Map<string, CachedPage>> {
+  const rows = await db
+    .prepare("SELECT url, etag, body FROM github_etags WHERE substr(url, 1, length(?1)) = ?1")
+    .bind(urlPrefix)
+    .all<{ url: string; etag: string; body: string }>();
+
+  return new Map(rows.results.map((row) => [row.url, { etag: row.etag, releases: JSON.parse(row.body) }]));
+}
+
+/** Base URL of the GitHub REST API, without a trailing slash. */
+function githubApiUrl(env: Env): string {
+  return (env.GITHUB_API_URL || GITHUB_API).replace(/\/+$/, "");
+}
+
+/** Request headers for the GitHub REST API, authenticated when a token is configured. */
+function githubHeaders(env: Env): Record<string, string> {
   // Build headers - authentication is optional for public repos (lower rate limit without)
   const headers: Record<string, string> = {
     Accept: "application/vnd.github+json",
@@ -94,53 +288,326 @@ async function fetchReleases(env: Env): Promise<GitHubRelease[]> {
     headers.Authorization = `Bearer ${env.GITHUB_TOKEN}`;
   }
 
-  while (true) {
-    const url = `${GITHUB_API}/repos/${env.GITHUB_OWNER}/${env.GITHUB_REPO}/releases?per_page=100&page=${page}`;
-    const res = await fetch(url, { headers });
+  return headers;
+}
+
+/**
+ * Requests one GitHub API path and records the response on the run.
+ * Returns null when the rate limit is exhausted.
+ */
+async function fetchGitHub(env: Env, path: string, run: CollectionRunState): Promise<Response | null> {
+  const res = await fetch(`${githubApiUrl(env)}${path}`, { headers: githubHeaders(env) });
+
+  run.rateLimit = readRateLimit(res) ?? run.rateLimit;
+  run.requests++;
+
+  return isRateLimited(res) ? null : res;
+}
+
+/**
+ * Reads a paginated GitHub listing until a short page, a page for which
+ * `isLast` returns true, or MAX_LIST_PAGES, in which case the listing is
+ * marked incomplete. An empty repository (409) lists nothing. Returns null
+ * when the rate limit is exhausted.
+ */
+async function fetchGitHubList<T>(
+  env: Env,
+  path: string,
+  run: CollectionRunState,
+  parsePage: (body: unknown) => T[],
+  isLast: (page: T[]) => boolean = () => false,
+): Promise<GitHubList<T> | null> {
+  const items: T[] = [];
+  const separator = path.includes("?") ? "&" : "?";
+
+  for (let page = 1; page <= MAX_LIST_PAGES; page++) {
+    const res = await fetchGitHub(env, `${path}${separator}per_page=${LIST_PER_PAGE}&page=${page}`, run);
+
+    if (res === null) {
+      return null;
+    }
+
+    if (res.status === 409) {
+      break;
+    }
 
     if (!res.ok) {
       throw new Error(`GitHub API error: ${res.status}`);
     }
 
-    const data: GitHubRelease[] = await res.json();
+    const body: unknown = await res.json();
+    const parsed = parsePage(body);
+
+    items.push(...parsed);
 
-    if (data.length === 0) {
+    if ((Array.isArray(body) && body.length < LIST_PER_PAGE) || isLast(parsed)) {
       break;
     }
 
+    if (page === MAX_LIST_PAGES) {
+      console.warn(`Stopped reading ${path} after ${MAX_LIST_PAGES} pages`);
+
+      return { items, complete: false };
+    }
+  }
+
+  return { items, complete: true };
+}
+
+/**
+ * Fetches all published releases of a repository from GitHub.
+ *
+ * Pages are requested with If-None-Match when an ETag is stored, and served
+ * from github_etags on 304. Pagination stops at the first short page.
+ *
+ * An unchanged page doesn't end pagination early: each page's ETag covers the
+ * download counts of its own releases only, and older releases on later pages
+ * keep being downloaded. Reusing their stored bodies after a 304 on page 1
+ * would freeze those counts. Conditional requests answered with 304 don't
+ * count against the rate limit, so reading every page stays cheap.
+ *
+ * Returns null when the rate limit is exhausted. New ETags are only stored
+ * with `persist`, so dry runs leave the table alone.
+ * Rate-limit headers of every response are recorded on `run` when given.
+ */
+async function fetchReleases(
+  env: Env,
+  repository: Pick<Repository, "owner" | "name">,
+  run?: CollectionRunState,
+  persist = true,
+): Promise<GitHubRelease[] | null> {
+  const releases: GitHubRelease[] = [];
+  const urlPrefix = `${githubApiUrl(env)}/repos/${repository.owner}/${repository.name}/releases?`;
+  const cachedPages = await loadCachedPages(env.STATS_DB, urlPrefix);
+  const headers = githubHeaders(env);
+  let page = 1;
+
+  while (true) {
+    const url = `${urlPrefix}per_page=${RELEASES_PER_PAGE}&page=${page}`;
+    const cached = cachedPages.get(url);
+    const res = await fetch(url, { headers: cached ? { ...headers, "If-None-Match": cached.etag } : headers });
+
+    if (run) {
+      run.rateLimit = readRateLimit(res) ?? run.rateLimit;
+      run.requests++;
+    }
+
+    let data: GitHubRelease[];
+
+    if (res.status === 304 && cached) {
+      data = cached.releases;
+
+      if (run) {
+        run.notModified++;
+      }
+    } else if (isRateLimited(res)) {
+      console.warn(`GitHub rate limit exhausted while fetching ${repository.owner}/${repository.name}`);
+
+      return null;
+    } else if (!res.ok) {
+      throw new Error(`GitHub API error: ${res.status}`);
+    } else {
+      data = trimReleases(await res.json());
+
+      const etag = res.headers.get("ETag");
+
+      // Sequential write: the release upsert must stay the first batch of a collection
+      if (persist && etag) {
+        await env.STATS_DB.prepare(
+          `INSERT INTO github_etags (url, etag, body, updated_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT(url) DO UPDATE SET etag = excluded.etag, body = excluded.body, updated_at = excluded.updated_at`,
+        )
+          .bind(url, etag, JSON.stringify(data), Date.now())
+          .run();
+      }
+    }
+
     releases.push(...data.filter((r) => !r.draft && (!r.prerelease || r.tag_name === "nightly")));
+
+    if (data.length < RELEASES_PER_PAGE) {
+      break;
+    }
+
     page++;
   }
 
   return releases;
 }
 
+/**
+ * Extracts owner and name from a GitHub repository URL.
+ * Returns null for other hosts and malformed URLs.
+ */
+export function parseGitHubRepository(repositoryUrl: string): { owner: string; name: string } | null {
+  try {
+    const url = new URL(repositoryUrl);
+
+    if (url.hostname !== "github.com") {
+      return null;
+    }
+
+    const [, owner, name] = url.pathname.split("/");
+
+    if (!owner || !name) {
+      return null;
+    }
+
+    return { owner, name: name.replace(/\.git$/, "") };
+  } catch {
+    return null;
+  }
+}
+
+/** Fetches the plugin registry index and returns the GitHub repository of each plugin. */
+async function fetchRegistryRepositories(
+  registryUrl: string,
+): Promise<Array<{ pluginId: string; owner: string; name: string }>> {
+  const res = await fetch(registryUrl, { headers: { Accept: "application/json" } });
+
+  if (!res.ok) {
+    throw new Error(`Plugin registry error: ${res.status}`);
+  }
+
+  const index: { plugins?: RegistryPlugin[] } = await res.json();
+
+  if (!Array.isArray(index.plugins)) {
+    throw new Error("Plugin registry index has no plugins list");
+  }
+
+  return index.plugins.flatMap((plugin) => {
+    const repository = parseGitHubRepository(plugin.repository);
+
+    return repository ? [{ pluginId: `${plugin.namespace}:${plugin.name}`, ...repository }] : [];
+  });
+}
+
 // =============================================================================
 // Database Operations
 // =============================================================================
 
 /**
- * Ensures schema additions required by the collector exist in D1.
+ * Brings the repositories table in line with the configuration and returns
+ * the repositories to collect, LichtFeld Studio first.
  *
- * Production can lag behind local schema changes; without this guard the
- * collector can fail before writing fresh daily snapshots.
+ * Plugin repositories missing from the registry are disabled rather than
+ * deleted so their history stays queryable. When the registry cannot be
+ * fetched, the previously synced repositories are collected as they are.
  */
-async function ensureCollectorSchema(db: D1Database): Promise<void> {
+async function syncRepositories(env: Env): Promise<Repository[]> {
+  const db = env.STATS_DB;
+
+  // OR IGNORE: if a plugin row already uses the configured name, keep both as they are
   await db
-    .prepare(`
-      CREATE TABLE IF NOT EXISTS release_assets (
-          asset_id INTEGER PRIMARY KEY,
-          release_id INTEGER NOT NULL,
-          name TEXT NOT NULL,
-          last_download_count INTEGER NOT NULL DEFAULT 0,
-          created_at INTEGER,
-          first_seen INTEGER NOT NULL,
-          last_seen INTEGER NOT NULL
-      )
-    `)
+    .prepare("UPDATE OR IGNORE repositories SET owner = ?, name = ? WHERE id = ?")
+    .bind(env.GITHUB_OWNER, env.GITHUB_REPO, PRIMARY_REPOSITORY_ID)
     .run();
 
-  await db.prepare("CREATE INDEX IF NOT EXISTS idx_release_assets_release_id ON release_assets(release_id)").run();
+  if (env.PLUGIN_REGISTRY_URL) {
+    try {
+      const plugins = await fetchRegistryRepositories(env.PLUGIN_REGISTRY_URL);
+      const now = Date.now();
+      const upsertStmt = db.prepare(`
+        INSERT INTO repositories (owner, name, plugin_id, enabled, first_seen) VALUES (?, ?, ?, 1, ?)
+        ON CONFLICT(owner, name) DO UPDATE SET plugin_id = excluded.plugin_id, enabled = 1
+        WHERE repositories.id <> ${PRIMARY_REPOSITORY_ID}
+      `);
+
+      await db.batch([
+        db.prepare("UPDATE repositories SET enabled = 0 WHERE id <> ?").bind(PRIMARY_REPOSITORY_ID),
+        ...plugins.map((plugin) => upsertStmt.bind(plugin.owner, plugin.name, plugin.pluginId, now)),
+      ]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      console.error(`Plugin registry sync failed: ${message}`);
+    }
+  }
+
+  const rows = await db
+    .prepare("SELECT id, owner, name FROM repositories WHERE id = ? OR enabled = 1 ORDER BY id ASC")
+    .bind(PRIMARY_REPOSITORY_ID)
+    .all<Repository>();
+
+  return rows.results;
+}
+
+/**
+ * Records the outcome of collecting one repository and returns the error of
+ * its previous collection, null when that one succeeded.
+ */
+async function recordRepositoryCollection(
+  db: D1Database,
+  repositoryId: number,
+  error: string | null,
+): Promise<string | null> {
+  const [previous] = await db.batch<{ last_error: string | null }>([
+    db.prepare("SELECT last_error FROM repositories WHERE id = ?").bind(repositoryId),
+    db
+      .prepare(
+        "UPDATE repositories SET last_collected_at = CASE WHEN ?1 IS NULL THEN ?2 ELSE last_collected_at END, last_error = ?1 WHERE id = ?3",
+      )
+      .bind(error, Date.now(), repositoryId),
+  ]);
+
+  return previous.results[0]?.last_error ?? null;
+}
+
+/** Records the start of a collection run and returns its id and start time. */
+async function startCollectionRun(
+  db: D1Database,
+  trigger: CollectionTrigger,
+): Promise<{ id: number; startedAt: number }> {
+  const startedAt = Date.now();
+  const result = await db
+    .prepare("INSERT INTO collection_runs (trigger, status, started_at) VALUES (?, 'running', ?) RETURNING id")
+    .bind(trigger, startedAt)
+    .first<{ id: number }>();
+
+  return { id: result!.id, startedAt };
+}
+
+/**
+ * Marks a collection run as finished, successfully, rate limited or with an
+ * error message, along with its duration, GitHub request counts and the last
+ * GitHub rate-limit headers seen.
+ */
+async function finishCollectionRun(
+  db: D1Database,
+  run: { id: number; startedAt: number },
+  state: CollectionRunState,
+  outcome: { result: CollectResult } | { error: string },
+): Promise<void> {
+  const result = "result" in outcome ? outcome.result : null;
+  const finishedAt = Date.now();
+  const status = result === null ? "error" : result.rateLimited ? "rate_limited" : "success";
+  const error = "error" in outcome ? outcome.error : result?.rateLimited ? "GitHub rate limit exhausted" : null;
+
+  await db
+    .prepare(
+      `UPDATE collection_runs SET
+         status = ?, finished_at = ?, duration_ms = ?, releases_found = ?, releases_processed = ?, error = ?,
+         github_requests = ?, github_not_modified = ?,
+         rate_limit_limit = ?, rate_limit_remaining = ?, rate_limit_used = ?, rate_limit_reset = ?,
+         compacted_rows = ?
+       WHERE id = ?`,
+    )
+    .bind(
+      status,
+      finishedAt,
+      finishedAt - run.startedAt,
+      result?.releasesFound ?? null,
+      result?.releasesProcessed ?? null,
+      error,
+      state.requests,
+      state.notModified,
+      state.rateLimit?.limit ?? null,
+      state.rateLimit?.remaining ?? null,
+      state.rateLimit?.used ?? null,
+      state.rateLimit?.reset ?? null,
+      result?.compaction?.reclaimedRows ?? null,
+      run.id,
+    )
+    .run();
 }
 
 /**
@@ -160,26 +627,53 @@ interface PeriodDeltaRow {
   count: number;
 }
 
+interface PlatformPeriodDeltaRow extends PeriodDeltaRow {
+  platform: string;
+}
+
+/** An anomaly found for one release. */
+interface ReleaseAnomaly extends Anomaly {
+  releaseId: number;
+}
+
 /**
- * Batch upserts all releases and returns a map of tag -> release ID.
+ * Result of per-asset delta tracking.
+ * Asset deltas are only present for assets whose previous count was known,
+ * so bootstrapped releases contribute no delta.
+ */
+interface CumulativeCounts {
+  releases: Map<string, number>;
+  assetDeltas: Map<number, number>;
+  /** Counter resets and re-uploads seen while comparing asset counts */
+  anomalies: ReleaseAnomaly[];
+}
+
+/**
+ * Batch upserts all releases of a repository and returns a map of tag -> release ID.
  * Uses D1 batch to reduce round trips.
  *
  * Important: this step is metadata-only. It must not advance total_downloads
  * or last_updated on its own, otherwise a failed collection can publish fresh
  * totals without matching daily snapshots.
  */
-async function batchUpsertReleases(db: D1Database, releases: ProcessedRelease[]): Promise<Map<string, number>> {
+async function batchUpsertReleases(
+  db: D1Database,
+  repositoryId: number,
+  releases: ProcessedRelease[],
+): Promise<Map<string, number>> {
   const now = Date.now();
 
   const upsertStmt = db.prepare(`
-        INSERT INTO releases (tag, name, total_downloads, published_at, first_seen, last_updated)
-        VALUES (?, ?, ?, ?, ?, ?)
-        ON CONFLICT(tag) DO UPDATE SET
+        INSERT INTO releases (repository_id, tag, name, total_downloads, published_at, first_seen, last_updated)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(repository_id, tag) DO UPDATE SET
             name = excluded.name,
             published_at = COALESCE(releases.published_at, excluded.published_at)
     `);
 
-  const upsertStatements = releases.map((r) => upsertStmt.bind(r.tag, r.name, 0, r.publishedAt, now, null));
+  const upsertStatements = releases.map((r) =>
+    upsertStmt.bind(repositoryId, r.tag, r.name, 0, r.publishedAt, now, null),
+  );
 
   // Execute all upserts in a single batch
   await db.batch(upsertStatements);
@@ -188,8 +682,8 @@ async function batchUpsertReleases(db: D1Database, releases: ProcessedRelease[])
   const tags = releases.map((r) => r.tag);
   const placeholders = tags.map(() => "?").join(", ");
   const idResult = await db
-    .prepare(`SELECT id, tag FROM releases WHERE tag IN (${placeholders})`)
-    .bind(...tags)
+    .prepare(`SELECT id, tag FROM releases WHERE repository_id = ? AND tag IN (${placeholders})`)
+    .bind(repositoryId, ...tags)
     .all<{ id: number; tag: string }>();
 
   // Build tag -> id map
@@ -207,12 +701,15 @@ async function batchUpsertReleases(db: D1Database, releases: ProcessedRelease[])
  * Ensures totals survive asset re-uploads (stable releases) and rolling asset
  * deletion (nightly). On first run for a release (no prior asset rows), seeds the
  * asset table and keeps the existing daily value as baseline.
+ *
+ * With `persist` false the asset table is left untouched (used by dry runs).
  */
 async function computeAllCumulativeCounts(
   db: D1Database,
   releases: ProcessedRelease[],
   tagToId: Map<string, number>,
-): Promise<Map<string, number>> {
+  persist = true,
+): Promise<CumulativeCounts> {
   const releaseIds = releases.map((r) => tagToId.get(r.tag)!);
   const placeholders = releaseIds.map(() => "?").join(", ");
 
@@ -232,10 +729,10 @@ async function computeAllCumulativeCounts(
       .all<{ release_id: number; count: number }>(),
     db
       .prepare(
-        `SELECT asset_id, release_id, last_download_count FROM release_assets WHERE release_id IN (${placeholders})`,
+        `SELECT asset_id, release_id, name, last_download_count FROM release_assets WHERE release_id IN (${placeholders})`,
       )
       .bind(...releaseIds)
-      .all<{ asset_id: number; release_id: number; last_download_count: number }>(),
+      .all<{ asset_id: number; release_id: number; name: string; last_download_count: number }>(),
     db
       .prepare(`SELECT id, total_downloads FROM releases WHERE id IN (${placeholders})`)
       .bind(...releaseIds)
@@ -254,30 +751,64 @@ async function computeAllCumulativeCounts(
   }
 
   const assetsByRelease = new Map<number, Map<number, number>>();
+  const storedAssetsByRelease = new Map<number, AssetCount[]>();
 
   for (const row of assetRows.results) {
     if (!assetsByRelease.has(row.release_id)) {
       assetsByRelease.set(row.release_id, new Map());
+      storedAssetsByRelease.set(row.release_id, []);
     }
 
     assetsByRelease.get(row.release_id)!.set(row.asset_id, row.last_download_count);
+    storedAssetsByRelease
+      .get(row.release_id)!
+      .push({ id: row.asset_id, name: row.name, downloadCount: row.last_download_count });
   }
 
   const result = new Map<string, number>();
+  const assetDeltas = new Map<number, number>();
+  const anomalies: ReleaseAnomaly[] = [];
   const allAssetUpserts: D1PreparedStatement[] = [];
   const now = Date.now();
 
   const assetStmt = db.prepare(`
-    INSERT INTO release_assets (asset_id, release_id, name, last_download_count, created_at, first_seen, last_seen)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO release_assets (
+      asset_id, release_id, name, last_download_count, created_at, first_seen, last_seen,
+      platform, os, arch, cuda_version, variant
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(asset_id) DO UPDATE SET
       release_id = excluded.release_id,
       name = excluded.name,
       last_download_count = MAX(release_assets.last_download_count, excluded.last_download_count),
       created_at = COALESCE(release_assets.created_at, excluded.created_at),
-      last_seen = excluded.last_seen
+      last_seen = excluded.last_seen,
+      platform = excluded.platform,
+      os = excluded.os,
+      arch = excluded.arch,
+      cuda_version = excluded.cuda_version,
+      variant = excluded.variant
   `);
 
+  const bindAsset = (asset: GitHubAsset, releaseId: number): D1PreparedStatement => {
+    const classified = classifyAsset(asset.name);
+
+    return assetStmt.bind(
+      asset.id,
+      releaseId,
+      asset.name,
+      asset.download_count,
+      new Date(asset.created_at).getTime(),
+      now,
+      now,
+      classified.platform,
+      classified.os,
+      classified.arch,
+      classified.cuda,
+      classified.variant,
+    );
+  };
+
   for (const release of releases) {
     const releaseId = tagToId.get(release.tag)!;
     const previousDaily = previousDailyByRelease.get(releaseId) ?? null;
@@ -287,17 +818,7 @@ async function computeAllCumulativeCounts(
 
     if (previousCounts.size === 0 && previousDaily !== null) {
       for (const asset of release.assets) {
-        allAssetUpserts.push(
-          assetStmt.bind(
-            asset.id,
-            releaseId,
-            asset.name,
-            asset.download_count,
-            new Date(asset.created_at).getTime(),
-            now,
-            now,
-          ),
-        );
+        allAssetUpserts.push(bindAsset(asset, releaseId));
       }
 
       // Bootstrap asset tracking from the best known cumulative count.
@@ -307,26 +828,28 @@ async function computeAllCumulativeCounts(
       continue;
     }
 
+    const currentAssets = release.assets.map((asset) => ({
+      id: asset.id,
+      name: asset.name,
+      downloadCount: asset.download_count,
+    }));
+
+    for (const anomaly of detectAssetAnomalies(storedAssetsByRelease.get(releaseId) ?? [], currentAssets)) {
+      anomalies.push({ ...anomaly, releaseId });
+    }
+
     let delta = 0;
 
     for (const asset of release.assets) {
       const previousCount = previousCounts.get(asset.id) ?? 0;
+      const assetDelta = Math.max(0, asset.download_count - previousCount);
 
-      delta += Math.max(0, asset.download_count - previousCount);
+      assetDeltas.set(asset.id, assetDelta);
+      delta += assetDelta;
     }
 
     for (const asset of release.assets) {
-      allAssetUpserts.push(
-        assetStmt.bind(
-          asset.id,
-          releaseId,
-          asset.name,
-          asset.download_count,
-          new Date(asset.created_at).getTime(),
-          now,
-          now,
-        ),
-      );
+      allAssetUpserts.push(bindAsset(asset, releaseId));
     }
 
     // Keep cumulative totals consistent even if asset tracking was previously
@@ -334,28 +857,94 @@ async function computeAllCumulativeCounts(
     result.set(release.tag, Math.max((previousDaily ?? 0) + delta, storedTotal, currentAssetTotal));
   }
 
-  if (allAssetUpserts.length > 0) {
+  if (persist && allAssetUpserts.length > 0) {
     await db.batch(allAssetUpserts);
   }
 
-  return result;
+  return { releases: result, assetDeltas, anomalies };
+}
+
+/**
+ * Computes cumulative per-platform counts for every release.
+ * Mirrors the release-level rules: previous snapshot plus per-asset deltas,
+ * never lower than what GitHub currently reports for the platform's assets.
+ */
+async function computePlatformCumulativeCounts(
+  db: D1Database,
+  releases: ProcessedRelease[],
+  tagToId: Map<string, number>,
+  assetDeltas: Map<number, number>,
+): Promise<Array<{ releaseId: number; platform: string; count: number }>> {
+  const releaseIds = releases.map((r) => tagToId.get(r.tag)!);
+  const placeholders = releaseIds.map(() => "?").join(", ");
+
+  const previousRows = await db
+    .prepare(
+      `SELECT p.release_id, p.platform, p.count
+       FROM platform_downloads_daily p
+       INNER JOIN (
+         SELECT release_id, platform, MAX(date) as max_date
+         FROM platform_downloads_daily
+         WHERE release_id IN (${placeholders})
+         GROUP BY release_id, platform
+       ) latest ON p.release_id = latest.release_id AND p.platform = latest.platform AND p.date = latest.max_date`,
+    )
+    .bind(...releaseIds)
+    .all<{ release_id: number; platform: string; count: number }>();
+
+  const previousByKey = new Map<string, number>();
+
+  for (const row of previousRows.results) {
+    previousByKey.set(`${row.release_id}:${row.platform}`, row.count);
+  }
+
+  const counts: Array<{ releaseId: number; platform: string; count: number }> = [];
+
+  for (const release of releases) {
+    const releaseId = tagToId.get(release.tag)!;
+    const byPlatform = new Map<string, { current: number; delta: number }>();
+
+    for (const asset of release.assets) {
+      const { platform } = classifyAsset(asset.name);
+      const entry = byPlatform.get(platform) ?? { current: 0, delta: 0 };
+
+      entry.current += asset.download_count;
+      entry.delta += assetDeltas.get(asset.id) ?? 0;
+      byPlatform.set(platform, entry);
+    }
+
+    for (const [platform, entry] of byPlatform) {
+      const previous = previousByKey.get(`${releaseId}:${platform}`);
+      const count = previous === undefined ? entry.current : Math.max(previous + entry.delta, entry.current);
+
+      counts.push({ releaseId, platform, count });
+    }
+  }
+
+  return counts;
 }
 
 /**
  * Batch inserts daily download snapshots and updates release totals.
  * Uses per-asset cumulative tracking for all releases so download counts
  * survive asset re-uploads and nightly rolling deletions.
+ * Returns the new totals by tag and the asset anomalies seen on the way.
  */
 async function batchStoreDaily(
   db: D1Database,
   date: number,
   releases: ProcessedRelease[],
   tagToId: Map<string, number>,
-): Promise<void> {
-  const cumulativeCounts = await computeAllCumulativeCounts(db, releases, tagToId);
+): Promise<{ totals: Map<string, number>; anomalies: ReleaseAnomaly[] }> {
+  const {
+    releases: cumulativeCounts,
+    assetDeltas,
+    anomalies,
+  } = await computeAllCumulativeCounts(db, releases, tagToId);
+  const platformCounts = await computePlatformCumulativeCounts(db, releases, tagToId, assetDeltas);
 
   const dailyStmt = db.prepare(
-    "INSERT INTO downloads_daily (date, release_id, count) VALUES (?, ?, ?) ON CONFLICT(date, release_id) DO UPDATE SET count = excluded.count",
+    "INSERT INTO downloads_daily (date, release_id, count, estimated) VALUES (?, ?, ?, 0) ON CONFLICT(date, release_id) DO UPDATE SET count = excluded.count, estimated = 0",
   );
 
   const statements = releases.map((r) => {
@@ -366,6 +955,14 @@ async function batchStoreDaily(
 
   await db.batch(statements);
 
+  if (platformCounts.length > 0) {
+    const platformStmt = db.prepare(
+      "INSERT INTO platform_downloads_daily (date, release_id, platform, count, estimated) VALUES (?, ?, ?, ?, 0) ON CONFLICT(date, release_id, platform) DO UPDATE SET count = excluded.count, estimated = 0",
+    );
+
+    await db.batch(platformCounts.map((p) => platformStmt.bind(date, p.releaseId, p.platform, p.count)));
+  }
+
   const now = Date.now();
   const updateStmt = db.prepare("UPDATE releases SET total_downloads = ?, last_updated = ? WHERE id = ?");
 
@@ -376,6 +973,108 @@ async function batchStoreDaily(
   });
 
   await db.batch(updateStatements);
+
+  return { totals: cumulativeCounts, anomalies };
+}
+
+/**
+ * Runs the spike check on the daily snapshots ending at `date` and stores
+ * every anomaly found for the day. Asset anomalies are kept once per asset,
+ * so a counter that stays below its old maximum is not reported every day.
+ */
+async function recordAnomalies(
+  db: D1Database,
+  date: number,
+  releases: ProcessedRelease[],
+  tagToId: Map<string, number>,
+  assetAnomalies: ReleaseAnomaly[],
+): Promise<number> {
+  const releaseIds = releases.map((r) => tagToId.get(r.tag)!);
+  const placeholders = releaseIds.map(() => "?").join(", ");
+  const dailyRows = await db
+    .prepare(
+      `SELECT release_id, date, count FROM downloads_daily
+       WHERE date >= ? AND date <= ? AND release_id IN (${placeholders})
+       ORDER BY release_id ASC, date ASC`,
+    )
+    .bind(date - (SPIKE_WINDOW_DAYS + 1) * MS_PER_DAY, date, ...releaseIds)
+    .all<{ release_id: number; date: number; count: number }>();
+
+  // Day-over-day increases per release, skipping pairs around missing days
+  const increasesByRelease = new Map<number, Array<{ date: number; increase: number }>>();
+
+  for (let i = 1; i < dailyRows.results.length; i++) {
+    const previous = dailyRows.results[i - 1];
+    const current = dailyRows.results[i];
+
+    if (previous.release_id !== current.release_id || current.date - previous.date !== MS_PER_DAY) {
+      continue;
+    }
+
+    const increases = increasesByRelease.get(current.release_id) ?? [];
+
+    increases.push({ date: current.date, increase: Math.max(0, current.count - previous.count) });
+    increasesByRelease.set(current.release_id, increases);
+  }
+
+  const anomalies = [...assetAnomalies];
+
+  for (const [releaseId, increases] of increasesByRelease) {
+    const latest = increases[increases.length - 1];
+
+    if (latest.date !== date) {
+      continue;
+    }
+
+    const spike = detectSpike(
+      increases.slice(0, -1).map((entry) => entry.increase),
+      latest.increase,
+    );
+
+    if (spike) {
+      anomalies.push({ ...spike, releaseId });
+    }
+  }
+
+  if (anomalies.length === 0) {
+    return 0;
+  }
+
+  const now = Date.now();
+  const assetStmt = db.prepare(
+    `INSERT INTO anomalies (release_id, date, kind, asset_id, delta, expected, score, detail, detected_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(kind, asset_id, date) WHERE asset_id <> 0 DO NOTHING`,
+  );
+  const releaseStmt = db.prepare(
+    `INSERT INTO anomalies (release_id, date, kind, asset_id, delta, expected, score, detail, detected_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(release_id, date, kind) WHERE asset_id = 0 DO UPDATE SET
+       delta = excluded.delta, expected = excluded.expected, score = excluded.score,
+       detail = excluded.detail, detected_at = excluded.detected_at`,
+  );
+
+  await db.batch(
+    anomalies.map((anomaly) =>
+      (anomaly.assetId === 0 ? releaseStmt : assetStmt).bind(
+        anomaly.releaseId,
+        date,
+        anomaly.kind,
+        anomaly.assetId,
+        anomaly.delta,
+        anomaly.expected,
+        anomaly.score,
+        anomaly.detail,
+        now,
+      ),
+    ),
+  );
+
+  for (const anomaly of anomalies) {
+    console.warn(`Anomaly (${anomaly.kind}) for release ${anomaly.releaseId}: ${anomaly.detail}`);
+  }
+
+  return anomalies.length;
 }
 
 /**
@@ -391,6 +1090,8 @@ async function batchUpdateWeekly(
   const weekEnd = week + 7 * MS_PER_DAY;
   const deltaMap = await calculatePeriodDeltas(db, week, weekEnd, releases, tagToId);
 
+  await batchUpdatePlatformPeriod(db, "platform_downloads_weekly", week, weekEnd, releases, tagToId);
+
   // Batch insert weekly aggregates
   const weeklyStmt = db.prepare(
     "INSERT INTO downloads_weekly (week, release_id, count) VALUES (?, ?, ?) ON CONFLICT(week, release_id) DO UPDATE SET count = excluded.count",
@@ -421,6 +1122,8 @@ async function batchUpdateMonthly(
   nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
   const deltaMap = await calculatePeriodDeltas(db, month, nextMonth.getTime(), releases, tagToId);
 
+  await batchUpdatePlatformPeriod(db, "platform_downloads_monthly", month, nextMonth.getTime(), releases, tagToId);
+
   // Batch insert monthly aggregates
   const monthlyStmt = db.prepare(
     "INSERT INTO downloads_monthly (month, release_id, count) VALUES (?, ?, ?) ON CONFLICT(month, release_id) DO UPDATE SET count = excluded.count",
@@ -476,86 +1179,618 @@ async function calculatePeriodDeltas(
     const releaseId = tagToId.get(release.tag)!;
     const rows = rowsByRelease.get(releaseId) ?? [];
 
-    if (rows.length === 0) {
-      deltaMap.set(releaseId, 0);
-      continue;
-    }
-
-    const first = rows[0];
-    const last = rows[rows.length - 1];
-    let delta = Math.max(0, last.count - first.count);
-
-    if (release.publishedAt >= periodStart && release.publishedAt < periodEnd) {
-      delta += first.count;
-    }
-
-    deltaMap.set(releaseId, delta);
+    deltaMap.set(releaseId, periodDelta(rows, release.publishedAt, periodStart, periodEnd));
   }
 
   return deltaMap;
 }
 
-// =============================================================================
-// Main Collection
-// =============================================================================
-
+/**
+ * Computes the delta of one cumulative series within a period.
+ * Rows must be sorted by date ascending.
+ */
+export function periodDelta(
+  rows: PeriodDeltaRow[],
+  publishedAt: number,
+  periodStart: number,
+  periodEnd: number,
+): number {
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+  let delta = Math.max(0, last.count - first.count);
+
+  if (publishedAt >= periodStart && publishedAt < periodEnd) {
+    delta += first.count;
+  }
+
+  return delta;
+}
+
+/**
+ * Rebuilds per-platform weekly or monthly deltas for the period from
+ * platform daily snapshots, using the same rules as release aggregates.
+ */
+async function batchUpdatePlatformPeriod(
+  db: D1Database,
+  table: "platform_downloads_weekly" | "platform_downloads_monthly",
+  periodStart: number,
+  periodEnd: number,
+  releases: ProcessedRelease[],
+  tagToId: Map<string, number>,
+): Promise<void> {
+  const periodRows = await db
+    .prepare(
+      `
+            SELECT release_id, platform, date, count
+            FROM platform_downloads_daily
+            WHERE date >= ? AND date < ?
+            ORDER BY release_id ASC, platform ASC, date ASC
+        `,
+    )
+    .bind(periodStart, periodEnd)
+    .all<PlatformPeriodDeltaRow>();
+
+  const rowsByKey = new Map<string, PlatformPeriodDeltaRow[]>();
+
+  for (const row of periodRows.results) {
+    const key = `${row.release_id}:${row.platform}`;
+    const rows = rowsByKey.get(key) ?? [];
+
+    rows.push(row);
+    rowsByKey.set(key, rows);
+  }
+
+  const publishedById = new Map<number, number>();
+
+  for (const release of releases) {
+    publishedById.set(tagToId.get(release.tag)!, release.publishedAt);
+  }
+
+  const column = table === "platform_downloads_weekly" ? "week" : "month";
+  const periodStmt = db.prepare(
+    `INSERT INTO ${table} (${column}, release_id, platform, count) VALUES (?, ?, ?, ?) ON CONFLICT(${column}, release_id, platform) DO UPDATE SET count = excluded.count`,
+  );
+  const statements: D1PreparedStatement[] = [];
+
+  for (const rows of rowsByKey.values()) {
+    const { release_id: releaseId, platform } = rows[0];
+    const publishedAt = publishedById.get(releaseId);
+
+    if (publishedAt === undefined) {
+      continue;
+    }
+
+    statements.push(
+      periodStmt.bind(periodStart, releaseId, platform, periodDelta(rows, publishedAt, periodStart, periodEnd)),
+    );
+  }
+
+  if (statements.length > 0) {
+    await db.batch(statements);
+  }
+}
+
+// =============================================================================
+// Main Collection
+// =============================================================================
+
+/** Outcome of collecting one repository. */
+export interface RepositoryCollectResult {
+  owner: string;
+  repo: string;
+  releasesFound: number;
+  releasesProcessed: number;
+  /** Why collection failed, or null on success */
+  error: string | null;
+}
+
 export interface CollectResult {
   date: string;
+  /** Summed across all collected repositories */
   releasesFound: number;
   releasesProcessed: number;
+  /** The LichtFeld Studio repository */
   owner: string;
   repo: string;
+  /** Every collected repository, LichtFeld Studio first */
+  repositories: RepositoryCollectResult[];
+  /** True when the run stopped early because the GitHub rate limit ran out */
+  rateLimited: boolean;
+  /** Repositories whose stars, forks, watchers and open issues were stored */
+  repositoryMetrics: number;
+  /** Repositories whose contributor activity was refreshed (once a day each) */
+  contributorActivity: number;
+  /** Snapshot compaction after the run, or null when it failed */
+  compaction: CompactionResult | null;
+}
+
+/** Projected change for one release, reported by a dry run. */
+export interface DryRunChange {
+  tag: string;
+  isNew: boolean;
+  storedTotal: number;
+  projectedTotal: number;
+  delta: number;
+}
+
+export interface DryRunResult {
+  date: string;
+  releasesFound: number;
+  /** Releases whose stored total would change or that would be created */
+  changes: DryRunChange[];
+  owner: string;
+  repo: string;
+}
+
+export interface RecomputeResult {
+  weeks: number;
+  months: number;
+  releases: number;
+}
+
+/** Run of missing daily snapshots between two collected ones. */
+export interface SnapshotGap {
+  /** Repository of the release as "owner/name" */
+  repository: string;
+  tag: string;
+  /** Last collected date before the gap (YYYY-MM-DD) */
+  after: string;
+  /** First collected date after the gap (YYYY-MM-DD) */
+  before: string;
+  missingDays: number;
+}
+
+export interface BackfillResult {
+  dryRun: boolean;
+  gaps: SnapshotGap[];
+  /** Estimated daily rows written (0 for dry runs) */
+  rowsInserted: number;
+  /** Estimated per-platform daily rows written (0 for dry runs) */
+  platformRowsInserted: number;
+  recomputed: RecomputeResult | null;
 }
 
 async function collect(env: Env): Promise<void> {
-  await collectWithStats(env);
+  await collectWithStats(env, "scheduled");
+}
+
+/** Converts GitHub releases into the collector's processed format. */
+function processReleases(githubReleases: GitHubRelease[]): ProcessedRelease[] {
+  return githubReleases.map((release) => {
+    const tag = release.tag_name;
+    const name = release.name || tag;
+    const count = release.assets.reduce((sum, a) => sum + a.download_count, 0);
+    const publishedAt = new Date(release.published_at).getTime();
+
+    console.log(`Processing ${tag}: ${count} downloads`);
+
+    return { tag, name, count, publishedAt, assets: release.assets };
+  });
+}
+
+/**
+ * Runs a collection and records it in collection_runs.
+ * Failures are recorded on the LichtFeld Studio repository and rethrown so
+ * callers still see the error. Only the first of consecutive failures raises
+ * a webhook event.
+ */
+export async function collectWithStats(
+  env: CollectorEnv,
+  trigger: CollectionTrigger = "manual",
+): Promise<CollectResult> {
+  await applyMigrations(env.STATS_DB);
+
+  const run = await startCollectionRun(env.STATS_DB, trigger);
+  const state: CollectionRunState = { rateLimit: null, requests: 0, notModified: 0, events: [] };
+
+  try {
+    const result = await runCollection(env, state);
+
+    await finishCollectionRun(env.STATS_DB, run, state, { result });
+    await sendWebhooks(env, state.events);
+
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    console.error(`Collection failed: ${message}`);
+    await finishCollectionRun(env.STATS_DB, run, state, { error: message });
+
+    if ((await recordRepositoryCollection(env.STATS_DB, PRIMARY_REPOSITORY_ID, message)) === null) {
+      state.events.push({
+        type: "collection.failed",
+        repository: `${env.GITHUB_OWNER}/${env.GITHUB_REPO}`,
+        error: message,
+      });
+    }
+
+    await sendWebhooks(env, state.events);
+
+    throw error;
+  }
 }
 
-export async function collectWithStats(env: CollectorEnv): Promise<CollectResult> {
+/**
+ * Queues the run's webhook events and attempts every pending delivery.
+ * Webhook problems are logged and never fail the collection.
+ */
+async function sendWebhooks(env: CollectorEnv, events: WebhookEvent[]): Promise<void> {
+  try {
+    await enqueueWebhooks(env.STATS_DB, parseWebhookUrls(env.WEBHOOK_URLS), events);
+
+    const delivery = await deliverPendingWebhooks(env.STATS_DB, env.WEBHOOK_SECRET);
+
+    if (delivery.pending + delivery.failed > 0) {
+      console.warn(
+        `Webhooks: ${delivery.delivered} delivered, ${delivery.pending} to retry, ${delivery.failed} failed`,
+      );
+    }
+  } catch (error) {
+    console.error(`Webhook delivery failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Collects every tracked repository.
+ * A failure of the LichtFeld Studio repository fails the run; plugin
+ * repository failures are recorded on the repository and skipped. Once the
+ * GitHub rate limit is exhausted, the remaining repositories wait for the next run.
+ */
+async function runCollection(env: CollectorEnv, state: CollectionRunState): Promise<CollectResult> {
   const today = todayTimestamp();
-  const week = weekTimestamp(today);
-  const month = monthTimestamp(today);
   const dateStr = new Date(today).toISOString().split("T")[0];
 
   console.log(`Collecting stats for ${dateStr}`);
-  console.log(`Repository: ${env.GITHUB_OWNER}/${env.GITHUB_REPO}`);
 
-  const githubReleases = await fetchReleases(env);
+  const repositories = await syncRepositories(env);
+  const results: RepositoryCollectResult[] = [];
+  let rateLimited = false;
 
-  await ensureCollectorSchema(env.STATS_DB);
+  for (const repository of repositories) {
+    try {
+      const releasesProcessed = await collectRepository(env, repository, today, state);
+
+      if (releasesProcessed === null) {
+        rateLimited = true;
+        break;
+      }
+
+      await recordRepositoryCollection(env.STATS_DB, repository.id, null);
+      results.push({
+        owner: repository.owner,
+        repo: repository.name,
+        releasesFound: releasesProcessed,
+        releasesProcessed,
+        error: null,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (repository.id === PRIMARY_REPOSITORY_ID) {
+        throw error;
+      }
+
+      console.error(`Collection of ${repository.owner}/${repository.name} failed: ${message}`);
+
+      // Repositories that were failing already were announced when they started to
+      if ((await recordRepositoryCollection(env.STATS_DB, repository.id, message)) === null) {
+        state.events.push({
+          type: "collection.failed",
+          repository: `${repository.owner}/${repository.name}`,
+          error: message,
+        });
+      }
+      results.push({
+        owner: repository.owner,
+        repo: repository.name,
+        releasesFound: 0,
+        releasesProcessed: 0,
+        error: message,
+      });
+    }
+  }
+
+  return {
+    date: dateStr,
+    releasesFound: results.reduce((sum, r) => sum + r.releasesFound, 0),
+    releasesProcessed: results.reduce((sum, r) => sum + r.releasesProcessed, 0),
+    owner: env.GITHUB_OWNER,
+    repo: env.GITHUB_REPO,
+    repositories: results,
+    rateLimited,
+    repositoryMetrics: rateLimited ? 0 : await collectRepositoryMetrics(env, repositories, today, state),
+    contributorActivity: rateLimited ? 0 : await collectContributorActivity(env, repositories, today, state),
+    compaction: await compactAfterCollection(env),
+  };
+}
+
+/**
+ * Stores today's metrics of each repository without them yet, and its traffic
+ * when the token has push access. Traffic answered with 403 is remembered and
+ * not requested again until it is due. Failures are logged per repository and
+ * never fail the collection. Returns the number of repositories with stored metrics.
+ */
+async function collectRepositoryMetrics(
+  env: CollectorEnv,
+  repositories: Repository[],
+  today: number,
+  state: CollectionRunState,
+): Promise<number> {
+  const withTraffic = "Authorization" in githubHeaders(env);
+  let collected = 0;
+
+  for (const repository of repositories) {
+    const path = `/repos/${repository.owner}/${repository.name}`;
+
+    try {
+      const row = await env.STATS_DB.prepare(
+        `SELECT traffic_forbidden_at, EXISTS (
+           SELECT 1 FROM repository_metrics_daily WHERE date = ?1 AND repository_id = repositories.id
+         ) AS collected
+         FROM repositories WHERE id = ?2`,
+      )
+        .bind(today, repository.id)
+        .first<{ traffic_forbidden_at: number | null; collected: number }>();
+
+      if (row?.collected) {
+        continue;
+      }
+
+      const res = await fetchGitHub(env, path, state);
+
+      if (res === null) {
+        console.warn("GitHub rate limit exhausted while fetching repository metrics");
+        break;
+      }
+
+      if (!res.ok) {
+        throw new Error(`GitHub API error: ${res.status}`);
+      }
+
+      const statements = [
+        metricsStatement(env.STATS_DB, repository.id, today, parseRepositoryMetrics(await res.json())),
+      ];
+
+      const trafficDue = withTraffic && isTrafficDue(row?.traffic_forbidden_at ?? null, today);
+
+      for (const kind of trafficDue ? TRAFFIC_KINDS : []) {
+        const traffic = await fetchGitHub(env, `${path}/traffic/${kind}?per=day`, state);
+
+        // 403 without push access: this repository's traffic is not readable with the token
+        if (traffic?.status === 403) {
+          statements.push(
+            env.STATS_DB.prepare("UPDATE repositories SET traffic_forbidden_at = ? WHERE id = ?").bind(
+              Date.now(),
+              repository.id,
+            ),
+          );
+          break;
+        }
+
+        if (traffic === null || traffic.status === 404) {
+          break;
+        }
+
+        if (!traffic.ok) {
+          throw new Error(`GitHub API error: ${traffic.status}`);
+        }
+
+        statements.push(
+          ...trafficStatements(env.STATS_DB, repository.id, kind, parseTraffic(kind, await traffic.json())),
+        );
+      }
+
+      await env.STATS_DB.batch(statements);
+      collected++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      console.error(`Metrics of ${repository.owner}/${repository.name} failed: ${message}`);
+    }
+  }
+
+  return collected;
+}
+
+/**
+ * Refreshes the monthly contributor activity of each repository not yet
+ * refreshed today. Failures are logged per repository and never fail the
+ * collection. Returns the number of refreshed repositories.
+ */
+async function collectContributorActivity(
+  env: CollectorEnv,
+  repositories: Repository[],
+  today: number,
+  state: CollectionRunState,
+): Promise<number> {
+  let refreshed = 0;
+
+  for (const repository of repositories) {
+    const path = `/repos/${repository.owner}/${repository.name}`;
+
+    try {
+      const row = await env.STATS_DB.prepare("SELECT contributors_refreshed_at FROM repositories WHERE id = ?")
+        .bind(repository.id)
+        .first<{ contributors_refreshed_at: number | null }>();
+      const refreshedAt = row?.contributors_refreshed_at ?? null;
+
+      if (!isRefreshDue(refreshedAt, today)) {
+        continue;
+      }
+
+      const since = activityWindowStart(today, refreshedAt);
+      const commits = await fetchGitHubList(
+        env,
+        `${path}/commits?since=${new Date(since).toISOString()}`,
+        state,
+        parseCommits,
+      );
+      // Newest first, so the first page reaching back before the window is the last
+      const issues =
+        commits &&
+        (await fetchGitHubList(
+          env,
+          `${path}/issues?state=all&sort=created&direction=desc`,
+          state,
+          parseIssues,
+          (page) => page.some((issue) => issue.date < since),
+        ));
+      const stats = issues && (await fetchGitHub(env, `${path}/stats/contributors`, state));
+
+      if (!commits || !issues || !stats) {
+        console.warn("GitHub rate limit exhausted while fetching contributor activity");
+        break;
+      }
+
+      // Months a listing cut off at the page limit reached are left as stored
+      const start = completeWindowStart(
+        since,
+        [commits, issues].filter((list) => !list.complete).map((list) => list.items),
+      );
+
+      if (start > since) {
+        console.warn(
+          `Contributor activity of ${repository.owner}/${repository.name} before ${new Date(start).toISOString()} was cut off`,
+        );
+      }
+
+      // 202 while GitHub computes the statistics: first contributions fall back to the stored months
+      const firstCommits: FirstContribution[] = stats.status === 200 ? parseContributorStats(await stats.json()) : [];
+      const activity = tallyActivity(commits.items, issues.items, start);
+
+      await env.STATS_DB.batch(
+        contributorStatements(
+          env.STATS_DB,
+          repository.id,
+          start,
+          activity,
+          firstContributions(firstCommits, activity).values(),
+        ),
+      );
+      refreshed++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      console.error(`Contributor activity of ${repository.owner}/${repository.name} failed: ${message}`);
+    }
+  }
+
+  return refreshed;
+}
+
+/**
+ * Compacts old daily snapshots at the end of a run.
+ * Compaction problems are logged and never fail the collection.
+ */
+async function compactAfterCollection(env: CollectorEnv): Promise<CompactionResult | null> {
+  try {
+    return await compactSnapshots(env.STATS_DB, { horizonDays: resolveHorizonDays(env.COMPACTION_HORIZON_DAYS) });
+  } catch (error) {
+    console.error(`Compaction failed: ${error instanceof Error ? error.message : String(error)}`);
+
+    return null;
+  }
+}
+
+/** Loads the stored total of every release of a repository by tag. */
+async function loadReleaseTotals(db: D1Database, repositoryId: number): Promise<Map<string, number>> {
+  const result = await db
+    .prepare("SELECT tag, COALESCE(total_downloads, 0) as total FROM releases WHERE repository_id = ?")
+    .bind(repositoryId)
+    .all<{ tag: string; total: number }>();
+
+  return new Map(result.results.map((row) => [row.tag, row.total]));
+}
+
+/**
+ * Builds the webhook events for one collected repository: releases that
+ * weren't stored before, and stored releases whose total crossed a milestone.
+ * The first collection of a repository raises no events, so a newly tracked
+ * repository doesn't announce its whole history.
+ */
+function releaseEvents(
+  repository: Repository,
+  releases: ProcessedRelease[],
+  previousTotals: Map<string, number>,
+  totals: Map<string, number>,
+): WebhookEvent[] {
+  const events: WebhookEvent[] = [];
+  const name = `${repository.owner}/${repository.name}`;
+
+  if (previousTotals.size === 0) {
+    return events;
+  }
+
+  for (const release of releases) {
+    const previous = previousTotals.get(release.tag);
+    const total = totals.get(release.tag)!;
+
+    if (previous === undefined) {
+      events.push({
+        type: "release.published",
+        repository: name,
+        tag: release.tag,
+        name: release.name,
+        publishedAt: release.publishedAt,
+      });
+      continue;
+    }
+
+    const milestone = milestoneCrossed(previous, total);
+
+    if (milestone !== null) {
+      events.push({ type: "milestone.reached", repository: name, tag: release.tag, milestone, downloads: total });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Collects one repository's releases for the given day.
+ * Returns the number of releases processed, or null when rate limited.
+ */
+async function collectRepository(
+  env: CollectorEnv,
+  repository: Repository,
+  today: number,
+  state: CollectionRunState,
+): Promise<number | null> {
+  const week = weekTimestamp(today);
+  const month = monthTimestamp(today);
+
+  console.log(`Repository: ${repository.owner}/${repository.name}`);
+
+  const githubReleases = await fetchReleases(env, repository, state);
+
+  if (githubReleases === null) {
+    return null;
+  }
 
   console.log(`Found ${githubReleases.length} releases`);
 
   if (githubReleases.length === 0) {
     console.log("No releases to process");
 
-    return {
-      date: dateStr,
-      releasesFound: 0,
-      releasesProcessed: 0,
-      owner: env.GITHUB_OWNER,
-      repo: env.GITHUB_REPO,
-    };
+    return 0;
   }
 
   // Transform GitHub releases to processed format
-  const releases: ProcessedRelease[] = githubReleases.map((release) => {
-    const tag = release.tag_name;
-    const name = release.name || tag;
-    const count = release.assets.reduce((sum, a) => sum + a.download_count, 0);
-    const publishedAt = new Date(release.published_at).getTime();
+  const releases = processReleases(githubReleases);
 
-    console.log(`Processing ${tag}: ${count} downloads`);
-
-    return { tag, name, count, publishedAt, assets: release.assets };
-  });
+  // Totals before this run, for new release and milestone events
+  const previousTotals = await loadReleaseTotals(env.STATS_DB, repository.id);
 
   // Batch operations: 6 DB round trips total instead of 7 per release
   // 1. Batch upsert all releases (1 batch + 1 query for IDs)
-  const tagToId = await batchUpsertReleases(env.STATS_DB, releases);
+  const tagToId = await batchUpsertReleases(env.STATS_DB, repository.id, releases);
 
   // 2. Batch insert daily snapshots (1 batch)
-  await batchStoreDaily(env.STATS_DB, today, releases, tagToId);
+  const { totals, anomalies: assetAnomalies } = await batchStoreDaily(env.STATS_DB, today, releases, tagToId);
 
   // 3. Batch update weekly aggregates (1 query + 1 batch)
   await batchUpdateWeekly(env.STATS_DB, week, releases, tagToId);
@@ -563,17 +1798,286 @@ export async function collectWithStats(env: CollectorEnv): Promise<CollectResult
   // 4. Batch update monthly aggregates (1 query + 1 batch)
   await batchUpdateMonthly(env.STATS_DB, month, releases, tagToId);
 
+  // 5. Anomaly pass over the new snapshots (1 query + 1 batch when anything is found)
+  await recordAnomalies(env.STATS_DB, today, releases, tagToId, assetAnomalies);
+
+  state.events.push(...releaseEvents(repository, releases, previousTotals, totals));
+
   console.log(`Collection complete: ${releases.length} releases processed`);
 
+  return releases.length;
+}
+
+/**
+ * Fetches releases and reports how stored totals would change, without writing.
+ * Uses the same per-asset delta rules as a real collection.
+ * Only covers the LichtFeld Studio repository.
+ */
+export async function dryRunCollect(env: CollectorEnv): Promise<DryRunResult> {
+  const today = todayTimestamp();
+  const dateStr = new Date(today).toISOString().split("T")[0];
+  const githubReleases = await fetchReleases(env, { owner: env.GITHUB_OWNER, name: env.GITHUB_REPO }, undefined, false);
+
+  if (githubReleases === null) {
+    throw new Error("GitHub rate limit exhausted");
+  }
+
+  const releases = processReleases(githubReleases);
+  const changes: DryRunChange[] = [];
+
+  if (releases.length > 0) {
+    const tags = releases.map((r) => r.tag);
+    const stored = await env.STATS_DB.prepare(
+      `SELECT id, tag, total_downloads FROM releases WHERE repository_id = ? AND tag IN (${tags.map(() => "?").join(", ")})`,
+    )
+      .bind(PRIMARY_REPOSITORY_ID, ...tags)
+      .all<{ id: number; tag: string; total_downloads: number | null }>();
+
+    const tagToId = new Map<string, number>();
+    const storedTotals = new Map<string, number>();
+
+    for (const row of stored.results) {
+      tagToId.set(row.tag, row.id);
+      storedTotals.set(row.tag, row.total_downloads ?? 0);
+    }
+
+    const known = releases.filter((r) => tagToId.has(r.tag));
+    const projected =
+      known.length > 0
+        ? (await computeAllCumulativeCounts(env.STATS_DB, known, tagToId, false)).releases
+        : new Map<string, number>();
+
+    for (const release of releases) {
+      const isNew = !tagToId.has(release.tag);
+      const storedTotal = storedTotals.get(release.tag) ?? 0;
+      const projectedTotal = isNew ? release.count : projected.get(release.tag)!;
+
+      if (isNew || projectedTotal !== storedTotal) {
+        changes.push({ tag: release.tag, isNew, storedTotal, projectedTotal, delta: projectedTotal - storedTotal });
+      }
+    }
+  }
+
   return {
     date: dateStr,
     releasesFound: releases.length,
-    releasesProcessed: releases.length,
+    changes,
     owner: env.GITHUB_OWNER,
     repo: env.GITHUB_REPO,
   };
 }
 
+/**
+ * Rebuilds weekly and monthly aggregates from stored daily snapshots.
+ * Covers every stored day unless a narrower range of dates is given.
+ * Useful after repairing daily data or changing the delta rules.
+ *
+ * Periods starting before the last compaction cutoff lost most of their
+ * snapshots and are never rebuilt.
+ */
+export async function recomputeAggregates(
+  db: D1Database,
+  dates?: { from: number; to: number },
+): Promise<RecomputeResult> {
+  await applyMigrations(db);
+
+  const [releaseRows, stored, floor] = await Promise.all([
+    db
+      .prepare("SELECT id, name, published_at FROM releases")
+      .all<{ id: number; name: string; published_at: number | null }>(),
+    db
+      .prepare("SELECT MIN(date) as first_date, MAX(date) as last_date FROM downloads_daily")
+      .first<{ first_date: number | null; last_date: number | null }>(),
+    compactedBefore(db),
+  ]);
+
+  const range = dates ? { first_date: dates.from, last_date: dates.to } : stored;
+
+  if (releaseRows.results.length === 0 || range?.first_date == null || range.last_date == null) {
+    return { weeks: 0, months: 0, releases: releaseRows.results.length };
+  }
+
+  // Tags repeat across repositories, so releases of all of them are keyed by ID here
+  const tagToId = new Map<string, number>();
+  const releases: ProcessedRelease[] = releaseRows.results.map((row) => {
+    tagToId.set(String(row.id), row.id);
+
+    // Period deltas only need the key and publish date
+    return { tag: String(row.id), name: row.name, count: 0, publishedAt: row.published_at ?? 0, assets: [] };
+  });
+
+  let weeks = 0;
+  let months = 0;
+
+  // Compaction cutoffs fall on the first of a month, so at most one week straddles one
+  const firstWeek = weekTimestamp(Math.max(range.first_date, floor));
+
+  for (
+    let week = firstWeek < floor ? firstWeek + 7 * MS_PER_DAY : firstWeek;
+    week <= range.last_date;
+    week += 7 * MS_PER_DAY
+  ) {
+    await batchUpdateWeekly(db, week, releases, tagToId);
+    weeks++;
+  }
+
+  for (let month = monthTimestamp(Math.max(range.first_date, floor)); month <= range.last_date; ) {
+    await batchUpdateMonthly(db, month, releases, tagToId);
+    months++;
+
+    const next = new Date(month);
+
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    month = next.getTime();
+  }
+
+  return { weeks, months, releases: releases.length };
+}
+
+/** Collected snapshot followed by one or more missing days. */
+interface GapRow {
+  release_id: number;
+  previous_date: number;
+  previous_count: number;
+  date: number;
+  count: number;
+}
+
+/**
+ * Runs the statements in batches of BACKFILL_BATCH_SIZE, so a long outage
+ * stays within the D1 batch limits.
+ */
+async function batchInChunks(db: D1Database, statements: D1PreparedStatement[]): Promise<void> {
+  for (let i = 0; i < statements.length; i += BACKFILL_BATCH_SIZE) {
+    await db.batch(statements.slice(i, i + BACKFILL_BATCH_SIZE));
+  }
+}
+
+/**
+ * Interpolates the cumulative counts of the days missing between two
+ * snapshots. Counts never decrease, so a drop is treated as flat.
+ */
+function interpolateGap(gap: GapRow): Array<{ date: number; count: number }> {
+  const days = Math.round((gap.date - gap.previous_date) / MS_PER_DAY);
+  const increase = Math.max(0, gap.count - gap.previous_count);
+  const estimates: Array<{ date: number; count: number }> = [];
+
+  for (let day = 1; day < days; day++) {
+    estimates.push({
+      date: gap.previous_date + day * MS_PER_DAY,
+      count: gap.previous_count + Math.floor((increase * day) / days),
+    });
+  }
+
+  return estimates;
+}
+
+/**
+ * Finds days missing between collected snapshots and fills them by linear
+ * interpolation of the cumulative counts, flagged as estimated. The
+ * per-platform series are filled the same way.
+ *
+ * Weekly and monthly aggregates touching the filled days are recomputed so a
+ * jump after missed cron runs is spread across the gap instead of landing in
+ * the period of the next successful collection. Gaps before the first or after
+ * the last snapshot of a release are left alone.
+ */
+export async function backfillGaps(db: D1Database, options: { dryRun?: boolean } = {}): Promise<BackfillResult> {
+  const dryRun = options.dryRun ?? false;
+
+  if (!dryRun) {
+    await applyMigrations(db);
+  }
+
+  // Only the snapshots that follow a gap are read, each with the one before it
+  const [releaseGaps, platformGaps] = await Promise.all([
+    db
+      .prepare(
+        `WITH snapshots AS (
+           SELECT release_id, date, count,
+                  LAG(date) OVER (PARTITION BY release_id ORDER BY date) AS previous_date,
+                  LAG(count) OVER (PARTITION BY release_id ORDER BY date) AS previous_count
+           FROM downloads_daily
+         )
+         SELECT s.release_id, p.owner || '/' || p.name AS repository, r.tag,
+                s.previous_date, s.previous_count, s.date, s.count
+         FROM snapshots s
+         INNER JOIN releases r ON r.id = s.release_id
+         INNER JOIN repositories p ON p.id = r.repository_id
+         WHERE s.date - s.previous_date > ?
+         ORDER BY s.release_id ASC, s.date ASC`,
+      )
+      .bind(MS_PER_DAY)
+      .all<GapRow & { repository: string; tag: string }>(),
+    db
+      .prepare(
+        `SELECT release_id, platform, previous_date, previous_count, date, count
+         FROM (
+           SELECT release_id, platform, date, count,
+                  LAG(date) OVER (PARTITION BY release_id, platform ORDER BY date) AS previous_date,
+                  LAG(count) OVER (PARTITION BY release_id, platform ORDER BY date) AS previous_count
+           FROM platform_downloads_daily
+         )
+         WHERE date - previous_date > ?
+         ORDER BY release_id ASC, platform ASC, date ASC`,
+      )
+      .bind(MS_PER_DAY)
+      .all<GapRow & { platform: string }>(),
+  ]);
+
+  const formatDate = (ts: number) => new Date(ts).toISOString().split("T")[0];
+  const gaps: SnapshotGap[] = releaseGaps.results.map((gap) => ({
+    repository: gap.repository,
+    tag: gap.tag,
+    after: formatDate(gap.previous_date),
+    before: formatDate(gap.date),
+    missingDays: Math.round((gap.date - gap.previous_date) / MS_PER_DAY) - 1,
+  }));
+
+  if (dryRun || (releaseGaps.results.length === 0 && platformGaps.results.length === 0)) {
+    return { dryRun, gaps, rowsInserted: 0, platformRowsInserted: 0, recomputed: null };
+  }
+
+  const estimateStmt = db.prepare(
+    "INSERT INTO downloads_daily (date, release_id, count, estimated) VALUES (?, ?, ?, 1) ON CONFLICT(date, release_id) DO NOTHING",
+  );
+  const platformEstimateStmt = db.prepare(
+    "INSERT INTO platform_downloads_daily (date, release_id, platform, count, estimated) VALUES (?, ?, ?, ?, 1) ON CONFLICT(date, release_id, platform) DO NOTHING",
+  );
+  const releaseStatements: D1PreparedStatement[] = [];
+  const platformStatements: D1PreparedStatement[] = [];
+  let from = Infinity;
+  let to = -Infinity;
+
+  for (const gap of releaseGaps.results) {
+    for (const estimate of interpolateGap(gap)) {
+      releaseStatements.push(estimateStmt.bind(estimate.date, gap.release_id, estimate.count));
+      from = Math.min(from, estimate.date);
+      to = Math.max(to, estimate.date);
+    }
+  }
+
+  for (const gap of platformGaps.results) {
+    for (const estimate of interpolateGap(gap)) {
+      platformStatements.push(platformEstimateStmt.bind(estimate.date, gap.release_id, gap.platform, estimate.count));
+      from = Math.min(from, estimate.date);
+      to = Math.max(to, estimate.date);
+    }
+  }
+
+  await batchInChunks(db, [...releaseStatements, ...platformStatements]);
+
+  const recomputed = await recomputeAggregates(db, { from, to });
+
+  return {
+    dryRun,
+    gaps,
+    rowsInserted: releaseStatements.length,
+    platformRowsInserted: platformStatements.length,
+    recomputed,
+  };
+}
+
 // =============================================================================
 // Worker Export
 // =============================================================================
@@ -590,20 +2094,11 @@ export default {
       return Response.json({ status: "ok" });
     }
 
-    if (url.pathname === "/collect" && request.method === "POST") {
-      try {
-        const result = await collectWithStats(env);
+    // POST /collect and /admin/* require ADMIN_TOKEN
+    const adminResponse = await handleAdminRequest(request, env);
 
-        return Response.json({ status: "collected", ...result });
-      } catch (error) {
-        return Response.json(
-          {
-            status: "error",
-            message: error instanceof Error ? error.message : String(error),
-          },
-          { status: 500 },
-        );
-      }
+    if (adminResponse) {
+      return adminResponse;
     }
 
     return new Response("Not Found", { status: 404 });
@@ -0,0 +1,145 @@
+/**
+ * workers/stats-collector/src/metrics.ts
+ *
+ * Repository metrics snapshots. The first collection of each day stores the
+ * stars, forks, watchers and open issues of every tracked repository, and,
+ * when the GitHub token has push access, the daily clones and page views from
+ * the traffic API. GitHub only reports the last 14 days of traffic, so every
+ * snapshot rewrites those days and the table keeps the longer history.
+ * Repositories whose traffic answered 403 skip it for a while.
+ *
+ * The requests live in ./index with the rest of the GitHub API code; this
+ * module turns their responses into D1 statements.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RepositoryMetrics {
+  stars: number;
+  forks: number;
+  /** Subscribers; GitHub's watchers_count is a copy of the star count */
+  watchers: number;
+  /** Open issues and pull requests */
+  openIssues: number;
+}
+
+export type TrafficKind = "clones" | "views";
+
+/** One day of clones or views. */
+export interface TrafficDay {
+  /** Start of the day (UTC) */
+  date: number;
+  count: number;
+  uniques: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const TRAFFIC_KINDS: readonly TrafficKind[] = ["clones", "views"];
+
+/** Days before traffic answered with 403 is requested again, in case the token gained push access */
+const TRAFFIC_RETRY_DAYS = 30;
+const MS_PER_DAY = 86400000;
+
+const TRAFFIC_COLUMNS: Record<TrafficKind, { count: string; uniques: string }> = {
+  clones: { count: "clones", uniques: "unique_clones" },
+  views: { count: "views", uniques: "unique_views" },
+};
+
+// =============================================================================
+// Scheduling
+// =============================================================================
+
+/**
+ * Returns whether a repository's traffic is due: never forbidden, or last
+ * forbidden at least TRAFFIC_RETRY_DAYS before today.
+ */
+export function isTrafficDue(forbiddenAt: number | null, today: number): boolean {
+  return forbiddenAt === null || forbiddenAt <= today - TRAFFIC_RETRY_DAYS * MS_PER_DAY;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/** Reads the metrics from a GET /repos/{owner}/{repo} response body. */
+export function parseRepositoryMetrics(body: unknown): RepositoryMetrics {
+  const data = (body ?? {}) as Record<string, unknown>;
+  const metrics = {
+    stars: data.stargazers_count,
+    forks: data.forks_count,
+    watchers: data.subscribers_count,
+    openIssues: data.open_issues_count,
+  };
+
+  if (Array.isArray(body) || !Object.values(metrics).every(isCount)) {
+    throw new Error("Unexpected GitHub repository response");
+  }
+
+  return metrics as RepositoryMetrics;
+}
+
+/** Reads the daily series from a GET /repos/{owner}/{repo}/traffic/{kind}?per=day response body. */
+export function parseTraffic(kind: TrafficKind, body: unknown): TrafficDay[] {
+  const days = (body as Record<string, unknown> | null)?.[kind];
+
+  if (!Array.isArray(days)) {
+    throw new Error(`Unexpected GitHub traffic response, missing '${kind}'`);
+  }
+
+  return days.map((day: { timestamp?: unknown; count?: unknown; uniques?: unknown }) => {
+    const date = typeof day.timestamp === "string" ? Date.parse(day.timestamp) : NaN;
+
+    if (Number.isNaN(date) || !isCount(day.count) || !isCount(day.uniques)) {
+      throw new Error(`Unexpected GitHub traffic response, invalid '${kind}' entry`);
+    }
+
+    return { date, count: day.count, uniques: day.uniques };
+  });
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/** Upserts the day's metrics snapshot of a repository. */
+export function metricsStatement(
+  db: D1Database,
+  repositoryId: number,
+  date: number,
+  metrics: RepositoryMetrics,
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO repository_metrics_daily (date, repository_id, stars, forks, watchers, open_issues, collected_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(date, repository_id) DO UPDATE SET
+         stars = excluded.stars, forks = excluded.forks, watchers = excluded.watchers,
+         open_issues = excluded.open_issues, collected_at = excluded.collected_at`,
+    )
+    .bind(date, repositoryId, metrics.stars, metrics.forks, metrics.watchers, metrics.openIssues, Date.now());
+}
+
+/** Upserts reported traffic days, leaving the other kind's columns alone. */
+export function trafficStatements(
+  db: D1Database,
+  repositoryId: number,
+  kind: TrafficKind,
+  days: TrafficDay[],
+): D1PreparedStatement[] {
+  const { count, uniques } = TRAFFIC_COLUMNS[kind];
+  const stmt = db.prepare(
+    `INSERT INTO repository_traffic_daily (date, repository_id, ${count}, ${uniques}) VALUES (?, ?, ?, ?)
+     ON CONFLICT(date, repository_id) DO UPDATE SET ${count} = excluded.${count}, ${uniques} = excluded.${uniques}`,
+  );
+
+  return days.map((day) => stmt.bind(day.date, repositoryId, day.count, day.uniques));
+}
@@ -0,0 +1,102 @@
+/**
+ * workers/stats-collector/src/platforms.ts
+ *
+ * Classifies GitHub release assets into download platforms from their file names.
+ * Release asset names are the only signal GitHub gives us, so the rules below
+ * follow the naming used by the LichtFeld Studio release workflows.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AssetOs = "windows" | "linux" | "macos" | "source" | "unknown";
+
+export type AssetArch = "x64" | "arm64" | "unknown";
+
+export type AssetVariant = "portable" | "installer";
+
+export interface AssetPlatform {
+  /** Stable key used to group series, e.g. "windows-x64-cuda12.8-portable" */
+  platform: string;
+  os: AssetOs;
+  arch: AssetArch;
+  /** CUDA toolkit version (e.g. "12.8"), or null for CPU/source builds */
+  cuda: string | null;
+  variant: AssetVariant;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const OS_PATTERNS: Array<[AssetOs, RegExp]> = [
+  ["windows", /(windows|win64|win32|\bwin\b|\.exe$|\.msi$)/],
+  ["macos", /(macos|darwin|osx|\.dmg$|\.pkg$)/],
+  ["linux", /(linux|ubuntu|debian|fedora|\.appimage$|\.deb$|\.rpm$)/],
+  ["source", /(source|src)/],
+];
+
+const ARCH_PATTERNS: Array<[AssetArch, RegExp]> = [
+  ["arm64", /(arm64|aarch64)/],
+  ["x64", /(x64|x86_64|amd64|win64)/],
+];
+
+/** Matches "cuda12.8", "cuda-12.8", "cuda_12_8" and the short "cu128" form. */
+const CUDA_PATTERN = /cuda[-_]?(\d{2})(?:[._-]?(\d))?|\bcu(\d{2})(\d)\b/;
+
+const INSTALLER_PATTERN = /(installer|setup|\.exe$|\.msi$|\.dmg$|\.pkg$|\.deb$|\.rpm$)/;
+
+// =============================================================================
+// Classification
+// =============================================================================
+
+function matchFirst<T extends string>(name: string, patterns: Array<[T, RegExp]>, fallback: T): T {
+  for (const [value, pattern] of patterns) {
+    if (pattern.test(name)) {
+      return value;
+    }
+  }
+
+  return fallback;
+}
+
+function parseCudaVersion(name: string): string | null {
+  const match = name.match(CUDA_PATTERN);
+
+  if (!match) {
+    return null;
+  }
+
+  const major = match[1] ?? match[3];
+  const minor = match[2] ?? match[4] ?? "0";
+
+  return `${Number(major)}.${minor}`;
+}
+
+/** Builds the grouping key for a classified asset. */
+export function platformKey(os: AssetOs, arch: AssetArch, cuda: string | null, variant: AssetVariant): string {
+  return [os, arch, cuda ? `cuda${cuda}` : null, variant].filter(Boolean).join("-");
+}
+
+/**
+ * Classifies a release asset by OS, architecture, CUDA version and packaging.
+ * Unrecognised names fall back to "unknown" so their downloads still count.
+ */
+export function classifyAsset(assetName: string): AssetPlatform {
+  const name = assetName.toLowerCase();
+  const os = matchFirst(name, OS_PATTERNS, "unknown");
+
+  // Release builds are x86-64 unless the file name says otherwise.
+  const arch = os === "source" ? "unknown" : matchFirst(name, ARCH_PATTERNS, os === "unknown" ? "unknown" : "x64");
+  const cuda = os === "source" ? null : parseCudaVersion(name);
+  const variant: AssetVariant = INSTALLER_PATTERN.test(name) && !name.includes("portable") ? "installer" : "portable";
+
+  return {
+    platform: platformKey(os, arch, cuda, variant),
+    os,
+    arch,
+    cuda,
+    variant,
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * workers/stats-collector/src/webhooks.ts
+ *
+ * Outbound webhooks for collector events: new releases, releases crossing a
+ * round download total, and failed collections.
+ *
+ * WEBHOOK_URLS lists the receivers. Discord webhook URLs get a Discord
+ * message; every other URL gets the event as JSON, signed with WEBHOOK_SECRET
+ * when it is set:
+ *
+ *   X-LichtFeld-Event:     milestone.reached
+ *   X-LichtFeld-Timestamp: 1706180400000
+ *   X-LichtFeld-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *
+ * Each event is queued once per URL in webhook_deliveries. Failed deliveries
+ * stay pending and are retried by the next runs, up to MAX_DELIVERY_ATTEMPTS.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WebhookEvent =
+  | {
+      type: "release.published";
+      /** "owner/name" */
+      repository: string;
+      tag: string;
+      name: string;
+      /** Unix timestamp when the release was published on GitHub */
+      publishedAt: number;
+    }
+  | {
+      type: "milestone.reached";
+      repository: string;
+      tag: string;
+      /** Round total the release crossed */
+      milestone: number;
+      downloads: number;
+    }
+  | {
+      type: "collection.failed";
+      repository: string;
+      error: string;
+    };
+
+export type WebhookEventType = WebhookEvent["type"];
+
+/** Outcome of one delivery pass. */
+export interface DeliveryResult {
+  delivered: number;
+  /** Deliveries that failed and will be retried */
+  pending: number;
+  /** Deliveries that failed for the last time */
+  failed: number;
+}
+
+interface PendingDelivery {
+  id: number;
+  url: string;
+  event: WebhookEventType;
+  body: string;
+  attempts: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Deliveries are given up after this many failed attempts (one per run) */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+/** Pending deliveries sent per run, oldest first */
+const MAX_DELIVERIES_PER_RUN = 50;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** Round totals worth announcing: 1, 2.5 and 5 times a power of ten */
+const MILESTONE_STEPS = [1, 2.5, 5];
+
+/** The smallest milestone */
+const FIRST_MILESTONE = 1000;
+
+/** Discord embed colour (the dark theme accent) */
+const DISCORD_COLOR = 0x4d7dff;
+
+// =============================================================================
+// Events
+// =============================================================================
+
+/**
+ * Returns the largest round total in (before, after], or null when none was
+ * crossed. A release that jumps past several milestones at once is only
+ * announced once.
+ */
+export function milestoneCrossed(before: number, after: number): number | null {
+  let crossed: number | null = null;
+
+  for (let power = FIRST_MILESTONE; power <= after; power *= 10) {
+    for (const step of MILESTONE_STEPS) {
+      const milestone = step * power;
+
+      if (milestone > before && milestone <= after) {
+        crossed = milestone;
+      }
+    }
+  }
+
+  return crossed;
+}
+
+/** One-line summary of an event, used as the Discord message. */
+export function describeEvent(event: WebhookEvent): string {
+  switch (event.type) {
+    case "release.published":
+      return `New release ${event.name} (${event.tag}) published in ${event.repository}`;
+    case "milestone.reached":
+      return `${event.repository} ${event.tag} passed ${event.milestone.toLocaleString("en-US")} downloads`;
+    case "collection.failed":
+      return `Download statistics collection for ${event.repository} failed: ${event.error}`;
+  }
+}
+
+// =============================================================================
+// Payloads
+// =============================================================================
+
+/** Splits WEBHOOK_URLS (comma or whitespace separated) and drops anything that isn't an HTTP(S) URL. */
+export function parseWebhookUrls(value: string | undefined): string[] {
+  return (value ?? "").split(/[\s,]+/).filter((url) => {
+    try {
+      return ["https:", "http:"].includes(new URL(url).protocol);
+    } catch {
+      return false;
+    }
+  });
+}
+
+export function isDiscordWebhook(url: string): boolean {
+  try {
+    const { hostname, pathname } = new URL(url);
+
+    return /^(canary\.|ptb\.)?discord(app)?\.com$/.test(hostname) && pathname.startsWith("/api/webhooks/");
+  } catch {
+    return false;
+  }
+}
+
+/** Builds the request body for a receiver, in Discord's format for Discord URLs. */
+export function buildPayload(url: string, event: WebhookEvent, createdAt: number): string {
+  if (isDiscordWebhook(url)) {
+    return JSON.stringify({
+      username: "LichtFeld Stats",
+      embeds: [
+        {
+          title: event.type,
+          description: describeEvent(event),
+          color: DISCORD_COLOR,
+          timestamp: new Date(createdAt).toISOString(),
+        },
+      ],
+    });
+  }
+
+  const { type, ...data } = event;
+
+  return JSON.stringify({ event: type, createdAt, data });
+}
+
+/** Hex HMAC-SHA256 of "<timestamp>.<body>" under the shared secret. */
+export async function signPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/** Queues every event for every URL. */
+export async function enqueueWebhooks(db: D1Database, urls: string[], events: WebhookEvent[]): Promise<void> {
+  if (urls.length === 0 || events.length === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const insert = db.prepare("INSERT INTO webhook_deliveries (url, event, body, created_at) VALUES (?, ?, ?, ?)");
+
+  await db.batch(
+    events.flatMap((event) => urls.map((url) => insert.bind(url, event.type, buildPayload(url, event, now), now))),
+  );
+}
+
+/**
+ * Sends one delivery. Returns the HTTP status (null when the request itself
+ * failed) and an error message unless the receiver answered 2xx.
+ */
+async function send(
+  delivery: PendingDelivery,
+  secret: string | undefined,
+): Promise<{ status: number | null; error: string | null }> {
+  const timestamp = Date.now();
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "LichtFeld-Stats/1.0",
+  };
+
+  if (!isDiscordWebhook(delivery.url)) {
+    headers["X-LichtFeld-Event"] = delivery.event;
+    headers["X-LichtFeld-Delivery"] = String(delivery.id);
+    headers["X-LichtFeld-Timestamp"] = String(timestamp);
+
+    if (secret) {
+      headers["X-LichtFeld-Signature"] = `sha256=${await signPayload(secret, timestamp, delivery.body)}`;
+    }
+  }
+
+  try {
+    const res = await fetch(delivery.url, {
+      method: "POST",
+      headers,
+      body: delivery.body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    return { status: res.status, error: res.ok ? null : `HTTP ${res.status}` };
+  } catch (error) {
+    return { status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Attempts every pending delivery once, oldest first, and records each
+ * attempt. Deliveries still failing after MAX_DELIVERY_ATTEMPTS are marked failed.
+ */
+export async function deliverPendingWebhooks(db: D1Database, secret: string | undefined): Promise<DeliveryResult> {
+  const pending = await db
+    .prepare(
+      "SELECT id, url, event, body, attempts FROM webhook_deliveries WHERE status = 'pending' ORDER BY id ASC LIMIT ?",
+    )
+    .bind(MAX_DELIVERIES_PER_RUN)
+    .all<PendingDelivery>();
+
+  const result: DeliveryResult = { delivered: 0, pending: 0, failed: 0 };
+
+  if (pending.results.length === 0) {
+    return result;
+  }
+
+  const update = db.prepare(
+    `UPDATE webhook_deliveries SET
+       status = ?1, attempts = attempts + 1, last_status = ?2, last_error = ?3, last_attempt_at = ?4,
+       delivered_at = CASE WHEN ?1 = 'delivered' THEN ?4 ELSE delivered_at END
+     WHERE id = ?5`,
+  );
+  const statements: D1PreparedStatement[] = [];
+
+  // Sequential so one receiver is never hit by a burst of requests
+  for (const delivery of pending.results) {
+    const { status: httpStatus, error } = await send(delivery, secret);
+    const status = error === null ? "delivered" : delivery.attempts + 1 >= MAX_DELIVERY_ATTEMPTS ? "failed" : "pending";
+
+    if (error !== null) {
+      console.warn(`Webhook delivery ${delivery.id} (${delivery.event}) failed: ${error}`);
+    }
+
+    result[status]++;
+    statements.push(update.bind(status, httpStatus, error, Date.now(), delivery.id));
+  }
+
+  await db.batch(statements);
+
+  return result;
+}
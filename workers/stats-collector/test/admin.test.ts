@@ -0,0 +1,535 @@
+/**
+ * workers/stats-collector/test/admin.test.ts
+ *
+ * Tests for the authenticated, rate-limited admin routes.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { env } from "cloudflare:test";
+import worker from "../src/index";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface CollectionRun {
+  id: number;
+  trigger: string;
+  status: string;
+  startedAt: number;
+  finishedAt: number | null;
+  releasesFound: number | null;
+  releasesProcessed: number | null;
+  error: string | null;
+}
+
+interface DryRunResponse {
+  status: string;
+  releasesFound: number;
+  changes: Array<{ tag: string; isNew: boolean; storedTotal: number; projectedTotal: number; delta: number }>;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function adminRequest(path: string, method = "POST", token: string | null = env.ADMIN_TOKEN, ip = "203.0.113.1") {
+  const headers: Record<string, string> = { "CF-Connecting-IP": ip };
+
+  if (token !== null) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  return new Request(`http://localhost${path}`, { method, headers });
+}
+
+async function clearDatabase(): Promise<void> {
+  await env.STATS_DB.exec(`
+        DELETE FROM rate_limits;
+        DELETE FROM collection_runs;
+        DELETE FROM platform_downloads_monthly;
+        DELETE FROM platform_downloads_weekly;
+        DELETE FROM platform_downloads_daily;
+        DELETE FROM release_assets;
+        DELETE FROM downloads_monthly;
+        DELETE FROM downloads_weekly;
+        DELETE FROM downloads_daily;
+        DELETE FROM releases;
+        DELETE FROM github_etags;
+        DELETE FROM anomalies;
+        DELETE FROM webhook_deliveries;
+        DELETE FROM snapshot_archives;
+        DELETE FROM repository_metrics_daily;
+        DELETE FROM repository_traffic_daily;
+        DELETE FROM contributor_activity_monthly;
+        DELETE FROM contributors;
+        UPDATE repositories SET last_error = NULL, contributors_refreshed_at = NULL, traffic_forbidden_at = NULL;
+    `);
+}
+
+/**
+ * Mocks GitHub with one release whose single asset has the given download count.
+ */
+function setupGitHubMock(downloadCount: number): void {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      const page = new URL(url).searchParams.get("page");
+      const releases =
+        page === "1"
+          ? [
+              {
+                tag_name: "v1.0.0",
+                name: "Version 1.0.0",
+                draft: false,
+                prerelease: false,
+                published_at: "2024-01-15T10:00:00Z",
+                assets: [
+                  {
+                    id: 1,
+                    name: "LichtFeld-Studio-v1.0.0-windows-x64.zip",
+                    download_count: downloadCount,
+                    created_at: "2024-01-15T10:00:00Z",
+                  },
+                ],
+              },
+            ]
+          : [];
+
+      return new Response(JSON.stringify(releases), { status: 200 });
+    }),
+  );
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe("Admin routes", () => {
+  beforeEach(async () => {
+    await clearDatabase();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // -------------------------------------------------------------------------
+  // Authentication
+  // -------------------------------------------------------------------------
+
+  describe("Authentication", () => {
+    it("should reject requests without a bearer token", async () => {
+      // Act
+      const response = await worker.fetch(adminRequest("/collect", "POST", null), env);
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(response.headers.get("WWW-Authenticate")).toContain("Bearer");
+    });
+
+    it("should reject requests with the wrong token", async () => {
+      // Act
+      const response = await worker.fetch(adminRequest("/admin/collections", "GET", "not-the-token"), env);
+
+      // Assert
+      expect(response.status).toBe(401);
+    });
+
+    it("should disable admin routes when ADMIN_TOKEN is not configured", async () => {
+      // Act
+      const response = await worker.fetch(adminRequest("/collect"), { ...env, ADMIN_TOKEN: undefined });
+
+      // Assert
+      expect(response.status).toBe(503);
+    });
+
+    it("should leave /health public", async () => {
+      // Act
+      const response = await worker.fetch(new Request("http://localhost/health"), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Rate Limiting
+  // -------------------------------------------------------------------------
+
+  describe("Rate limiting", () => {
+    it("should return 429 once a client exceeds the per-minute limit", async () => {
+      // Arrange: 10 requests are allowed per window
+      for (let i = 0; i < 10; i++) {
+        const response = await worker.fetch(adminRequest("/admin/collections", "GET"), env);
+
+        expect(response.status).toBe(200);
+      }
+
+      // Act
+      const limited = await worker.fetch(adminRequest("/admin/collections", "GET"), env);
+      const otherClient = await worker.fetch(
+        adminRequest("/admin/collections", "GET", env.ADMIN_TOKEN, "198.51.100.7"),
+        env,
+      );
+
+      // Assert
+      expect(limited.status).toBe(429);
+      expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+      expect(otherClient.status).toBe(200);
+    });
+
+    it("should count unauthenticated attempts against the limit", async () => {
+      // Arrange
+      for (let i = 0; i < 10; i++) {
+        await worker.fetch(adminRequest("/collect", "POST", "guess"), env);
+      }
+
+      // Act
+      const response = await worker.fetch(adminRequest("/collect"), env);
+
+      // Assert
+      expect(response.status).toBe(429);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Collection History
+  // -------------------------------------------------------------------------
+
+  describe("GET /admin/collections", () => {
+    it("should list successful and failed runs, newest first", async () => {
+      // Arrange: one successful run, then one failing run
+      setupGitHubMock(100);
+      await worker.fetch(adminRequest("/collect"), env);
+
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => new Response("Bad Gateway", { status: 502 })),
+      );
+      await worker.fetch(adminRequest("/collect"), env);
+
+      // Act
+      const response = await worker.fetch(adminRequest("/admin/collections", "GET"), env);
+      const body = (await response.json()) as { runs: CollectionRun[] };
+
+      // Assert
+      expect(body.runs).toHaveLength(2);
+      expect(body.runs[0]).toMatchObject({ trigger: "manual", status: "error", error: "GitHub API error: 502" });
+      expect(body.runs[1]).toMatchObject({ status: "success", releasesFound: 1, releasesProcessed: 1, error: null });
+      expect(body.runs[1].finishedAt).toBeGreaterThanOrEqual(body.runs[1].startedAt);
+    });
+
+    it("should reject an invalid limit", async () => {
+      // Act
+      const response = await worker.fetch(adminRequest("/admin/collections?limit=0", "GET"), env);
+
+      // Assert
+      expect(response.status).toBe(400);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Dry Run
+  // -------------------------------------------------------------------------
+
+  describe("POST /admin/collect/dry-run", () => {
+    it("should report new releases without writing anything", async () => {
+      // Arrange
+      setupGitHubMock(100);
+
+      // Act
+      const response = await worker.fetch(adminRequest("/admin/collect/dry-run"), env);
+      const body = (await response.json()) as DryRunResponse;
+
+      // Assert
+      expect(body.status).toBe("dry-run");
+      expect(body.changes).toEqual([{ tag: "v1.0.0", isNew: true, storedTotal: 0, projectedTotal: 100, delta: 100 }]);
+
+      const releases = await env.STATS_DB.prepare("SELECT COUNT(*) as count FROM releases").first<{ count: number }>();
+      const runs = await env.STATS_DB.prepare("SELECT COUNT(*) as count FROM collection_runs").first<{
+        count: number;
+      }>();
+
+      expect(releases?.count).toBe(0);
+      expect(runs?.count).toBe(0);
+    });
+
+    it("should report the projected delta for known releases", async () => {
+      // Arrange
+      setupGitHubMock(100);
+      await worker.fetch(adminRequest("/collect"), env);
+      setupGitHubMock(130);
+
+      // Act
+      const response = await worker.fetch(adminRequest("/admin/collect/dry-run"), env);
+      const body = (await response.json()) as DryRunResponse;
+
+      // Assert
+      expect(body.changes).toEqual([{ tag: "v1.0.0", isNew: false, storedTotal: 100, projectedTotal: 130, delta: 30 }]);
+
+      const asset = await env.STATS_DB.prepare(
+        "SELECT last_download_count FROM release_assets WHERE asset_id = 1",
+      ).first<{ last_download_count: number }>();
+
+      expect(asset?.last_download_count).toBe(100);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Recompute
+  // -------------------------------------------------------------------------
+
+  describe("POST /admin/recompute", () => {
+    it("should rebuild weekly and monthly aggregates from daily snapshots", async () => {
+      // Arrange: collect, then lose the aggregates
+      setupGitHubMock(100);
+      await worker.fetch(adminRequest("/collect"), env);
+      await env.STATS_DB.exec("DELETE FROM downloads_weekly; DELETE FROM downloads_monthly;");
+
+      // Act
+      const response = await worker.fetch(adminRequest("/admin/recompute"), env);
+      const body = (await response.json()) as { status: string; weeks: number; months: number; releases: number };
+
+      // Assert
+      expect(body).toMatchObject({ status: "recomputed", weeks: 1, months: 1, releases: 1 });
+
+      const weekly = await env.STATS_DB.prepare("SELECT COUNT(*) as count FROM downloads_weekly").first<{
+        count: number;
+      }>();
+      const monthly = await env.STATS_DB.prepare("SELECT COUNT(*) as count FROM downloads_monthly").first<{
+        count: number;
+      }>();
+
+      expect(weekly?.count).toBe(1);
+      expect(monthly?.count).toBe(1);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Backfill
+  // -------------------------------------------------------------------------
+
+  describe("POST /admin/backfill", () => {
+    const DAY = 86400000;
+    const firstDay = Date.UTC(2024, 0, 5);
+
+    /**
+     * Seeds one release with snapshots on Jan 5 and Jan 10 (4 missing days in between).
+     */
+    async function seedGap(): Promise<void> {
+      await env.STATS_DB.prepare(
+        "INSERT INTO releases (id, tag, name, total_downloads, published_at) VALUES (1, 'v1.0.0', 'v1.0.0', 150, ?)",
+      )
+        .bind(Date.UTC(2023, 11, 1))
+        .run();
+      await env.STATS_DB.prepare(
+        "INSERT INTO downloads_daily (date, release_id, count) VALUES (?, 1, 100), (?, 1, 150)",
+      )
+        .bind(firstDay, firstDay + 5 * DAY)
+        .run();
+    }
+
+    it("should report gaps without writing on a dry run", async () => {
+      // Arrange
+      await seedGap();
+
+      // Act
+      const response = await worker.fetch(adminRequest("/admin/backfill?dryRun=true"), env);
+      const body = (await response.json()) as { status: string; gaps: unknown[]; rowsInserted: number };
+
+      // Assert
+      expect(body.status).toBe("dry-run");
+      expect(body.gaps).toEqual([
+        {
+          repository: "MrNeRF/LichtFeld-Studio",
+          tag: "v1.0.0",
+          after: "2024-01-05",
+          before: "2024-01-10",
+          missingDays: 4,
+        },
+      ]);
+      expect(body.rowsInserted).toBe(0);
+
+      const daily = await env.STATS_DB.prepare("SELECT COUNT(*) as count FROM downloads_daily").first<{
+        count: number;
+      }>();
+
+      expect(daily?.count).toBe(2);
+    });
+
+    it("should interpolate missing days as estimated and spread the jump across weeks", async () => {
+      // Arrange
+      await seedGap();
+
+      // Act
+      const response = await worker.fetch(adminRequest("/admin/backfill"), env);
+      const body = (await response.json()) as { status: string; rowsInserted: number };
+
+      // Assert
+      expect(body.status).toBe("backfilled");
+      expect(body.rowsInserted).toBe(4);
+
+      const daily = await env.STATS_DB.prepare(
+        "SELECT date, count, estimated FROM downloads_daily ORDER BY date ASC",
+      ).all<{ date: number; count: number; estimated: number }>();
+
+      expect(daily.results.map((row) => [row.count, row.estimated])).toEqual([
+        [100, 0],
+        [110, 1],
+        [120, 1],
+        [130, 1],
+        [140, 1],
+        [150, 0],
+      ]);
+
+      // Week of Jan 1 ends with the Jan 7 estimate, the rest lands in the week of Jan 8
+      const weekly = await env.STATS_DB.prepare("SELECT week, count FROM downloads_weekly ORDER BY week ASC").all<{
+        week: number;
+        count: number;
+      }>();
+
+      expect(weekly.results).toEqual([
+        { week: Date.UTC(2024, 0, 1), count: 20 },
+        { week: Date.UTC(2024, 0, 8), count: 20 },
+      ]);
+    });
+
+    it("should interpolate the per-platform series as well", async () => {
+      // Arrange
+      await seedGap();
+      await env.STATS_DB.prepare(
+        "INSERT INTO platform_downloads_daily (date, release_id, platform, count) VALUES (?, 1, 'windows', 60), (?, 1, 'windows', 110)",
+      )
+        .bind(firstDay, firstDay + 5 * DAY)
+        .run();
+
+      // Act
+      const response = await worker.fetch(adminRequest("/admin/backfill"), env);
+      const body = (await response.json()) as { rowsInserted: number; platformRowsInserted: number };
+
+      // Assert
+      expect(body.rowsInserted).toBe(4);
+      expect(body.platformRowsInserted).toBe(4);
+
+      const daily = await env.STATS_DB.prepare(
+        "SELECT count, estimated FROM platform_downloads_daily ORDER BY date ASC",
+      ).all<{ count: number; estimated: number }>();
+
+      expect(daily.results.map((row) => [row.count, row.estimated])).toEqual([
+        [60, 0],
+        [70, 1],
+        [80, 1],
+        [90, 1],
+        [100, 1],
+        [110, 0],
+      ]);
+
+      const weekly = await env.STATS_DB.prepare(
+        "SELECT week, count FROM platform_downloads_weekly WHERE platform = 'windows' ORDER BY week ASC",
+      ).all<{ week: number; count: number }>();
+
+      expect(weekly.results).toEqual([
+        { week: Date.UTC(2024, 0, 1), count: 20 },
+        { week: Date.UTC(2024, 0, 8), count: 20 },
+      ]);
+    });
+
+    it("should clear the estimated flag when a real snapshot replaces an estimate", async () => {
+      // Arrange: today's snapshot was previously estimated
+      const today = Math.floor(Date.now() / DAY) * DAY;
+
+      setupGitHubMock(100);
+      await worker.fetch(adminRequest("/collect"), env);
+      await env.STATS_DB.prepare("UPDATE downloads_daily SET estimated = 1 WHERE date = ?").bind(today).run();
+
+      // Act
+      await worker.fetch(adminRequest("/collect"), env);
+
+      // Assert
+      const row = await env.STATS_DB.prepare("SELECT estimated FROM downloads_daily WHERE date = ?")
+        .bind(today)
+        .first<{ estimated: number }>();
+
+      expect(row?.estimated).toBe(0);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Compaction
+  // -------------------------------------------------------------------------
+
+  describe("POST /admin/compact", () => {
+    const DAY = 86400000;
+
+    /**
+     * Seeds one release with daily snapshots from Jan 1 to Jan 31, 2024.
+     */
+    async function seedOldSnapshots(): Promise<void> {
+      await env.STATS_DB.prepare(
+        "INSERT INTO releases (id, tag, name, total_downloads, published_at) VALUES (1, 'v1.0.0', 'v1.0.0', 400, ?)",
+      )
+        .bind(Date.UTC(2023, 11, 1))
+        .run();
+      await env.STATS_DB.batch(
+        Array.from({ length: 31 }, (_, day) =>
+          env.STATS_DB.prepare("INSERT INTO downloads_daily (date, release_id, count) VALUES (?, 1, ?)").bind(
+            Date.UTC(2024, 0, 1) + day * DAY,
+            100 + day * 10,
+          ),
+        ),
+      );
+    }
+
+    it("should only count the rows on a dry run", async () => {
+      // Arrange
+      await seedOldSnapshots();
+
+      // Act
+      const response = await worker.fetch(adminRequest("/admin/compact?dryRun=true"), env);
+      const body = (await response.json()) as { status: string; horizonDays: number; reclaimedRows: number };
+
+      // Assert
+      expect(body).toMatchObject({ status: "dry-run", horizonDays: 365, reclaimedRows: 30 });
+
+      const daily = await env.STATS_DB.prepare("SELECT COUNT(*) as count FROM downloads_daily").first<{
+        count: number;
+      }>();
+
+      expect(daily?.count).toBe(31);
+    });
+
+    it("should list and download the archive of a compaction", async () => {
+      // Arrange
+      await seedOldSnapshots();
+
+      const compacted = await worker.fetch(adminRequest("/admin/compact"), env);
+      const { archiveId } = (await compacted.json()) as { archiveId: number };
+
+      // Act
+      const listed = await worker.fetch(adminRequest("/admin/archives", "GET"), env);
+      const download = await worker.fetch(adminRequest(`/admin/archives/download?id=${archiveId}`, "GET"), env);
+
+      // Assert
+      const { archives } = (await listed.json()) as { archives: Array<{ id: number; releaseRows: number }> };
+
+      expect(archives).toMatchObject([{ id: archiveId, releaseRows: 30 }]);
+      expect(download.headers.get("Content-Type")).toBe("application/gzip");
+      expect(download.headers.get("Content-Disposition")).toContain("daily-snapshots-2024-01-01-2024-07-01.ndjson.gz");
+
+      const text = await new Response(download.body!.pipeThrough(new DecompressionStream("gzip"))).text();
+
+      expect(text.trim().split("\n")).toHaveLength(30);
+    });
+
+    it("should reject unknown archives", async () => {
+      // Act
+      const invalid = await worker.fetch(adminRequest("/admin/archives/download?id=abc", "GET"), env);
+      const missing = await worker.fetch(adminRequest("/admin/archives/download?id=99", "GET"), env);
+
+      // Assert
+      expect(invalid.status).toBe(400);
+      expect(missing.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * workers/stats-collector/test/anomalies.test.ts
+ *
+ * Unit tests for download anomaly detection.
+ */
+
+import { describe, it, expect } from "vitest";
+import { detectAssetAnomalies, detectSpike } from "../src/anomalies";
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe("detectAssetAnomalies", () => {
+  it("should report an asset whose download count fell", () => {
+    // Act
+    const result = detectAssetAnomalies(
+      [{ id: 1, name: "app.zip", downloadCount: 120 }],
+      [{ id: 1, name: "app.zip", downloadCount: 100 }],
+    );
+
+    // Assert
+    expect(result).toEqual([
+      {
+        kind: "negative_delta",
+        assetId: 1,
+        delta: -20,
+        expected: null,
+        score: null,
+        detail: "Download count of app.zip fell from 120 to 100",
+      },
+    ]);
+  });
+
+  it("should report a new asset that replaces a removed one with the same name", () => {
+    // Act
+    const result = detectAssetAnomalies(
+      [
+        { id: 1, name: "app.zip", downloadCount: 300 },
+        { id: 2, name: "app.tar.gz", downloadCount: 50 },
+      ],
+      [
+        { id: 3, name: "app.zip", downloadCount: 4 },
+        { id: 2, name: "app.tar.gz", downloadCount: 55 },
+      ],
+    );
+
+    // Assert
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ kind: "asset_reupload", assetId: 3, delta: -296 });
+  });
+
+  it("should ignore new assets with new names and removed assets", () => {
+    // Act
+    const result = detectAssetAnomalies(
+      [{ id: 1, name: "nightly-0101.zip", downloadCount: 10 }],
+      [{ id: 2, name: "nightly-0102.zip", downloadCount: 1 }],
+    );
+
+    // Assert
+    expect(result).toEqual([]);
+  });
+
+  it("should report nothing for a release collected for the first time", () => {
+    // Act
+    const result = detectAssetAnomalies([], [{ id: 1, name: "app.zip", downloadCount: 100 }]);
+
+    // Assert
+    expect(result).toEqual([]);
+  });
+});
+
+describe("detectSpike", () => {
+  const steady = [10, 12, 9, 11, 10, 8, 12, 11, 10, 9];
+
+  it("should report an increase far above the trailing window", () => {
+    // Act
+    const result = detectSpike(steady, 400);
+
+    // Assert
+    expect(result).toMatchObject({ kind: "spike", assetId: 0, delta: 400, expected: 10.2 });
+    expect(result!.score).toBeGreaterThan(100);
+  });
+
+  it("should not report ordinary increases", () => {
+    // Act & Assert
+    expect(detectSpike(steady, 14)).toBeNull();
+    expect(detectSpike([100, 400, 50, 300, 250, 80, 500], 600)).toBeNull();
+  });
+
+  it("should not judge short histories or small increases", () => {
+    // Act & Assert
+    expect(detectSpike([1, 1, 1], 500)).toBeNull();
+    expect(detectSpike([0, 0, 0, 0, 0, 0, 0, 0], 40)).toBeNull();
+  });
+
+  it("should only compare against the last 28 days", () => {
+    // Arrange: an old burst of activity followed by four quiet weeks
+    const trailing = [...Array.from({ length: 10 }, () => 1000), ...Array.from({ length: 28 }, () => 5)];
+
+    // Act
+    const result = detectSpike(trailing, 200);
+
+    // Assert
+    expect(result).toMatchObject({ kind: "spike", expected: 5 });
+  });
+});
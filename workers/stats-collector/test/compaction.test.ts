@@ -0,0 +1,258 @@
+/**
+ * workers/stats-collector/test/compaction.test.ts
+ *
+ * Tests for compacting old daily snapshots into weekly/monthly aggregates.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { env } from "cloudflare:test";
+import { applyMigrations } from "../../../db/migrate";
+import { compactSnapshots, listSnapshotArchives, readSnapshotArchive, resolveHorizonDays } from "../src/compaction";
+import { recomputeAggregates } from "../src/index";
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+const DAY = 86400000;
+const RELEASE_PUBLISHED = Date.UTC(2023, 11, 1);
+
+async function clearDatabase(): Promise<void> {
+  await applyMigrations(env.STATS_DB);
+  await env.STATS_DB.exec(`
+        DELETE FROM platform_downloads_monthly;
+        DELETE FROM platform_downloads_weekly;
+        DELETE FROM platform_downloads_daily;
+        DELETE FROM downloads_monthly;
+        DELETE FROM downloads_weekly;
+        DELETE FROM downloads_daily;
+        DELETE FROM releases;
+        DELETE FROM snapshot_archives;
+    `);
+}
+
+/**
+ * Seeds release 1 with a snapshot every `step` days from `from` to `to`,
+ * for the release and its one platform, gaining 10 downloads a day.
+ */
+async function seedSnapshots(from: number, to: number, step = 1): Promise<void> {
+  await env.STATS_DB.prepare(
+    "INSERT OR IGNORE INTO releases (id, tag, name, total_downloads, published_at) VALUES (1, 'v1.0.0', 'v1.0.0', 0, ?)",
+  )
+    .bind(RELEASE_PUBLISHED)
+    .run();
+
+  const statements: D1PreparedStatement[] = [];
+
+  for (let date = from; date <= to; date += step * DAY) {
+    const count = 100 + ((date - Date.UTC(2024, 0, 1)) / DAY) * 10;
+
+    statements.push(
+      env.STATS_DB.prepare("INSERT INTO downloads_daily (date, release_id, count) VALUES (?, 1, ?)").bind(date, count),
+      env.STATS_DB.prepare(
+        "INSERT INTO platform_downloads_daily (date, release_id, platform, count) VALUES (?, 1, 'windows-x64', ?)",
+      ).bind(date, count),
+    );
+  }
+
+  await env.STATS_DB.batch(statements);
+}
+
+async function countRows(table: string): Promise<number> {
+  const row = await env.STATS_DB.prepare(`SELECT COUNT(*) AS count FROM ${table}`).first<{ count: number }>();
+
+  return row?.count ?? 0;
+}
+
+/** Non-zero aggregates by table. Rebuilt periods without snapshots are stored as zero. */
+async function aggregates(): Promise<Record<string, unknown[]>> {
+  const tables = ["downloads_weekly", "downloads_monthly", "platform_downloads_weekly", "platform_downloads_monthly"];
+  const entries = await Promise.all(
+    tables.map(async (table) => {
+      const rows = await env.STATS_DB.prepare(`SELECT * FROM ${table} WHERE count > 0 ORDER BY 1, 2, 3`).all();
+
+      return [table, rows.results] as const;
+    }),
+  );
+
+  return Object.fromEntries(entries);
+}
+
+async function gunzipLines(data: ArrayBuffer): Promise<Array<Record<string, unknown>>> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("gzip"));
+  const text = await new Response(stream).text();
+
+  return text
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe("resolveHorizonDays", () => {
+  it("should default to a year", () => {
+    expect(resolveHorizonDays(undefined)).toBe(365);
+    expect(resolveHorizonDays("")).toBe(365);
+  });
+
+  it("should reject horizons inside the 90 days the API charts", () => {
+    expect(resolveHorizonDays("90")).toBe(90);
+    expect(() => resolveHorizonDays("30")).toThrow("Invalid 'COMPACTION_HORIZON_DAYS'");
+    expect(() => resolveHorizonDays("1y")).toThrow("Invalid 'COMPACTION_HORIZON_DAYS'");
+  });
+});
+
+describe("compactSnapshots", () => {
+  beforeEach(async () => {
+    await clearDatabase();
+  });
+
+  it("should do nothing when no snapshot is older than the horizon", async () => {
+    // Arrange
+    const today = Math.floor(Date.now() / DAY) * DAY;
+
+    await seedSnapshots(today - 30 * DAY, today);
+
+    // Act
+    const result = await compactSnapshots(env.STATS_DB);
+
+    // Assert
+    expect(result).toMatchObject({ cutoff: null, reclaimedRows: 0, archiveId: null });
+    expect(await countRows("downloads_daily")).toBe(31);
+  });
+
+  it("should only count the rows on a dry run", async () => {
+    // Arrange: Jan 1 to Mar 10, 2024
+    await seedSnapshots(Date.UTC(2024, 0, 1), Date.UTC(2024, 2, 10));
+
+    // Act
+    const result = await compactSnapshots(env.STATS_DB, { dryRun: true });
+
+    // Assert: everything but the newest snapshot of each series
+    expect(result).toEqual({
+      dryRun: true,
+      cutoff: "2024-07-01",
+      releaseRows: 69,
+      platformRows: 69,
+      reclaimedRows: 138,
+      archiveId: null,
+      archiveBytes: 0,
+      recomputed: null,
+    });
+    expect(await countRows("downloads_daily")).toBe(70);
+    expect(await countRows("snapshot_archives")).toBe(0);
+  });
+
+  it("should keep the aggregates and the newest snapshot of each series", async () => {
+    // Arrange
+    await seedSnapshots(Date.UTC(2024, 0, 1), Date.UTC(2024, 2, 10));
+    await recomputeAggregates(env.STATS_DB);
+
+    const before = await aggregates();
+
+    // Act
+    const result = await compactSnapshots(env.STATS_DB);
+
+    // Assert
+    expect(result).toMatchObject({ dryRun: false, cutoff: "2024-07-01", reclaimedRows: 138 });
+    expect(await aggregates()).toEqual(before);
+
+    const kept = await env.STATS_DB.prepare(
+      "SELECT date, count FROM downloads_daily UNION ALL SELECT date, count FROM platform_downloads_daily",
+    ).all();
+
+    expect(kept.results).toEqual([
+      { date: Date.UTC(2024, 2, 10), count: 790 },
+      { date: Date.UTC(2024, 2, 10), count: 790 },
+    ]);
+
+    const monthly = await env.STATS_DB.prepare("SELECT SUM(count) AS total FROM downloads_monthly").first<{
+      total: number;
+    }>();
+
+    expect(monthly?.total).toBe(300 + 280 + 90);
+  });
+
+  it("should not rebuild aggregates of compacted periods afterwards", async () => {
+    // Arrange
+    await seedSnapshots(Date.UTC(2024, 0, 1), Date.UTC(2024, 2, 10));
+    await compactSnapshots(env.STATS_DB);
+
+    const before = await aggregates();
+
+    // Act
+    const recomputed = await recomputeAggregates(env.STATS_DB);
+
+    // Assert
+    expect(recomputed).toMatchObject({ weeks: 0, months: 0 });
+    expect(await aggregates()).toEqual(before);
+  });
+
+  it("should archive the removed rows as gzipped NDJSON", async () => {
+    // Arrange
+    await seedSnapshots(Date.UTC(2024, 0, 1), Date.UTC(2024, 2, 10));
+
+    // Act
+    const result = await compactSnapshots(env.STATS_DB);
+
+    // Assert
+    const stored = await readSnapshotArchive(env.STATS_DB, result.archiveId!);
+
+    expect(stored?.archive).toMatchObject({
+      id: result.archiveId,
+      firstDate: "2024-01-01",
+      cutoff: "2024-07-01",
+      releaseRows: 69,
+      platformRows: 69,
+      bytes: result.archiveBytes,
+    });
+    expect(stored?.data.byteLength).toBe(result.archiveBytes);
+
+    const lines = await gunzipLines(stored!.data);
+
+    expect(lines).toHaveLength(138);
+    expect(lines[0]).toMatchObject({ table: "downloads_daily", date: Date.UTC(2024, 0, 1), release_id: 1, count: 100 });
+    expect(lines[137]).toMatchObject({
+      table: "platform_downloads_daily",
+      date: Date.UTC(2024, 2, 9),
+      platform: "windows-x64",
+      count: 780,
+    });
+  });
+
+  it("should compact at most six months per run", async () => {
+    // Arrange: weekly snapshots through 2024
+    await seedSnapshots(Date.UTC(2024, 0, 1), Date.UTC(2024, 11, 30), 7);
+
+    // Act
+    const first = await compactSnapshots(env.STATS_DB);
+    const second = await compactSnapshots(env.STATS_DB);
+    const third = await compactSnapshots(env.STATS_DB);
+
+    // Assert
+    expect(first.cutoff).toBe("2024-07-01");
+    expect(second.cutoff).toBe("2025-01-01");
+    expect(third.cutoff).toBeNull();
+    expect(first.reclaimedRows + second.reclaimedRows).toBe(2 * 52);
+    expect((await listSnapshotArchives(env.STATS_DB)).map((archive) => archive.cutoff)).toEqual([
+      "2025-01-01",
+      "2024-07-01",
+    ]);
+  });
+
+  it("should delete nothing when the aggregates can't be rebuilt", async () => {
+    // Arrange: platform snapshots of a release that is no longer stored get no aggregates
+    await seedSnapshots(Date.UTC(2024, 0, 1), Date.UTC(2024, 2, 10));
+    await env.STATS_DB.exec("UPDATE platform_downloads_daily SET release_id = 2");
+
+    // Act & Assert
+    await expect(compactSnapshots(env.STATS_DB)).rejects.toThrow(
+      /^Compaction aborted, aggregates don't match the daily snapshots: platform_downloads_weekly 2:windows-x64/,
+    );
+    expect(await countRows("platform_downloads_daily")).toBe(70);
+    expect(await countRows("snapshot_archives")).toBe(0);
+  });
+});
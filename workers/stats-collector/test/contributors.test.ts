@@ -0,0 +1,172 @@
+/**
+ * workers/stats-collector/test/contributors.test.ts
+ *
+ * Unit tests for reading contributions from GitHub responses and counting
+ * them per contributor and month.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  activityWindowStart,
+  completeWindowStart,
+  firstContributions,
+  isRefreshDue,
+  parseCommits,
+  parseContributorStats,
+  parseIssues,
+  tallyActivity,
+} from "../src/contributors";
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe("activityWindowStart", () => {
+  it("should cover the last year on the first refresh and the previous month after", () => {
+    // Arrange
+    const today = Date.UTC(2024, 0, 15);
+
+    // Act & Assert
+    expect(activityWindowStart(today, null)).toBe(Date.UTC(2023, 1, 1));
+    expect(activityWindowStart(today, Date.UTC(2024, 0, 14, 6))).toBe(Date.UTC(2023, 11, 1));
+  });
+
+  it("should refresh once a day", () => {
+    // Arrange
+    const today = Date.UTC(2024, 0, 15);
+
+    // Act & Assert
+    expect(isRefreshDue(null, today)).toBe(true);
+    expect(isRefreshDue(Date.UTC(2024, 0, 14, 23), today)).toBe(true);
+    expect(isRefreshDue(Date.UTC(2024, 0, 15, 1), today)).toBe(false);
+  });
+});
+
+describe("completeWindowStart", () => {
+  it("should start after the month a cut-off listing reached", () => {
+    // Arrange
+    const since = Date.UTC(2023, 2, 1);
+    const commits = [
+      { login: "alice", avatarUrl: null, date: Date.UTC(2024, 1, 3) },
+      { login: "alice", avatarUrl: null, date: Date.UTC(2023, 10, 20) },
+    ];
+    const issues = [{ login: "bob", avatarUrl: null, date: Date.UTC(2023, 11, 5), pullRequest: false }];
+
+    // Act & Assert
+    expect(completeWindowStart(since, [])).toBe(since);
+    expect(completeWindowStart(since, [commits])).toBe(Date.UTC(2023, 11, 1));
+    expect(completeWindowStart(since, [commits, issues])).toBe(Date.UTC(2024, 0, 1));
+  });
+});
+
+describe("parseCommits", () => {
+  it("should read the author and date of commits by linked accounts", () => {
+    // Act
+    const commits = parseCommits([
+      {
+        author: { login: "alice", avatar_url: "https://avatars.example/alice", type: "User" },
+        commit: { author: { date: "2024-01-20T10:00:00Z" } },
+      },
+      { author: { login: "renovate[bot]", type: "Bot" }, commit: { author: { date: "2024-01-19T10:00:00Z" } } },
+      { author: null, commit: { author: { date: "2024-01-18T10:00:00Z" } } },
+    ]);
+
+    // Assert
+    expect(commits).toEqual([
+      { login: "alice", avatarUrl: "https://avatars.example/alice", date: Date.UTC(2024, 0, 20, 10) },
+    ]);
+  });
+
+  it("should reject a response that isn't a commit list", () => {
+    // Act & Assert
+    expect(() => parseCommits({ message: "Not Found" })).toThrow("Unexpected GitHub commits response");
+    expect(() => parseCommits([{ author: { login: "alice" }, commit: {} }])).toThrow("missing commit date");
+  });
+});
+
+describe("parseIssues", () => {
+  it("should tell pull requests from issues", () => {
+    // Act
+    const issues = parseIssues([
+      { user: { login: "bob" }, created_at: "2024-02-10T10:00:00Z", pull_request: { url: "" } },
+      { user: { login: "bob" }, created_at: "2024-02-01T10:00:00Z" },
+    ]);
+
+    // Assert
+    expect(issues).toEqual([
+      { login: "bob", avatarUrl: null, date: Date.UTC(2024, 1, 10, 10), pullRequest: true },
+      { login: "bob", avatarUrl: null, date: Date.UTC(2024, 1, 1, 10), pullRequest: false },
+    ]);
+  });
+});
+
+describe("parseContributorStats", () => {
+  it("should read the month of each author's first week with commits", () => {
+    // Act: the week of Sunday 2023-04-30 counts for April
+    const stats = parseContributorStats([
+      {
+        author: { login: "alice" },
+        weeks: [
+          { w: 1682208000, c: 0 },
+          { w: 1682812800, c: 2 },
+        ],
+      },
+      { author: { login: "bob" }, weeks: [{ w: 1682812800, c: 0 }] },
+    ]);
+
+    // Assert
+    expect(stats).toEqual([{ login: "alice", avatarUrl: null, month: Date.UTC(2023, 3, 1) }]);
+  });
+
+  it("should reject the empty 202 body GitHub sends while computing", () => {
+    // Act & Assert
+    expect(() => parseContributorStats({})).toThrow("Unexpected GitHub contributor statistics response");
+  });
+});
+
+describe("tallyActivity", () => {
+  it("should count contributions per contributor and month from the window start", () => {
+    // Arrange
+    const alice = { login: "alice", avatarUrl: null };
+
+    // Act
+    const activity = tallyActivity(
+      [
+        { ...alice, date: Date.UTC(2024, 1, 3) },
+        { ...alice, login: "Alice", date: Date.UTC(2024, 1, 1) },
+        { ...alice, date: Date.UTC(2023, 11, 31) },
+      ],
+      [
+        { ...alice, date: Date.UTC(2024, 0, 5), pullRequest: true },
+        { login: "bob", avatarUrl: null, date: Date.UTC(2024, 1, 9), pullRequest: false },
+      ],
+      Date.UTC(2024, 0, 1),
+    );
+
+    // Assert
+    expect(activity).toEqual([
+      { month: Date.UTC(2024, 0, 1), login: "alice", avatarUrl: null, commits: 0, pullRequests: 1, issues: 0 },
+      { month: Date.UTC(2024, 1, 1), login: "alice", avatarUrl: null, commits: 2, pullRequests: 0, issues: 0 },
+      { month: Date.UTC(2024, 1, 1), login: "bob", avatarUrl: null, commits: 0, pullRequests: 0, issues: 1 },
+    ]);
+  });
+});
+
+describe("firstContributions", () => {
+  it("should keep the earliest month and any known avatar per contributor", () => {
+    // Act
+    const first = firstContributions(
+      [{ login: "Alice", avatarUrl: null, month: Date.UTC(2023, 3, 1) }],
+      [
+        { month: Date.UTC(2024, 0, 1), login: "alice", avatarUrl: "a.png", commits: 1, pullRequests: 0, issues: 0 },
+        { month: Date.UTC(2024, 0, 1), login: "bob", avatarUrl: null, commits: 0, pullRequests: 0, issues: 1 },
+      ],
+    );
+
+    // Assert
+    expect([...first.entries()]).toEqual([
+      ["alice", { login: "Alice", avatarUrl: "a.png", month: Date.UTC(2023, 3, 1) }],
+      ["bob", { login: "bob", avatarUrl: null, month: Date.UTC(2024, 0, 1) }],
+    ]);
+  });
+});
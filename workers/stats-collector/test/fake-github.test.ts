@@ -0,0 +1,192 @@
+/**
+ * workers/stats-collector/test/fake-github.test.ts
+ *
+ * Tests for the fake GitHub API the scenarios and `pnpm dev:local` run against,
+ * so a scenario failure points at the collector rather than the fake.
+ */
+
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { createFakeGitHub, fakeRelease, fakeRepository } from "../dev/fake-github";
+import type { FakeGitHub } from "../dev/fake-github";
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+const API = "https://api.github.com/repos/MrNeRF/LichtFeld-Studio";
+
+/** A fake with `count` releases, newest (highest number) first. */
+function createFake(count: number, rateLimit?: number): FakeGitHub {
+  const releases = Array.from({ length: count }, (_, i) =>
+    fakeRelease(`v0.${count - i}.0`, "2025-06-01T12:00:00Z", { "LichtFeld-Studio-windows-x64.zip": 10 }),
+  );
+
+  return createFakeGitHub({ repositories: [fakeRepository("MrNeRF/LichtFeld-Studio", releases)], rateLimit });
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe("createFakeGitHub", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should paginate releases with Link headers", async () => {
+    // Arrange
+    const fake = createFake(5);
+
+    // Act
+    const first = await fake.fetch(`${API}/releases?per_page=2&page=1`);
+    const last = await fake.fetch(`${API}/releases?per_page=2&page=3`);
+
+    // Assert
+    expect(((await first.json()) as Array<{ tag_name: string }>).map((r) => r.tag_name)).toEqual(["v0.5.0", "v0.4.0"]);
+    expect(first.headers.get("Link")).toBe(
+      `<${API}/releases?per_page=2&page=2>; rel="next", <${API}/releases?per_page=2&page=3>; rel="last"`,
+    );
+    expect(((await last.json()) as unknown[]).length).toBe(1);
+    expect(last.headers.has("Link")).toBe(false);
+  });
+
+  it("should answer a matching If-None-Match with 304 until the page changes", async () => {
+    // Arrange
+    const fake = createFake(1);
+    const etag = (await fake.fetch(`${API}/releases?per_page=100&page=1`)).headers.get("ETag")!;
+
+    // Act
+    const unchanged = await fake.fetch(`${API}/releases?per_page=100&page=1`, { headers: { "If-None-Match": etag } });
+
+    fake.addDownloads("MrNeRF/LichtFeld-Studio", "v0.1.0", { "LichtFeld-Studio-windows-x64.zip": 1 });
+
+    const changed = await fake.fetch(`${API}/releases?per_page=100&page=1`, { headers: { "If-None-Match": etag } });
+
+    // Assert: 304s don't spend the budget
+    expect(unchanged.status).toBe(304);
+    expect(unchanged.headers.get("X-RateLimit-Used")).toBe("1");
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get("ETag")).not.toBe(etag);
+  });
+
+  it("should refuse requests once the hour's budget is spent and reset on the hour", async () => {
+    // Arrange
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-05T10:30:00Z"));
+
+    const fake = createFake(1, 2);
+
+    // Act
+    const statuses = [];
+
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await fake.fetch(API)).status);
+    }
+
+    const limited = await fake.fetch(API);
+
+    vi.setSystemTime(new Date("2026-01-05T11:00:00Z"));
+
+    const reset = await fake.fetch(API);
+
+    // Assert
+    expect(statuses).toEqual([200, 200, 403]);
+    expect(limited.headers.get("X-RateLimit-Remaining")).toBe("0");
+    expect(limited.headers.get("X-RateLimit-Reset")).toBe(String(Date.UTC(2026, 0, 5, 11) / 1000));
+    expect(reset.status).toBe(200);
+    expect(reset.headers.get("X-RateLimit-Remaining")).toBe("1");
+  });
+
+  it("should fail the requested number of matching requests", async () => {
+    // Arrange
+    const fake = createFake(1);
+
+    fake.fail(502, { times: 2, path: "/repos/MrNeRF/LichtFeld-Studio/releases" });
+
+    // Act
+    const statuses = [];
+
+    for (const path of ["", "/releases", "/releases", "/releases"]) {
+      statuses.push((await fake.fetch(`${API}${path}`)).status);
+    }
+
+    // Assert
+    expect(statuses).toEqual([200, 502, 502, 200]);
+    expect(fake.requests.map((request) => request.status)).toEqual(statuses);
+  });
+
+  it("should only serve traffic to an authorized request for a repository with traffic", async () => {
+    // Arrange
+    const fake = createFake(1);
+    const repo = fake.repository("mrnerf/lichtfeld-studio");
+
+    // Act
+    const withoutTraffic = await fake.fetch(`${API}/traffic/views`, { headers: { Authorization: "Bearer token" } });
+
+    repo.traffic = { clones: [], views: [{ timestamp: "2026-01-04T00:00:00Z", count: 12, uniques: 5 }] };
+
+    const anonymous = await fake.fetch(`${API}/traffic/views`);
+    const authorized = await fake.fetch(`${API}/traffic/views`, { headers: { Authorization: "Bearer token" } });
+
+    // Assert
+    expect(withoutTraffic.status).toBe(403);
+    expect(anonymous.status).toBe(403);
+    expect(await authorized.json()).toEqual({
+      count: 12,
+      uniques: 5,
+      views: [{ timestamp: "2026-01-04T00:00:00Z", count: 12, uniques: 5 }],
+    });
+  });
+
+  it("should list contributions newest first and count commits per week", async () => {
+    // Arrange
+    const fake = createFake(1);
+
+    fake.contribute("MrNeRF/LichtFeld-Studio", "alice", "commit", "2026-01-05T10:00:00Z");
+    fake.contribute("MrNeRF/LichtFeld-Studio", "alice", "commit", "2026-01-06T10:00:00Z");
+    fake.contribute("MrNeRF/LichtFeld-Studio", "bob", "commit", "2025-12-20T10:00:00Z");
+    fake.contribute("MrNeRF/LichtFeld-Studio", "bob", "pull_request", "2026-01-07T10:00:00Z");
+    fake.contribute("MrNeRF/LichtFeld-Studio", "carol", "issue", "2026-01-08T10:00:00Z");
+
+    // Act
+    const commits = (await (await fake.fetch(`${API}/commits?since=2026-01-01T00:00:00Z`)).json()) as Array<{
+      commit: { author: { date: string } };
+    }>;
+    const issues = (await (await fake.fetch(`${API}/issues?state=all`)).json()) as Array<{
+      user: { login: string };
+      pull_request?: unknown;
+    }>;
+    const stats = (await (await fake.fetch(`${API}/stats/contributors`)).json()) as Array<{
+      author: { login: string };
+      weeks: Array<{ w: number; c: number }>;
+    }>;
+
+    // Assert
+    expect(commits.map((commit) => commit.commit.author.date)).toEqual([
+      "2026-01-06T10:00:00Z",
+      "2026-01-05T10:00:00Z",
+    ]);
+    expect(issues.map((issue) => [issue.user.login, "pull_request" in issue])).toEqual([
+      ["carol", false],
+      ["bob", true],
+    ]);
+    expect(stats.map((entry) => [entry.author.login, entry.weeks])).toEqual([
+      ["alice", [{ w: Date.UTC(2026, 0, 4) / 1000, a: 0, d: 0, c: 2 }]],
+      ["bob", [{ w: Date.UTC(2025, 11, 14) / 1000, a: 0, d: 0, c: 1 }]],
+    ]);
+  });
+
+  it("should replace a re-uploaded asset with a new ID", () => {
+    // Arrange
+    const fake = createFake(1);
+    const before = fake.release("MrNeRF/LichtFeld-Studio", "v0.1.0").assets[0];
+
+    // Act
+    const after = fake.reupload("MrNeRF/LichtFeld-Studio", "v0.1.0", before.name);
+
+    // Assert
+    expect(after).toMatchObject({ name: before.name, download_count: 0 });
+    expect(after.id).not.toBe(before.id);
+    expect(fake.release("MrNeRF/LichtFeld-Studio", "v0.1.0").assets).toEqual([after]);
+  });
+});
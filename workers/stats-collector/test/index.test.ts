@@ -103,10 +103,17 @@ const mockReleases: MockRelease[] = [
 // =============================================================================
 
 /**
- * Creates a fetch request with standard properties.
+ * Creates a fetch request with standard properties and admin credentials.
  */
 function createRequest(url: string, options?: RequestInit): IncomingRequest {
-  return new Request(url, options) as IncomingRequest;
+  const headers = new Headers(options?.headers);
+
+  // Admin routes such as POST /collect require the shared secret
+  if (!headers.has("Authorization")) {
+    headers.set("Authorization", `Bearer ${env.ADMIN_TOKEN}`);
+  }
+
+  return new Request(url, { ...options, headers }) as IncomingRequest;
 }
 
 /**
@@ -115,14 +122,37 @@ function createRequest(url: string, options?: RequestInit): IncomingRequest {
  */
 async function clearDatabase(): Promise<void> {
   await env.STATS_DB.exec(`
+        DELETE FROM rate_limits;
+        DELETE FROM collection_runs;
+        DELETE FROM platform_downloads_monthly;
+        DELETE FROM platform_downloads_weekly;
+        DELETE FROM platform_downloads_daily;
         DELETE FROM release_assets;
         DELETE FROM downloads_monthly;
         DELETE FROM downloads_weekly;
         DELETE FROM downloads_daily;
         DELETE FROM releases;
+        DELETE FROM repositories WHERE id <> 1;
+        DELETE FROM github_etags;
+        DELETE FROM anomalies;
+        DELETE FROM webhook_deliveries;
+        DELETE FROM snapshot_archives;
+        DELETE FROM repository_metrics_daily;
+        DELETE FROM repository_traffic_daily;
+        DELETE FROM contributor_activity_monthly;
+        DELETE FROM contributors;
+        UPDATE repositories SET last_error = NULL, contributors_refreshed_at = NULL, traffic_forbidden_at = NULL;
     `);
 }
 
+/**
+ * Forgets migrations newer than the given version, so the next run applies
+ * them again as it would against a database from an older deployment.
+ */
+async function rollbackMigrationsTo(version: number): Promise<void> {
+  await env.STATS_DB.prepare("DELETE FROM schema_migrations WHERE version > ?").bind(version).run();
+}
+
 /**
  * Sets up the fetch mock to return mock GitHub release data.
  */
@@ -482,6 +512,7 @@ describe("Stats Collector Worker", () => {
       // Arrange
       setupGitHubMock();
       await env.STATS_DB.exec("DROP TABLE IF EXISTS release_assets;");
+      await rollbackMigrationsTo(1);
 
       const request = createRequest("http://localhost/collect", {
         method: "POST",
@@ -515,6 +546,7 @@ describe("Stats Collector Worker", () => {
       await waitOnExecutionContext(ctx1);
 
       await env.STATS_DB.exec("DROP TABLE IF EXISTS release_assets;");
+      await rollbackMigrationsTo(1);
 
       const updatedReleases: MockRelease[] = [
         {
@@ -1105,4 +1137,1318 @@ describe("Stats Collector Worker", () => {
       expect(release?.last_updated).toBeLessThanOrEqual(afterCollection);
     });
   });
+
+  // -------------------------------------------------------------------------
+  // Platform Breakdown Tests
+  // -------------------------------------------------------------------------
+
+  describe("Platform Breakdown", () => {
+    it("should classify assets when storing them", async () => {
+      // Arrange
+      setupGitHubMock();
+
+      const request = createRequest("http://localhost/collect", {
+        method: "POST",
+      });
+      const ctx = createExecutionContext();
+
+      // Act
+      await worker.fetch(request, env, ctx);
+      await waitOnExecutionContext(ctx);
+
+      // Assert
+      const asset = await env.STATS_DB.prepare(
+        "SELECT platform, os, arch, cuda_version, variant FROM release_assets WHERE asset_id = ?",
+      )
+        .bind(102)
+        .first<{ platform: string; os: string; arch: string; cuda_version: string | null; variant: string }>();
+
+      expect(asset).toEqual({
+        platform: "linux-x64-portable",
+        os: "linux",
+        arch: "x64",
+        cuda_version: null,
+        variant: "portable",
+      });
+    });
+
+    it("should store per-platform daily, weekly and monthly series", async () => {
+      // Arrange
+      setupGitHubMock();
+
+      const request = createRequest("http://localhost/collect", {
+        method: "POST",
+      });
+      const ctx = createExecutionContext();
+
+      // Act
+      await worker.fetch(request, env, ctx);
+      await waitOnExecutionContext(ctx);
+
+      // Assert
+      const daily = await env.STATS_DB.prepare(
+        `
+          SELECT r.tag, p.platform, p.count
+          FROM platform_downloads_daily p
+          INNER JOIN releases r ON r.id = p.release_id
+          ORDER BY r.tag ASC, p.platform ASC
+        `,
+      ).all<{ tag: string; platform: string; count: number }>();
+      const weekly = await env.STATS_DB.prepare("SELECT COUNT(*) as count FROM platform_downloads_weekly").first<{
+        count: number;
+      }>();
+      const monthly = await env.STATS_DB.prepare("SELECT COUNT(*) as count FROM platform_downloads_monthly").first<{
+        count: number;
+      }>();
+
+      expect(daily.results).toEqual([
+        { tag: "nightly", platform: "windows-x64-portable", count: 450 },
+        { tag: "v0.9.0", platform: "windows-x64-portable", count: 200 },
+        { tag: "v1.0.0", platform: "linux-x64-portable", count: 500 },
+        { tag: "v1.0.0", platform: "windows-x64-portable", count: 1000 },
+      ]);
+      expect(weekly?.count).toBe(4);
+      expect(monthly?.count).toBe(4);
+    });
+
+    it("should keep per-platform totals growing when nightly assets roll over", async () => {
+      vi.useFakeTimers();
+
+      try {
+        const nightly = (assets: MockRelease["assets"]): MockRelease[] => [
+          {
+            tag_name: "nightly",
+            name: "Nightly Build",
+            draft: false,
+            prerelease: true,
+            published_at: "2024-01-25T12:00:00Z",
+            assets,
+          },
+        ];
+        const payloads = [
+          nightly([
+            {
+              id: 2001,
+              name: "LichtFeld-Studio-windows-nightly-2024-01-25.zip",
+              download_count: 80,
+              created_at: "2024-01-25T02:00:00Z",
+            },
+            {
+              id: 2002,
+              name: "LichtFeld-Studio-linux-nightly-2024-01-25.AppImage",
+              download_count: 20,
+              created_at: "2024-01-25T02:00:00Z",
+            },
+          ]),
+          nightly([
+            {
+              id: 2003,
+              name: "LichtFeld-Studio-windows-nightly-2024-01-26.zip",
+              download_count: 30,
+              created_at: "2024-01-26T02:00:00Z",
+            },
+            {
+              id: 2002,
+              name: "LichtFeld-Studio-linux-nightly-2024-01-25.AppImage",
+              download_count: 25,
+              created_at: "2024-01-25T02:00:00Z",
+            },
+          ]),
+        ];
+        let collectionCount = 0;
+
+        vi.stubGlobal(
+          "fetch",
+          vi.fn(async (url: string) => {
+            const page = parseInt(new URL(url).searchParams.get("page") || "1", 10);
+            const payload = url.includes("/releases?") && page === 1 ? payloads[collectionCount++] : [];
+
+            return new Response(JSON.stringify(payload), {
+              status: 200,
+              headers: { "Content-Type": "application/json" },
+            });
+          }),
+        );
+
+        for (const day of ["2024-01-26T12:00:00Z", "2024-01-27T12:00:00Z"]) {
+          vi.setSystemTime(new Date(day));
+
+          const ctx = createExecutionContext();
+
+          await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env, ctx);
+          await waitOnExecutionContext(ctx);
+        }
+
+        const latest = await env.STATS_DB.prepare(
+          "SELECT platform, count FROM platform_downloads_daily WHERE date = ? ORDER BY platform ASC",
+        )
+          .bind(Date.parse("2024-01-27T00:00:00Z"))
+          .all<{ platform: string; count: number }>();
+
+        // Windows keeps the 80 downloads of the deleted asset and adds the new 30
+        expect(latest.results).toEqual([
+          { platform: "linux-x64-portable", count: 25 },
+          { platform: "windows-x64-portable", count: 110 },
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should add classification columns to an older release_assets table", async () => {
+      // Arrange
+      setupGitHubMock();
+      await env.STATS_DB.exec("DROP TABLE IF EXISTS release_assets;");
+      await env.STATS_DB.exec(
+        "CREATE TABLE release_assets (asset_id INTEGER PRIMARY KEY, release_id INTEGER NOT NULL, name TEXT NOT NULL, last_download_count INTEGER NOT NULL DEFAULT 0, created_at INTEGER, first_seen INTEGER NOT NULL, last_seen INTEGER NOT NULL);",
+      );
+      await rollbackMigrationsTo(2);
+
+      const request = createRequest("http://localhost/collect", {
+        method: "POST",
+      });
+      const ctx = createExecutionContext();
+
+      // Act
+      const response = await worker.fetch(request, env, ctx);
+      await waitOnExecutionContext(ctx);
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const classified = await env.STATS_DB.prepare(
+        "SELECT COUNT(*) as count FROM release_assets WHERE platform IS NOT NULL",
+      ).first<{ count: number }>();
+
+      expect(classified?.count).toBe(5);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Collection Run Log Tests
+  // -------------------------------------------------------------------------
+
+  describe("Collection Run Log", () => {
+    /**
+     * Mocks GitHub with the standard releases plus rate-limit headers.
+     */
+    function setupRateLimitedMock(status = 200): void {
+      let used = 0;
+
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (url: string) => {
+          const page = new URL(url).searchParams.get("page");
+          const headers = {
+            "X-RateLimit-Limit": "5000",
+            "X-RateLimit-Remaining": String(5000 - ++used),
+            "X-RateLimit-Used": String(used),
+            "X-RateLimit-Reset": "1706180400",
+          };
+
+          if (status !== 200) {
+            return new Response("rate limit exceeded", { status, headers });
+          }
+
+          return new Response(JSON.stringify(page === "1" ? mockReleases : []), { status: 200, headers });
+        }),
+      );
+    }
+
+    it("should record duration and the last rate-limit headers of a successful run", async () => {
+      // Arrange
+      setupRateLimitedMock();
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const run = await env.STATS_DB.prepare("SELECT * FROM collection_runs").first<{
+        status: string;
+        trigger: string;
+        duration_ms: number;
+        releases_processed: number;
+        github_requests: number;
+        rate_limit_limit: number;
+        rate_limit_remaining: number;
+        rate_limit_used: number;
+        rate_limit_reset: number;
+      }>();
+
+      // The releases page, the repository metrics, then the contributor commits
+      // (answered with releases, so the activity refresh fails on its own)
+      expect(run).toMatchObject({
+        status: "success",
+        trigger: "manual",
+        releases_processed: 3,
+        github_requests: 3,
+        rate_limit_limit: 5000,
+        rate_limit_remaining: 4997,
+        rate_limit_used: 3,
+        rate_limit_reset: 1706180400000,
+      });
+      expect(run?.duration_ms).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should record the error and rate limit of a failed run", async () => {
+      // Arrange
+      setupRateLimitedMock(403);
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      expect(response.status).toBe(500);
+
+      const run = await env.STATS_DB.prepare("SELECT status, error, rate_limit_remaining FROM collection_runs").first<{
+        status: string;
+        error: string;
+        rate_limit_remaining: number;
+      }>();
+
+      expect(run).toEqual({ status: "error", error: "GitHub API error: 403", rate_limit_remaining: 4999 });
+    });
+
+    it("should compact daily snapshots older than the horizon and record the reclaimed rows", async () => {
+      // Arrange: a stored release with two January 2024 snapshots
+      await env.STATS_DB.exec(
+        "INSERT INTO releases (id, repository_id, tag, name, total_downloads, published_at) VALUES (7, 1, 'v1.0.0', 'Version 1.0.0', 1400, 1705320000000);",
+      );
+      await env.STATS_DB.exec(
+        "INSERT INTO downloads_daily (date, release_id, count) VALUES (1704067200000, 7, 1300), (1704153600000, 7, 1400);",
+      );
+      setupRateLimitedMock();
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+      const body = (await response.json()) as { compaction: { cutoff: string; releaseRows: number } };
+
+      // Assert
+      expect(body.compaction).toMatchObject({ cutoff: "2024-07-01", releaseRows: 2 });
+
+      const run = await env.STATS_DB.prepare("SELECT compacted_rows FROM collection_runs").first<{
+        compacted_rows: number;
+      }>();
+
+      expect(run?.compacted_rows).toBe(2);
+    });
+
+    it("should add run log columns to a collection_runs table from an older deployment", async () => {
+      // Arrange: recreate the table without timing and rate-limit columns
+      await env.STATS_DB.exec(
+        "DROP TABLE collection_runs; CREATE TABLE collection_runs (id INTEGER PRIMARY KEY AUTOINCREMENT, trigger TEXT NOT NULL, status TEXT NOT NULL, started_at INTEGER NOT NULL, finished_at INTEGER, releases_found INTEGER, releases_processed INTEGER, error TEXT);",
+      );
+      await rollbackMigrationsTo(4);
+      setupRateLimitedMock();
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const run = await env.STATS_DB.prepare("SELECT status, rate_limit_limit FROM collection_runs").first<{
+        status: string;
+        rate_limit_limit: number;
+      }>();
+
+      expect(run).toEqual({ status: "success", rate_limit_limit: 5000 });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Plugin Repository Tests
+  // -------------------------------------------------------------------------
+
+  describe("Plugin Repositories", () => {
+    const registryUrl = "https://registry.test/plugin-registry/index.json";
+
+    const pluginRelease: MockRelease = {
+      tag_name: "v1.0.0",
+      name: "Example Plugin 1.0.0",
+      draft: false,
+      prerelease: false,
+      published_at: "2024-01-20T12:00:00Z",
+      assets: [{ id: 9001, name: "example-plugin.zip", download_count: 42, created_at: "2024-01-20T12:00:00Z" }],
+    };
+
+    /**
+     * Mocks the plugin registry and GitHub. Repositories without an entry in
+     * `releasesByRepo` answer 404.
+     */
+    function setupRegistryMock(
+      plugins: Array<{ namespace: string; name: string; repository: string }>,
+      releasesByRepo: Record<string, MockRelease[]>,
+    ): void {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (url: string) => {
+          if (url === registryUrl) {
+            return Response.json({ version: 1, plugins });
+          }
+
+          const urlObj = new URL(url);
+          const repo = urlObj.pathname.replace(/^\/repos\//, "").replace(/\/releases$/, "");
+          const releases = releasesByRepo[repo];
+
+          if (!releases) {
+            return new Response("Not Found", { status: 404 });
+          }
+
+          return Response.json(urlObj.searchParams.get("page") === "1" ? releases : []);
+        }),
+      );
+    }
+
+    it("should collect the repositories listed in the plugin registry", async () => {
+      // Arrange
+      setupRegistryMock(
+        [
+          { namespace: "community", name: "example", repository: "https://github.com/example/example-plugin" },
+          { namespace: "community", name: "elsewhere", repository: "https://gitlab.com/example/elsewhere" },
+        ],
+        { "cli/cli": mockReleases, "example/example-plugin": [pluginRelease] },
+      );
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), {
+        ...env,
+        PLUGIN_REGISTRY_URL: registryUrl,
+      });
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as {
+        releasesFound: number;
+        repositories: Array<{ owner: string; repo: string; releasesFound: number; error: string | null }>;
+      };
+
+      expect(body.releasesFound).toBe(4);
+      expect(body.repositories).toEqual([
+        { owner: "cli", repo: "cli", releasesFound: 3, releasesProcessed: 3, error: null },
+        { owner: "example", repo: "example-plugin", releasesFound: 1, releasesProcessed: 1, error: null },
+      ]);
+
+      const plugin = await env.STATS_DB.prepare(
+        "SELECT r.tag, r.total_downloads, p.plugin_id FROM releases r INNER JOIN repositories p ON p.id = r.repository_id WHERE p.name = ?",
+      )
+        .bind("example-plugin")
+        .first<{ tag: string; total_downloads: number; plugin_id: string }>();
+
+      expect(plugin).toEqual({ tag: "v1.0.0", total_downloads: 42, plugin_id: "community:example" });
+
+      // The same tag in the main repository stays a separate release
+      const main = await env.STATS_DB.prepare(
+        "SELECT total_downloads FROM releases WHERE repository_id = 1 AND tag = ?",
+      )
+        .bind("v1.0.0")
+        .first<{ total_downloads: number }>();
+
+      expect(main?.total_downloads).toBe(1500);
+    });
+
+    it("should record a failing plugin repository without failing the run", async () => {
+      // Arrange
+      setupRegistryMock(
+        [{ namespace: "community", name: "gone", repository: "https://github.com/example/gone-plugin" }],
+        { "cli/cli": mockReleases },
+      );
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), {
+        ...env,
+        PLUGIN_REGISTRY_URL: registryUrl,
+      });
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const repositories = await env.STATS_DB.prepare(
+        "SELECT owner, name, last_collected_at IS NOT NULL AS collected, last_error FROM repositories ORDER BY id",
+      ).all<{ owner: string; name: string; collected: number; last_error: string | null }>();
+
+      expect(repositories.results).toEqual([
+        { owner: "cli", name: "cli", collected: 1, last_error: null },
+        { owner: "example", name: "gone-plugin", collected: 0, last_error: "GitHub API error: 404" },
+      ]);
+    });
+
+    it("should stop collecting plugin repositories that leave the registry", async () => {
+      // Arrange
+      await env.STATS_DB.prepare(
+        "INSERT INTO repositories (owner, name, plugin_id, enabled, first_seen) VALUES ('example', 'old-plugin', 'community:old', 1, 0)",
+      ).run();
+      setupRegistryMock([], { "cli/cli": mockReleases, "example/old-plugin": [pluginRelease] });
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), {
+        ...env,
+        PLUGIN_REGISTRY_URL: registryUrl,
+      });
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as { repositories: Array<{ repo: string }> };
+      const repository = await env.STATS_DB.prepare("SELECT enabled FROM repositories WHERE name = ?")
+        .bind("old-plugin")
+        .first<{ enabled: number }>();
+
+      expect(body.repositories.map((r) => r.repo)).toEqual(["cli"]);
+      expect(repository?.enabled).toBe(0);
+    });
+
+    it("should keep collecting known repositories when the registry is unavailable", async () => {
+      // Arrange
+      await env.STATS_DB.prepare(
+        "INSERT INTO repositories (owner, name, plugin_id, enabled, first_seen) VALUES ('example', 'example-plugin', 'community:example', 1, 0)",
+      ).run();
+      setupRegistryMock([], { "cli/cli": mockReleases, "example/example-plugin": [pluginRelease] });
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), {
+        ...env,
+        PLUGIN_REGISTRY_URL: "https://registry.test/missing.json",
+      });
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as { repositories: Array<{ repo: string }> };
+
+      expect(body.repositories.map((r) => r.repo)).toEqual(["cli", "example-plugin"]);
+    });
+
+    it("should move releases of an older deployment under the main repository", async () => {
+      // Arrange: recreate the single-repository releases table
+      await env.STATS_DB.exec(
+        "DROP TABLE releases; CREATE TABLE releases (id INTEGER PRIMARY KEY, tag TEXT NOT NULL UNIQUE, name TEXT, total_downloads INTEGER DEFAULT 0, published_at INTEGER, first_seen INTEGER, last_updated INTEGER);",
+      );
+      await env.STATS_DB.exec(
+        "INSERT INTO releases (id, tag, name, total_downloads) VALUES (7, 'v1.0.0', 'Version 1.0.0', 1400);",
+      );
+      await rollbackMigrationsTo(6);
+      setupGitHubMock();
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const release = await env.STATS_DB.prepare("SELECT id, repository_id FROM releases WHERE tag = ?")
+        .bind("v1.0.0")
+        .first<{ id: number; repository_id: number }>();
+
+      expect(release).toEqual({ id: 7, repository_id: 1 });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Conditional Request Tests
+  // -------------------------------------------------------------------------
+
+  describe("Conditional Requests", () => {
+    it("should reuse the stored page when GitHub answers 304 Not Modified", async () => {
+      // Arrange: the first run stores the page ETag
+      const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+        if (new Headers(init?.headers).get("If-None-Match") === '"releases-v1"') {
+          return new Response(null, { status: 304, headers: { "X-RateLimit-Remaining": "4999" } });
+        }
+
+        return Response.json(mockReleases, { headers: { ETag: '"releases-v1"' } });
+      });
+
+      vi.stubGlobal("fetch", fetchMock);
+      await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+      await env.STATS_DB.exec("DELETE FROM downloads_daily; DELETE FROM collection_runs;");
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(fetchMock.mock.calls.filter(([url]) => url.includes("/releases?"))).toHaveLength(2);
+
+      const daily = await env.STATS_DB.prepare("SELECT COUNT(*) as count FROM downloads_daily").first<{
+        count: number;
+      }>();
+      const run = await env.STATS_DB.prepare(
+        "SELECT status, github_requests, github_not_modified FROM collection_runs",
+      ).first<{ status: string; github_requests: number; github_not_modified: number }>();
+
+      expect(daily?.count).toBe(3);
+      // The releases page, the repository metrics and the contributor commits
+      expect(run).toEqual({ status: "success", github_requests: 3, github_not_modified: 1 });
+    });
+
+    it("should only request the next page after a full page", async () => {
+      // Arrange: a full page of drafts followed by a page with a single release
+      const fullPage: MockRelease[] = Array.from({ length: 100 }, (_, i) => ({
+        tag_name: `v0.0.${i}`,
+        name: null,
+        draft: true,
+        prerelease: false,
+        published_at: "2023-06-01T12:00:00Z",
+        assets: [],
+      }));
+      const fetchMock = vi.fn(async (url: string) => {
+        const page = new URL(url).searchParams.get("page");
+
+        return Response.json(page === "1" ? fullPage : [mockReleases[0]]);
+      });
+
+      vi.stubGlobal("fetch", fetchMock);
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(fetchMock.mock.calls.filter(([url]) => url.includes("/releases?"))).toHaveLength(2);
+
+      const body = (await response.json()) as { releasesFound: number };
+
+      expect(body.releasesFound).toBe(1);
+    });
+
+    it("should log a rate-limited run instead of failing when the rate limit is exhausted", async () => {
+      // Arrange
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => {
+          return new Response("API rate limit exceeded", {
+            status: 403,
+            headers: { "X-RateLimit-Limit": "5000", "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "1706180400" },
+          });
+        }),
+      );
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as { rateLimited: boolean; releasesProcessed: number };
+
+      expect(body).toMatchObject({ rateLimited: true, releasesProcessed: 0 });
+
+      const run = await env.STATS_DB.prepare(
+        "SELECT status, error, rate_limit_remaining, rate_limit_reset FROM collection_runs",
+      ).first<{ status: string; error: string; rate_limit_remaining: number; rate_limit_reset: number }>();
+
+      expect(run).toEqual({
+        status: "rate_limited",
+        error: "GitHub rate limit exhausted",
+        rate_limit_remaining: 0,
+        rate_limit_reset: 1706180400000,
+      });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Repository Metrics Tests
+  // -------------------------------------------------------------------------
+
+  describe("Repository Metrics", () => {
+    /**
+     * Mocks GitHub with the standard releases, repository counts and traffic.
+     * Traffic endpoints answer with `trafficStatus` when it is not 200.
+     */
+    function setupMetricsMock(trafficStatus = 200): ReturnType<typeof vi.fn> {
+      const fetchMock = vi.fn(async (url: string) => {
+        const { pathname, searchParams } = new URL(url);
+
+        if (pathname.endsWith("/releases")) {
+          return Response.json(searchParams.get("page") === "1" ? mockReleases : []);
+        }
+
+        if (pathname.includes("/traffic/")) {
+          const kind = pathname.endsWith("/clones") ? "clones" : "views";
+
+          if (trafficStatus !== 200) {
+            return Response.json({ message: "Must have push access to repository" }, { status: trafficStatus });
+          }
+
+          return Response.json({
+            count: 30,
+            uniques: 12,
+            [kind]: [
+              { timestamp: "2024-01-15T00:00:00Z", count: kind === "clones" ? 10 : 200, uniques: 4 },
+              { timestamp: "2024-01-16T00:00:00Z", count: kind === "clones" ? 20 : 300, uniques: 8 },
+            ],
+          });
+        }
+
+        return Response.json({
+          stargazers_count: 2400,
+          forks_count: 180,
+          subscribers_count: 45,
+          open_issues_count: 62,
+        });
+      });
+
+      vi.stubGlobal("fetch", fetchMock);
+
+      return fetchMock;
+    }
+
+    it("should snapshot repository counts and traffic", async () => {
+      // Arrange
+      setupMetricsMock();
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      const body = (await response.json()) as { repositoryMetrics: number };
+
+      expect(body.repositoryMetrics).toBe(1);
+
+      const metrics = await env.STATS_DB.prepare(
+        "SELECT repository_id, stars, forks, watchers, open_issues FROM repository_metrics_daily",
+      ).all();
+      const traffic = await env.STATS_DB.prepare(
+        "SELECT date, clones, unique_clones, views, unique_views FROM repository_traffic_daily ORDER BY date",
+      ).all();
+
+      expect(metrics.results).toEqual([{ repository_id: 1, stars: 2400, forks: 180, watchers: 45, open_issues: 62 }]);
+      expect(traffic.results).toEqual([
+        { date: Date.UTC(2024, 0, 15), clones: 10, unique_clones: 4, views: 200, unique_views: 4 },
+        { date: Date.UTC(2024, 0, 16), clones: 20, unique_clones: 8, views: 300, unique_views: 8 },
+      ]);
+    });
+
+    it("should keep the counts when the token has no access to traffic", async () => {
+      // Arrange
+      const fetchMock = setupMetricsMock(403);
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert: views are not requested once clones are forbidden
+      expect(response.status).toBe(200);
+      expect(fetchMock.mock.calls.filter(([url]) => url.includes("/traffic/"))).toHaveLength(1);
+
+      const counts = await env.STATS_DB.prepare(
+        "SELECT (SELECT COUNT(*) FROM repository_metrics_daily) AS metrics, (SELECT COUNT(*) FROM repository_traffic_daily) AS traffic",
+      ).first();
+
+      expect(counts).toEqual({ metrics: 1, traffic: 0 });
+    });
+
+    it("should snapshot once a day and not request forbidden traffic again", async () => {
+      // Arrange
+      const fetchMock = setupMetricsMock(403);
+
+      vi.useFakeTimers({ toFake: ["Date"] });
+
+      try {
+        // Act
+        vi.setSystemTime(new Date("2024-02-15T12:00:00Z"));
+        await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+        vi.setSystemTime(new Date("2024-02-15T18:00:00Z"));
+
+        const sameDay = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+        vi.setSystemTime(new Date("2024-02-16T01:00:00Z"));
+
+        const nextDay = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+        // Assert: the repository is read once per day, its traffic only on the first run
+        const repositoryCalls = fetchMock.mock.calls.filter(([url]) =>
+          /^\/repos\/[^/]+\/[^/]+$/.test(new URL(url).pathname),
+        );
+
+        expect(await sameDay.json()).toMatchObject({ repositoryMetrics: 0 });
+        expect(await nextDay.json()).toMatchObject({ repositoryMetrics: 1 });
+        expect(repositoryCalls).toHaveLength(2);
+        expect(fetchMock.mock.calls.filter(([url]) => url.includes("/traffic/"))).toHaveLength(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should not fail the collection when the repository request fails", async () => {
+      // Arrange: the generic mock answers the repository request with a release list
+      setupGitHubMock();
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ releasesProcessed: 3, repositoryMetrics: 0 });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Contributor Activity Tests
+  // -------------------------------------------------------------------------
+
+  describe("Contributor Activity", () => {
+    const user = (login: string) => ({ login, avatar_url: `https://avatars.example/${login}`, type: "User" });
+
+    /**
+     * Mocks GitHub with the standard releases, commits and issues from January
+     * and February 2024, and contributor statistics answered with `statsStatus`.
+     */
+    function setupActivityMock(statsStatus = 200): ReturnType<typeof vi.fn> {
+      const fetchMock = vi.fn(async (url: string) => {
+        const { pathname, searchParams } = new URL(url);
+
+        if (pathname.endsWith("/releases")) {
+          return Response.json(searchParams.get("page") === "1" ? mockReleases : []);
+        }
+
+        if (pathname.endsWith("/commits")) {
+          return Response.json([
+            { author: user("alice"), commit: { author: { date: "2024-02-03T10:00:00Z" } } },
+            { author: user("Alice"), commit: { author: { date: "2024-01-20T10:00:00Z" } } },
+            { author: { ...user("renovate[bot]"), type: "Bot" }, commit: { author: { date: "2024-01-19T10:00:00Z" } } },
+            { author: null, commit: { author: { date: "2024-01-18T10:00:00Z" } } },
+          ]);
+        }
+
+        if (pathname.endsWith("/issues")) {
+          return Response.json([
+            { user: user("bob"), created_at: "2024-02-10T10:00:00Z", pull_request: { url: "" } },
+            { user: user("bob"), created_at: "2024-02-01T10:00:00Z" },
+            { user: user("carol"), created_at: "2024-01-05T10:00:00Z" },
+          ]);
+        }
+
+        if (pathname.endsWith("/stats/contributors")) {
+          return statsStatus === 200
+            ? Response.json([{ author: user("alice"), total: 40, weeks: [{ w: 1685232000, a: 0, d: 0, c: 3 }] }])
+            : new Response(null, { status: statsStatus });
+        }
+
+        return Response.json({ stargazers_count: 0, forks_count: 0, subscribers_count: 0, open_issues_count: 0 });
+      });
+
+      vi.stubGlobal("fetch", fetchMock);
+
+      return fetchMock;
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-02-15T12:00:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should store monthly counts per contributor and their first contribution", async () => {
+      // Arrange
+      setupActivityMock();
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      expect(await response.json()).toMatchObject({ contributorActivity: 1 });
+
+      const activity = await env.STATS_DB.prepare(
+        "SELECT month, login, commits, pull_requests, issues FROM contributor_activity_monthly ORDER BY month, login",
+      ).all();
+      const contributors = await env.STATS_DB.prepare(
+        "SELECT login, first_contribution FROM contributors ORDER BY login",
+      ).all();
+
+      // Bots and commits without a linked account are left out, logins are case-insensitive
+      expect(activity.results).toEqual([
+        { month: Date.UTC(2024, 0, 1), login: "Alice", commits: 1, pull_requests: 0, issues: 0 },
+        { month: Date.UTC(2024, 0, 1), login: "carol", commits: 0, pull_requests: 0, issues: 1 },
+        { month: Date.UTC(2024, 1, 1), login: "alice", commits: 1, pull_requests: 0, issues: 0 },
+        { month: Date.UTC(2024, 1, 1), login: "bob", commits: 0, pull_requests: 1, issues: 1 },
+      ]);
+      // Alice's first commit week (May 2023) comes from the statistics
+      expect(contributors.results).toEqual([
+        { login: "alice", first_contribution: Date.UTC(2023, 4, 1) },
+        { login: "bob", first_contribution: Date.UTC(2024, 1, 1) },
+        { login: "carol", first_contribution: Date.UTC(2024, 0, 1) },
+      ]);
+    });
+
+    it("should refresh each repository once a day", async () => {
+      // Arrange
+      const fetchMock = setupActivityMock();
+
+      // Act
+      await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+      vi.setSystemTime(new Date("2024-02-15T18:00:00Z"));
+
+      const sameDay = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      vi.setSystemTime(new Date("2024-02-16T01:00:00Z"));
+
+      const nextDay = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert: the first refresh reads a year back, later ones the previous month
+      const since = fetchMock.mock.calls
+        .filter(([url]) => url.includes("/commits?"))
+        .map(([url]) => new URL(url).searchParams.get("since"));
+
+      expect(await sameDay.json()).toMatchObject({ contributorActivity: 0 });
+      expect(await nextDay.json()).toMatchObject({ contributorActivity: 1 });
+      expect(since).toEqual(["2023-03-01T00:00:00.000Z", "2024-01-01T00:00:00.000Z"]);
+    });
+
+    it("should leave out the months a listing cut off at the page limit reached", async () => {
+      // Arrange: endless full pages of commits two hours apart, reaching back to late November
+      const fetchMock = setupActivityMock();
+      const base = Date.parse("2024-02-15T11:00:00Z");
+
+      fetchMock.mockImplementation(async (url: string) => {
+        const { pathname, searchParams } = new URL(url);
+
+        if (pathname.endsWith("/commits")) {
+          const first = (Number(searchParams.get("page")) - 1) * 100;
+
+          return Response.json(
+            Array.from({ length: 100 }, (_, i) => ({
+              author: user("alice"),
+              commit: { author: { date: new Date(base - (first + i) * 2 * 3600000).toISOString() } },
+            })),
+          );
+        }
+
+        if (pathname.endsWith("/issues")) {
+          return Response.json([]);
+        }
+
+        return pathname.endsWith("/releases") && searchParams.get("page") === "1"
+          ? Response.json(mockReleases)
+          : Response.json([]);
+      });
+
+      // Act
+      await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert: November is only partly read, so the months start in December
+      const activity = await env.STATS_DB.prepare(
+        "SELECT month, commits FROM contributor_activity_monthly ORDER BY month",
+      ).all();
+
+      expect(fetchMock.mock.calls.filter(([url]) => url.includes("/commits?"))).toHaveLength(10);
+      expect(activity.results).toEqual([
+        { month: Date.UTC(2023, 11, 1), commits: 372 },
+        { month: Date.UTC(2024, 0, 1), commits: 372 },
+        { month: Date.UTC(2024, 1, 1), commits: 174 },
+      ]);
+    });
+
+    it("should fall back to the stored months while GitHub computes the statistics", async () => {
+      // Arrange
+      setupActivityMock(202);
+
+      // Act
+      await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      const alice = await env.STATS_DB.prepare("SELECT first_contribution FROM contributors WHERE login = ?")
+        .bind("alice")
+        .first<{ first_contribution: number }>();
+
+      expect(alice?.first_contribution).toBe(Date.UTC(2024, 0, 1));
+    });
+
+    it("should not fail the collection when the activity can't be read", async () => {
+      // Arrange: the generic mock answers the commits request with a release list
+      setupGitHubMock();
+
+      // Act
+      const response = await worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ releasesProcessed: 3, contributorActivity: 0 });
+
+      const repository = await env.STATS_DB.prepare("SELECT contributors_refreshed_at FROM repositories").first();
+
+      expect(repository).toEqual({ contributors_refreshed_at: null });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Anomaly Detection Tests
+  // -------------------------------------------------------------------------
+
+  describe("Anomaly Detection", () => {
+    /** Collects with mockReleases, with the given asset replacements for v1.0.0. */
+    async function collectWithAssets(assets: MockRelease["assets"]): Promise<Response> {
+      const releases = [{ ...mockReleases[0], assets }, ...mockReleases.slice(1)];
+
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => Response.json(releases)),
+      );
+
+      return worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), env);
+    }
+
+    async function storedAnomalies(): Promise<Array<{ tag: string; kind: string; asset_id: number; delta: number }>> {
+      const rows = await env.STATS_DB.prepare(
+        `SELECT r.tag, a.kind, a.asset_id, a.delta FROM anomalies a
+         JOIN releases r ON r.id = a.release_id ORDER BY a.id`,
+      ).all<{ tag: string; kind: string; asset_id: number; delta: number }>();
+
+      return rows.results;
+    }
+
+    it("should record an asset counter that went backwards once", async () => {
+      // Arrange
+      await collectWithAssets(mockReleases[0].assets);
+
+      // Act: GitHub reports fewer downloads for the Windows asset, twice
+      const lowered = [{ ...mockReleases[0].assets[0], download_count: 900 }, mockReleases[0].assets[1]];
+
+      const response = await collectWithAssets(lowered);
+      await collectWithAssets(lowered);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await storedAnomalies()).toEqual([{ tag: "v1.0.0", kind: "negative_delta", asset_id: 101, delta: -100 }]);
+    });
+
+    it("should record an asset counter going backwards again on a later day", async () => {
+      vi.useFakeTimers();
+
+      try {
+        // Arrange
+        vi.setSystemTime(new Date("2024-01-26T12:00:00Z"));
+        await collectWithAssets(mockReleases[0].assets);
+        vi.setSystemTime(new Date("2024-01-27T12:00:00Z"));
+        await collectWithAssets([{ ...mockReleases[0].assets[0], download_count: 900 }, mockReleases[0].assets[1]]);
+
+        // Act
+        vi.setSystemTime(new Date("2024-01-28T12:00:00Z"));
+        await collectWithAssets([{ ...mockReleases[0].assets[0], download_count: 850 }, mockReleases[0].assets[1]]);
+
+        // Assert
+        expect(await storedAnomalies()).toEqual([
+          { tag: "v1.0.0", kind: "negative_delta", asset_id: 101, delta: -100 },
+          { tag: "v1.0.0", kind: "negative_delta", asset_id: 101, delta: -150 },
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should record an asset re-uploaded under a new ID", async () => {
+      // Arrange
+      await collectWithAssets(mockReleases[0].assets);
+
+      // Act
+      await collectWithAssets([
+        { id: 103, name: "v1.0.0-windows.zip", download_count: 5, created_at: "2024-02-01T12:00:00Z" },
+        mockReleases[0].assets[1],
+      ]);
+
+      // Assert
+      expect(await storedAnomalies()).toEqual([{ tag: "v1.0.0", kind: "asset_reupload", asset_id: 103, delta: -995 }]);
+    });
+
+    it("should record a daily increase far above the trailing window as a spike", async () => {
+      // Arrange: three weeks of about ten downloads a day, then a jump of 500 today
+      await collectWithAssets(mockReleases[0].assets);
+
+      const today = Math.floor(Date.now() / 86400000) * 86400000;
+      const release = await env.STATS_DB.prepare("SELECT id FROM releases WHERE tag = 'v1.0.0'").first<{
+        id: number;
+      }>();
+      const history = env.STATS_DB.prepare("INSERT INTO downloads_daily (date, release_id, count) VALUES (?, ?, ?)");
+
+      await env.STATS_DB.batch(
+        Array.from({ length: 21 }, (_, i) =>
+          history.bind(today - (i + 1) * 86400000, release!.id, 1000 - i * 10 - (i % 2)),
+        ),
+      );
+
+      // Act
+      await collectWithAssets(mockReleases[0].assets);
+
+      // Assert
+      expect(await storedAnomalies()).toEqual([{ tag: "v1.0.0", kind: "spike", asset_id: 0, delta: 500 }]);
+    });
+
+    it("should not flag steady growth", async () => {
+      // Arrange
+      await collectWithAssets(mockReleases[0].assets);
+
+      // Act: the next collection adds a normal amount of downloads
+      await collectWithAssets([{ ...mockReleases[0].assets[0], download_count: 1010 }, mockReleases[0].assets[1]]);
+
+      // Assert
+      expect(await storedAnomalies()).toEqual([]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Webhooks
+  // -------------------------------------------------------------------------
+
+  describe("Webhooks", () => {
+    const hookUrl = "https://hooks.example.test/stats";
+    const discordUrl = "https://discord.com/api/webhooks/1/token";
+    const secret = "test-webhook-secret";
+
+    /** A request received by the stand-in webhook receiver. */
+    interface ReceivedHook {
+      url: string;
+      headers: Headers;
+      body: string;
+    }
+
+    /**
+     * Stands in for GitHub and the webhook receivers. GitHub serves `releases`
+     * (or `githubStatus` when set); receivers answer with the next status in
+     * `hookStatuses`, 204 once it runs out, or refuse connections when `unreachable`.
+     */
+    function setupReceiver(
+      releases: MockRelease[],
+      options: { githubStatus?: number; hookStatuses?: number[]; unreachable?: boolean } = {},
+    ): ReceivedHook[] {
+      const received: ReceivedHook[] = [];
+      const hookStatuses = [...(options.hookStatuses ?? [])];
+
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (url: string, init?: RequestInit) => {
+          if (url.startsWith("https://api.github.com/")) {
+            return options.githubStatus
+              ? new Response("error", { status: options.githubStatus })
+              : Response.json(releases);
+          }
+
+          if (options.unreachable) {
+            throw new Error("connection refused");
+          }
+
+          received.push({ url, headers: new Headers(init?.headers), body: String(init?.body) });
+
+          return new Response(null, { status: hookStatuses.shift() ?? 204 });
+        }),
+      );
+
+      return received;
+    }
+
+    async function collect(urls = hookUrl): Promise<Response> {
+      return worker.fetch(createRequest("http://localhost/collect", { method: "POST" }), {
+        ...env,
+        WEBHOOK_URLS: urls,
+        WEBHOOK_SECRET: secret,
+      });
+    }
+
+    async function hmac(timestamp: string, body: string): Promise<string> {
+      const encoder = new TextEncoder();
+      const key = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"],
+      );
+      const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+
+      return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+    }
+
+    it("should not send events for the first collection of a repository", async () => {
+      // Arrange
+      const received = setupReceiver(mockReleases);
+
+      // Act
+      const response = await collect();
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(received).toEqual([]);
+    });
+
+    it("should send signed events for new releases and crossed milestones", async () => {
+      // Arrange
+      setupReceiver(mockReleases);
+      await collect();
+
+      const newRelease: MockRelease = {
+        tag_name: "v1.1.0",
+        name: "Version 1.1.0",
+        draft: false,
+        prerelease: false,
+        published_at: "2024-02-01T12:00:00Z",
+        assets: [{ id: 601, name: "v1.1.0-windows.zip", download_count: 3, created_at: "2024-02-01T12:00:00Z" }],
+      };
+      const received = setupReceiver([
+        newRelease,
+        {
+          ...mockReleases[0],
+          assets: [{ ...mockReleases[0].assets[0], download_count: 2100 }, mockReleases[0].assets[1]],
+        },
+        ...mockReleases.slice(1),
+      ]);
+
+      // Act
+      await collect();
+
+      // Assert
+      expect(received.map((hook) => JSON.parse(hook.body))).toEqual([
+        {
+          event: "release.published",
+          createdAt: expect.any(Number),
+          data: {
+            repository: "cli/cli",
+            tag: "v1.1.0",
+            name: "Version 1.1.0",
+            publishedAt: Date.parse("2024-02-01T12:00:00Z"),
+          },
+        },
+        {
+          event: "milestone.reached",
+          createdAt: expect.any(Number),
+          data: { repository: "cli/cli", tag: "v1.0.0", milestone: 2500, downloads: 2600 },
+        },
+      ]);
+
+      for (const hook of received) {
+        const timestamp = hook.headers.get("X-LichtFeld-Timestamp")!;
+
+        expect(hook.url).toBe(hookUrl);
+        expect(hook.headers.get("X-LichtFeld-Event")).toBe(JSON.parse(hook.body).event);
+        expect(hook.headers.get("X-LichtFeld-Signature")).toBe(`sha256=${await hmac(timestamp, hook.body)}`);
+      }
+    });
+
+    it("should retry a failed delivery on the next run", async () => {
+      // Arrange: the receiver is down for the run that raises the event
+      setupReceiver(mockReleases);
+      await collect();
+
+      const withNewRelease = [{ ...mockReleases[0], tag_name: "v1.1.0" }, ...mockReleases];
+
+      setupReceiver(withNewRelease, { hookStatuses: [503] });
+      await collect();
+
+      const afterFailure = await env.STATS_DB.prepare(
+        "SELECT status, attempts, last_status, last_error FROM webhook_deliveries",
+      ).all();
+
+      // Act
+      const received = setupReceiver(withNewRelease);
+
+      await collect();
+
+      // Assert
+      expect(afterFailure.results).toEqual([
+        { status: "pending", attempts: 1, last_status: 503, last_error: "HTTP 503" },
+      ]);
+      expect(received).toHaveLength(1);
+      expect(JSON.parse(received[0].body).event).toBe("release.published");
+
+      const delivery = await env.STATS_DB.prepare(
+        "SELECT status, attempts, last_status, last_error, delivered_at FROM webhook_deliveries",
+      ).first<{
+        status: string;
+        attempts: number;
+        last_status: number;
+        last_error: string | null;
+        delivered_at: number;
+      }>();
+
+      expect(delivery).toMatchObject({ status: "delivered", attempts: 2, last_status: 204, last_error: null });
+      expect(delivery?.delivered_at).toBeGreaterThan(0);
+    });
+
+    it("should give up on a delivery after the maximum number of attempts", async () => {
+      // Arrange
+      setupReceiver(mockReleases);
+      await collect();
+      setupReceiver([{ ...mockReleases[0], tag_name: "v1.1.0" }, ...mockReleases], { hookStatuses: [500] });
+      await collect();
+      await env.STATS_DB.prepare("UPDATE webhook_deliveries SET attempts = 4").run();
+
+      // Act
+      const received = setupReceiver(mockReleases, { hookStatuses: [500] });
+
+      await collect();
+      await collect();
+
+      // Assert
+      expect(received).toHaveLength(1);
+
+      const delivery = await env.STATS_DB.prepare("SELECT status, attempts FROM webhook_deliveries").first();
+
+      expect(delivery).toEqual({ status: "failed", attempts: 5 });
+    });
+
+    it("should send a Discord message when the collection fails", async () => {
+      // Arrange
+      const received = setupReceiver([], { githubStatus: 500 });
+
+      // Act
+      const response = await collect(discordUrl);
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect(received).toHaveLength(1);
+      expect(received[0].url).toBe(discordUrl);
+      expect(received[0].headers.has("X-LichtFeld-Signature")).toBe(false);
+      expect(JSON.parse(received[0].body).embeds[0]).toMatchObject({
+        title: "collection.failed",
+        description: "Download statistics collection for cli/cli failed: GitHub API error: 500",
+      });
+    });
+
+    it("should only send an event when the collection starts failing", async () => {
+      // Arrange
+      setupReceiver([], { githubStatus: 500 });
+
+      // Act: two failed runs, a successful one, then another failure
+      await collect();
+      await collect();
+      setupReceiver(mockReleases);
+      await collect();
+      setupReceiver([], { githubStatus: 503 });
+      await collect();
+
+      // Assert
+      const deliveries = await env.STATS_DB.prepare("SELECT event, body FROM webhook_deliveries ORDER BY id").all<{
+        event: string;
+        body: string;
+      }>();
+
+      expect(deliveries.results.map((delivery) => [delivery.event, JSON.parse(delivery.body).data.error])).toEqual([
+        ["collection.failed", "GitHub API error: 500"],
+        ["collection.failed", "GitHub API error: 503"],
+      ]);
+    });
+
+    it("should not fail the collection when the receiver is unreachable", async () => {
+      // Arrange
+      setupReceiver(mockReleases);
+      await collect();
+      setupReceiver([{ ...mockReleases[0], tag_name: "v1.1.0" }, ...mockReleases], { unreachable: true });
+
+      // Act
+      const response = await collect();
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const delivery = await env.STATS_DB.prepare(
+        "SELECT status, last_status, last_error FROM webhook_deliveries",
+      ).first();
+
+      expect(delivery).toEqual({ status: "pending", last_status: null, last_error: "connection refused" });
+    });
+  });
 });
@@ -31,11 +31,23 @@ interface CollectResponse {
 // =============================================================================
 
 function createRequest(url: string, options?: RequestInit): IncomingRequest {
-  return new Request(url, options) as IncomingRequest;
+  const headers = new Headers(options?.headers);
+
+  // Admin routes such as POST /collect require the shared secret
+  if (!headers.has("Authorization")) {
+    headers.set("Authorization", `Bearer ${env.ADMIN_TOKEN}`);
+  }
+
+  return new Request(url, { ...options, headers }) as IncomingRequest;
 }
 
 async function clearDatabase(): Promise<void> {
   await env.STATS_DB.exec(`
+        DELETE FROM rate_limits;
+        DELETE FROM collection_runs;
+        DELETE FROM platform_downloads_monthly;
+        DELETE FROM platform_downloads_weekly;
+        DELETE FROM platform_downloads_daily;
         DELETE FROM release_assets;
         DELETE FROM downloads_monthly;
         DELETE FROM downloads_weekly;
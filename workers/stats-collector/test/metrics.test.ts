@@ -0,0 +1,79 @@
+/**
+ * workers/stats-collector/test/metrics.test.ts
+ *
+ * Unit tests for reading repository metrics and traffic from GitHub responses,
+ * and for when forbidden traffic is requested again.
+ */
+
+import { describe, it, expect } from "vitest";
+import { isTrafficDue, parseRepositoryMetrics, parseTraffic } from "../src/metrics";
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe("isTrafficDue", () => {
+  it("should request forbidden traffic again after 30 days", () => {
+    // Arrange
+    const today = Date.UTC(2024, 1, 15);
+
+    // Act & Assert
+    expect(isTrafficDue(null, today)).toBe(true);
+    expect(isTrafficDue(Date.UTC(2024, 0, 15, 23), today)).toBe(true);
+    expect(isTrafficDue(Date.UTC(2024, 0, 16, 6), today)).toBe(false);
+  });
+});
+
+describe("parseRepositoryMetrics", () => {
+  it("should read counts from a repository response", () => {
+    // Act
+    const metrics = parseRepositoryMetrics({
+      full_name: "MrNeRF/LichtFeld-Studio",
+      stargazers_count: 2400,
+      watchers_count: 2400,
+      subscribers_count: 45,
+      forks_count: 180,
+      open_issues_count: 62,
+    });
+
+    // Assert
+    expect(metrics).toEqual({ stars: 2400, forks: 180, watchers: 45, openIssues: 62 });
+  });
+
+  it("should reject responses without the counts", () => {
+    // Act & Assert
+    expect(() => parseRepositoryMetrics([])).toThrow("Unexpected GitHub repository response");
+    expect(() => parseRepositoryMetrics({ stargazers_count: 1, forks_count: 1 })).toThrow(
+      "Unexpected GitHub repository response",
+    );
+    expect(() => parseRepositoryMetrics(null)).toThrow("Unexpected GitHub repository response");
+  });
+});
+
+describe("parseTraffic", () => {
+  it("should read the daily series of a traffic response", () => {
+    // Act
+    const days = parseTraffic("clones", {
+      count: 7,
+      uniques: 4,
+      clones: [
+        { timestamp: "2024-01-15T00:00:00Z", count: 5, uniques: 3 },
+        { timestamp: "2024-01-16T00:00:00Z", count: 2, uniques: 1 },
+      ],
+    });
+
+    // Assert
+    expect(days).toEqual([
+      { date: Date.UTC(2024, 0, 15), count: 5, uniques: 3 },
+      { date: Date.UTC(2024, 0, 16), count: 2, uniques: 1 },
+    ]);
+  });
+
+  it("should reject a response for the other kind or with invalid entries", () => {
+    // Act & Assert
+    expect(() => parseTraffic("views", { count: 0, uniques: 0, clones: [] })).toThrow("missing 'views'");
+    expect(() => parseTraffic("views", { views: [{ timestamp: "yesterday", count: 1, uniques: 1 }] })).toThrow(
+      "invalid 'views' entry",
+    );
+  });
+});
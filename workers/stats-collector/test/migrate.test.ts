@@ -0,0 +1,142 @@
+/**
+ * workers/stats-collector/test/migrate.test.ts
+ *
+ * Tests for the shared D1 schema migration runner (db/migrate.ts).
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { env } from "cloudflare:test";
+import { applyMigrations, splitStatements } from "../../../db/migrate";
+import type { Migration } from "../../../db/migrate";
+import { MIGRATIONS } from "../../../db/migrations";
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Test migrations use versions far above the bundled ones. */
+const TEST_VERSION = 900;
+
+async function appliedVersions(): Promise<number[]> {
+  const rows = await env.STATS_DB.prepare("SELECT version FROM schema_migrations ORDER BY version").all<{
+    version: number;
+  }>();
+
+  return rows.results.map((row) => row.version);
+}
+
+async function tableColumns(table: string): Promise<string[]> {
+  const info = await env.STATS_DB.prepare(`PRAGMA table_info(${table})`).all<{ name: string }>();
+
+  return info.results.map((column) => column.name);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Schema migrations", () => {
+  afterEach(async () => {
+    await env.STATS_DB.exec("DROP TABLE IF EXISTS migration_widgets;");
+    await env.STATS_DB.prepare("DELETE FROM schema_migrations WHERE version >= ?").bind(TEST_VERSION).run();
+  });
+
+  it("should record every bundled migration", async () => {
+    // Act
+    const result = await applyMigrations(env.STATS_DB);
+
+    // Assert
+    expect(result.applied).toEqual([]);
+    expect(result.version).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+    expect(await appliedVersions()).toEqual(MIGRATIONS.map((migration) => migration.version));
+  });
+
+  it("should use unique, increasing versions for bundled migrations", () => {
+    // Act
+    const versions = MIGRATIONS.map((migration) => migration.version);
+
+    // Assert
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+
+  it("should apply pending migrations in version order", async () => {
+    // Arrange: listed out of order on purpose
+    const migrations: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: TEST_VERSION + 1,
+        name: "add_widget_color",
+        sql: "ALTER TABLE migration_widgets ADD COLUMN color TEXT;",
+      },
+      {
+        version: TEST_VERSION,
+        name: "create_widgets",
+        sql: "-- Widgets\nCREATE TABLE migration_widgets (id INTEGER PRIMARY KEY, name TEXT NOT NULL);",
+      },
+    ];
+
+    // Act
+    const result = await applyMigrations(env.STATS_DB, migrations);
+
+    // Assert
+    expect(result).toEqual({
+      applied: [
+        { version: TEST_VERSION, name: "create_widgets" },
+        { version: TEST_VERSION + 1, name: "add_widget_color" },
+      ],
+      version: TEST_VERSION + 1,
+    });
+    expect(await tableColumns("migration_widgets")).toEqual(["id", "name", "color"]);
+
+    // Act: a second run finds nothing to do
+    const rerun = await applyMigrations(env.STATS_DB, migrations);
+
+    // Assert
+    expect(rerun.applied).toEqual([]);
+  });
+
+  it("should roll back a failing migration without recording it", async () => {
+    // Arrange
+    const migrations: Migration[] = [
+      {
+        version: TEST_VERSION,
+        name: "broken",
+        sql: "CREATE TABLE migration_widgets (id INTEGER PRIMARY KEY);\nINSERT INTO missing_table VALUES (1);",
+      },
+    ];
+
+    // Act & Assert
+    await expect(applyMigrations(env.STATS_DB, migrations)).rejects.toThrow(
+      `Migration ${TEST_VERSION} (broken) failed`,
+    );
+    expect(await tableColumns("migration_widgets")).toEqual([]);
+    expect(await appliedVersions()).not.toContain(TEST_VERSION);
+  });
+
+  it("should skip ADD COLUMN statements for columns that already exist", async () => {
+    // Arrange: the old ad hoc collector schema code already added this column
+    const migrations: Migration[] = [
+      {
+        version: TEST_VERSION,
+        name: "estimated_again",
+        sql: "ALTER TABLE downloads_daily ADD COLUMN estimated INTEGER NOT NULL DEFAULT 0;",
+      },
+    ];
+
+    // Act
+    const result = await applyMigrations(env.STATS_DB, migrations);
+
+    // Assert
+    expect(result.applied).toEqual([{ version: TEST_VERSION, name: "estimated_again" }]);
+    expect(await appliedVersions()).toContain(TEST_VERSION);
+  });
+
+  it("should split scripts into statements without comment-only fragments", () => {
+    // Act
+    const statements = splitStatements("-- Header\nCREATE TABLE a (id INTEGER);\n\nDROP TABLE a; -- trailing note\n");
+
+    // Assert
+    expect(statements).toEqual(["-- Header\nCREATE TABLE a (id INTEGER)", "DROP TABLE a"]);
+  });
+});
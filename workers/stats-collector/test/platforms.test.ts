@@ -0,0 +1,101 @@
+/**
+ * workers/stats-collector/test/platforms.test.ts
+ *
+ * Unit tests for release asset platform classification.
+ */
+
+import { describe, it, expect } from "vitest";
+import { classifyAsset, platformKey } from "../src/platforms";
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe("classifyAsset", () => {
+  it("should classify a portable Windows CUDA build", () => {
+    // Act
+    const result = classifyAsset("LichtFeld-Studio-v0.5.3-windows-x64-cuda12.8-portable.zip");
+
+    // Assert
+    expect(result).toEqual({
+      platform: "windows-x64-cuda12.8-portable",
+      os: "windows",
+      arch: "x64",
+      cuda: "12.8",
+      variant: "portable",
+    });
+  });
+
+  it("should classify Windows installers", () => {
+    // Act
+    const exe = classifyAsset("LichtFeld-Studio-Setup-v0.5.3.exe");
+    const msi = classifyAsset("LichtFeld-Studio-v0.5.3-win64.msi");
+
+    // Assert
+    expect(exe.os).toBe("windows");
+    expect(exe.variant).toBe("installer");
+    expect(msi.os).toBe("windows");
+    expect(msi.arch).toBe("x64");
+    expect(msi.variant).toBe("installer");
+  });
+
+  it("should classify Linux AppImages as portable", () => {
+    // Act
+    const result = classifyAsset("LichtFeld-Studio-v0.5.3-x86_64.AppImage");
+
+    // Assert
+    expect(result.os).toBe("linux");
+    expect(result.arch).toBe("x64");
+    expect(result.variant).toBe("portable");
+  });
+
+  it("should parse the short cuXYZ CUDA form", () => {
+    // Act
+    const result = classifyAsset("lichtfeld-linux-aarch64-cu124.tar.gz");
+
+    // Assert
+    expect(result.os).toBe("linux");
+    expect(result.arch).toBe("arm64");
+    expect(result.cuda).toBe("12.4");
+    expect(result.platform).toBe("linux-arm64-cuda12.4-portable");
+  });
+
+  it("should classify nightly archives from the rolling release", () => {
+    // Act
+    const result = classifyAsset("LichtFeld-Studio-windows-nightly-2024-01-25.zip");
+
+    // Assert
+    expect(result.platform).toBe("windows-x64-portable");
+  });
+
+  it("should classify source archives without architecture or CUDA", () => {
+    // Act
+    const result = classifyAsset("v2.0.0-source.tar.gz");
+
+    // Assert
+    expect(result).toEqual({
+      platform: "source-unknown-portable",
+      os: "source",
+      arch: "unknown",
+      cuda: null,
+      variant: "portable",
+    });
+  });
+
+  it("should fall back to unknown for unrecognised names", () => {
+    // Act
+    const result = classifyAsset("checksums.txt");
+
+    // Assert
+    expect(result.os).toBe("unknown");
+    expect(result.arch).toBe("unknown");
+    expect(result.platform).toBe("unknown-unknown-portable");
+  });
+});
+
+describe("platformKey", () => {
+  it("should omit the CUDA segment for CPU builds", () => {
+    expect(platformKey("macos", "arm64", null, "installer")).toBe("macos-arm64-installer");
+    expect(platformKey("linux", "x64", "11.8", "portable")).toBe("linux-x64-cuda11.8-portable");
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * workers/stats-collector/test/webhooks.test.ts
+ *
+ * Unit tests for webhook events, payloads and signatures.
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildPayload, isDiscordWebhook, milestoneCrossed, parseWebhookUrls, signPayload } from "../src/webhooks";
+import type { WebhookEvent } from "../src/webhooks";
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const milestone: WebhookEvent = {
+  type: "milestone.reached",
+  repository: "MrNeRF/LichtFeld-Studio",
+  tag: "v1.0.0",
+  milestone: 10000,
+  downloads: 10042,
+};
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe("milestoneCrossed", () => {
+  it("should return the round total between the two counts", () => {
+    expect(milestoneCrossed(980, 1010)).toBe(1000);
+    expect(milestoneCrossed(2400, 2500)).toBe(2500);
+    expect(milestoneCrossed(49_000, 51_000)).toBe(50_000);
+  });
+
+  it("should return only the largest milestone when several are crossed", () => {
+    expect(milestoneCrossed(900, 6000)).toBe(5000);
+  });
+
+  it("should return null when no milestone is crossed", () => {
+    expect(milestoneCrossed(1000, 1200)).toBeNull();
+    expect(milestoneCrossed(10, 999)).toBeNull();
+    expect(milestoneCrossed(3000, 2000)).toBeNull();
+  });
+});
+
+describe("parseWebhookUrls", () => {
+  it("should split comma and whitespace separated URLs and drop invalid ones", () => {
+    expect(parseWebhookUrls(" https://a.test/hook, http://b.test/hook\nftp://c.test not-a-url ")).toEqual([
+      "https://a.test/hook",
+      "http://b.test/hook",
+    ]);
+  });
+
+  it("should return no URLs when unset", () => {
+    expect(parseWebhookUrls(undefined)).toEqual([]);
+    expect(parseWebhookUrls("")).toEqual([]);
+  });
+});
+
+describe("isDiscordWebhook", () => {
+  it("should recognise Discord webhook URLs only", () => {
+    expect(isDiscordWebhook("https://discord.com/api/webhooks/1/token")).toBe(true);
+    expect(isDiscordWebhook("https://discordapp.com/api/webhooks/1/token")).toBe(true);
+    expect(isDiscordWebhook("https://discord.com/channels/1")).toBe(false);
+    expect(isDiscordWebhook("https://hooks.example.test/api/webhooks/1")).toBe(false);
+  });
+});
+
+describe("buildPayload", () => {
+  it("should wrap the event for generic receivers", () => {
+    // Act
+    const payload = JSON.parse(buildPayload("https://hooks.example.test/stats", milestone, 1706180400000));
+
+    // Assert
+    expect(payload).toEqual({
+      event: "milestone.reached",
+      createdAt: 1706180400000,
+      data: { repository: "MrNeRF/LichtFeld-Studio", tag: "v1.0.0", milestone: 10000, downloads: 10042 },
+    });
+  });
+
+  it("should build a Discord embed for Discord URLs", () => {
+    // Act
+    const payload = JSON.parse(buildPayload("https://discord.com/api/webhooks/1/token", milestone, 1706180400000));
+
+    // Assert
+    expect(payload.embeds).toHaveLength(1);
+    expect(payload.embeds[0]).toMatchObject({
+      title: "milestone.reached",
+      description: "MrNeRF/LichtFeld-Studio v1.0.0 passed 10,000 downloads",
+      timestamp: "2024-01-25T11:00:00.000Z",
+    });
+  });
+});
+
+describe("signPayload", () => {
+  it("should compute the HMAC-SHA256 of the timestamp and body", async () => {
+    // Act
+    const signature = await signPayload("secret", 1, "{}");
+
+    // Assert: echo -n '1.{}' | openssl dgst -sha256 -hmac secret
+    expect(signature).toBe("1122767b193110cfec322b6f199b599edbf608ed087f2d27afb0b97d99523908");
+  });
+});
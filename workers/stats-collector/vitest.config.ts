@@ -7,55 +7,8 @@
  * Reference: https://developers.cloudflare.com/workers/testing/vitest-integration/
  */
 
-import path from "node:path";
-import fs from "node:fs";
 import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
 
-// =============================================================================
-// D1 Schema Loading
-// =============================================================================
-
-/**
- * Parse the D1 schema SQL file into an array of individual statements.
- * Handles multi-line statements and filters out comment-only lines.
- */
-function loadSchemaStatements(): string[] {
-    const schemaPath = path.resolve(__dirname, "../../db/schema.sql");
-    const schemaContent = fs.readFileSync(schemaPath, "utf-8");
-
-    // Split by semicolons, handling multi-line statements
-    const rawStatements = schemaContent.split(";");
-
-    // Process each statement
-    const statements: string[] = [];
-
-    for (const raw of rawStatements) {
-        // Remove leading/trailing whitespace
-        const trimmed = raw.trim();
-
-        if (trimmed.length === 0) {
-            continue;
-        }
-
-        // Check if this is just comment lines (no actual SQL)
-        const lines = trimmed.split("\n");
-        const nonCommentLines = lines.filter((line) => {
-            const l = line.trim();
-
-            return l.length > 0 && !l.startsWith("--");
-        });
-
-        if (nonCommentLines.length === 0) {
-            continue;
-        }
-
-        // This is a valid SQL statement
-        statements.push(trimmed);
-    }
-
-    return statements;
-}
-
 // =============================================================================
 // Configuration Export
 // =============================================================================
@@ -68,7 +21,7 @@ export default defineWorkersConfig({
         // Timeout for async operations (GitHub API mock, D1 operations)
         testTimeout: 30000,
 
-        // Setup file to apply schema before tests
+        // Setup file to apply migrations before tests
         setupFiles: ["./test/setup.ts"],
 
         // Pool options for the Workers runtime
@@ -81,14 +34,18 @@ export default defineWorkersConfig({
 
                 // Override miniflare options for testing
                 miniflare: {
-                    // Pass schema statements and credentials to the test environment
+                    // Pass credentials to the test environment
                     bindings: {
-                        TEST_SCHEMA_STATEMENTS: loadSchemaStatements(),
-
                         // Override GitHub credentials for testing
                         GITHUB_OWNER: "cli",
                         GITHUB_REPO: "cli",
                         GITHUB_TOKEN: "test-token",
+
+                        // Only collect the configured repository unless a test sets a registry
+                        PLUGIN_REGISTRY_URL: "",
+
+                        // Shared secret for admin routes
+                        ADMIN_TOKEN: "test-admin-token",
                     },
                 },
             },
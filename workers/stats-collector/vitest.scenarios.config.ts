@@ -0,0 +1,50 @@
+/**
+ * workers/stats-collector/vitest.scenarios.config.ts
+ *
+ * Vitest configuration for the end-to-end scenarios in scenarios/, which run
+ * weeks of hourly collections against the fake GitHub API in dev/. Kept out
+ * of the regular test run because each scenario takes a while.
+ *
+ * Usage: pnpm test:scenarios
+ */
+
+import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+
+// =============================================================================
+// Configuration Export
+// =============================================================================
+
+export default defineWorkersConfig({
+    test: {
+        include: ["scenarios/**/*.scenario.ts"],
+
+        // Hundreds of collections per scenario
+        testTimeout: 300000,
+
+        // Same migrations and bindings as the tests
+        setupFiles: ["./test/setup.ts"],
+
+        poolOptions: {
+            workers: {
+                // Scenarios write thousands of rows, more than isolated storage
+                // snapshots cope with. Each scenario clears the tables instead.
+                isolatedStorage: false,
+                singleWorker: true,
+
+                wrangler: {
+                    configPath: "./wrangler.toml",
+                },
+
+                miniflare: {
+                    bindings: {
+                        GITHUB_OWNER: "MrNeRF",
+                        GITHUB_REPO: "LichtFeld-Studio",
+                        GITHUB_TOKEN: "scenario-token",
+                        PLUGIN_REGISTRY_URL: "",
+                        ADMIN_TOKEN: "scenario-admin-token",
+                    },
+                },
+            },
+        },
+    },
+});